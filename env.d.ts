@@ -7,7 +7,23 @@ declare global {
       DFS_PASSWORD?: string;
       DFS_ENDPOINT_POST?: string;
       DFS_ENDPOINT_GET?: string;
+      DFS_ENDPOINT_BING_POST?: string;
+      DFS_ENDPOINT_BING_GET?: string;
+      DFS_ENDPOINT_YANDEX_POST?: string;
+      DFS_ENDPOINT_YANDEX_GET?: string;
+      SEARCH_PROVIDER?: string;
+      WEBHOOK_SECRET?: string;
+      THUMBNAIL_SIGNING_SECRET?: string;
+      ADMIN_API_TOKEN?: string;
+      RATE_LIMIT_CONFIG?: string;
+      UPLOAD_NORMALIZE?: string;
+      UPLOAD_MAX_DIMENSION?: string;
+      UPLOAD_RETENTION_HOURS?: string;
       NEXT_PUBLIC_R2_DOMAIN?: string;
+      R2_ACCOUNT_ID?: string;
+      R2_ACCESS_KEY_ID?: string;
+      R2_SECRET_ACCESS_KEY?: string;
+      R2_BUCKET_NAME?: string;
       NEXT_PUBLIC_SITE_URL?: string;
       TURNSTILE_SECRET_KEY?: string;
       NEXT_PUBLIC_TURNSTILE_SITE_KEY?: string;
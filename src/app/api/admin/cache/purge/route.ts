@@ -0,0 +1,67 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getEnv } from "@/lib/cf-env";
+import { assertAdminRequest } from "@/lib/api-keys";
+import {
+  parseCachePurgeInput,
+  purgeCacheByPrefix,
+} from "@/lib/search-cache-admin";
+import { createLogger } from "@/lib/logger";
+import {
+  errorResponseHeaders,
+  errorToResponse,
+  isAppError,
+} from "@/lib/errors";
+import { createRequestId } from "@/lib/request-id";
+
+export const runtime = "edge";
+
+const logger = createLogger("api:admin:cache");
+
+/**
+ * POST /api/admin/cache/purge
+ * Deletes search cache entries whose key starts with `{ prefix }`, in
+ * batches of up to 500; repeat while `complete` is false. Requires
+ * `Authorization: Bearer {ADMIN_API_TOKEN}`.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  const timing = logger.startTiming("POST /api/admin/cache/purge");
+
+  try {
+    const env = getEnv();
+    assertAdminRequest(env, request);
+    if (!env.KV_RATE_LIMIT) {
+      const response = NextResponse.json(
+        { error: "Cache storage unavailable." },
+        { status: 503 },
+      );
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({ requestId, status: 503, reason: "missing_kv" });
+      return response;
+    }
+
+    const { prefix } = await parseCachePurgeInput(request);
+    const result = await purgeCacheByPrefix(env.KV_RATE_LIMIT, prefix);
+
+    logger.info("Cache purged by prefix", { requestId, prefix, ...result });
+
+    const response = NextResponse.json(
+      { prefix, ...result },
+      { headers: { "Cache-Control": "no-store, max-age=0" } },
+    );
+    response.headers.set("X-Request-Id", requestId);
+    timing.end({ requestId, status: 200, deleted: result.deleted });
+    return response;
+  } catch (error) {
+    timing.endWithError(error, { requestId });
+    logger.error("Cache purge failed", error, { requestId });
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+    const response = NextResponse.json(errorToResponse(error), {
+      status: statusCode,
+      headers: errorResponseHeaders(error),
+    });
+    response.headers.set("X-Request-Id", requestId);
+    return response;
+  }
+}
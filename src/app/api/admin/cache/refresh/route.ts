@@ -0,0 +1,69 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getEnv } from "@/lib/cf-env";
+import { assertAdminRequest } from "@/lib/api-keys";
+import {
+  parseCacheEntryBody,
+  refreshCacheEntry,
+} from "@/lib/search-cache-admin";
+import { createLogger } from "@/lib/logger";
+import {
+  errorResponseHeaders,
+  errorToResponse,
+  isAppError,
+} from "@/lib/errors";
+import { createRequestId } from "@/lib/request-id";
+
+export const runtime = "edge";
+
+const logger = createLogger("api:admin:cache");
+
+/**
+ * POST /api/admin/cache/refresh
+ * Re-runs the search for `{ key }` or `{ imageUrl, imageHash?, provider? }`
+ * against the provider, bypassing the cache, and stores the fresh results.
+ * Returns `202` when the provider is still working on it. Requires
+ * `Authorization: Bearer {ADMIN_API_TOKEN}`.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  const timing = logger.startTiming("POST /api/admin/cache/refresh");
+
+  try {
+    const env = getEnv();
+    assertAdminRequest(env, request);
+    if (!env.KV_RATE_LIMIT) {
+      const response = NextResponse.json(
+        { error: "Cache storage unavailable." },
+        { status: 503 },
+      );
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({ requestId, status: 503, reason: "missing_kv" });
+      return response;
+    }
+
+    const query = await parseCacheEntryBody(request);
+    const result = await refreshCacheEntry(env, env.KV_RATE_LIMIT, query);
+
+    logger.info("Cache entry refreshed", { requestId, ...result });
+
+    const status = result.status === "pending" ? 202 : 200;
+    const response = NextResponse.json(result, {
+      status,
+      headers: { "Cache-Control": "no-store, max-age=0" },
+    });
+    response.headers.set("X-Request-Id", requestId);
+    timing.end({ requestId, status, results: result.results });
+    return response;
+  } catch (error) {
+    timing.endWithError(error, { requestId });
+    logger.error("Cache refresh failed", error, { requestId });
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+    const response = NextResponse.json(errorToResponse(error), {
+      status: statusCode,
+      headers: errorResponseHeaders(error),
+    });
+    response.headers.set("X-Request-Id", requestId);
+    return response;
+  }
+}
@@ -0,0 +1,118 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getEnv } from "@/lib/cf-env";
+import { assertAdminRequest } from "@/lib/api-keys";
+import {
+  describeCacheEntry,
+  parseCacheEntryQuery,
+  purgeCacheEntry,
+  resolveCacheEntryKey,
+} from "@/lib/search-cache-admin";
+import { createLogger } from "@/lib/logger";
+import {
+  errorResponseHeaders,
+  errorToResponse,
+  isAppError,
+} from "@/lib/errors";
+import { createRequestId } from "@/lib/request-id";
+
+export const runtime = "edge";
+
+const logger = createLogger("api:admin:cache");
+
+const NO_STORE = "no-store, max-age=0";
+
+const jsonResponse = (body: unknown, status: number, requestId: string) => {
+  const response = NextResponse.json(body, {
+    status,
+    headers: { "Cache-Control": NO_STORE },
+  });
+  response.headers.set("X-Request-Id", requestId);
+  return response;
+};
+
+const errorResponse = (error: unknown, requestId: string) => {
+  const statusCode = isAppError(error) ? error.statusCode : 500;
+  const response = NextResponse.json(errorToResponse(error), {
+    status: statusCode,
+    headers: { ...errorResponseHeaders(error), "Cache-Control": NO_STORE },
+  });
+  response.headers.set("X-Request-Id", requestId);
+  return response;
+};
+
+/**
+ * GET /api/admin/cache?key= | ?imageUrl=&imageHash=&provider=
+ * Returns one search cache entry with its age and expiry. Requires
+ * `Authorization: Bearer {ADMIN_API_TOKEN}`.
+ */
+export async function GET(request: NextRequest) {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  const timing = logger.startTiming("GET /api/admin/cache");
+
+  try {
+    const env = getEnv();
+    assertAdminRequest(env, request);
+    if (!env.KV_RATE_LIMIT) {
+      timing.end({ requestId, status: 503, reason: "missing_kv" });
+      return jsonResponse(
+        { error: "Cache storage unavailable." },
+        503,
+        requestId,
+      );
+    }
+
+    const query = parseCacheEntryQuery(request.nextUrl.searchParams);
+    const cacheKey = await resolveCacheEntryKey(env, query);
+    const entry = await describeCacheEntry(env.KV_RATE_LIMIT, cacheKey);
+    if (!entry) {
+      timing.end({ requestId, status: 404, reason: "not_cached" });
+      return jsonResponse(
+        { error: "No cached results for this image.", key: cacheKey },
+        404,
+        requestId,
+      );
+    }
+
+    timing.end({ requestId, status: 200, key: cacheKey });
+    return jsonResponse(entry, 200, requestId);
+  } catch (error) {
+    timing.endWithError(error, { requestId });
+    logger.error("Cache lookup failed", error, { requestId });
+    return errorResponse(error, requestId);
+  }
+}
+
+/**
+ * DELETE /api/admin/cache?key= | ?imageUrl=&imageHash=&provider=
+ * Purges one search cache entry.
+ */
+export async function DELETE(request: NextRequest) {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  const timing = logger.startTiming("DELETE /api/admin/cache");
+
+  try {
+    const env = getEnv();
+    assertAdminRequest(env, request);
+    if (!env.KV_RATE_LIMIT) {
+      timing.end({ requestId, status: 503, reason: "missing_kv" });
+      return jsonResponse(
+        { error: "Cache storage unavailable." },
+        503,
+        requestId,
+      );
+    }
+
+    const query = parseCacheEntryQuery(request.nextUrl.searchParams);
+    const cacheKey = await resolveCacheEntryKey(env, query);
+    const purged = await purgeCacheEntry(env.KV_RATE_LIMIT, cacheKey);
+
+    logger.info("Cache entry purged", { requestId, key: cacheKey, purged });
+
+    timing.end({ requestId, status: 200, key: cacheKey, purged });
+    return jsonResponse({ key: cacheKey, purged }, 200, requestId);
+  } catch (error) {
+    timing.endWithError(error, { requestId });
+    logger.error("Cache purge failed", error, { requestId });
+    return errorResponse(error, requestId);
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getEnv } from "@/lib/cf-env";
+import { assertAdminRequest } from "@/lib/api-keys";
+import { getCacheStats } from "@/lib/search-cache-admin";
+import { createLogger } from "@/lib/logger";
+import {
+  errorResponseHeaders,
+  errorToResponse,
+  isAppError,
+} from "@/lib/errors";
+import { createRequestId } from "@/lib/request-id";
+
+export const runtime = "edge";
+
+const logger = createLogger("api:admin:cache");
+
+/**
+ * GET /api/admin/cache/stats
+ * Entry counts, size and age distribution of the search cache. Requires
+ * `Authorization: Bearer {ADMIN_API_TOKEN}`.
+ */
+export async function GET(request: NextRequest) {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  const timing = logger.startTiming("GET /api/admin/cache/stats");
+
+  try {
+    const env = getEnv();
+    assertAdminRequest(env, request);
+    if (!env.KV_RATE_LIMIT) {
+      const response = NextResponse.json(
+        { error: "Cache storage unavailable." },
+        { status: 503 },
+      );
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({ requestId, status: 503, reason: "missing_kv" });
+      return response;
+    }
+
+    const stats = await getCacheStats(env.KV_RATE_LIMIT);
+    const response = NextResponse.json(stats, {
+      headers: { "Cache-Control": "no-store, max-age=0" },
+    });
+    response.headers.set("X-Request-Id", requestId);
+    timing.end({ requestId, status: 200, entries: stats.entries });
+    return response;
+  } catch (error) {
+    timing.endWithError(error, { requestId });
+    logger.error("Reading cache stats failed", error, { requestId });
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+    const response = NextResponse.json(errorToResponse(error), {
+      status: statusCode,
+      headers: errorResponseHeaders(error),
+    });
+    response.headers.set("X-Request-Id", requestId);
+    return response;
+  }
+}
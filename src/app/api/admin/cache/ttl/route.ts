@@ -0,0 +1,117 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getEnv } from "@/lib/cf-env";
+import { assertAdminRequest } from "@/lib/api-keys";
+import {
+  loadCacheTtlConfig,
+  SEARCH_CACHE_TTL_SECONDS,
+  storeCacheTtlConfig,
+  type CacheTtlConfig,
+} from "@/lib/search-cache";
+import { parseCacheTtlConfigInput } from "@/lib/search-cache-admin";
+import { createLogger } from "@/lib/logger";
+import {
+  errorResponseHeaders,
+  errorToResponse,
+  isAppError,
+} from "@/lib/errors";
+import { createRequestId } from "@/lib/request-id";
+
+export const runtime = "edge";
+
+const logger = createLogger("api:admin:cache");
+
+const NO_STORE = "no-store, max-age=0";
+
+const storageUnavailable = (requestId: string) => {
+  const response = NextResponse.json(
+    { error: "Cache storage unavailable." },
+    { status: 503 },
+  );
+  response.headers.set("X-Request-Id", requestId);
+  return response;
+};
+
+const errorResponse = (error: unknown, requestId: string) => {
+  const statusCode = isAppError(error) ? error.statusCode : 500;
+  const response = NextResponse.json(errorToResponse(error), {
+    status: statusCode,
+    headers: { ...errorResponseHeaders(error), "Cache-Control": NO_STORE },
+  });
+  response.headers.set("X-Request-Id", requestId);
+  return response;
+};
+
+const ttlResponse = (config: CacheTtlConfig, requestId: string) => {
+  const response = NextResponse.json(
+    {
+      defaultSeconds: SEARCH_CACHE_TTL_SECONDS,
+      overrides: config,
+      effective: {
+        hash: config.hash ?? SEARCH_CACHE_TTL_SECONDS,
+        url: config.url ?? SEARCH_CACHE_TTL_SECONDS,
+      },
+    },
+    { headers: { "Cache-Control": NO_STORE } },
+  );
+  response.headers.set("X-Request-Id", requestId);
+  return response;
+};
+
+/**
+ * GET /api/admin/cache/ttl
+ * Returns the search cache TTL per source type (`hash` or `url`). Requires
+ * `Authorization: Bearer {ADMIN_API_TOKEN}`.
+ */
+export async function GET(request: NextRequest) {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  const timing = logger.startTiming("GET /api/admin/cache/ttl");
+
+  try {
+    const env = getEnv();
+    assertAdminRequest(env, request);
+    if (!env.KV_RATE_LIMIT) {
+      timing.end({ requestId, status: 503, reason: "missing_kv" });
+      return storageUnavailable(requestId);
+    }
+
+    const config = await loadCacheTtlConfig(env.KV_RATE_LIMIT);
+    timing.end({ requestId, status: 200 });
+    return ttlResponse(config, requestId);
+  } catch (error) {
+    timing.endWithError(error, { requestId });
+    logger.error("Reading cache TTL failed", error, { requestId });
+    return errorResponse(error, requestId);
+  }
+}
+
+/**
+ * PUT /api/admin/cache/ttl
+ * Replaces the TTL overrides with `{ hash?, url? }` (seconds, 60 to 30 days).
+ * Omitted sources return to the default. Applies to entries written from
+ * now on; edge caches may serve the old config for up to a minute.
+ */
+export async function PUT(request: NextRequest) {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  const timing = logger.startTiming("PUT /api/admin/cache/ttl");
+
+  try {
+    const env = getEnv();
+    assertAdminRequest(env, request);
+    if (!env.KV_RATE_LIMIT) {
+      timing.end({ requestId, status: 503, reason: "missing_kv" });
+      return storageUnavailable(requestId);
+    }
+
+    const config = await parseCacheTtlConfigInput(request);
+    await storeCacheTtlConfig(env.KV_RATE_LIMIT, config);
+
+    logger.info("Cache TTL updated", { requestId, ...config });
+
+    timing.end({ requestId, status: 200 });
+    return ttlResponse(config, requestId);
+  } catch (error) {
+    timing.endWithError(error, { requestId });
+    logger.error("Updating cache TTL failed", error, { requestId });
+    return errorResponse(error, requestId);
+  }
+}
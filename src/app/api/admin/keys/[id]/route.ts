@@ -0,0 +1,72 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getEnv } from "@/lib/cf-env";
+import { assertAdminRequest, revokeApiKey } from "@/lib/api-keys";
+import { createLogger } from "@/lib/logger";
+import {
+  errorResponseHeaders,
+  errorToResponse,
+  isAppError,
+} from "@/lib/errors";
+import { createRequestId } from "@/lib/request-id";
+
+export const runtime = "edge";
+
+const logger = createLogger("api:admin:keys");
+
+/**
+ * DELETE /api/admin/keys/{id}
+ * Revokes an API key. Requires `Authorization: Bearer {ADMIN_API_TOKEN}`.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  const timing = logger.startTiming("DELETE /api/admin/keys");
+
+  try {
+    const env = getEnv();
+    assertAdminRequest(env, request);
+    if (!env.KV_RATE_LIMIT) {
+      const response = NextResponse.json(
+        { error: "Key storage unavailable." },
+        { status: 503 },
+      );
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({ requestId, status: 503, reason: "missing_kv" });
+      return response;
+    }
+
+    const { id } = await params;
+    const record = await revokeApiKey(env.KV_RATE_LIMIT, id);
+    if (!record) {
+      const response = NextResponse.json(
+        { error: "API key not found." },
+        { status: 404 },
+      );
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({ requestId, status: 404, reason: "key_not_found" });
+      return response;
+    }
+
+    logger.info("API key revoked", { requestId, apiKeyId: record.id });
+
+    const response = NextResponse.json(record, {
+      headers: { "Cache-Control": "no-store, max-age=0" },
+    });
+    response.headers.set("X-Request-Id", requestId);
+    timing.end({ requestId, status: 200, apiKeyId: record.id });
+    return response;
+  } catch (error) {
+    timing.endWithError(error, { requestId });
+    logger.error("Revoking API key failed", error, { requestId });
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+    const response = NextResponse.json(errorToResponse(error), {
+      status: statusCode,
+      headers: errorResponseHeaders(error),
+    });
+    response.headers.set("X-Request-Id", requestId);
+    return response;
+  }
+}
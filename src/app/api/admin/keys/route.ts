@@ -0,0 +1,107 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getEnv } from "@/lib/cf-env";
+import {
+  assertAdminRequest,
+  createApiKey,
+  listApiKeys,
+  parseCreateApiKeyInput,
+} from "@/lib/api-keys";
+import { createLogger } from "@/lib/logger";
+import {
+  errorResponseHeaders,
+  errorToResponse,
+  isAppError,
+} from "@/lib/errors";
+import { createRequestId } from "@/lib/request-id";
+
+export const runtime = "edge";
+
+const logger = createLogger("api:admin:keys");
+
+const NO_STORE = "no-store, max-age=0";
+
+const storageUnavailable = (requestId: string) => {
+  const response = NextResponse.json(
+    { error: "Key storage unavailable." },
+    { status: 503 },
+  );
+  response.headers.set("X-Request-Id", requestId);
+  return response;
+};
+
+const errorResponse = (error: unknown, requestId: string) => {
+  const statusCode = isAppError(error) ? error.statusCode : 500;
+  const response = NextResponse.json(errorToResponse(error), {
+    status: statusCode,
+    headers: { ...errorResponseHeaders(error), "Cache-Control": NO_STORE },
+  });
+  response.headers.set("X-Request-Id", requestId);
+  return response;
+};
+
+/**
+ * GET /api/admin/keys
+ * Lists API keys (metadata only). Requires `Authorization: Bearer {ADMIN_API_TOKEN}`.
+ */
+export async function GET(request: NextRequest) {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  const timing = logger.startTiming("GET /api/admin/keys");
+
+  try {
+    const env = getEnv();
+    assertAdminRequest(env, request);
+    if (!env.KV_RATE_LIMIT) {
+      timing.end({ requestId, status: 503, reason: "missing_kv" });
+      return storageUnavailable(requestId);
+    }
+
+    const keys = await listApiKeys(env.KV_RATE_LIMIT);
+    const response = NextResponse.json(
+      { keys },
+      { headers: { "Cache-Control": NO_STORE } },
+    );
+    response.headers.set("X-Request-Id", requestId);
+    timing.end({ requestId, status: 200, keys: keys.length });
+    return response;
+  } catch (error) {
+    timing.endWithError(error, { requestId });
+    logger.error("Listing API keys failed", error, { requestId });
+    return errorResponse(error, requestId);
+  }
+}
+
+/**
+ * POST /api/admin/keys
+ * Mints a key from `{ name, dailyLimit?, monthlyLimit? }`. The plaintext key
+ * is only returned in this response.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  const timing = logger.startTiming("POST /api/admin/keys");
+
+  try {
+    const env = getEnv();
+    assertAdminRequest(env, request);
+    if (!env.KV_RATE_LIMIT) {
+      timing.end({ requestId, status: 503, reason: "missing_kv" });
+      return storageUnavailable(requestId);
+    }
+
+    const input = await parseCreateApiKeyInput(request);
+    const { key, record } = await createApiKey(env.KV_RATE_LIMIT, input);
+
+    logger.info("API key created", { requestId, apiKeyId: record.id });
+
+    const response = NextResponse.json(
+      { key, ...record },
+      { status: 201, headers: { "Cache-Control": NO_STORE } },
+    );
+    response.headers.set("X-Request-Id", requestId);
+    timing.end({ requestId, status: 201, apiKeyId: record.id });
+    return response;
+  } catch (error) {
+    timing.endWithError(error, { requestId });
+    logger.error("Creating API key failed", error, { requestId });
+    return errorResponse(error, requestId);
+  }
+}
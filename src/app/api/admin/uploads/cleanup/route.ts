@@ -0,0 +1,59 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getEnv } from "@/lib/cf-env";
+import { assertAdminRequest } from "@/lib/api-keys";
+import { runUploadCleanup } from "@/lib/upload-cleanup";
+import { createLogger } from "@/lib/logger";
+import {
+  errorResponseHeaders,
+  errorToResponse,
+  isAppError,
+} from "@/lib/errors";
+import { createRequestId } from "@/lib/request-id";
+
+export const runtime = "edge";
+
+const logger = createLogger("api:admin:uploads");
+
+/**
+ * POST /api/admin/uploads/cleanup
+ * Deletes uploads older than UPLOAD_RETENTION_HOURS, for schedulers that
+ * cannot run the cleanup Worker. Requires `Authorization: Bearer {ADMIN_API_TOKEN}`.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  const timing = logger.startTiming("POST /api/admin/uploads/cleanup");
+
+  try {
+    const env = getEnv();
+    assertAdminRequest(env, request);
+
+    const result = await runUploadCleanup(env);
+    if (!result) {
+      const response = NextResponse.json(
+        { error: "Storage service unavailable." },
+        { status: 503 },
+      );
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({ requestId, status: 503, reason: "missing_r2" });
+      return response;
+    }
+
+    const response = NextResponse.json(result, {
+      headers: { "Cache-Control": "no-store, max-age=0" },
+    });
+    response.headers.set("X-Request-Id", requestId);
+    timing.end({ requestId, status: 200, deleted: result.deleted });
+    return response;
+  } catch (error) {
+    timing.endWithError(error, { requestId });
+    logger.error("Upload cleanup failed", error, { requestId });
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+    const response = NextResponse.json(errorToResponse(error), {
+      status: statusCode,
+      headers: errorResponseHeaders(error),
+    });
+    response.headers.set("X-Request-Id", requestId);
+    return response;
+  }
+}
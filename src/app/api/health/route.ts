@@ -2,7 +2,11 @@ import { NextResponse, type NextRequest } from "next/server";
 import { getEnv } from "@/lib/cf-env";
 import { createRequestLogger, formatTraceParent } from "@/lib/logger";
 import { recordHealthCheck } from "@/lib/metrics";
-import { dataForSEOCircuitBreaker } from "@/lib/circuit-breaker";
+import {
+  dataForSEOCircuitBreaker,
+  dataForSEOCircuitBreakers,
+  getDataForSEOCircuitStore,
+} from "@/lib/circuit-breaker";
 
 export const runtime = "edge";
 
@@ -79,7 +83,11 @@ async function checkDataForSEOHealth(env: ReturnType<typeof getEnv>): Promise<He
       };
     }
 
-    // Check circuit breaker state first
+    // Check circuit breaker state first, as shared by all isolates
+    const store = getDataForSEOCircuitStore(env.KV_RATE_LIMIT);
+    if (store) {
+      await dataForSEOCircuitBreaker.sync(store, true);
+    }
     const cbMetrics = dataForSEOCircuitBreaker.getMetrics();
     if (cbMetrics.state === "open") {
       return {
@@ -213,6 +221,8 @@ export async function GET(request: NextRequest) {
       response.build = BUILD_INFO;
       response.circuitBreaker = {
         dataforseo: dataForSEOCircuitBreaker.getMetrics(),
+        "dataforseo-bing": dataForSEOCircuitBreakers.bing.getMetrics(),
+        "dataforseo-yandex": dataForSEOCircuitBreakers.yandex.getMetrics(),
       };
     } else {
       // Simplified checks for basic health endpoint
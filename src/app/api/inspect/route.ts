@@ -0,0 +1,135 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getEnv } from "@/lib/cf-env";
+import { detectImageType } from "@/lib/image";
+import { extractImageMetadata } from "@/lib/image-metadata";
+import { getClientIp } from "@/lib/request";
+import { describeRateLimitReset, getRateLimitConfig } from "@/lib/rate-limit";
+import { enforceRateLimit, hasRateLimitStore } from "@/lib/durable-rate-limit";
+import { createLogger } from "@/lib/logger";
+import {
+  errorResponseHeaders,
+  errorToResponse,
+  isAppError,
+} from "@/lib/errors";
+import { createRequestId } from "@/lib/request-id";
+
+export const runtime = "edge";
+
+const logger = createLogger("api:inspect");
+
+const MAX_FILE_SIZE = 8 * 1024 * 1024;
+
+/**
+ * Reads the metadata an image carries (EXIF, IPTC, XMP, C2PA) without
+ * storing the file.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  const timing = logger.startTiming("POST /api/inspect");
+
+  try {
+    const env = getEnv();
+    // Metadata can be sensitive (GPS), so responses are never cached
+    const headers = new Headers({ "Cache-Control": "no-store" });
+
+    const rateLimitStart = Date.now();
+    if (hasRateLimitStore(env)) {
+      const rateConfig = getRateLimitConfig(env, "inspect");
+      const rate = await enforceRateLimit(
+        env,
+        getClientIp(request),
+        "inspect",
+        rateConfig,
+      );
+
+      if (!rate.allowed) {
+        const response = NextResponse.json(
+          {
+            error: `Inspection limit reached. ${describeRateLimitReset(rateConfig)}`,
+            resetAt: rate.resetAt,
+          },
+          {
+            status: 429,
+            headers: {
+              "X-RateLimit-Limit": String(rate.limit),
+              "X-RateLimit-Remaining": String(rate.remaining),
+              "X-RateLimit-Reset": rate.resetAt,
+            },
+          },
+        );
+        response.headers.set("X-Request-Id", requestId);
+        timing.end({ requestId, status: 429, reason: "rate_limited" });
+        return response;
+      }
+
+      headers.set("X-RateLimit-Limit", String(rate.limit));
+      headers.set("X-RateLimit-Remaining", String(rate.remaining));
+      headers.set("X-RateLimit-Reset", rate.resetAt);
+    }
+    timing.addMetric("rateLimit", rateLimitStart);
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+
+    if (!(file instanceof File) || file.size === 0) {
+      const response = NextResponse.json(
+        { error: "No file selected. Please choose an image to inspect." },
+        { status: 400 },
+      );
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({ requestId, status: 400, reason: "no_file" });
+      return response;
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      const response = NextResponse.json(
+        { error: "File too large. Maximum size is 8MB." },
+        { status: 413 },
+      );
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({ requestId, status: 413, reason: "file_too_large" });
+      return response;
+    }
+
+    const parseStart = Date.now();
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const type = detectImageType(bytes);
+
+    if (!type) {
+      const response = NextResponse.json(
+        { error: "Unsupported file type. Please choose an image file." },
+        { status: 415 },
+      );
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({ requestId, status: 415, reason: "unsupported_type" });
+      return response;
+    }
+
+    const metadata = extractImageMetadata(bytes);
+    timing.addMetric("parse", parseStart);
+
+    const response = NextResponse.json({ type, metadata }, { headers });
+    response.headers.set("X-Request-Id", requestId);
+    timing.end({
+      requestId,
+      status: 200,
+      fileType: type,
+      hasGps: Boolean(metadata.gps),
+      c2pa: metadata.sources.c2pa,
+    });
+    return response;
+  } catch (error) {
+    timing.endWithError(error, { requestId });
+    logger.error("Inspection failed", error, { requestId });
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+    const errorResponse = errorToResponse(error);
+
+    const response = NextResponse.json(errorResponse, {
+      status: statusCode,
+      headers: errorResponseHeaders(error),
+    });
+    response.headers.set("X-Request-Id", requestId);
+    return response;
+  }
+}
@@ -1,7 +1,12 @@
 import { NextResponse, type NextRequest } from "next/server";
 import { metrics } from "@/lib/metrics";
 import { createRequestLogger, formatTraceParent } from "@/lib/logger";
-import { dataForSEOCircuitBreaker } from "@/lib/circuit-breaker";
+import { getEnv } from "@/lib/cf-env";
+import {
+  dataForSEOCircuitBreakers,
+  getDataForSEOCircuitStore,
+} from "@/lib/circuit-breaker";
+import type { DataForSEOEngine } from "@/lib/dataforseo";
 
 export const runtime = "edge";
 
@@ -28,17 +33,19 @@ export async function GET(request: NextRequest) {
     const useJson =
       formatParam === "json" || acceptHeader.includes("application/json");
 
-    // Add circuit breaker metrics
-    const cbMetrics = dataForSEOCircuitBreaker.getMetrics();
-    metrics.setGauge("circuit_breaker_state", cbMetrics.state === "closed" ? 0 : cbMetrics.state === "half-open" ? 1 : 2, {
-      service: "dataforseo",
-    });
-    metrics.setGauge("circuit_breaker_failures_total", cbMetrics.totalFailures, {
-      service: "dataforseo",
-    });
-    metrics.setGauge("circuit_breaker_calls_total", cbMetrics.totalCalls, {
-      service: "dataforseo",
-    });
+    // Add circuit breaker metrics per engine, using the state shared through KV
+    const kv = getEnv().KV_RATE_LIMIT;
+    for (const [engine, breaker] of Object.entries(dataForSEOCircuitBreakers)) {
+      const store = getDataForSEOCircuitStore(kv, engine as DataForSEOEngine);
+      if (store) {
+        await breaker.sync(store, true);
+      }
+      const cbMetrics = breaker.getMetrics();
+      const labels = { service: "dataforseo", engine };
+      metrics.setGauge("circuit_breaker_state", cbMetrics.state === "closed" ? 0 : cbMetrics.state === "half-open" ? 1 : 2, labels);
+      metrics.setGauge("circuit_breaker_failures_total", cbMetrics.totalFailures, labels);
+      metrics.setGauge("circuit_breaker_calls_total", cbMetrics.totalCalls, labels);
+    }
 
     const durationMs = Date.now() - start;
     logger.requestEnd("GET", "/api/metrics", 200, durationMs);
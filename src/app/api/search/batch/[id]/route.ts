@@ -0,0 +1,94 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getEnv } from "@/lib/cf-env";
+import {
+  buildBatchView,
+  getSearchBatch,
+  refreshSearchBatch,
+} from "@/lib/search-batch";
+import { z } from "zod";
+import { createLogger } from "@/lib/logger";
+import {
+  errorResponseHeaders,
+  errorToResponse,
+  isAppError,
+} from "@/lib/errors";
+import { createRequestId } from "@/lib/request-id";
+
+export const runtime = "edge";
+
+const logger = createLogger("api:search:batch");
+
+const BatchIdSchema = z.string().uuid();
+
+/**
+ * GET /api/search/batch/{id}
+ * Returns per-item status and results, checking pending items first.
+ * Responds 202 while any item is pending and 200 once all have settled.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  const timing = logger.startTiming("GET /api/search/batch");
+
+  try {
+    const env = getEnv();
+    const kv = env.KV_RATE_LIMIT;
+    const parsed = BatchIdSchema.safeParse((await params).id);
+
+    if (!parsed.success) {
+      const response = NextResponse.json(
+        { error: "Invalid batch ID." },
+        { status: 400 },
+      );
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({ requestId, status: 400, reason: "invalid_batch_id" });
+      return response;
+    }
+
+    const readStart = Date.now();
+    const batch = kv ? await getSearchBatch(kv, parsed.data) : null;
+    timing.addMetric("batchRead", readStart);
+
+    if (!kv || !batch) {
+      const response = NextResponse.json(
+        { error: "Batch not found or expired." },
+        { status: 404 },
+      );
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({ requestId, status: 404, reason: "batch_not_found" });
+      return response;
+    }
+
+    const refreshStart = Date.now();
+    await refreshSearchBatch(kv, env, batch);
+    timing.addMetric("refresh", refreshStart);
+
+    const view = await buildBatchView(kv, batch);
+    const response = NextResponse.json(view, {
+      status: view.status === "pending" ? 202 : 200,
+    });
+    response.headers.set("X-Request-Id", requestId);
+    timing.end({
+      requestId,
+      status: view.status,
+      batchId: batch.id,
+      ...view.counts,
+    });
+    return response;
+  } catch (error) {
+    timing.endWithError(error, { requestId });
+    logger.error("Batch poll failed", error, { requestId });
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+    const errorResponse = errorToResponse(error);
+
+    const response = NextResponse.json(errorResponse, {
+      status: statusCode,
+      headers: errorResponseHeaders(error),
+    });
+    response.headers.set("X-Request-Id", requestId);
+    return response;
+  }
+}
@@ -0,0 +1,220 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getEnv } from "@/lib/cf-env";
+import { getClientIp } from "@/lib/request";
+import { describeRateLimitReset, getRateLimitConfig } from "@/lib/rate-limit";
+import { enforceRateLimit } from "@/lib/durable-rate-limit";
+import { verifyTurnstileToken } from "@/lib/turnstile";
+import {
+  apiKeyUsageHeaders,
+  authenticateApiKey,
+  checkApiKeyQuota,
+} from "@/lib/api-keys";
+import { getRequestedSearchProvider } from "@/lib/search-fanout";
+import {
+  buildBatchView,
+  countBatchSearches,
+  parseBatchSearchInput,
+  prepareSearchBatch,
+  submitSearchBatch,
+} from "@/lib/search-batch";
+import { createLogger } from "@/lib/logger";
+import {
+  errorResponseHeaders,
+  errorToResponse,
+  isAppError,
+} from "@/lib/errors";
+import { createRequestId } from "@/lib/request-id";
+
+export const runtime = "edge";
+
+const logger = createLogger("api:search:batch");
+
+const MAX_REQUEST_BODY_SIZE = 512 * 1024; // 512KB, room for 200 items
+
+/**
+ * POST /api/search/batch
+ * Submits up to 200 images in one request. Responds 202 with a batch ID
+ * to poll at GET /api/search/batch/{id}.
+ *
+ * Each image that is not cached costs one unit of the API key quota, or of
+ * the `batch` rate limit bucket for anonymous clients. A batch that does
+ * not fit in what is left is rejected whole.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  const timing = logger.startTiming("POST /api/search/batch");
+
+  try {
+    const contentLength = request.headers.get("content-length");
+    if (contentLength && parseInt(contentLength) > MAX_REQUEST_BODY_SIZE) {
+      const response = NextResponse.json(
+        { error: "Request too large. Split the batch into smaller requests." },
+        { status: 413 },
+      );
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({ requestId, status: 413, reason: "body_too_large" });
+      return response;
+    }
+
+    const env = getEnv();
+    const kv = env.KV_RATE_LIMIT;
+    if (!kv) {
+      const response = NextResponse.json(
+        { error: "Batch search is unavailable. Please try again later." },
+        { status: 503 },
+      );
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({ requestId, status: 503, reason: "missing_kv" });
+      return response;
+    }
+
+    const input = await parseBatchSearchInput(request);
+    const provider = getRequestedSearchProvider(env, {
+      provider: input.provider,
+      providers: input.providers,
+    });
+    const ip = getClientIp(request);
+
+    const authStart = Date.now();
+    const apiKey = await authenticateApiKey(kv, request);
+    timing.addMetric("auth", authStart);
+
+    if (!apiKey) {
+      const turnstileStart = Date.now();
+      const turnstile = await verifyTurnstileToken(
+        env,
+        input.turnstileToken ?? null,
+        ip,
+      );
+      timing.addMetric("turnstile", turnstileStart);
+
+      if (!turnstile.ok) {
+        const response = NextResponse.json(
+          { error: turnstile.error ?? "Security verification failed. Please refresh the page and try again." },
+          { status: 403 },
+        );
+        response.headers.set("X-Request-Id", requestId);
+        timing.end({ requestId, status: 403, reason: "turnstile_failed" });
+        return response;
+      }
+    }
+
+    const prepareStart = Date.now();
+    const batch = await prepareSearchBatch(kv, provider, input.items);
+    const searches = countBatchSearches(batch);
+    timing.addMetric("prepareBatch", prepareStart);
+
+    const rateLimitStart = Date.now();
+    let rateLimitHeaders: Record<string, string> = {};
+
+    if (searches === 0) {
+      // Fully cached batches send nothing to the provider
+      timing.addMetric("rateLimit", rateLimitStart);
+    } else if (apiKey) {
+      const usage = await checkApiKeyQuota(kv, apiKey, searches);
+      timing.addMetric("rateLimit", rateLimitStart);
+      rateLimitHeaders = apiKeyUsageHeaders(usage);
+
+      if (!usage.allowed) {
+        const resetAt = rateLimitHeaders["X-RateLimit-Reset"];
+        const retryAfterSeconds = Math.max(
+          1,
+          Math.ceil((new Date(resetAt).getTime() - Date.now()) / 1000),
+        );
+
+        const response = NextResponse.json(
+          {
+            error: `API key quota exceeded. This batch needs ${searches} searches.`,
+            resetAt,
+          },
+          {
+            status: 429,
+            headers: {
+              ...rateLimitHeaders,
+              "Retry-After": String(retryAfterSeconds),
+            },
+          },
+        );
+        response.headers.set("X-Request-Id", requestId);
+        timing.end({
+          requestId,
+          status: 429,
+          reason: "api_key_quota_exceeded",
+          apiKeyId: apiKey.id,
+        });
+        return response;
+      }
+    } else {
+      const rateConfig = getRateLimitConfig(env, "batch");
+      const rate = await enforceRateLimit(
+        env,
+        ip,
+        "batch",
+        rateConfig,
+        searches,
+      );
+      timing.addMetric("rateLimit", rateLimitStart);
+      rateLimitHeaders = {
+        "X-RateLimit-Limit": String(rate.limit),
+        "X-RateLimit-Remaining": String(rate.remaining),
+        "X-RateLimit-Reset": rate.resetAt,
+      };
+
+      if (!rate.allowed) {
+        const resetTime = new Date(rate.resetAt).getTime();
+        const retryAfterSeconds = Math.max(1, Math.ceil((resetTime - Date.now()) / 1000));
+
+        const response = NextResponse.json(
+          {
+            error: `Batch limit reached. This batch needs ${searches} searches and ${rate.remaining} are left. ${describeRateLimitReset(rateConfig)}`,
+            resetAt: rate.resetAt,
+          },
+          {
+            status: 429,
+            headers: {
+              ...rateLimitHeaders,
+              "Retry-After": String(retryAfterSeconds),
+            },
+          },
+        );
+        response.headers.set("X-Request-Id", requestId);
+        timing.end({ requestId, status: 429, reason: "rate_limited" });
+        return response;
+      }
+    }
+
+    const batchStart = Date.now();
+    await submitSearchBatch(kv, env, provider, batch, { requestId, ip });
+    timing.addMetric("createBatch", batchStart);
+
+    const view = await buildBatchView(kv, batch);
+    const response = NextResponse.json(view, {
+      status: view.status === "pending" ? 202 : 200,
+      headers: {
+        Location: `/api/search/batch/${batch.id}`,
+        ...rateLimitHeaders,
+      },
+    });
+    response.headers.set("X-Request-Id", requestId);
+    timing.end({
+      requestId,
+      status: view.status,
+      batchId: batch.id,
+      ...view.counts,
+    });
+    return response;
+  } catch (error) {
+    timing.endWithError(error, { requestId });
+    logger.error("Batch search request failed", error, { requestId });
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+    const errorResponse = errorToResponse(error);
+
+    const response = NextResponse.json(errorResponse, {
+      status: statusCode,
+      headers: errorResponseHeaders(error),
+    });
+    response.headers.set("X-Request-Id", requestId);
+    return response;
+  }
+}
@@ -0,0 +1,94 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getEnv } from "@/lib/cf-env";
+import { getClientIp } from "@/lib/request";
+import { describeRateLimitReset, getRateLimitConfig } from "@/lib/rate-limit";
+import { enforceRateLimit, hasRateLimitStore } from "@/lib/durable-rate-limit";
+import { enrichPages, parseEnrichInput } from "@/lib/result-enrichment";
+import { createLogger } from "@/lib/logger";
+import {
+  errorResponseHeaders,
+  errorToResponse,
+  isAppError,
+} from "@/lib/errors";
+import { createRequestId } from "@/lib/request-id";
+
+export const runtime = "edge";
+
+const logger = createLogger("api:search:enrich");
+
+/**
+ * Reads publish dates and Open Graph metadata from up to 10 result pages,
+ * so results can be sorted by earliest appearance.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  const timing = logger.startTiming("POST /api/search/enrich");
+
+  try {
+    const env = getEnv();
+    const headers = new Headers();
+
+    const rateLimitStart = Date.now();
+    if (hasRateLimitStore(env)) {
+      const rateConfig = getRateLimitConfig(env, "enrich");
+      const rate = await enforceRateLimit(
+        env,
+        getClientIp(request),
+        "enrich",
+        rateConfig,
+      );
+
+      if (!rate.allowed) {
+        const response = NextResponse.json(
+          {
+            error: `Publish date lookup limit reached. ${describeRateLimitReset(rateConfig)}`,
+            resetAt: rate.resetAt,
+          },
+          {
+            status: 429,
+            headers: {
+              "X-RateLimit-Limit": String(rate.limit),
+              "X-RateLimit-Remaining": String(rate.remaining),
+              "X-RateLimit-Reset": rate.resetAt,
+            },
+          },
+        );
+        response.headers.set("X-Request-Id", requestId);
+        timing.end({ requestId, status: 429, reason: "rate_limited" });
+        return response;
+      }
+
+      headers.set("X-RateLimit-Limit", String(rate.limit));
+      headers.set("X-RateLimit-Remaining", String(rate.remaining));
+      headers.set("X-RateLimit-Reset", rate.resetAt);
+    }
+    timing.addMetric("rateLimit", rateLimitStart);
+
+    const { pageUrls } = await parseEnrichInput(request);
+
+    const enrichStart = Date.now();
+    const pages = await enrichPages(env.KV_RATE_LIMIT, pageUrls);
+    timing.addMetric("enrich", enrichStart);
+
+    const response = NextResponse.json({ pages }, { headers });
+    response.headers.set("X-Request-Id", requestId);
+    timing.end({
+      requestId,
+      status: 200,
+      requested: pageUrls.length,
+      enriched: Object.keys(pages).length,
+    });
+    return response;
+  } catch (error) {
+    timing.endWithError(error, { requestId });
+    logger.error("Result enrichment failed", error, { requestId });
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+    const response = NextResponse.json(errorToResponse(error), {
+      status: statusCode,
+      headers: errorResponseHeaders(error),
+    });
+    response.headers.set("X-Request-Id", requestId);
+    return response;
+  }
+}
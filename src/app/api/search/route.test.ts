@@ -12,9 +12,22 @@ import {
   createMockEnv,
   createMockRequest,
   MockKVNamespace,
+  MockR2Bucket,
   restoreFetch,
 } from "@/test/setup";
+import { BLOCKLIST_KEY } from "@/lib/moderation";
 import type { AppEnv } from "@/lib/cf-env";
+import type { SearchResult } from "@/lib/search-provider";
+import { CircuitBreakerOpenError } from "@/lib/circuit-breaker";
+import { createApiKey, revokeApiKey } from "@/lib/api-keys";
+import {
+  buildCacheKey,
+  findNearDuplicate,
+  getCachedResult,
+  storeCachedResult,
+  storePerceptualHash,
+  storeTaskMapping,
+} from "@/lib/search-cache";
 
 // Mock the cf-env module to return our test env
 vi.mock("@/lib/cf-env", async (importOriginal) => {
@@ -27,11 +40,34 @@ vi.mock("@/lib/cf-env", async (importOriginal) => {
 
 // Mock dataforseo module
 vi.mock("@/lib/dataforseo", () => ({
+  parseCacheLookupInput: vi.fn(),
   parseImageSearchInput: vi.fn(),
-  resolveSearchResults: vi.fn(),
-  getSearchByImageTask: vi.fn(),
-  extractSearchResults: vi.fn(),
-  extractCheckUrl: vi.fn(),
+}));
+
+// Mock search provider registry with a single controllable provider
+const mockProvider = vi.hoisted(() => ({
+  id: "dataforseo",
+  createTask: vi.fn(),
+  fetchTask: vi.fn(),
+  resolve: vi.fn(),
+}));
+
+vi.mock("@/lib/search-fanout", () => ({
+  getRequestedSearchProvider: vi.fn(() => mockProvider),
+  getSearchProviderForTask: vi.fn(() => mockProvider),
+}));
+
+// The searched image is read over the network and hashed with the Images
+// binding, which tests don't have
+vi.mock("@/lib/match-classification", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/match-classification")>()),
+  hashSearchedImage: vi.fn(async () => ({
+    sha256: "0".repeat(64),
+    perceptualHash: null,
+    bytes: new Uint8Array([1]),
+    type: "image/jpeg",
+  })),
+  refineCachedMatchTypes: vi.fn(async () => undefined),
 }));
 
 // Mock turnstile module
@@ -46,13 +82,41 @@ vi.mock("@/lib/request-deduplication", () => ({
 
 import { getEnv } from "@/lib/cf-env";
 import {
+  parseCacheLookupInput,
   parseImageSearchInput,
-  resolveSearchResults,
-  getSearchByImageTask,
-  extractSearchResults,
-  extractCheckUrl,
 } from "@/lib/dataforseo";
+import {
+  getRequestedSearchProvider,
+  getSearchProviderForTask,
+} from "@/lib/search-fanout";
 import { verifyTurnstileToken } from "@/lib/turnstile";
+import {
+  hashSearchedImage,
+  refineCachedMatchTypes,
+} from "@/lib/match-classification";
+
+/** The searched image as hashSearchedImage reads it */
+const searchedImage = (
+  perceptualHash: string | null = null,
+  sha256 = "0".repeat(64),
+) => ({
+  sha256,
+  perceptualHash,
+  bytes: new Uint8Array([1]),
+  type: "image/jpeg",
+});
+
+/** JSON body of a search response, successful or not */
+type SearchResponse = {
+  taskId?: string;
+  provider?: string;
+  status?: "ready" | "pending";
+  results?: SearchResult[];
+  cached?: boolean | "near-duplicate";
+  error?: string;
+  code?: string;
+  context?: Record<string, unknown>;
+};
 
 describe("POST /api/search", () => {
   let env: AppEnv;
@@ -61,9 +125,9 @@ describe("POST /api/search", () => {
     env = createMockEnv();
     vi.mocked(getEnv).mockReturnValue(env);
     vi.mocked(verifyTurnstileToken).mockResolvedValue({ ok: true, skipped: true });
+    vi.mocked(parseCacheLookupInput).mockResolvedValue(null);
     vi.mocked(parseImageSearchInput).mockResolvedValue({
       imageUrl: "https://example.com/image.jpg",
-      imageHash: undefined,
       turnstileToken: undefined,
     });
     restoreFetch();
@@ -83,7 +147,7 @@ describe("POST /api/search", () => {
       });
 
       const response = await POST(request);
-      const data = await response.json();
+      const data = (await response.json()) as SearchResponse;
 
       expect(response.status).toBe(500);
       expect(data.error).toBeDefined();
@@ -99,7 +163,7 @@ describe("POST /api/search", () => {
       });
 
       const response = await POST(request);
-      const data = await response.json();
+      const data = (await response.json()) as SearchResponse;
 
       expect(response.status).toBe(413);
       expect(data.error).toContain("too large");
@@ -124,7 +188,7 @@ describe("POST /api/search", () => {
       });
 
       const response = await POST(request);
-      const data = await response.json();
+      const data = (await response.json()) as SearchResponse;
 
       expect(response.status).toBe(403);
       expect(data.error).toContain("Turnstile");
@@ -135,7 +199,7 @@ describe("POST /api/search", () => {
         ok: true,
         skipped: false,
       });
-      vi.mocked(resolveSearchResults).mockResolvedValue({
+      mockProvider.resolve.mockResolvedValue({
         status: "pending",
         taskId: "test-task-123",
         results: [],
@@ -162,7 +226,7 @@ describe("POST /api/search", () => {
       // Exhaust rate limit
       const kv = env.KV_RATE_LIMIT as unknown as MockKVNamespace;
       const today = new Date().toISOString().split("T")[0];
-      await kv.put(`limit:127.0.0.1:${today}`, "10");
+      await kv.put(`search:127.0.0.1:${today}`, "10");
 
       const request = createMockRequest({
         url: "https://example.com/api/search",
@@ -172,14 +236,41 @@ describe("POST /api/search", () => {
       });
 
       const response = await POST(request);
-      const data = await response.json();
+      const data = (await response.json()) as SearchResponse;
 
       expect(response.status).toBe(429);
       expect(data.error).toContain("limit");
     });
 
+    it("uses the algorithm configured for the search bucket", async () => {
+      env.RATE_LIMIT_CONFIG = JSON.stringify({
+        search: { algorithm: "sliding-window", limit: 1, windowSeconds: 3600 },
+      });
+      mockProvider.resolve.mockResolvedValue({
+        status: "ready",
+        taskId: "test-task-123",
+        results: [{ title: "Test", pageUrl: "https://example.com" }],
+      });
+
+      const makeRequest = () =>
+        createMockRequest({
+          url: "https://example.com/api/search",
+          method: "POST",
+          body: { imageUrl: "https://example.com/image.jpg" },
+          cfConnectingIp: "127.0.0.1",
+        });
+
+      expect((await POST(makeRequest())).status).toBe(200);
+      const response = await POST(makeRequest());
+      const data = (await response.json()) as SearchResponse;
+
+      expect(response.status).toBe(429);
+      expect(data.error).not.toContain("midnight");
+      expect(response.headers.get("X-RateLimit-Limit")).toBe("1");
+    });
+
     it("includes rate limit headers in response", async () => {
-      vi.mocked(resolveSearchResults).mockResolvedValue({
+      mockProvider.resolve.mockResolvedValue({
         status: "ready",
         taskId: "test-task-123",
         results: [{ title: "Test", pageUrl: "https://example.com" }],
@@ -199,9 +290,111 @@ describe("POST /api/search", () => {
     });
   });
 
+  describe("API keys", () => {
+    const readyResult = {
+      status: "ready" as const,
+      taskId: "test-task-123",
+      results: [{ title: "Test", pageUrl: "https://example.com" }],
+    };
+
+    it("skips Turnstile and reports key quota headers", async () => {
+      mockProvider.resolve.mockResolvedValue(readyResult);
+      vi.mocked(verifyTurnstileToken).mockClear();
+      const { key } = await createApiKey(env.KV_RATE_LIMIT!, {
+        name: "Partner",
+        dailyLimit: 5,
+        monthlyLimit: 100,
+      });
+
+      const request = createMockRequest({
+        url: "https://example.com/api/search",
+        method: "POST",
+        body: { imageUrl: "https://example.com/image.jpg" },
+        cfConnectingIp: "127.0.0.1",
+        headers: { authorization: `Bearer ${key}` },
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(200);
+      expect(verifyTurnstileToken).not.toHaveBeenCalled();
+      expect(response.headers.get("X-RateLimit-Limit")).toBe("5");
+      expect(response.headers.get("X-RateLimit-Remaining")).toBe("4");
+      expect(response.headers.get("X-Quota-Monthly-Remaining")).toBe("99");
+    });
+
+    it("is not limited by the per-IP quota", async () => {
+      mockProvider.resolve.mockResolvedValue(readyResult);
+      const kv = env.KV_RATE_LIMIT as unknown as MockKVNamespace;
+      const today = new Date().toISOString().split("T")[0];
+      await kv.put(`search:127.0.0.1:${today}`, "10");
+      const { key } = await createApiKey(env.KV_RATE_LIMIT!, { name: "Partner" });
+
+      const request = createMockRequest({
+        url: "https://example.com/api/search",
+        method: "POST",
+        body: { imageUrl: "https://example.com/image.jpg" },
+        cfConnectingIp: "127.0.0.1",
+        headers: { authorization: `Bearer ${key}` },
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(200);
+    });
+
+    it("returns 429 when the key's daily quota is used up", async () => {
+      const { key } = await createApiKey(env.KV_RATE_LIMIT!, {
+        name: "Partner",
+        dailyLimit: 1,
+      });
+      mockProvider.resolve.mockResolvedValue(readyResult);
+
+      const makeRequest = () =>
+        createMockRequest({
+          url: "https://example.com/api/search",
+          method: "POST",
+          body: { imageUrl: "https://example.com/image.jpg" },
+          cfConnectingIp: "127.0.0.1",
+          headers: { authorization: `Bearer ${key}` },
+        });
+
+      expect((await POST(makeRequest())).status).toBe(200);
+      const response = await POST(makeRequest());
+
+      expect(response.status).toBe(429);
+      expect(response.headers.get("X-Quota-Daily-Remaining")).toBe("0");
+      expect(response.headers.get("Retry-After")).toBeTruthy();
+    });
+
+    it("returns 401 for unknown or revoked keys", async () => {
+      const { key, record } = await createApiKey(env.KV_RATE_LIMIT!, {
+        name: "Partner",
+      });
+      await revokeApiKey(env.KV_RATE_LIMIT!, record.id);
+
+      for (const token of [key, "isr_unknown"]) {
+        const request = createMockRequest({
+          url: "https://example.com/api/search",
+          method: "POST",
+          body: { imageUrl: "https://example.com/image.jpg" },
+          cfConnectingIp: "127.0.0.1",
+          headers: { authorization: `Bearer ${token}` },
+        });
+
+        const response = await POST(request);
+        const data = (await response.json()) as SearchResponse;
+
+        expect(response.status).toBe(401);
+        expect(data.code).toBe("UNAUTHORIZED");
+        expect(response.headers.get("WWW-Authenticate")).toBe("Bearer");
+      }
+    });
+  });
+
   describe("search flow", () => {
     it("returns pending status when task is created", async () => {
-      vi.mocked(resolveSearchResults).mockResolvedValue({
+      mockProvider.resolve.mockResolvedValue({
         status: "pending",
         taskId: "test-task-123",
         results: [],
@@ -215,15 +408,95 @@ describe("POST /api/search", () => {
       });
 
       const response = await POST(request);
-      const data = await response.json();
+      const data = (await response.json()) as SearchResponse;
 
       expect(response.status).toBe(202);
       expect(data.status).toBe("pending");
       expect(data.taskId).toBe("test-task-123");
     });
 
+    it("returns 202 with the task ID at once in async mode", async () => {
+      vi.mocked(parseImageSearchInput).mockResolvedValue({
+        imageUrl: "https://example.com/image.jpg",
+        async: true,
+      });
+      mockProvider.resolve.mockClear();
+      mockProvider.createTask.mockResolvedValue({ taskId: "async-task-1" });
+
+      const request = createMockRequest({
+        url: "https://example.com/api/search",
+        method: "POST",
+        body: { imageUrl: "https://example.com/image.jpg", async: true },
+        cfConnectingIp: "127.0.0.1",
+      });
+
+      const response = await POST(request);
+      const data = (await response.json()) as SearchResponse;
+
+      expect(response.status).toBe(202);
+      expect(data).toMatchObject({
+        taskId: "async-task-1",
+        status: "pending",
+        results: [],
+      });
+      expect(mockProvider.resolve).not.toHaveBeenCalled();
+      expect(
+        await env.KV_RATE_LIMIT!.get("task:img:async-task-1"),
+      ).toBe(`cache:img:hash:${"0".repeat(64)}`);
+    });
+
+    it("rejects callbacks when webhooks are not configured", async () => {
+      vi.mocked(parseImageSearchInput).mockResolvedValue({
+        imageUrl: "https://example.com/image.jpg",
+        callbackUrl: "https://hooks.example.com/search",
+      });
+
+      const request = createMockRequest({
+        url: "https://example.com/api/search",
+        method: "POST",
+        body: { imageUrl: "https://example.com/image.jpg" },
+        cfConnectingIp: "127.0.0.1",
+      });
+
+      const response = await POST(request);
+      const data = (await response.json()) as SearchResponse;
+
+      expect(response.status).toBe(400);
+      expect(data.context).toEqual({ field: "callbackUrl" });
+    });
+
+    it("registers the callback for async tasks", async () => {
+      env.WEBHOOK_SECRET = "test-secret";
+      vi.mocked(parseImageSearchInput).mockResolvedValue({
+        imageUrl: "https://example.com/image.jpg",
+        async: true,
+        callbackUrl: "https://hooks.example.com/search",
+      });
+      mockProvider.createTask.mockResolvedValue({ taskId: "async-task-2" });
+      // Keep the background follow-up pending for the rest of the test run
+      mockProvider.fetchTask.mockReturnValue(new Promise(() => {}));
+
+      const request = createMockRequest({
+        url: "https://example.com/api/search",
+        method: "POST",
+        body: { imageUrl: "https://example.com/image.jpg" },
+        cfConnectingIp: "127.0.0.1",
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(202);
+      expect(
+        await env.KV_RATE_LIMIT!.get("callback:task:async-task-2", {
+          type: "json",
+        }),
+      ).toMatchObject([
+        { callbackUrl: "https://hooks.example.com/search", provider: "dataforseo" },
+      ]);
+    });
+
     it("returns results when search completes immediately", async () => {
-      vi.mocked(resolveSearchResults).mockResolvedValue({
+      mockProvider.resolve.mockResolvedValue({
         status: "ready",
         taskId: "test-task-123",
         results: [
@@ -243,15 +516,246 @@ describe("POST /api/search", () => {
       });
 
       const response = await POST(request);
-      const data = await response.json();
+      const data = (await response.json()) as SearchResponse;
 
       expect(response.status).toBe(200);
       expect(data.status).toBe("ready");
       expect(data.results).toHaveLength(1);
     });
 
+    it("signs thumbnail URLs without caching them", async () => {
+      env = { ...env, THUMBNAIL_SIGNING_SECRET: "secret" };
+      vi.mocked(getEnv).mockReturnValue(env);
+      mockProvider.resolve.mockResolvedValue({
+        status: "ready",
+        taskId: "test-task-123",
+        results: [
+          {
+            title: "Test Result",
+            pageUrl: "https://example.com/result",
+            imageUrl: "https://cdn.example.com/thumb.jpg",
+          },
+        ],
+      });
+
+      const request = createMockRequest({
+        url: "https://example.com/api/search",
+        method: "POST",
+        body: { imageUrl: "https://example.com/image.jpg" },
+        cfConnectingIp: "127.0.0.1",
+      });
+
+      const response = await POST(request);
+      const data = (await response.json()) as SearchResponse;
+
+      expect(data.results?.[0].thumbnailUrl).toMatch(
+        /^\/api\/thumb\?url=https%3A%2F%2Fcdn\.example\.com%2Fthumb\.jpg&sig=[a-f0-9]{64}$/,
+      );
+      const { keys } = await (
+        env.KV_RATE_LIMIT as unknown as MockKVNamespace
+      ).list({ prefix: "cache:img" });
+      expect(keys).toHaveLength(1);
+      for (const { name } of keys) {
+        expect(await env.KV_RATE_LIMIT!.get(name)).not.toContain("sig=");
+      }
+    });
+
+    it("answers from a near-duplicate image's cached results", async () => {
+      const kv = env.KV_RATE_LIMIT!;
+      await storeCachedResult(
+        kv,
+        "cache:img:hash:original",
+        {
+          taskId: "original-task",
+          results: [{ title: "Original", pageUrl: "https://example.com/o" }],
+          cachedAt: new Date().toISOString(),
+        },
+        3600,
+      );
+      await storePerceptualHash(
+        kv,
+        "3c3e0e1a3a1c1e3c",
+        "cache:img:hash:original",
+        3600,
+      );
+      vi.mocked(parseImageSearchInput).mockResolvedValue({
+        imageUrl: "https://example.com/resized.jpg",
+      });
+      vi.mocked(hashSearchedImage).mockResolvedValueOnce(searchedImage("3c3e0e1a3a1c1e3d"));
+      mockProvider.resolve.mockClear();
+
+      const request = createMockRequest({
+        url: "https://example.com/api/search",
+        method: "POST",
+        body: { imageUrl: "https://example.com/resized.jpg" },
+        cfConnectingIp: "127.0.0.1",
+      });
+
+      const response = await POST(request);
+      const data = (await response.json()) as SearchResponse;
+
+      expect(response.status).toBe(200);
+      expect(data).toMatchObject({
+        status: "ready",
+        cached: "near-duplicate",
+        distance: 1,
+        taskId: "original-task",
+      });
+      expect(mockProvider.resolve).not.toHaveBeenCalled();
+    });
+
+    it("indexes the server-computed perceptual hash of new results", async () => {
+      vi.mocked(hashSearchedImage).mockResolvedValueOnce(searchedImage("3c3e0e1a3a1c1e3c"));
+      mockProvider.resolve.mockResolvedValue({
+        status: "ready",
+        taskId: "test-task-123",
+        results: [{ title: "Test", pageUrl: "https://example.com" }],
+      });
+
+      const request = createMockRequest({
+        url: "https://example.com/api/search",
+        method: "POST",
+        body: { imageUrl: "https://example.com/image.jpg" },
+        cfConnectingIp: "127.0.0.1",
+      });
+      await POST(request);
+
+      const match = await findNearDuplicate(
+        env.KV_RATE_LIMIT!,
+        "3c3e0e1a3a1c1e3c",
+      );
+      expect(match).toMatchObject({
+        cacheKey: await buildCacheKey("https://example.com/image.jpg", "0".repeat(64)),
+        distance: 0,
+      });
+      expect(match?.result.perceptualHash).toBe("3c3e0e1a3a1c1e3c");
+    });
+
+    it("refines match types of cached results in the background", async () => {
+      vi.mocked(hashSearchedImage).mockResolvedValueOnce(searchedImage("3c3e0e1a3a1c1e3c"));
+      vi.mocked(refineCachedMatchTypes).mockClear();
+      mockProvider.resolve.mockResolvedValue({
+        status: "ready",
+        taskId: "test-task-123",
+        results: [
+          { title: "Test", pageUrl: "https://example.com", matchType: "page" },
+        ],
+      });
+
+      const request = createMockRequest({
+        url: "https://example.com/api/search",
+        method: "POST",
+        body: { imageUrl: "https://example.com/image.jpg" },
+        cfConnectingIp: "127.0.0.1",
+      });
+      const response = await POST(request);
+      const data = (await response.json()) as SearchResponse;
+
+      expect(data.results?.[0].matchType).toBe("page");
+      expect(refineCachedMatchTypes).toHaveBeenCalledWith(
+        env,
+        env.KV_RATE_LIMIT,
+        await buildCacheKey("https://example.com/image.jpg", "0".repeat(64)),
+        "3c3e0e1a3a1c1e3c",
+      );
+    });
+
+    it("never matches near-duplicates without a server-computed hash", async () => {
+      const kv = env.KV_RATE_LIMIT!;
+      await storeCachedResult(
+        kv,
+        "cache:img:hash:original",
+        {
+          taskId: "original-task",
+          results: [{ title: "Original", pageUrl: "https://example.com/o" }],
+          cachedAt: new Date().toISOString(),
+        },
+        3600,
+      );
+      await storePerceptualHash(
+        kv,
+        "3c3e0e1a3a1c1e3c",
+        "cache:img:hash:original",
+        3600,
+      );
+      vi.mocked(parseImageSearchInput).mockResolvedValue({
+        imageUrl: "https://example.com/other.jpg",
+      });
+      vi.mocked(refineCachedMatchTypes).mockClear();
+      mockProvider.resolve.mockResolvedValue({
+        status: "ready",
+        taskId: "other-task",
+        results: [{ title: "Other", pageUrl: "https://example.com/x" }],
+      });
+
+      const request = createMockRequest({
+        url: "https://example.com/api/search",
+        method: "POST",
+        body: { imageUrl: "https://example.com/other.jpg" },
+        cfConnectingIp: "127.0.0.1",
+      });
+      const response = await POST(request);
+      const data = (await response.json()) as SearchResponse;
+
+      expect(data.taskId).toBe("other-task");
+      expect(data.cached).toBeUndefined();
+      expect(refineCachedMatchTypes).not.toHaveBeenCalled();
+      const match = await findNearDuplicate(kv, "3c3e0e1a3a1c1e3c");
+      expect(match?.cacheKey).toBe("cache:img:hash:original");
+    });
+
+    it("resolves through the selected provider", async () => {
+      mockProvider.resolve.mockResolvedValue({
+        status: "ready",
+        taskId: "test-task-123",
+        results: [{ title: "Test", pageUrl: "https://example.com" }],
+      });
+
+      const request = createMockRequest({
+        url: "https://example.com/api/search",
+        method: "POST",
+        body: { imageUrl: "https://example.com/image.jpg" },
+        cfConnectingIp: "127.0.0.1",
+      });
+
+      const response = await POST(request);
+      const data = (await response.json()) as SearchResponse;
+
+      expect(mockProvider.resolve).toHaveBeenCalledWith(
+        env,
+        "https://example.com/image.jpg",
+      );
+      expect(data.provider).toBe("dataforseo");
+    });
+
+    it("passes provider selection through to the registry", async () => {
+      vi.mocked(parseImageSearchInput).mockResolvedValue({
+        imageUrl: "https://example.com/image.jpg",
+        providers: ["dataforseo", "dataforseo-bing"],
+      });
+      mockProvider.resolve.mockResolvedValue({
+        status: "ready",
+        taskId: "test-task-123",
+        results: [],
+      });
+
+      const request = createMockRequest({
+        url: "https://example.com/api/search",
+        method: "POST",
+        body: { imageUrl: "https://example.com/image.jpg" },
+        cfConnectingIp: "127.0.0.1",
+      });
+
+      await POST(request);
+
+      expect(getRequestedSearchProvider).toHaveBeenCalledWith(env, {
+        provider: undefined,
+        providers: ["dataforseo", "dataforseo-bing"],
+      });
+    });
+
     it("handles DataForSEO errors gracefully", async () => {
-      vi.mocked(resolveSearchResults).mockRejectedValue(
+      mockProvider.resolve.mockRejectedValue(
         new Error("DataForSEO API error"),
       );
 
@@ -263,16 +767,338 @@ describe("POST /api/search", () => {
       });
 
       const response = await POST(request);
-      const data = await response.json();
+      const data = (await response.json()) as SearchResponse;
 
       expect(response.status).toBe(500);
       expect(data.error).toBeDefined();
     });
+
+    it("returns 503 with Retry-After when the circuit is open", async () => {
+      mockProvider.resolve.mockRejectedValue(
+        new CircuitBreakerOpenError("Circuit breaker is open", 12),
+      );
+
+      const request = createMockRequest({
+        url: "https://example.com/api/search",
+        method: "POST",
+        body: { imageUrl: "https://example.com/image.jpg" },
+        cfConnectingIp: "127.0.0.1",
+      });
+
+      const response = await POST(request);
+      const data = (await response.json()) as SearchResponse;
+
+      expect(response.status).toBe(503);
+      expect(response.headers.get("Retry-After")).toBe("12");
+      expect(data.code).toBe("SERVICE_UNAVAILABLE");
+    });
+  });
+
+  describe("cache-only lookups", () => {
+    const imageHash = "a".repeat(64);
+    const lookupRequest = () =>
+      createMockRequest({
+        url: "https://example.com/api/search",
+        method: "POST",
+        body: { cacheOnly: true, imageHash },
+        cfConnectingIp: "127.0.0.1",
+      });
+
+    it("answers from the cache without Turnstile or a provider", async () => {
+      await storeCachedResult(
+        env.KV_RATE_LIMIT!,
+        await buildCacheKey("", imageHash),
+        {
+          taskId: "earlier-task",
+          results: [{ title: "Earlier", pageUrl: "https://example.com/e" }],
+          cachedAt: new Date().toISOString(),
+          imageUrl: "https://cdn.example.com/uploads/a.jpg",
+        },
+        3600,
+      );
+      vi.mocked(parseCacheLookupInput).mockResolvedValue({
+        cacheOnly: true,
+        imageHash,
+      });
+      vi.mocked(verifyTurnstileToken).mockClear();
+      mockProvider.resolve.mockClear();
+
+      const response = await POST(lookupRequest());
+      const data = (await response.json()) as SearchResponse;
+
+      expect(response.status).toBe(200);
+      expect(data).toMatchObject({
+        status: "ready",
+        cached: true,
+        taskId: "earlier-task",
+        imageUrl: "https://cdn.example.com/uploads/a.jpg",
+      });
+      expect(verifyTurnstileToken).not.toHaveBeenCalled();
+      expect(mockProvider.resolve).not.toHaveBeenCalled();
+    });
+
+    it("returns 404 on a miss so the client uploads", async () => {
+      vi.mocked(parseCacheLookupInput).mockResolvedValue({
+        cacheOnly: true,
+        imageHash,
+      });
+      mockProvider.resolve.mockClear();
+
+      const response = await POST(lookupRequest());
+      const data = (await response.json()) as SearchResponse;
+
+      expect(response.status).toBe(404);
+      expect(data).toMatchObject({ status: "miss", cached: false, results: [] });
+      expect(mockProvider.resolve).not.toHaveBeenCalled();
+    });
+
+    it("answers lookups by the original hash of a normalized upload", async () => {
+      const normalizedHash = "f".repeat(64);
+      const key = `uploads/2024-06-01/${normalizedHash}.jpg`;
+      const r2 = env.R2_BUCKET as unknown as MockR2Bucket;
+      await r2.put(key, new Uint8Array([1]), {
+        customMetadata: {
+          sha256: normalizedHash,
+          originalSha256: imageHash,
+          normalizedSha256: normalizedHash,
+        },
+      });
+      env = { ...env, NEXT_PUBLIC_R2_DOMAIN: "https://cdn.example.com" };
+      vi.mocked(getEnv).mockReturnValue(env);
+      vi.mocked(hashSearchedImage).mockResolvedValueOnce(
+        searchedImage(null, normalizedHash),
+      );
+      vi.mocked(parseImageSearchInput).mockResolvedValue({
+        imageUrl: `https://cdn.example.com/${key}`,
+      });
+      mockProvider.resolve.mockResolvedValue({
+        status: "ready",
+        taskId: "upload-task",
+        results: [{ title: "Found", pageUrl: "https://example.com/f" }],
+      });
+      await POST(
+        createMockRequest({
+          url: "https://example.com/api/search",
+          method: "POST",
+          body: {},
+          cfConnectingIp: "127.0.0.1",
+        }),
+      );
+      vi.mocked(parseCacheLookupInput).mockResolvedValue({
+        cacheOnly: true,
+        imageHash,
+      });
+
+      const response = await POST(lookupRequest());
+      const data = (await response.json()) as SearchResponse;
+
+      expect(response.status).toBe(200);
+      expect(data.taskId).toBe("upload-task");
+    });
+
+    it("only answers exact hashes, never near-duplicates", async () => {
+      const kv = env.KV_RATE_LIMIT!;
+      await storeCachedResult(
+        kv,
+        "cache:img:hash:other",
+        {
+          results: [{ title: "Other", pageUrl: "https://example.com/o" }],
+          cachedAt: new Date().toISOString(),
+        },
+        3600,
+      );
+      await storePerceptualHash(
+        kv,
+        "3c3e0e1a3a1c1e3c",
+        "cache:img:hash:other",
+        3600,
+      );
+      vi.mocked(parseCacheLookupInput).mockResolvedValue({
+        cacheOnly: true,
+        imageHash,
+      });
+
+      const response = await POST(lookupRequest());
+
+      expect(response.status).toBe(404);
+    });
+
+    it("is limited by the cache_lookup bucket, not the search quota", async () => {
+      vi.mocked(parseCacheLookupInput).mockResolvedValue({
+        cacheOnly: true,
+        imageHash,
+      });
+      const today = new Date().toISOString().split("T")[0];
+      await env.KV_RATE_LIMIT!.put(`search:127.0.0.1:${today}`, "10");
+
+      const response = await POST(lookupRequest());
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("moderation", () => {
+    const blockedHash = "b".repeat(64);
+
+    beforeEach(async () => {
+      await env.KV_RATE_LIMIT!.put(
+        BLOCKLIST_KEY,
+        JSON.stringify({ sha256: [blockedHash] }),
+      );
+      mockProvider.resolve.mockClear();
+    });
+
+    it("rejects blocklisted images by their fetched bytes before searching", async () => {
+      vi.mocked(parseImageSearchInput).mockResolvedValue({
+        imageUrl: "https://example.com/image.jpg",
+      });
+      vi.mocked(hashSearchedImage).mockResolvedValueOnce(
+        searchedImage(null, blockedHash),
+      );
+
+      const response = await POST(
+        createMockRequest({
+          url: "https://example.com/api/search",
+          method: "POST",
+          body: {},
+          cfConnectingIp: "127.0.0.1",
+        }),
+      );
+      const data = (await response.json()) as SearchResponse;
+
+      expect(response.status).toBe(451);
+      expect(data.code).toBe("CONTENT_BLOCKED");
+      expect(mockProvider.resolve).not.toHaveBeenCalled();
+      const r2 = env.R2_BUCKET as unknown as MockR2Bucket;
+      expect(Array.from(r2.store.keys())[0]).toMatch(/^quarantine\//);
+    });
+
+    it("rejects images the server cannot read", async () => {
+      vi.mocked(parseImageSearchInput).mockResolvedValue({
+        imageUrl: "https://example.com/image.jpg",
+      });
+      vi.mocked(hashSearchedImage).mockResolvedValueOnce(null);
+
+      const response = await POST(
+        createMockRequest({
+          url: "https://example.com/api/search",
+          method: "POST",
+          body: {},
+          cfConnectingIp: "127.0.0.1",
+        }),
+      );
+
+      expect(response.status).toBe(400);
+      expect(mockProvider.resolve).not.toHaveBeenCalled();
+    });
+
+    it("quarantines our own uploads named by a blocked hash", async () => {
+      const key = `uploads/2024-06-01/${blockedHash}.jpg`;
+      const r2 = env.R2_BUCKET as unknown as MockR2Bucket;
+      await r2.put(key, new Uint8Array([1]));
+      env = { ...env, NEXT_PUBLIC_R2_DOMAIN: "https://cdn.example.com" };
+      vi.mocked(getEnv).mockReturnValue(env);
+      vi.mocked(parseImageSearchInput).mockResolvedValue({
+        imageUrl: `https://cdn.example.com/${key}`,
+      });
+
+      const response = await POST(
+        createMockRequest({
+          url: "https://example.com/api/search",
+          method: "POST",
+          body: {},
+          cfConnectingIp: "127.0.0.1",
+        }),
+      );
+
+      expect(response.status).toBe(451);
+      expect(r2.store.has(key)).toBe(false);
+      expect(Array.from(r2.store.keys())[0]).toMatch(/^quarantine\//);
+    });
+
+    it("lets clean uploads through and keeps them stored", async () => {
+      const cleanHash = "d".repeat(64);
+      const key = `uploads/2024-06-01/${cleanHash}.jpg`;
+      const r2 = env.R2_BUCKET as unknown as MockR2Bucket;
+      await r2.put(key, new Uint8Array([1]), {
+        customMetadata: { sha256: cleanHash },
+      });
+      env = { ...env, NEXT_PUBLIC_R2_DOMAIN: "https://cdn.example.com" };
+      vi.mocked(getEnv).mockReturnValue(env);
+      vi.mocked(parseImageSearchInput).mockResolvedValue({
+        imageUrl: `https://cdn.example.com/${key}`,
+      });
+      mockProvider.resolve.mockResolvedValue({
+        status: "ready",
+        taskId: "test-task-123",
+        results: [],
+      });
+
+      const response = await POST(
+        createMockRequest({
+          url: "https://example.com/api/search",
+          method: "POST",
+          body: {},
+          cfConnectingIp: "127.0.0.1",
+        }),
+      );
+
+      expect(response.status).toBe(200);
+      expect(r2.store.has(key)).toBe(true);
+    });
+
+    it("quarantines normalized uploads whose original was blocked", async () => {
+      const normalizedHash = "e".repeat(64);
+      const key = `uploads/2024-06-01/${normalizedHash}.jpg`;
+      const r2 = env.R2_BUCKET as unknown as MockR2Bucket;
+      await r2.put(key, new Uint8Array([1]), {
+        customMetadata: {
+          sha256: normalizedHash,
+          originalSha256: blockedHash,
+          normalizedSha256: normalizedHash,
+        },
+      });
+      env = { ...env, NEXT_PUBLIC_R2_DOMAIN: "https://cdn.example.com" };
+      vi.mocked(getEnv).mockReturnValue(env);
+      vi.mocked(parseImageSearchInput).mockResolvedValue({
+        imageUrl: `https://cdn.example.com/${key}`,
+      });
+
+      const response = await POST(
+        createMockRequest({
+          url: "https://example.com/api/search",
+          method: "POST",
+          body: {},
+          cfConnectingIp: "127.0.0.1",
+        }),
+      );
+
+      expect(response.status).toBe(451);
+      expect(r2.store.has(key)).toBe(false);
+    });
+
+    it("withholds cached results for blocklisted hashes", async () => {
+      vi.mocked(parseCacheLookupInput).mockResolvedValue({
+        cacheOnly: true,
+        imageHash: blockedHash,
+      });
+
+      const response = await POST(
+        createMockRequest({
+          url: "https://example.com/api/search",
+          method: "POST",
+          body: {},
+          cfConnectingIp: "127.0.0.1",
+        }),
+      );
+
+      expect(response.status).toBe(451);
+    });
   });
 
   describe("request headers", () => {
     it("includes request ID in response", async () => {
-      vi.mocked(resolveSearchResults).mockResolvedValue({
+      mockProvider.resolve.mockResolvedValue({
         status: "ready",
         taskId: "test-task-123",
         results: [],
@@ -299,9 +1125,12 @@ describe("GET /api/search", () => {
     vi.clearAllMocks();
     env = createMockEnv();
     vi.mocked(getEnv).mockReturnValue(env);
-    vi.mocked(getSearchByImageTask).mockResolvedValue({});
-    vi.mocked(extractSearchResults).mockReturnValue([]);
-    vi.mocked(extractCheckUrl).mockReturnValue(undefined);
+    vi.mocked(getSearchProviderForTask).mockReturnValue(mockProvider);
+    mockProvider.fetchTask.mockResolvedValue({
+      taskId: "test-task-123",
+      status: "pending",
+      results: [],
+    });
     restoreFetch();
   });
 
@@ -313,17 +1142,13 @@ describe("GET /api/search", () => {
       });
 
       const response = await GET(request);
-      const data = await response.json();
+      const data = (await response.json()) as SearchResponse;
 
       expect(response.status).toBe(400);
       expect(data.error).toContain("task ID");
     });
 
     it("accepts valid taskId", async () => {
-      vi.mocked(getSearchByImageTask).mockResolvedValue({});
-      vi.mocked(extractSearchResults).mockReturnValue([]);
-      vi.mocked(extractCheckUrl).mockReturnValue(undefined);
-
       const request = createMockRequest({
         url: "https://example.com/api/search?taskId=test-task-123",
         method: "GET",
@@ -337,33 +1162,30 @@ describe("GET /api/search", () => {
 
   describe("polling behavior", () => {
     it("returns pending status when task is still processing", async () => {
-      vi.mocked(getSearchByImageTask).mockResolvedValue({});
-      vi.mocked(extractSearchResults).mockReturnValue([]);
-      vi.mocked(extractCheckUrl).mockReturnValue(undefined);
-
       const request = createMockRequest({
         url: "https://example.com/api/search?taskId=test-task-123",
         method: "GET",
       });
 
       const response = await GET(request);
-      const data = await response.json();
+      const data = (await response.json()) as SearchResponse;
 
       expect(response.status).toBe(202);
       expect(data.status).toBe("pending");
     });
 
     it("returns results when task is completed", async () => {
-      vi.mocked(getSearchByImageTask).mockResolvedValue({
-        tasks: [{ result: [{ items: [] }] }],
+      mockProvider.fetchTask.mockResolvedValue({
+        taskId: "test-task-123",
+        status: "ready",
+        results: [
+          {
+            title: "Test Result",
+            pageUrl: "https://example.com/result",
+          },
+        ],
+        checkUrl: "https://dataforseo.com/check/123",
       });
-      vi.mocked(extractSearchResults).mockReturnValue([
-        {
-          title: "Test Result",
-          pageUrl: "https://example.com/result",
-        },
-      ]);
-      vi.mocked(extractCheckUrl).mockReturnValue("https://dataforseo.com/check/123");
 
       const request = createMockRequest({
         url: "https://example.com/api/search?taskId=test-task-123",
@@ -371,7 +1193,7 @@ describe("GET /api/search", () => {
       });
 
       const response = await GET(request);
-      const data = await response.json();
+      const data = (await response.json()) as SearchResponse;
 
       expect(response.status).toBe(200);
       expect(data.status).toBe("ready");
@@ -379,7 +1201,7 @@ describe("GET /api/search", () => {
     });
 
     it("handles polling errors gracefully", async () => {
-      vi.mocked(getSearchByImageTask).mockRejectedValue(
+      mockProvider.fetchTask.mockRejectedValue(
         new Error("Polling failed"),
       );
 
@@ -389,7 +1211,7 @@ describe("GET /api/search", () => {
       });
 
       const response = await GET(request);
-      const data = await response.json();
+      const data = (await response.json()) as SearchResponse;
 
       expect(response.status).toBe(500);
       expect(data.error).toBeDefined();
@@ -418,20 +1240,48 @@ describe("GET /api/search", () => {
       });
 
       const response = await GET(request);
-      const data = await response.json();
+      const data = (await response.json()) as SearchResponse;
 
       expect(response.status).toBe(200);
       expect(data.cached).toBe(true);
-      expect(data.results[0].title).toBe("Cached Result");
+      expect(data.results?.[0].title).toBe("Cached Result");
+    });
+
+    it("refines ready results by the hash stored with the task", async () => {
+      const kv = env.KV_RATE_LIMIT!;
+      await storeTaskMapping(
+        kv,
+        "test-task-123",
+        "cache:img:url:test-hash",
+        3600,
+        "3c3e0e1a3a1c1e3c",
+      );
+      mockProvider.fetchTask.mockResolvedValue({
+        taskId: "test-task-123",
+        status: "ready",
+        results: [{ title: "Test", pageUrl: "https://example.com" }],
+      });
+
+      const request = createMockRequest({
+        url: "https://example.com/api/search?taskId=test-task-123&perceptualHash=ffffffffffffffff",
+        method: "GET",
+      });
+      await GET(request);
+
+      expect(refineCachedMatchTypes).toHaveBeenCalledWith(
+        env,
+        kv,
+        "cache:img:url:test-hash",
+        "3c3e0e1a3a1c1e3c",
+      );
+      expect(await getCachedResult(kv, "cache:img:url:test-hash")).toMatchObject(
+        { perceptualHash: "3c3e0e1a3a1c1e3c" },
+      );
     });
   });
 
   describe("response headers", () => {
     it("includes request ID in response", async () => {
-      vi.mocked(getSearchByImageTask).mockResolvedValue({});
-      vi.mocked(extractSearchResults).mockReturnValue([]);
-      vi.mocked(extractCheckUrl).mockReturnValue(undefined);
-
       const request = createMockRequest({
         url: "https://example.com/api/search?taskId=test-task-123",
         method: "GET",
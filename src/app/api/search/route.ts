@@ -1,26 +1,53 @@
 import { NextResponse, type NextRequest } from "next/server";
-import { getEnv } from "@/lib/cf-env";
+import { getEnv, runInBackground } from "@/lib/cf-env";
 import { getClientIp } from "@/lib/request";
-import { checkRateLimit } from "@/lib/rate-limit";
+import { describeRateLimitReset, getRateLimitConfig } from "@/lib/rate-limit";
+import { enforceRateLimit, hasRateLimitStore } from "@/lib/durable-rate-limit";
 import {
   buildCacheKey,
-  getCacheKeyForTask,
+  findNearDuplicate,
   getCachedResult,
+  getSearchCacheTtl,
+  getTaskMapping,
   storeCachedResult,
+  storePerceptualHash,
   storeTaskMapping,
+  type TaskMapping,
 } from "@/lib/search-cache";
 import { verifyTurnstileToken } from "@/lib/turnstile";
 import {
-  extractCheckUrl,
-  extractSearchResults,
-  getSearchByImageTask,
+  apiKeyUsageHeaders,
+  authenticateApiKey,
+  checkApiKeyQuota,
+} from "@/lib/api-keys";
+import {
+  parseCacheLookupInput,
   parseImageSearchInput,
-  resolveSearchResults,
+  type CacheLookupInput,
 } from "@/lib/dataforseo";
+import {
+  getRequestedSearchProvider,
+  getSearchProviderForTask,
+} from "@/lib/search-fanout";
+import { enforceModeration } from "@/lib/moderation";
+import { refineCachedMatchTypes } from "@/lib/match-classification";
+import { moderateSearchedImage } from "@/lib/search-moderation";
+import { withThumbnailUrls } from "@/lib/thumbnail-proxy";
 import { z } from "zod";
-import { createLogger } from "@/lib/logger";
-import { isAppError, errorToResponse } from "@/lib/errors";
+import { createLogger, type TimingScope } from "@/lib/logger";
+import {
+  errorResponseHeaders,
+  errorToResponse,
+  isAppError,
+} from "@/lib/errors";
 import { deduplicatedRequest } from "@/lib/request-deduplication";
+import {
+  assertSearchCallbacksEnabled,
+  followSearchCallbacks,
+  notifySearchCallbacks,
+  registerSearchCallback,
+  sendSearchCallback,
+} from "@/lib/search-webhooks";
 import { createRequestId } from "@/lib/request-id";
 
 export const runtime = "edge";
@@ -29,12 +56,120 @@ const logger = createLogger("api:search");
 
 const TaskQuerySchema = z.object({
   taskId: z.string().min(1),
+  provider: z.string().min(1).max(32).optional(),
 });
 
-const CACHE_TTL_SECONDS = 60 * 60 * 48;
 const TASK_TTL_SECONDS = 60 * 60;
 const MAX_REQUEST_BODY_SIZE = 10 * 1024; // 10KB limit for search requests
 
+/**
+ * Answers a cache-only lookup by image hash. Lookups never reach a search
+ * provider, so they skip Turnstile and count against the cheaper
+ * `cache_lookup` bucket instead of the search quota. A miss is a 404 and
+ * tells the client to upload the image and search normally. Only exact
+ * hashes are answered: near-duplicate matching needs a perceptual hash the
+ * server computed itself, which a lookup has no image for. Searches only
+ * cache results under hashes the server computed, so a lookup can only
+ * read results for an image whose exact bytes the client has.
+ */
+const lookupCachedSearch = async (
+  request: NextRequest,
+  env: ReturnType<typeof getEnv>,
+  input: CacheLookupInput,
+  requestId: string,
+  timing: TimingScope,
+) => {
+  const headers = new Headers();
+
+  const rateLimitStart = Date.now();
+  if (hasRateLimitStore(env)) {
+    const rateConfig = getRateLimitConfig(env, "cache_lookup");
+    const rate = await enforceRateLimit(
+      env,
+      getClientIp(request),
+      "cache_lookup",
+      rateConfig,
+    );
+    timing.addMetric("rateLimit", rateLimitStart);
+
+    if (!rate.allowed) {
+      const response = NextResponse.json(
+        {
+          error: `Lookup limit reached. ${describeRateLimitReset(rateConfig)}`,
+          resetAt: rate.resetAt,
+        },
+        {
+          status: 429,
+          headers: {
+            "X-RateLimit-Limit": String(rate.limit),
+            "X-RateLimit-Remaining": String(rate.remaining),
+            "X-RateLimit-Reset": rate.resetAt,
+          },
+        },
+      );
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({ requestId, status: 429, reason: "lookup_rate_limited" });
+      return response;
+    }
+  }
+
+  // Blocked images get no cached results either
+  await enforceModeration(
+    env,
+    { sha256: input.imageHash },
+    { source: "cache_lookup", requestId, ip: getClientIp(request) },
+  );
+
+  const provider = getRequestedSearchProvider(env, {
+    provider: input.provider,
+    providers: input.providers,
+  });
+  const cacheStore = env.KV_RATE_LIMIT;
+  const cacheStart = Date.now();
+
+  if (cacheStore) {
+    const cacheKey = await buildCacheKey(
+      "",
+      input.imageHash,
+      provider.cacheNamespace,
+    );
+    const cached = await getCachedResult(cacheStore, cacheKey);
+    timing.addMetric("cacheRead", cacheStart);
+
+    if (cached) {
+      const response = NextResponse.json(
+        {
+          provider: provider.id,
+          ...cached,
+          results: await withThumbnailUrls(env, cached.results),
+          status: "ready",
+          cached: true,
+        },
+        { status: 200, headers },
+      );
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({
+        requestId,
+        status: 200,
+        cacheOnly: true,
+        cached: true,
+        results: cached.results.length,
+      });
+      return response;
+    }
+  } else {
+    timing.addMetric("cacheRead", cacheStart);
+  }
+
+  const response = NextResponse.json(
+    { provider: provider.id, status: "miss", cached: false, results: [] },
+    { status: 404, headers },
+  );
+  response.headers.set("X-Request-Id", requestId);
+  timing.end({ requestId, status: 404, cacheOnly: true, cached: false });
+  return response;
+};
+
 export async function POST(request: NextRequest) {
   const requestId = request.headers.get("x-request-id") ?? createRequestId();
   const timing = logger.startTiming("POST /api/search");
@@ -53,39 +188,106 @@ export async function POST(request: NextRequest) {
     }
 
     const env = getEnv();
-    const { imageUrl, imageHash, turnstileToken } =
-      await parseImageSearchInput(request);
+    const lookup = await parseCacheLookupInput(request);
+    if (lookup) {
+      return await lookupCachedSearch(request, env, lookup, requestId, timing);
+    }
+
+    const {
+      imageUrl,
+      turnstileToken,
+      provider: requestedProvider,
+      providers: requestedProviders,
+      async: asyncMode,
+      callbackUrl,
+    } = await parseImageSearchInput(request);
+    if (callbackUrl) {
+      assertSearchCallbacksEnabled(env);
+    }
+    const provider = getRequestedSearchProvider(env, {
+      provider: requestedProvider,
+      providers: requestedProviders,
+    });
     const ip = getClientIp(request);
 
     logger.debug("Parsed search input", {
       requestId,
       imageUrl: imageUrl.replace(/\/\/([^@]+)@/, "//***@"),
-      hasImageHash: !!imageHash,
+      provider: provider.id,
+      async: !!asyncMode,
+      hasCallback: !!callbackUrl,
     });
 
-    const turnstileStart = Date.now();
-    const turnstile = await verifyTurnstileToken(
-      env,
-      turnstileToken ?? null,
-      ip,
-    );
-    timing.addMetric("turnstile", turnstileStart);
+    const authStart = Date.now();
+    const apiKey = await authenticateApiKey(env.KV_RATE_LIMIT, request);
+    timing.addMetric("auth", authStart);
 
-    if (!turnstile.ok) {
-      const response = NextResponse.json(
-        { error: turnstile.error ?? "Security verification failed. Please refresh the page and try again." },
-        { status: 403 },
+    if (!apiKey) {
+      const turnstileStart = Date.now();
+      const turnstile = await verifyTurnstileToken(
+        env,
+        turnstileToken ?? null,
+        ip,
       );
-      response.headers.set("X-Request-Id", requestId);
-      timing.end({ requestId, status: 403, reason: "turnstile_failed" });
-      return response;
+      timing.addMetric("turnstile", turnstileStart);
+
+      if (!turnstile.ok) {
+        const response = NextResponse.json(
+          { error: turnstile.error ?? "Security verification failed. Please refresh the page and try again." },
+          { status: 403 },
+        );
+        response.headers.set("X-Request-Id", requestId);
+        timing.end({ requestId, status: 403, reason: "turnstile_failed" });
+        return response;
+      }
     }
 
     const headers = new Headers();
     const rateLimitStart = Date.now();
 
-    if (env.KV_RATE_LIMIT) {
-      const rate = await checkRateLimit(env.KV_RATE_LIMIT, ip, 10);
+    if (apiKey && env.KV_RATE_LIMIT) {
+      const usage = await checkApiKeyQuota(env.KV_RATE_LIMIT, apiKey);
+      timing.addMetric("rateLimit", rateLimitStart);
+      const usageHeaders = apiKeyUsageHeaders(usage);
+
+      if (!usage.allowed) {
+        const resetAt = usageHeaders["X-RateLimit-Reset"];
+        const retryAfterSeconds = Math.max(
+          1,
+          Math.ceil((new Date(resetAt).getTime() - Date.now()) / 1000),
+        );
+
+        const response = NextResponse.json(
+          { error: "API key quota exceeded.", resetAt },
+          {
+            status: 429,
+            headers: {
+              ...usageHeaders,
+              "Retry-After": String(retryAfterSeconds),
+            },
+          },
+        );
+        response.headers.set("X-Request-Id", requestId);
+        timing.end({
+          requestId,
+          status: 429,
+          reason: "api_key_quota_exceeded",
+          apiKeyId: apiKey.id,
+        });
+        return response;
+      }
+
+      for (const [name, value] of Object.entries(usageHeaders)) {
+        headers.set(name, value);
+      }
+    } else if (hasRateLimitStore(env)) {
+      const rateConfig = getRateLimitConfig(env, "search");
+      const rate = await enforceRateLimit(
+        env,
+        ip,
+        "search",
+        rateConfig,
+      );
       timing.addMetric("rateLimit", rateLimitStart);
 
       if (!rate.allowed) {
@@ -96,7 +298,7 @@ export async function POST(request: NextRequest) {
 
         const response = NextResponse.json(
           {
-            error: "Daily search limit reached. Your limit resets at midnight UTC. Contact us for higher limits.",
+            error: `Search limit reached. ${describeRateLimitReset(rateConfig)} Contact us for higher limits.`,
             resetAt: rate.resetAt,
           },
           {
@@ -121,21 +323,78 @@ export async function POST(request: NextRequest) {
       timing.addMetric("rateLimit", rateLimitStart);
     }
 
+    // Moderation and the cache use hashes of the image as the server read
+    // it, never hashes a client sent
+    const moderationStart = Date.now();
+    const { searched, stored } = await moderateSearchedImage(env, imageUrl, {
+      source: "search",
+      requestId,
+      ip,
+    });
+    timing.addMetric("moderation", moderationStart);
+
     const cacheStore = env.KV_RATE_LIMIT;
     let cacheKey: string | null = null;
+    // Clients look searches up by the hash of the file they uploaded, which
+    // is the original of a normalized upload
+    const cacheHash =
+      stored?.customMetadata?.originalSha256 ?? searched.sha256;
+    // Near-duplicates are indexed and matched only by the hash computed above
+    const searchedHash = searched.perceptualHash;
     const cacheStart = Date.now();
 
     if (cacheStore) {
-      cacheKey = await buildCacheKey(imageUrl, imageHash);
-      const cached = await getCachedResult(cacheStore, cacheKey);
+      cacheKey = await buildCacheKey(
+        imageUrl,
+        cacheHash,
+        provider.cacheNamespace,
+      );
+      const exact = await getCachedResult(cacheStore, cacheKey);
       timing.addMetric("cacheRead", cacheStart);
 
+      // Fall back to a visually similar image that was already searched
+      let nearDuplicate: Awaited<ReturnType<typeof findNearDuplicate>> = null;
+      if (!exact) {
+        nearDuplicate = searchedHash
+          ? await findNearDuplicate(
+              cacheStore,
+              searchedHash,
+              provider.cacheNamespace,
+            )
+          : null;
+      }
+
+      const cached = exact ?? nearDuplicate?.result;
       if (cached) {
+        const cachedBy = nearDuplicate ? "near-duplicate" : true;
+
+        if (callbackUrl) {
+          runInBackground(
+            sendSearchCallback(
+              env,
+              cached.taskId ?? requestId,
+              {
+                callbackUrl,
+                provider: cached.provider ?? provider.id,
+                createdAt: new Date().toISOString(),
+              },
+              {
+                status: "ready",
+                results: cached.results,
+                checkUrl: cached.checkUrl,
+              },
+            ),
+          );
+        }
+
         const response = NextResponse.json(
           {
+            provider: provider.id,
             ...cached,
+            results: await withThumbnailUrls(env, cached.results),
             status: "ready",
-            cached: true,
+            cached: cachedBy,
+            ...(nearDuplicate && { distance: nearDuplicate.distance }),
           },
           { status: 200, headers },
         );
@@ -143,7 +402,8 @@ export async function POST(request: NextRequest) {
         timing.end({
           requestId,
           status: 200,
-          cached: true,
+          cached: cachedBy,
+          distance: nearDuplicate?.distance,
           results: cached.results.length,
         });
         return response;
@@ -152,16 +412,73 @@ export async function POST(request: NextRequest) {
       timing.addMetric("cacheRead", cacheStart);
     }
 
-    const searchKey = cacheKey ?? imageUrl;
+    if (asyncMode) {
+      const providerStart = Date.now();
+      const task = await provider.createTask(env, imageUrl);
+      timing.addMetric(provider.id, providerStart);
+
+      if (cacheStore && cacheKey) {
+        const cacheWriteStart = Date.now();
+        const cacheTtl = await getSearchCacheTtl(cacheStore, cacheKey);
+        await storeTaskMapping(
+          cacheStore,
+          task.taskId,
+          cacheKey,
+          TASK_TTL_SECONDS,
+          searchedHash ?? undefined,
+        );
+        if (searchedHash) {
+          await storePerceptualHash(
+            cacheStore,
+            searchedHash,
+            cacheKey,
+            cacheTtl,
+            provider.cacheNamespace,
+          );
+        }
+        timing.addMetric("cacheWrite", cacheWriteStart);
+      }
+
+      if (callbackUrl && cacheStore) {
+        await registerSearchCallback(
+          cacheStore,
+          task.taskId,
+          {
+            callbackUrl,
+            provider: provider.id,
+            createdAt: new Date().toISOString(),
+          },
+          TASK_TTL_SECONDS,
+        );
+        followSearchCallbacks(env, provider, task.taskId);
+      }
+
+      const response = NextResponse.json(
+        {
+          taskId: task.taskId,
+          provider: provider.id,
+          status: "pending",
+          results: [],
+          checkUrl: task.checkUrl,
+        },
+        { status: 202, headers },
+      );
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({ requestId, status: 202, async: true });
+      return response;
+    }
+
+    const searchKey = cacheKey ?? `${provider.id}:${imageUrl}`;
     const result = await deduplicatedRequest(searchKey, async () => {
-      const dataforseoStart = Date.now();
-      const results = await resolveSearchResults(env, imageUrl);
-      timing.addMetric("dataforseo", dataforseoStart);
+      const providerStart = Date.now();
+      const results = await provider.resolve(env, imageUrl);
+      timing.addMetric(provider.id, providerStart);
       return results;
     });
 
     if (cacheStore && cacheKey) {
       const cacheWriteStart = Date.now();
+      const cacheTtl = await getSearchCacheTtl(cacheStore, cacheKey);
 
       if (result.taskId) {
         await storeTaskMapping(
@@ -169,6 +486,7 @@ export async function POST(request: NextRequest) {
           result.taskId,
           cacheKey,
           TASK_TTL_SECONDS,
+          searchedHash ?? undefined,
         );
       }
 
@@ -178,21 +496,71 @@ export async function POST(request: NextRequest) {
           cacheKey,
           {
             taskId: result.taskId,
+            provider: provider.id,
             results: result.results,
             checkUrl: result.checkUrl,
             cachedAt: new Date().toISOString(),
+            imageUrl,
+            perceptualHash: searchedHash ?? undefined,
           },
-          CACHE_TTL_SECONDS,
+          cacheTtl,
+        );
+        // Thumbnail hashing is slow, so match types are refined afterwards
+        if (searchedHash) {
+          runInBackground(
+            refineCachedMatchTypes(env, cacheStore, cacheKey, searchedHash),
+          );
+        }
+      }
+
+      // Pending tasks are indexed too: polling fills in the cache entry
+      if (searchedHash && (result.taskId || result.results.length > 0)) {
+        await storePerceptualHash(
+          cacheStore,
+          searchedHash,
+          cacheKey,
+          cacheTtl,
+          provider.cacheNamespace,
         );
       }
 
       timing.addMetric("cacheWrite", cacheWriteStart);
     }
 
-    const response = NextResponse.json(result, {
-      status: result.status === "pending" ? 202 : 200,
-      headers,
-    });
+    if (callbackUrl && cacheStore && result.taskId) {
+      await registerSearchCallback(
+        cacheStore,
+        result.taskId,
+        {
+          callbackUrl,
+          provider: provider.id,
+          createdAt: new Date().toISOString(),
+        },
+        TASK_TTL_SECONDS,
+      );
+
+      if (result.status === "ready" && result.results.length > 0) {
+        notifySearchCallbacks(env, result.taskId, {
+          status: "ready",
+          results: result.results,
+          checkUrl: result.checkUrl,
+        });
+      } else {
+        followSearchCallbacks(env, provider, result.taskId);
+      }
+    }
+
+    const response = NextResponse.json(
+      {
+        ...result,
+        results: await withThumbnailUrls(env, result.results),
+        provider: provider.id,
+      },
+      {
+        status: result.status === "pending" ? 202 : 200,
+        headers,
+      },
+    );
     response.headers.set("X-Request-Id", requestId);
     timing.end({
       requestId,
@@ -208,7 +576,10 @@ export async function POST(request: NextRequest) {
     const statusCode = isAppError(error) ? error.statusCode : 500;
     const errorResponse = errorToResponse(error);
 
-    const response = NextResponse.json(errorResponse, { status: statusCode });
+    const response = NextResponse.json(errorResponse, {
+      status: statusCode,
+      headers: errorResponseHeaders(error),
+    });
     response.headers.set("X-Request-Id", requestId);
     return response;
   }
@@ -221,7 +592,12 @@ export async function GET(request: NextRequest) {
   try {
     const env = getEnv();
     const taskId = request.nextUrl.searchParams.get("taskId");
-    const parsed = TaskQuerySchema.safeParse({ taskId });
+    const requestedProvider =
+      request.nextUrl.searchParams.get("provider") ?? undefined;
+    const parsed = TaskQuerySchema.safeParse({
+      taskId,
+      provider: requestedProvider,
+    });
 
     if (!parsed.success) {
       const response = NextResponse.json(
@@ -233,24 +609,41 @@ export async function GET(request: NextRequest) {
       return response;
     }
 
-    logger.debug("Polling task", { requestId, taskId: parsed.data.taskId });
+    const provider = getSearchProviderForTask(
+      env,
+      parsed.data.taskId,
+      parsed.data.provider,
+    );
+
+    logger.debug("Polling task", {
+      requestId,
+      taskId: parsed.data.taskId,
+      provider: provider.id,
+    });
 
     const cacheStore = env.KV_RATE_LIMIT;
-    let cacheKey: string | null = null;
+    let mapping: TaskMapping | null = null;
     const cacheStart = Date.now();
 
     if (cacheStore) {
-      cacheKey = await getCacheKeyForTask(cacheStore, parsed.data.taskId);
+      mapping = await getTaskMapping(cacheStore, parsed.data.taskId);
       timing.addMetric("cacheRead", cacheStart);
 
-      if (cacheKey) {
-        const cached = await getCachedResult(cacheStore, cacheKey);
+      if (mapping) {
+        const cached = await getCachedResult(cacheStore, mapping.cacheKey);
         if (cached) {
+          notifySearchCallbacks(env, parsed.data.taskId, {
+            status: "ready",
+            results: cached.results,
+            checkUrl: cached.checkUrl,
+          });
+
           const response = NextResponse.json(
             {
               taskId: parsed.data.taskId,
+              provider: provider.id,
               status: "ready",
-              results: cached.results,
+              results: await withThumbnailUrls(env, cached.results),
               checkUrl: cached.checkUrl,
               cached: true,
             },
@@ -270,35 +663,57 @@ export async function GET(request: NextRequest) {
       timing.addMetric("cacheRead", cacheStart);
     }
 
-    const dataforseoStart = Date.now();
-    const data = await getSearchByImageTask(env, parsed.data.taskId);
-    const results = extractSearchResults(data);
-    timing.addMetric("dataforseo", dataforseoStart);
+    const providerStart = Date.now();
+    const resolution = await provider.fetchTask(env, parsed.data.taskId);
+    timing.addMetric(provider.id, providerStart);
 
-    const status = results.length > 0 ? "ready" : "pending";
+    const { checkUrl, results, status } = resolution;
 
-    if (cacheStore && cacheKey && results.length > 0) {
+    if (cacheStore && mapping && status === "ready" && results.length > 0) {
       const cacheWriteStart = Date.now();
+      const cacheTtl = await getSearchCacheTtl(cacheStore, mapping.cacheKey);
       await storeCachedResult(
         cacheStore,
-        cacheKey,
+        mapping.cacheKey,
         {
           taskId: parsed.data.taskId,
+          provider: provider.id,
           results,
-          checkUrl: extractCheckUrl(data),
+          checkUrl,
           cachedAt: new Date().toISOString(),
+          perceptualHash: mapping.perceptualHash,
         },
-        CACHE_TTL_SECONDS,
+        cacheTtl,
       );
       timing.addMetric("cacheWrite", cacheWriteStart);
+
+      if (mapping.perceptualHash) {
+        runInBackground(
+          refineCachedMatchTypes(
+            env,
+            cacheStore,
+            mapping.cacheKey,
+            mapping.perceptualHash,
+          ),
+        );
+      }
+    }
+
+    if (status === "ready" && results.length > 0) {
+      notifySearchCallbacks(env, parsed.data.taskId, {
+        status: "ready",
+        results,
+        checkUrl,
+      });
     }
 
     const response = NextResponse.json(
       {
         taskId: parsed.data.taskId,
+        provider: provider.id,
         status,
-        results,
-        checkUrl: extractCheckUrl(data),
+        results: await withThumbnailUrls(env, results),
+        checkUrl,
       },
       { status: status === "ready" ? 200 : 202 },
     );
@@ -317,7 +732,10 @@ export async function GET(request: NextRequest) {
     const statusCode = isAppError(error) ? error.statusCode : 500;
     const errorResponse = errorToResponse(error);
 
-    const response = NextResponse.json(errorResponse, { status: statusCode });
+    const response = NextResponse.json(errorResponse, {
+      status: statusCode,
+      headers: errorResponseHeaders(error),
+    });
     response.headers.set("X-Request-Id", requestId);
     return response;
   }
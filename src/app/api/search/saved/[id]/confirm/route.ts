@@ -0,0 +1,67 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getEnv } from "@/lib/cf-env";
+import { confirmSavedSearchEmail } from "@/lib/saved-searches";
+import { z } from "zod";
+import { createLogger } from "@/lib/logger";
+import {
+  AuthenticationError,
+  errorResponseHeaders,
+  errorToResponse,
+  isAppError,
+} from "@/lib/errors";
+import { createRequestId } from "@/lib/request-id";
+
+export const runtime = "edge";
+
+const logger = createLogger("api:search:saved");
+
+const SavedSearchIdSchema = z.string().uuid();
+
+/**
+ * GET /api/search/saved/{id}/confirm?token=
+ * Opened from the confirmation email; alerts for the saved search are
+ * emailed only after this succeeds.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  const timing = logger.startTiming("GET /api/search/saved/confirm");
+
+  try {
+    const env = getEnv();
+    const kv = env.KV_RATE_LIMIT;
+    const parsed = SavedSearchIdSchema.safeParse((await params).id);
+    const token = request.nextUrl.searchParams.get("token") ?? "";
+    const confirmed =
+      kv && parsed.success
+        ? await confirmSavedSearchEmail(kv, parsed.data, token)
+        : false;
+
+    if (!confirmed) {
+      throw new AuthenticationError("Invalid or expired confirmation link.");
+    }
+
+    const response = NextResponse.json(
+      { confirmed: true },
+      { headers: { "Cache-Control": "no-store" } },
+    );
+    response.headers.set("X-Request-Id", requestId);
+    timing.end({ requestId, status: 200, savedSearchId: parsed.data });
+    return response;
+  } catch (error) {
+    timing.endWithError(error, { requestId });
+    logger.error("Confirming saved search email failed", error, {
+      requestId,
+    });
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+    const response = NextResponse.json(errorToResponse(error), {
+      status: statusCode,
+      headers: errorResponseHeaders(error),
+    });
+    response.headers.set("X-Request-Id", requestId);
+    return response;
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getEnv } from "@/lib/cf-env";
+import { buildSavedSearchView, renewSavedSearch } from "@/lib/saved-searches";
+import { signThumbnailPath } from "@/lib/thumbnail-proxy";
+import { z } from "zod";
+import { createLogger } from "@/lib/logger";
+import {
+  AuthenticationError,
+  errorResponseHeaders,
+  errorToResponse,
+  isAppError,
+} from "@/lib/errors";
+import { createRequestId } from "@/lib/request-id";
+
+export const runtime = "edge";
+
+const logger = createLogger("api:search:saved");
+
+const SavedSearchIdSchema = z.string().uuid();
+
+/**
+ * POST /api/search/saved/{id}/renew
+ * Keeps a saved search running for another SAVED_SEARCH_TTL_DAYS. Requires
+ * the `deleteToken` returned when it was saved, sent as `X-Delete-Token`.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  const timing = logger.startTiming("POST /api/search/saved/renew");
+
+  try {
+    const env = getEnv();
+    const kv = env.KV_RATE_LIMIT;
+    const parsed = SavedSearchIdSchema.safeParse((await params).id);
+    const token = request.headers.get("x-delete-token") ?? "";
+    const saved =
+      kv && parsed.success
+        ? await renewSavedSearch(kv, parsed.data, token)
+        : null;
+
+    if (!saved) {
+      throw new AuthenticationError("Invalid saved search or token.");
+    }
+
+    const response = NextResponse.json(
+      {
+        ...buildSavedSearchView(saved),
+        thumbnailUrl: await signThumbnailPath(env, saved.imageUrl),
+      },
+      { headers: { "Cache-Control": "no-store" } },
+    );
+    response.headers.set("X-Request-Id", requestId);
+    timing.end({
+      requestId,
+      status: 200,
+      savedSearchId: saved.id,
+      expiresAt: saved.expiresAt,
+    });
+    return response;
+  } catch (error) {
+    timing.endWithError(error, { requestId });
+    logger.error("Renewing saved search failed", error, { requestId });
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+    const response = NextResponse.json(errorToResponse(error), {
+      status: statusCode,
+      headers: errorResponseHeaders(error),
+    });
+    response.headers.set("X-Request-Id", requestId);
+    return response;
+  }
+}
@@ -0,0 +1,133 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getEnv } from "@/lib/cf-env";
+import {
+  buildSavedSearchView,
+  deleteSavedSearch,
+  getSavedSearch,
+  isSavedSearchExpired,
+} from "@/lib/saved-searches";
+import { signThumbnailPath } from "@/lib/thumbnail-proxy";
+import { z } from "zod";
+import { createLogger } from "@/lib/logger";
+import {
+  AuthenticationError,
+  errorResponseHeaders,
+  errorToResponse,
+  isAppError,
+} from "@/lib/errors";
+import { createRequestId } from "@/lib/request-id";
+
+export const runtime = "edge";
+
+const logger = createLogger("api:search:saved");
+
+const SavedSearchIdSchema = z.string().uuid();
+
+const notFound = (requestId: string) => {
+  const response = NextResponse.json(
+    { error: "Saved search not found." },
+    { status: 404 },
+  );
+  response.headers.set("X-Request-Id", requestId);
+  return response;
+};
+
+/**
+ * GET /api/search/saved/{id}
+ * Returns a saved search with its schedule and recent changes. Expired
+ * saved searches are not found.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  const timing = logger.startTiming("GET /api/search/saved");
+
+  try {
+    const env = getEnv();
+    const kv = env.KV_RATE_LIMIT;
+    const parsed = SavedSearchIdSchema.safeParse((await params).id);
+    const saved =
+      kv && parsed.success ? await getSavedSearch(kv, parsed.data) : null;
+
+    if (!saved || isSavedSearchExpired(saved)) {
+      timing.end({ requestId, status: 404, reason: "saved_search_not_found" });
+      return notFound(requestId);
+    }
+
+    const view = {
+      ...buildSavedSearchView(saved),
+      thumbnailUrl: await signThumbnailPath(env, saved.imageUrl),
+    };
+    const response = NextResponse.json(view, {
+      headers: { "Cache-Control": "no-store" },
+    });
+    response.headers.set("X-Request-Id", requestId);
+    timing.end({
+      requestId,
+      status: 200,
+      savedSearchId: saved.id,
+      newPlaces: view.newPlaces,
+    });
+    return response;
+  } catch (error) {
+    timing.endWithError(error, { requestId });
+    logger.error("Reading saved search failed", error, { requestId });
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+    const response = NextResponse.json(errorToResponse(error), {
+      status: statusCode,
+      headers: errorResponseHeaders(error),
+    });
+    response.headers.set("X-Request-Id", requestId);
+    return response;
+  }
+}
+
+/**
+ * DELETE /api/search/saved/{id}
+ * Stops re-running a saved search. Requires the `deleteToken` returned
+ * when it was saved, sent as `X-Delete-Token`.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  const timing = logger.startTiming("DELETE /api/search/saved");
+
+  try {
+    const env = getEnv();
+    const kv = env.KV_RATE_LIMIT;
+    const parsed = SavedSearchIdSchema.safeParse((await params).id);
+    const saved =
+      kv && parsed.success ? await getSavedSearch(kv, parsed.data) : null;
+
+    if (!kv || !saved) {
+      timing.end({ requestId, status: 404, reason: "saved_search_not_found" });
+      return notFound(requestId);
+    }
+
+    const token = request.headers.get("x-delete-token") ?? "";
+    if (!(await deleteSavedSearch(kv, env, saved.id, token))) {
+      throw new AuthenticationError("Invalid deletion token.");
+    }
+
+    const response = new NextResponse(null, { status: 204 });
+    response.headers.set("X-Request-Id", requestId);
+    timing.end({ requestId, status: 204, savedSearchId: saved.id });
+    return response;
+  } catch (error) {
+    timing.endWithError(error, { requestId });
+    logger.error("Deleting saved search failed", error, { requestId });
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+    const response = NextResponse.json(errorToResponse(error), {
+      status: statusCode,
+      headers: errorResponseHeaders(error),
+    });
+    response.headers.set("X-Request-Id", requestId);
+    return response;
+  }
+}
@@ -0,0 +1,207 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getEnv } from "@/lib/cf-env";
+import { getClientIp } from "@/lib/request";
+import { describeRateLimitReset, getRateLimitConfig } from "@/lib/rate-limit";
+import { enforceRateLimit } from "@/lib/durable-rate-limit";
+import { verifyTurnstileToken } from "@/lib/turnstile";
+import {
+  apiKeyUsageHeaders,
+  authenticateApiKey,
+  checkApiKeyQuota,
+} from "@/lib/api-keys";
+import {
+  buildSavedSearchView,
+  createSavedSearch,
+  parseSaveSearchInput,
+} from "@/lib/saved-searches";
+import { signThumbnailPath } from "@/lib/thumbnail-proxy";
+import { createLogger } from "@/lib/logger";
+import {
+  errorResponseHeaders,
+  errorToResponse,
+  isAppError,
+} from "@/lib/errors";
+import { createRequestId } from "@/lib/request-id";
+
+export const runtime = "edge";
+
+const logger = createLogger("api:search:saved");
+
+const MAX_REQUEST_BODY_SIZE = 16 * 1024; // 16KB
+
+/**
+ * POST /api/search/saved
+ * Saves a search to re-run daily or weekly. Responds 201 with the saved
+ * search and a `deleteToken` for DELETE /api/search/saved/{id} and
+ * POST /api/search/saved/{id}/renew. Responds 429 when the caller already
+ * has MAX_ACTIVE_SAVED_SEARCHES saved searches.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  const timing = logger.startTiming("POST /api/search/saved");
+
+  try {
+    const contentLength = request.headers.get("content-length");
+    if (contentLength && parseInt(contentLength) > MAX_REQUEST_BODY_SIZE) {
+      const response = NextResponse.json(
+        { error: "Request too large." },
+        { status: 413 },
+      );
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({ requestId, status: 413, reason: "body_too_large" });
+      return response;
+    }
+
+    const env = getEnv();
+    const kv = env.KV_RATE_LIMIT;
+    if (!kv) {
+      const response = NextResponse.json(
+        { error: "Saved searches are unavailable. Please try again later." },
+        { status: 503 },
+      );
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({ requestId, status: 503, reason: "missing_kv" });
+      return response;
+    }
+
+    const input = await parseSaveSearchInput(env, request);
+    const ip = getClientIp(request);
+
+    const authStart = Date.now();
+    const apiKey = await authenticateApiKey(kv, request);
+    timing.addMetric("auth", authStart);
+
+    if (!apiKey) {
+      const turnstileStart = Date.now();
+      const turnstile = await verifyTurnstileToken(
+        env,
+        input.turnstileToken ?? null,
+        ip,
+      );
+      timing.addMetric("turnstile", turnstileStart);
+
+      if (!turnstile.ok) {
+        const response = NextResponse.json(
+          { error: turnstile.error ?? "Security verification failed. Please refresh the page and try again." },
+          { status: 403 },
+        );
+        response.headers.set("X-Request-Id", requestId);
+        timing.end({ requestId, status: 403, reason: "turnstile_failed" });
+        return response;
+      }
+    }
+
+    const rateLimitStart = Date.now();
+    let rateLimitHeaders: Record<string, string>;
+
+    if (apiKey) {
+      const usage = await checkApiKeyQuota(kv, apiKey);
+      timing.addMetric("rateLimit", rateLimitStart);
+      rateLimitHeaders = apiKeyUsageHeaders(usage);
+
+      if (!usage.allowed) {
+        const resetAt = rateLimitHeaders["X-RateLimit-Reset"];
+        const retryAfterSeconds = Math.max(
+          1,
+          Math.ceil((new Date(resetAt).getTime() - Date.now()) / 1000),
+        );
+
+        const response = NextResponse.json(
+          { error: "API key quota exceeded.", resetAt },
+          {
+            status: 429,
+            headers: {
+              ...rateLimitHeaders,
+              "Retry-After": String(retryAfterSeconds),
+            },
+          },
+        );
+        response.headers.set("X-Request-Id", requestId);
+        timing.end({
+          requestId,
+          status: 429,
+          reason: "api_key_quota_exceeded",
+          apiKeyId: apiKey.id,
+        });
+        return response;
+      }
+    } else {
+      const rateConfig = getRateLimitConfig(env, "saved_search");
+      const rate = await enforceRateLimit(env, ip, "saved_search", rateConfig);
+      timing.addMetric("rateLimit", rateLimitStart);
+      rateLimitHeaders = {
+        "X-RateLimit-Limit": String(rate.limit),
+        "X-RateLimit-Remaining": String(rate.remaining),
+        "X-RateLimit-Reset": rate.resetAt,
+      };
+
+      if (!rate.allowed) {
+        const resetTime = new Date(rate.resetAt).getTime();
+        const retryAfterSeconds = Math.max(1, Math.ceil((resetTime - Date.now()) / 1000));
+
+        const response = NextResponse.json(
+          {
+            error: `Saved search limit reached. ${describeRateLimitReset(rateConfig)}`,
+            resetAt: rate.resetAt,
+          },
+          {
+            status: 429,
+            headers: {
+              ...rateLimitHeaders,
+              "Retry-After": String(retryAfterSeconds),
+            },
+          },
+        );
+        response.headers.set("X-Request-Id", requestId);
+        timing.end({ requestId, status: 429, reason: "rate_limited" });
+        return response;
+      }
+    }
+
+    const createStart = Date.now();
+    const { saved, deleteToken } = await createSavedSearch(kv, env, input, {
+      owner: apiKey ? `key:${apiKey.id}` : `ip:${ip}`,
+      siteUrl: env.NEXT_PUBLIC_SITE_URL ?? request.nextUrl.origin,
+      requestId,
+      ip,
+    });
+    timing.addMetric("create", createStart);
+
+    const response = NextResponse.json(
+      {
+        ...buildSavedSearchView(saved),
+        thumbnailUrl: await signThumbnailPath(env, saved.imageUrl),
+        deleteToken,
+      },
+      {
+        status: 201,
+        headers: {
+          Location: `/api/search/saved/${saved.id}`,
+          "Cache-Control": "no-store",
+          ...rateLimitHeaders,
+        },
+      },
+    );
+    response.headers.set("X-Request-Id", requestId);
+    timing.end({
+      requestId,
+      status: 201,
+      savedSearchId: saved.id,
+      frequency: saved.frequency,
+    });
+    return response;
+  } catch (error) {
+    timing.endWithError(error, { requestId });
+    logger.error("Saving search failed", error, { requestId });
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+    const errorResponse = errorToResponse(error);
+
+    const response = NextResponse.json(errorResponse, {
+      status: statusCode,
+      headers: errorResponseHeaders(error),
+    });
+    response.headers.set("X-Request-Id", requestId);
+    return response;
+  }
+}
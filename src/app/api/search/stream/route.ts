@@ -0,0 +1,218 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getEnv, runInBackground } from "@/lib/cf-env";
+import {
+  getCachedResult,
+  getSearchCacheTtl,
+  getTaskMapping,
+  storeCachedResult,
+  type TaskMapping,
+} from "@/lib/search-cache";
+import { getSearchProviderForTask } from "@/lib/search-fanout";
+import { refineCachedMatchTypes } from "@/lib/match-classification";
+import { withThumbnailUrls } from "@/lib/thumbnail-proxy";
+import {
+  formatServerSentEvent,
+  runSearchStream,
+  type SearchStreamEvent,
+} from "@/lib/search-stream";
+import { z } from "zod";
+import { createLogger } from "@/lib/logger";
+import {
+  errorResponseHeaders,
+  errorToResponse,
+  isAppError,
+} from "@/lib/errors";
+import { createRequestId } from "@/lib/request-id";
+import {
+  notifySearchCallbacks,
+  outcomeFromStreamEvent,
+} from "@/lib/search-webhooks";
+
+export const runtime = "edge";
+
+const logger = createLogger("api:search:stream");
+
+const TaskQuerySchema = z.object({
+  taskId: z.string().min(1),
+  provider: z.string().min(1).max(32).optional(),
+});
+
+/**
+ * GET /api/search/stream?taskId=
+ * Streams search progress as Server-Sent Events until the task is ready
+ * or fails. Events: queued, polling, partial, ready, failed. Ready results
+ * are cached, then their match types are refined in the background.
+ */
+export async function GET(request: NextRequest) {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  const timing = logger.startTiming("GET /api/search/stream");
+
+  try {
+    const env = getEnv();
+    const parsed = TaskQuerySchema.safeParse({
+      taskId: request.nextUrl.searchParams.get("taskId"),
+      provider: request.nextUrl.searchParams.get("provider") ?? undefined,
+    });
+
+    if (!parsed.success) {
+      const response = NextResponse.json(
+        { error: "Missing task ID. Please start a new search." },
+        { status: 400 },
+      );
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({ requestId, status: 400, reason: "missing_taskId" });
+      return response;
+    }
+
+    const { taskId } = parsed.data;
+    const provider = getSearchProviderForTask(
+      env,
+      taskId,
+      parsed.data.provider,
+    );
+    const cacheStore = env.KV_RATE_LIMIT;
+    const abort = new AbortController();
+    request.signal?.addEventListener("abort", () => abort.abort());
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let terminal: SearchStreamEvent | undefined;
+        const send = (event: SearchStreamEvent) => {
+          terminal = event;
+          if (abort.signal.aborted) return;
+          controller.enqueue(encoder.encode(formatServerSentEvent(event)));
+        };
+
+        try {
+          let mapping: TaskMapping | null = null;
+
+          if (cacheStore) {
+            const cacheStart = Date.now();
+            mapping = await getTaskMapping(cacheStore, taskId);
+            const cached = mapping
+              ? await getCachedResult(cacheStore, mapping.cacheKey)
+              : null;
+            timing.addMetric("cacheRead", cacheStart);
+
+            if (cached) {
+              send({ type: "queued", taskId, provider: provider.id });
+              send({
+                type: "ready",
+                taskId,
+                results: await withThumbnailUrls(env, cached.results),
+                checkUrl: cached.checkUrl,
+                cached: true,
+              });
+              notifySearchCallbacks(env, taskId, {
+                status: "ready",
+                results: cached.results,
+                checkUrl: cached.checkUrl,
+              });
+              timing.end({ requestId, status: "ready", cached: true });
+              return;
+            }
+          }
+
+          const providerStart = Date.now();
+          const resolution = await runSearchStream(
+            env,
+            provider,
+            taskId,
+            send,
+            {
+              signal: abort.signal,
+              presentResults: (results) => withThumbnailUrls(env, results),
+            },
+          );
+          timing.addMetric(provider.id, providerStart);
+
+          if (resolution && cacheStore && mapping) {
+            const cacheWriteStart = Date.now();
+            const cacheTtl = await getSearchCacheTtl(
+              cacheStore,
+              mapping.cacheKey,
+            );
+            await storeCachedResult(
+              cacheStore,
+              mapping.cacheKey,
+              {
+                taskId,
+                provider: provider.id,
+                results: resolution.results,
+                checkUrl: resolution.checkUrl,
+                cachedAt: new Date().toISOString(),
+                perceptualHash: mapping.perceptualHash,
+              },
+              cacheTtl,
+            );
+            timing.addMetric("cacheWrite", cacheWriteStart);
+
+            if (mapping.perceptualHash) {
+              runInBackground(
+                refineCachedMatchTypes(
+                  env,
+                  cacheStore,
+                  mapping.cacheKey,
+                  mapping.perceptualHash,
+                ),
+              );
+            }
+          }
+
+          const outcome = outcomeFromStreamEvent(terminal);
+          if (outcome) {
+            notifySearchCallbacks(env, taskId, outcome);
+          }
+
+          timing.end({
+            requestId,
+            status: resolution
+              ? "ready"
+              : abort.signal.aborted
+                ? "aborted"
+                : "failed",
+            results: resolution?.results.length ?? 0,
+            cached: false,
+          });
+        } catch (error) {
+          timing.endWithError(error, { requestId });
+          logger.error("Search stream failed", error, { requestId });
+          send({ type: "failed", taskId, ...errorToResponse(error) });
+        } finally {
+          // cancel() already closed the stream; closing again throws
+          if (!abort.signal.aborted) {
+            controller.close();
+          }
+        }
+      },
+      cancel() {
+        abort.abort();
+      },
+    });
+
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+        "X-Request-Id": requestId,
+      },
+    });
+  } catch (error) {
+    timing.endWithError(error, { requestId });
+    logger.error("Search stream setup failed", error, { requestId });
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+    const errorResponse = errorToResponse(error);
+
+    const response = NextResponse.json(errorResponse, {
+      status: statusCode,
+      headers: errorResponseHeaders(error),
+    });
+    response.headers.set("X-Request-Id", requestId);
+    return response;
+  }
+}
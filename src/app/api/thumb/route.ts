@@ -0,0 +1,165 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getEnv, runInBackground } from "@/lib/cf-env";
+import { getClientIp } from "@/lib/request";
+import { describeRateLimitReset, getRateLimitConfig } from "@/lib/rate-limit";
+import { enforceRateLimit, hasRateLimitStore } from "@/lib/durable-rate-limit";
+import { sha256Hex } from "@/lib/crypto";
+import { enforceModeration } from "@/lib/moderation";
+import {
+  fetchThumbnail,
+  getCachedThumbnail,
+  parseThumbnailRequest,
+  storeThumbnail,
+  thumbnailHeaders,
+  thumbnailKey,
+} from "@/lib/thumbnail-proxy";
+import { createLogger } from "@/lib/logger";
+import {
+  errorResponseHeaders,
+  errorToResponse,
+  isAppError,
+} from "@/lib/errors";
+import { createRequestId } from "@/lib/request-id";
+
+export const runtime = "edge";
+
+const logger = createLogger("api:thumb");
+
+/**
+ * GET /api/thumb?url=&sig=
+ * Serves a search result thumbnail through our origin, so browsers never
+ * contact the third-party host. Only URLs signed by the search responses
+ * are served, and thumbnails on the moderation blocklist never are. Only
+ * cache misses count against the `thumb` rate limit.
+ */
+export async function GET(request: NextRequest) {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  const timing = logger.startTiming("GET /api/thumb");
+
+  try {
+    const env = getEnv();
+    const imageUrl = await parseThumbnailRequest(
+      env,
+      request.nextUrl.searchParams,
+    );
+    const ip = getClientIp(request);
+    const moderation = {
+      source: "thumbnail",
+      requestId,
+      ip,
+      imageUrl,
+    } as const;
+    const bucket = env.R2_BUCKET;
+    const key = await thumbnailKey(imageUrl);
+
+    const cacheStart = Date.now();
+    const cached = bucket ? await getCachedThumbnail(bucket, key) : null;
+    timing.addMetric("cacheRead", cacheStart);
+
+    if (cached) {
+      // The blocklist may have grown since the thumbnail was cached
+      const sha256 = cached.customMetadata?.sha256;
+      if (sha256) {
+        await enforceModeration(env, { sha256 }, moderation).catch(
+          async (error) => {
+            await cached.body.cancel();
+            throw error;
+          },
+        );
+      }
+
+      const headers = thumbnailHeaders(
+        cached.httpMetadata!.contentType!,
+        cached.size,
+      );
+      headers.set("X-Cache", "HIT");
+      headers.set("X-Request-Id", requestId);
+      timing.end({ requestId, status: 200, cached: true });
+      return new Response(cached.body, { status: 200, headers });
+    }
+
+    const rateLimitStart = Date.now();
+    if (hasRateLimitStore(env)) {
+      const rateConfig = getRateLimitConfig(env, "thumb");
+      const rate = await enforceRateLimit(
+        env,
+        ip,
+        "thumb",
+        rateConfig,
+      );
+
+      if (!rate.allowed) {
+        const response = NextResponse.json(
+          {
+            error: `Thumbnail limit reached. ${describeRateLimitReset(rateConfig)}`,
+            resetAt: rate.resetAt,
+          },
+          {
+            status: 429,
+            headers: {
+              "Cache-Control": "no-store",
+              "X-RateLimit-Limit": String(rate.limit),
+              "X-RateLimit-Remaining": String(rate.remaining),
+              "X-RateLimit-Reset": rate.resetAt,
+            },
+          },
+        );
+        response.headers.set("X-Request-Id", requestId);
+        timing.end({ requestId, status: 429, reason: "rate_limited" });
+        return response;
+      }
+    }
+    timing.addMetric("rateLimit", rateLimitStart);
+
+    const fetchStart = Date.now();
+    const thumbnail = await fetchThumbnail(imageUrl);
+    timing.addMetric("fetch", fetchStart);
+
+    if (!thumbnail.ok) {
+      const response = NextResponse.json(
+        { error: thumbnail.error },
+        { status: thumbnail.status, headers: { "Cache-Control": "no-store" } },
+      );
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({
+        requestId,
+        status: thumbnail.status,
+        reason: thumbnail.reason,
+      });
+      return response;
+    }
+
+    const moderationStart = Date.now();
+    const sha256 = await sha256Hex(thumbnail.bytes);
+    await enforceModeration(env, { sha256 }, moderation);
+    timing.addMetric("moderation", moderationStart);
+
+    if (bucket) {
+      runInBackground(
+        storeThumbnail(bucket, key, imageUrl, { ...thumbnail, sha256 }),
+      );
+    }
+
+    const headers = thumbnailHeaders(thumbnail.type, thumbnail.bytes.length);
+    headers.set("X-Cache", "MISS");
+    headers.set("X-Request-Id", requestId);
+    timing.end({
+      requestId,
+      status: 200,
+      cached: false,
+      size: thumbnail.bytes.length,
+    });
+    return new Response(thumbnail.bytes.slice(), { status: 200, headers });
+  } catch (error) {
+    timing.endWithError(error, { requestId });
+    logger.error("Thumbnail request failed", error, { requestId });
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+    const response = NextResponse.json(errorToResponse(error), {
+      status: statusCode,
+      headers: errorResponseHeaders(error),
+    });
+    response.headers.set("X-Request-Id", requestId);
+    return response;
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it, beforeEach, vi } from "vitest";
+
+// Mock @cloudflare/next-on-pages before any imports that use it
+vi.mock("@cloudflare/next-on-pages", () => ({
+  getRequestContext: vi.fn(() => ({
+    env: {},
+  })),
+}));
+
+import { DELETE } from "./route";
+import { POST as UPLOAD } from "../route";
+import { createMockEnv, MockR2Bucket } from "@/test/setup";
+import type { AppEnv } from "@/lib/cf-env";
+
+// Mock the cf-env module to return our test env
+vi.mock("@/lib/cf-env", async (importOriginal) => {
+  const original = await importOriginal<typeof import("@/lib/cf-env")>();
+  return {
+    ...original,
+    getEnv: vi.fn(),
+  };
+});
+
+import { getEnv } from "@/lib/cf-env";
+
+// JPEG magic bytes (minimal valid JPEG header)
+const JPEG_MAGIC = new Uint8Array([
+  0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01,
+  0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00,
+]);
+
+async function upload(): Promise<{ key: string; deleteToken: string }> {
+  const formData = new FormData();
+  formData.append("file", new File([JPEG_MAGIC], "photo.jpg", { type: "image/jpeg" }));
+  const response = await UPLOAD(
+    new Request("https://example.com/api/upload", {
+      method: "POST",
+      body: formData,
+    }) as never,
+  );
+  return (await response.json()) as { key: string; deleteToken: string };
+}
+
+function deleteRequest(key: string, token?: string) {
+  const request = new Request(`https://example.com/api/upload/${key}`, {
+    method: "DELETE",
+    headers: token ? { "X-Delete-Token": token } : {},
+  });
+  return DELETE(request as never, {
+    params: Promise.resolve({ key: key.split("/") }),
+  });
+}
+
+describe("DELETE /api/upload/{key}", () => {
+  let env: AppEnv;
+  let r2: MockR2Bucket;
+
+  beforeEach(() => {
+    env = createMockEnv();
+    r2 = env.R2_BUCKET as unknown as MockR2Bucket;
+    vi.mocked(getEnv).mockReturnValue(env);
+  });
+
+  it("deletes the upload with the token returned at upload time", async () => {
+    const { key, deleteToken } = await upload();
+    expect(deleteToken).toMatch(/^[a-f0-9]{48}$/);
+
+    const response = await deleteRequest(key, deleteToken);
+
+    expect(response.status).toBe(204);
+    expect(r2.store.has(key)).toBe(false);
+  });
+
+  it("rejects a missing or wrong token", async () => {
+    const { key } = await upload();
+
+    expect((await deleteRequest(key)).status).toBe(401);
+    expect((await deleteRequest(key, "0".repeat(48))).status).toBe(401);
+    expect(r2.store.has(key)).toBe(true);
+  });
+
+  it("returns 404 for unknown and non-upload keys", async () => {
+    const { deleteToken } = await upload();
+
+    expect(
+      (await deleteRequest(`uploads/2024-01-01/${"a".repeat(64)}.jpg`, deleteToken))
+        .status,
+    ).toBe(404);
+    expect((await deleteRequest("incoming/x.jpg", deleteToken)).status).toBe(404);
+  });
+});
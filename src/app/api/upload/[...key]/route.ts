@@ -0,0 +1,77 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getEnv } from "@/lib/cf-env";
+import { isUploadKey, verifyDeletionToken } from "@/lib/upload-storage";
+import { createLogger } from "@/lib/logger";
+import {
+  AuthenticationError,
+  errorResponseHeaders,
+  errorToResponse,
+  isAppError,
+} from "@/lib/errors";
+import { createRequestId } from "@/lib/request-id";
+
+export const runtime = "edge";
+
+const logger = createLogger("api:upload:delete");
+
+/**
+ * DELETE /api/upload/{key}
+ * Deletes an upload before its retention period ends. Requires the
+ * `deleteToken` returned by the upload, sent as `X-Delete-Token`.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string[] }> },
+) {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  const timing = logger.startTiming("DELETE /api/upload");
+
+  try {
+    const env = getEnv();
+    if (!env.R2_BUCKET) {
+      const response = NextResponse.json(
+        { error: "Storage service unavailable. Please try again later." },
+        { status: 500 },
+      );
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({ requestId, status: 500, reason: "missing_r2" });
+      return response;
+    }
+
+    const key = (await params).key.join("/");
+    const object = isUploadKey(key) ? await env.R2_BUCKET.head(key) : null;
+    if (!object) {
+      const response = NextResponse.json(
+        { error: "Upload not found." },
+        { status: 404 },
+      );
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({ requestId, status: 404, reason: "not_found" });
+      return response;
+    }
+
+    const token = request.headers.get("x-delete-token") ?? "";
+    if (!(await verifyDeletionToken(object, token))) {
+      throw new AuthenticationError("Invalid deletion token.");
+    }
+
+    await env.R2_BUCKET.delete(key);
+    logger.info("Upload deleted by owner", { requestId, key });
+
+    const response = new NextResponse(null, { status: 204 });
+    response.headers.set("X-Request-Id", requestId);
+    timing.end({ requestId, status: 204 });
+    return response;
+  } catch (error) {
+    timing.endWithError(error, { requestId });
+    logger.error("Deleting upload failed", error, { requestId });
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+    const response = NextResponse.json(errorToResponse(error), {
+      status: statusCode,
+      headers: errorResponseHeaders(error),
+    });
+    response.headers.set("X-Request-Id", requestId);
+    return response;
+  }
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it, beforeEach, vi } from "vitest";
+
+// Mock @cloudflare/next-on-pages before any imports that use it
+vi.mock("@cloudflare/next-on-pages", () => ({
+  getRequestContext: vi.fn(() => ({
+    env: {},
+  })),
+}));
+
+import { POST } from "./route";
+import { createMockEnv, MockR2Bucket } from "@/test/setup";
+import { sha256Hex } from "@/lib/crypto";
+import type { AppEnv } from "@/lib/cf-env";
+
+// Mock the cf-env module to return our test env
+vi.mock("@/lib/cf-env", async (importOriginal) => {
+  const original = await importOriginal<typeof import("@/lib/cf-env")>();
+  return {
+    ...original,
+    getEnv: vi.fn(),
+  };
+});
+
+import { getEnv } from "@/lib/cf-env";
+
+// JPEG magic bytes (minimal valid JPEG header)
+const JPEG_MAGIC = new Uint8Array([
+  0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01,
+  0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00,
+]);
+
+function createFinalizeRequest(body: unknown): Request {
+  return new Request("https://example.com/api/upload/finalize", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+// Stages bytes the way a pre-signed PUT would, returning the staging key
+async function stage(
+  r2: MockR2Bucket,
+  bytes: Uint8Array,
+  contentType: string,
+  extension = "jpg",
+): Promise<string> {
+  const key = `incoming/${await sha256Hex(bytes)}.${extension}`;
+  await r2.put(key, bytes, { httpMetadata: { contentType } });
+  return key;
+}
+
+describe("POST /api/upload/finalize", () => {
+  let env: AppEnv;
+  let r2: MockR2Bucket;
+
+  beforeEach(() => {
+    env = createMockEnv();
+    r2 = env.R2_BUCKET as unknown as MockR2Bucket;
+    vi.mocked(getEnv).mockReturnValue(env);
+  });
+
+  it("stores a valid staged upload and removes the staging object", async () => {
+    const key = await stage(r2, JPEG_MAGIC, "image/jpeg");
+
+    const response = await POST(
+      createFinalizeRequest({ key, filename: "photo.jpg" }) as never,
+    );
+    const data = (await response.json()) as { key: string; hash: string };
+
+    expect(response.status).toBe(200);
+    expect(data.key).toMatch(/^uploads\/\d{4}-\d{2}-\d{2}\/[a-f0-9]{64}\.jpg$/);
+    expect(data.hash).toBe(await sha256Hex(JPEG_MAGIC));
+    expect(Array.from(r2.store.keys())).toEqual([data.key]);
+  });
+
+  it("rejects keys outside the staging prefix", async () => {
+    const response = await POST(
+      createFinalizeRequest({ key: "uploads/2024-01-01/abc.jpg" }) as never,
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it("returns 404 when nothing was uploaded", async () => {
+    const response = await POST(
+      createFinalizeRequest({ key: `incoming/${"a".repeat(64)}.jpg` }) as never,
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  it("deletes staged files that are not images", async () => {
+    const bytes = new TextEncoder().encode("<html>not an image</html>");
+    const key = await stage(r2, bytes, "image/jpeg");
+
+    const response = await POST(createFinalizeRequest({ key }) as never);
+
+    expect(response.status).toBe(415);
+    expect(r2.store.size).toBe(0);
+  });
+
+  it("deletes staged files whose content type does not match", async () => {
+    const key = await stage(r2, JPEG_MAGIC, "image/png", "png");
+
+    const response = await POST(createFinalizeRequest({ key }) as never);
+
+    expect(response.status).toBe(415);
+    expect(r2.store.size).toBe(0);
+  });
+
+  it("deletes staged files that do not match the signed hash", async () => {
+    const key = `incoming/${"b".repeat(64)}.jpg`;
+    await r2.put(key, JPEG_MAGIC, { httpMetadata: { contentType: "image/jpeg" } });
+
+    const response = await POST(createFinalizeRequest({ key }) as never);
+
+    expect(response.status).toBe(400);
+    expect(r2.store.size).toBe(0);
+  });
+});
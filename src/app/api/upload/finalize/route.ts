@@ -0,0 +1,165 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getEnv } from "@/lib/cf-env";
+import { getClientIp } from "@/lib/request";
+import { sha256Hex } from "@/lib/crypto";
+import { canonicalImageType, detectImageType } from "@/lib/image";
+import {
+  DIRECT_UPLOAD_MAX_SIZE,
+  parseFinalizeInput,
+  parseStagingKey,
+} from "@/lib/direct-upload";
+import {
+  storeUpload,
+  UPLOAD_IMAGE_TYPES,
+  uploadResponseBody,
+} from "@/lib/upload-storage";
+import { createLogger } from "@/lib/logger";
+import {
+  errorResponseHeaders,
+  errorToResponse,
+  isAppError,
+} from "@/lib/errors";
+import { createRequestId } from "@/lib/request-id";
+
+export const runtime = "edge";
+
+const logger = createLogger("api:upload:finalize");
+
+/**
+ * POST /api/upload/finalize
+ * Validates a file uploaded through `/api/upload/presign` and stores it like
+ * a regular upload. The staged object is always deleted; invalid files are
+ * rejected with the same errors as `/api/upload`.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  const timing = logger.startTiming("POST /api/upload/finalize");
+
+  try {
+    const env = getEnv();
+    const bucket = env.R2_BUCKET;
+    if (!bucket) {
+      const response = NextResponse.json(
+        { error: "Storage service unavailable. Please try again later." },
+        { status: 500 },
+      );
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({ requestId, status: 500, reason: "missing_r2" });
+      return response;
+    }
+
+    const { key, filename } = await parseFinalizeInput(request);
+    const expectedHash = parseStagingKey(key);
+
+    const reject = async (status: number, error: string, reason: string) => {
+      await bucket.delete(key);
+      const response = NextResponse.json({ error }, { status });
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({ requestId, status, reason, key });
+      return response;
+    };
+
+    const readStart = Date.now();
+    const object = await bucket.get(key);
+    if (!object) {
+      const response = NextResponse.json(
+        { error: "Upload not found. It may have expired; please upload again." },
+        { status: 404 },
+      );
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({ requestId, status: 404, reason: "not_found" });
+      return response;
+    }
+
+    if (object.size > DIRECT_UPLOAD_MAX_SIZE) {
+      return reject(
+        413,
+        "File too large. Maximum size is 25MB.",
+        "file_too_large",
+      );
+    }
+    if (object.size === 0) {
+      return reject(
+        400,
+        "File appears to be empty. Please select a valid image file.",
+        "empty_file",
+      );
+    }
+
+    const bytes = new Uint8Array(await object.arrayBuffer());
+    timing.addMetric("readObject", readStart);
+
+    if ((await sha256Hex(bytes)) !== expectedHash) {
+      return reject(
+        400,
+        "Uploaded file does not match the requested upload. Please upload again.",
+        "hash_mismatch",
+      );
+    }
+
+    const detectedType = detectImageType(bytes);
+    if (!detectedType || !UPLOAD_IMAGE_TYPES.has(detectedType)) {
+      return reject(
+        415,
+        "Unsupported file type. Please use JPEG, PNG, WebP, GIF, AVIF, HEIC, BMP, TIFF, or SVG images.",
+        "unsupported_type",
+      );
+    }
+
+    const declaredType = object.httpMetadata?.contentType;
+    if (declaredType && canonicalImageType(declaredType) !== detectedType) {
+      logger.warn("File type mismatch", {
+        requestId,
+        declaredType,
+        detectedType,
+      });
+      return reject(
+        415,
+        "File content does not match its extension. Please upload a valid image file.",
+        "type_mismatch",
+      );
+    }
+
+    let stored;
+    try {
+      stored = await storeUpload(
+        env,
+        bucket,
+        {
+          bytes,
+          detectedType,
+          originalName: filename ?? "",
+        },
+        { requestId, ip: getClientIp(request), timing },
+      );
+    } finally {
+      // Stored, rejected or quarantined, the staged copy is no longer needed
+      await bucket.delete(key);
+    }
+    if (!stored.ok) {
+      return reject(stored.status, stored.error, stored.reason);
+    }
+
+    const response = NextResponse.json(uploadResponseBody(stored));
+    response.headers.set("X-Request-Id", requestId);
+    timing.end({
+      requestId,
+      status: 200,
+      fileSize: object.size,
+      fileType: detectedType,
+      cached: stored.cached,
+    });
+    return response;
+  } catch (error) {
+    timing.endWithError(error, { requestId });
+    logger.error("Finalizing upload failed", error, { requestId });
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+    const response = NextResponse.json(errorToResponse(error), {
+      status: statusCode,
+      headers: errorResponseHeaders(error),
+    });
+    response.headers.set("X-Request-Id", requestId);
+    return response;
+  }
+}
@@ -0,0 +1,142 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getEnv } from "@/lib/cf-env";
+import { getClientIp } from "@/lib/request";
+import { verifyTurnstileToken } from "@/lib/turnstile";
+import { authenticateApiKey } from "@/lib/api-keys";
+import { checkUploadLimits } from "@/lib/upload-limits";
+import {
+  buildStagingKey,
+  DIRECT_UPLOAD_TTL_SECONDS,
+  parsePresignInput,
+} from "@/lib/direct-upload";
+import { getDirectUploadConfig, presignR2Upload } from "@/lib/r2-presign";
+import { createLogger } from "@/lib/logger";
+import {
+  errorResponseHeaders,
+  errorToResponse,
+  isAppError,
+} from "@/lib/errors";
+import { createRequestId } from "@/lib/request-id";
+
+export const runtime = "edge";
+
+const logger = createLogger("api:upload:presign");
+
+const NO_STORE = "no-store, max-age=0";
+
+/**
+ * POST /api/upload/presign
+ * Issues a short-lived URL for uploading one file straight to R2, scoped to
+ * `{ sha256, type, size }`. Complete the upload with `/api/upload/finalize`.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  const timing = logger.startTiming("POST /api/upload/presign");
+
+  try {
+    const env = getEnv();
+    const config = getDirectUploadConfig(env);
+    if (!env.R2_BUCKET || !config) {
+      const response = NextResponse.json(
+        { error: "Direct uploads are not available. Use /api/upload instead." },
+        { status: 501 },
+      );
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({ requestId, status: 501, reason: "not_configured" });
+      return response;
+    }
+
+    const input = await parsePresignInput(request);
+    const ip = getClientIp(request);
+
+    const authStart = Date.now();
+    const apiKey = await authenticateApiKey(env.KV_RATE_LIMIT, request);
+    timing.addMetric("auth", authStart);
+
+    if (!apiKey) {
+      const turnstileStart = Date.now();
+      const turnstile = await verifyTurnstileToken(
+        env,
+        input.turnstileToken ?? null,
+        ip,
+        { required: false },
+      );
+      timing.addMetric("turnstile", turnstileStart);
+
+      if (!turnstile.ok) {
+        const response = NextResponse.json(
+          { error: turnstile.error ?? "Security verification failed. Please refresh the page and try again." },
+          { status: 403 },
+        );
+        response.headers.set("X-Request-Id", requestId);
+        timing.end({ requestId, status: 403, reason: "turnstile_failed" });
+        return response;
+      }
+    }
+
+    // Issuing the URL counts as the upload; finalizing it is free
+    const rateLimitStart = Date.now();
+    const limit = await checkUploadLimits(env, ip, apiKey);
+    timing.addMetric("rateLimit", rateLimitStart);
+
+    if (!limit.allowed) {
+      const response = NextResponse.json(
+        { error: limit.error, resetAt: limit.resetAt },
+        { status: 429, headers: limit.headers },
+      );
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({
+        requestId,
+        status: 429,
+        reason: limit.reason,
+        ...(apiKey && { apiKeyId: apiKey.id }),
+      });
+      return response;
+    }
+
+    const key = buildStagingKey(input.sha256, input.type);
+    const upload = await presignR2Upload(
+      config,
+      {
+        key,
+        contentType: input.type,
+        size: input.size,
+        sha256: input.sha256,
+      },
+      DIRECT_UPLOAD_TTL_SECONDS,
+    );
+    const expiresAt = new Date(
+      Date.now() + DIRECT_UPLOAD_TTL_SECONDS * 1000,
+    ).toISOString();
+
+    const response = NextResponse.json(
+      {
+        key,
+        uploadUrl: upload.url,
+        method: "PUT",
+        headers: upload.headers,
+        expiresAt,
+      },
+      { headers: { ...limit.headers, "Cache-Control": NO_STORE } },
+    );
+    response.headers.set("X-Request-Id", requestId);
+    timing.end({
+      requestId,
+      status: 200,
+      fileSize: input.size,
+      fileType: input.type,
+    });
+    return response;
+  } catch (error) {
+    timing.endWithError(error, { requestId });
+    logger.error("Presigning upload failed", error, { requestId });
+
+    const statusCode = isAppError(error) ? error.statusCode : 500;
+    const response = NextResponse.json(errorToResponse(error), {
+      status: statusCode,
+      headers: errorResponseHeaders(error),
+    });
+    response.headers.set("X-Request-Id", requestId);
+    return response;
+  }
+}
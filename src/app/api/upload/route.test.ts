@@ -15,6 +15,8 @@ import {
   restoreFetch,
 } from "@/test/setup";
 import type { AppEnv } from "@/lib/cf-env";
+import { sha256Hex } from "@/lib/crypto";
+import { BLOCKLIST_KEY } from "@/lib/moderation";
 
 // Mock the cf-env module to return our test env
 vi.mock("@/lib/cf-env", async (importOriginal) => {
@@ -33,9 +35,22 @@ vi.mock("@/lib/turnstile", () => ({
 import { getEnv } from "@/lib/cf-env";
 import { verifyTurnstileToken } from "@/lib/turnstile";
 
+/** JSON body of an upload response, successful or not */
+type UploadResponse = {
+  key?: string;
+  url?: string;
+  hash?: string;
+  originalHash?: string;
+  originalType?: string;
+  cached?: boolean;
+  deleteToken?: string;
+  error?: string;
+  code?: string;
+};
+
 // Helper to create a mock File
 function createMockFile(
-  content: Uint8Array,
+  content: Uint8Array<ArrayBuffer>,
   name: string,
   type: string,
 ): File {
@@ -90,6 +105,12 @@ const WEBP_MAGIC = new Uint8Array([
   0x52, 0x49, 0x46, 0x46, 0x00, 0x00, 0x00, 0x00, 0x57, 0x45, 0x42, 0x50,
 ]);
 
+// HEIC ftyp box (major brand "heic", compatible "mif1")
+const HEIC_MAGIC = new Uint8Array([
+  0x00, 0x00, 0x00, 0x14, 0x66, 0x74, 0x79, 0x70, 0x68, 0x65, 0x69, 0x63,
+  0x00, 0x00, 0x00, 0x00, 0x6d, 0x69, 0x66, 0x31,
+]);
+
 describe("POST /api/upload", () => {
   let env: AppEnv;
 
@@ -112,7 +133,7 @@ describe("POST /api/upload", () => {
       const request = createUploadRequest(file, { cfConnectingIp: "127.0.0.1" });
 
       const response = await POST(request as never);
-      const data = await response.json();
+      const data = (await response.json()) as UploadResponse;
 
       expect(response.status).toBe(500);
       expect(data.error).toContain("Storage");
@@ -124,7 +145,7 @@ describe("POST /api/upload", () => {
       const request = createUploadRequest(null, { cfConnectingIp: "127.0.0.1" });
 
       const response = await POST(request as never);
-      const data = await response.json();
+      const data = (await response.json()) as UploadResponse;
 
       expect(response.status).toBe(400);
       expect(data.error).toContain("No file");
@@ -135,7 +156,7 @@ describe("POST /api/upload", () => {
       const request = createUploadRequest(emptyFile, { cfConnectingIp: "127.0.0.1" });
 
       const response = await POST(request as never);
-      const data = await response.json();
+      const data = (await response.json()) as UploadResponse;
 
       expect(response.status).toBe(400);
       expect(data.error).toContain("empty");
@@ -150,7 +171,7 @@ describe("POST /api/upload", () => {
       const request = createUploadRequest(largeFile, { cfConnectingIp: "127.0.0.1" });
 
       const response = await POST(request as never);
-      const data = await response.json();
+      const data = (await response.json()) as UploadResponse;
 
       expect(response.status).toBe(413);
       expect(data.error).toContain("8MB");
@@ -163,7 +184,7 @@ describe("POST /api/upload", () => {
       const request = createUploadRequest(file, { cfConnectingIp: "127.0.0.1" });
 
       const response = await POST(request as never);
-      const data = await response.json();
+      const data = (await response.json()) as UploadResponse;
 
       expect(response.status).toBe(415);
       expect(data.error).toContain("Unsupported");
@@ -175,7 +196,7 @@ describe("POST /api/upload", () => {
       const request = createUploadRequest(file, { cfConnectingIp: "127.0.0.1" });
 
       const response = await POST(request as never);
-      const data = await response.json();
+      const data = (await response.json()) as UploadResponse;
 
       expect(response.status).toBe(415);
       expect(data.error).toContain("does not match");
@@ -234,7 +255,7 @@ describe("POST /api/upload", () => {
       });
 
       const response = await POST(request as never);
-      const data = await response.json();
+      const data = (await response.json()) as UploadResponse;
 
       expect(response.status).toBe(403);
       expect(data.error).toContain("Turnstile");
@@ -269,7 +290,7 @@ describe("POST /api/upload", () => {
       const request = createUploadRequest(file, { cfConnectingIp: "127.0.0.1" });
 
       const response = await POST(request as never);
-      const data = await response.json();
+      const data = (await response.json()) as UploadResponse;
 
       expect(response.status).toBe(429);
       expect(data.error).toContain("limit");
@@ -285,7 +306,7 @@ describe("POST /api/upload", () => {
       const request = createUploadRequest(file, { cfConnectingIp: "127.0.0.1" });
 
       const response = await POST(request as never);
-      const data = await response.json();
+      const data = (await response.json()) as UploadResponse;
 
       expect(response.status).toBe(429);
       expect(data.error).toContain("limit");
@@ -309,7 +330,7 @@ describe("POST /api/upload", () => {
       const request = createUploadRequest(file, { cfConnectingIp: "127.0.0.1" });
 
       const response = await POST(request as never);
-      const data = await response.json();
+      const data = (await response.json()) as UploadResponse;
 
       expect(response.status).toBe(200);
       expect(data.key).toMatch(/^uploads\/\d{4}-\d{2}-\d{2}\/[a-f0-9]+\.jpg$/);
@@ -338,25 +359,132 @@ describe("POST /api/upload", () => {
       const request1 = createUploadRequest(file1, { cfConnectingIp: "127.0.0.1" });
 
       const response1 = await POST(request1 as never);
-      const data1 = await response1.json();
+      const data1 = (await response1.json()) as UploadResponse;
 
       // Upload same content again
       const file2 = createMockFile(JPEG_MAGIC, "test2.jpg", "image/jpeg");
       const request2 = createUploadRequest(file2, { cfConnectingIp: "127.0.0.1" });
 
       const response2 = await POST(request2 as never);
-      const data2 = await response2.json();
+      const data2 = (await response2.json()) as UploadResponse;
 
       expect(response2.status).toBe(200);
       expect(data2.key).toBe(data1.key);
       expect(data2.hash).toBe(data1.hash);
       expect(data2.cached).toBe(true);
+      // Only the first uploader can delete the shared object
+      expect(data1.deleteToken).toMatch(/^[a-f0-9]{48}$/);
+      expect(data2.deleteToken).toBeUndefined();
 
       // Only one file should be stored (store is a Map)
       const keys = Array.from(r2.store.keys());
       expect(keys.length).toBe(1);
     });
 
+    it("stores a normalized copy with both hashes when enabled", async () => {
+      const r2 = env.R2_BUCKET as unknown as MockR2Bucket;
+      // The Images binding re-encodes to a smaller JPEG
+      const normalizedJpeg = JPEG_MAGIC.slice(0, 4);
+      const transformer = {
+        transform: vi.fn(() => transformer),
+        output: vi.fn(async () => ({
+          image: () => new Response(normalizedJpeg).body,
+        })),
+      };
+      env = {
+        ...env,
+        UPLOAD_NORMALIZE: "true",
+        IMAGES: { input: vi.fn(() => transformer) } as unknown as ImagesBinding,
+      };
+      vi.mocked(getEnv).mockReturnValue(env);
+
+      const file = createMockFile(JPEG_MAGIC, "test.jpg", "image/jpeg");
+      const request = createUploadRequest(file, { cfConnectingIp: "127.0.0.1" });
+
+      const response = await POST(request as never);
+      const data = (await response.json()) as UploadResponse;
+
+      expect(response.status).toBe(200);
+      expect(data.originalHash).toMatch(/^[a-f0-9]{64}$/);
+      expect(data.hash).not.toBe(data.originalHash);
+      expect(data.key).toContain(data.hash);
+      expect(transformer.transform).toHaveBeenCalledWith({
+        width: 2048,
+        height: 2048,
+        fit: "scale-down",
+      });
+
+      const stored = await r2.head(data.key!);
+      expect(stored?.size).toBe(normalizedJpeg.length);
+      expect(stored?.customMetadata).toMatchObject({
+        sha256: data.hash,
+        originalSha256: data.originalHash,
+        normalizedSha256: data.hash,
+      });
+    });
+
+    it("returns 415 when the image cannot be normalized", async () => {
+      env = {
+        ...env,
+        UPLOAD_NORMALIZE: "true",
+        IMAGES: {
+          input: vi.fn(() => {
+            throw new Error("ImagesError: invalid image");
+          }),
+        } as unknown as ImagesBinding,
+      };
+      vi.mocked(getEnv).mockReturnValue(env);
+
+      const file = createMockFile(JPEG_MAGIC, "test.jpg", "image/jpeg");
+      const request = createUploadRequest(file, { cfConnectingIp: "127.0.0.1" });
+
+      const response = await POST(request as never);
+
+      expect(response.status).toBe(415);
+    });
+
+    it("converts HEIC uploads to JPEG", async () => {
+      const r2 = env.R2_BUCKET as unknown as MockR2Bucket;
+      const transformer = {
+        transform: vi.fn(() => transformer),
+        output: vi.fn(async () => ({
+          image: () => new Response(JPEG_MAGIC.slice()).body,
+        })),
+      };
+      env = {
+        ...env,
+        IMAGES: { input: vi.fn(() => transformer) } as unknown as ImagesBinding,
+      };
+      vi.mocked(getEnv).mockReturnValue(env);
+
+      // Phones often declare HEIC photos as image/heif
+      const file = createMockFile(HEIC_MAGIC, "IMG_0001.HEIC", "image/heif");
+      const request = createUploadRequest(file, { cfConnectingIp: "127.0.0.1" });
+
+      const response = await POST(request as never);
+      const data = (await response.json()) as UploadResponse;
+
+      expect(response.status).toBe(200);
+      expect(data.key).toMatch(/\.jpg$/);
+      expect(data.originalType).toBe("image/heic");
+      expect(transformer.output).toHaveBeenCalledWith(
+        expect.objectContaining({ format: "image/jpeg" }),
+      );
+
+      const stored = await r2.head(data.key!);
+      expect(stored?.httpMetadata?.contentType).toBe("image/jpeg");
+      expect(stored?.customMetadata?.originalType).toBe("image/heic");
+    });
+
+    it("returns 415 for HEIC uploads when conversion is unavailable", async () => {
+      const file = createMockFile(HEIC_MAGIC, "IMG_0001.HEIC", "image/heic");
+      const request = createUploadRequest(file, { cfConnectingIp: "127.0.0.1" });
+
+      const response = await POST(request as never);
+
+      expect(response.status).toBe(415);
+    });
+
     it("includes request ID in response headers", async () => {
       const file = createMockFile(JPEG_MAGIC, "test.jpg", "image/jpeg");
       const request = createUploadRequest(file, { cfConnectingIp: "127.0.0.1" });
@@ -367,6 +495,59 @@ describe("POST /api/upload", () => {
     });
   });
 
+  describe("moderation", () => {
+    it("quarantines blocklisted uploads instead of storing them", async () => {
+      const kv = env.KV_RATE_LIMIT as unknown as MockKVNamespace;
+      const r2 = env.R2_BUCKET as unknown as MockR2Bucket;
+      await kv.put(
+        BLOCKLIST_KEY,
+        JSON.stringify({ sha256: [await sha256Hex(JPEG_MAGIC)] }),
+      );
+
+      const file = createMockFile(JPEG_MAGIC, "test.jpg", "image/jpeg");
+      const request = createUploadRequest(file, { cfConnectingIp: "127.0.0.1" });
+
+      const response = await POST(request as never);
+      const data = (await response.json()) as UploadResponse;
+
+      expect(response.status).toBe(451);
+      expect(data.code).toBe("CONTENT_BLOCKED");
+      const keys = Array.from(r2.store.keys());
+      expect(keys).toHaveLength(1);
+      expect(keys[0]).toMatch(/^quarantine\/\d{4}-\d{2}-\d{2}\/[a-f0-9]{64}\.jpg$/);
+    });
+
+    it("quarantines uploads by the perceptual hash computed on the server", async () => {
+      const kv = env.KV_RATE_LIMIT as unknown as MockKVNamespace;
+      const r2 = env.R2_BUCKET as unknown as MockR2Bucket;
+      await kv.put(
+        BLOCKLIST_KEY,
+        JSON.stringify({ perceptual: ["0000000000000000"] }),
+      );
+      // Flat gray pixels hash to all zeroes
+      const pixels = new Uint8Array(36 * 32 * 4).fill(128);
+      const transformer = {
+        transform: vi.fn(() => transformer),
+        output: vi.fn(async () => ({
+          image: () => new Response(pixels).body,
+        })),
+      };
+      env = {
+        ...env,
+        IMAGES: { input: vi.fn(() => transformer) } as unknown as ImagesBinding,
+      };
+      vi.mocked(getEnv).mockReturnValue(env);
+
+      const file = createMockFile(JPEG_MAGIC, "test.jpg", "image/jpeg");
+      const request = createUploadRequest(file, { cfConnectingIp: "127.0.0.1" });
+
+      const response = await POST(request as never);
+
+      expect(response.status).toBe(451);
+      expect(Array.from(r2.store.keys())[0]).toMatch(/^quarantine\//);
+    });
+  });
+
   describe("filename sanitization", () => {
     it("handles filenames with path traversal attempts", async () => {
       const file = createMockFile(JPEG_MAGIC, "../../../etc/passwd.jpg", "image/jpeg");
@@ -407,7 +588,7 @@ describe("POST /api/upload", () => {
       const request = createUploadRequest(file, { cfConnectingIp: "127.0.0.1" });
 
       const response = await POST(request as never);
-      const data = await response.json();
+      const data = (await response.json()) as UploadResponse;
 
       expect(response.status).toBe(500);
       expect(data.error).toBeDefined();
@@ -1,12 +1,21 @@
 import { NextResponse, type NextRequest } from "next/server";
 import { getEnv } from "@/lib/cf-env";
-import { sha256Hex } from "@/lib/crypto";
-import { detectImageType, extensionForType } from "@/lib/image";
+import { canonicalImageType, detectImageType } from "@/lib/image";
 import { getClientIp } from "@/lib/request";
-import { checkRateLimit } from "@/lib/rate-limit";
 import { verifyTurnstileToken } from "@/lib/turnstile";
+import { authenticateApiKey } from "@/lib/api-keys";
+import { checkUploadLimits } from "@/lib/upload-limits";
+import {
+  storeUpload,
+  UPLOAD_IMAGE_TYPES,
+  uploadResponseBody,
+} from "@/lib/upload-storage";
 import { createLogger } from "@/lib/logger";
-import { isAppError, errorToResponse } from "@/lib/errors";
+import {
+  errorResponseHeaders,
+  errorToResponse,
+  isAppError,
+} from "@/lib/errors";
 import { createRequestId } from "@/lib/request-id";
 
 export const runtime = "edge";
@@ -14,44 +23,6 @@ export const runtime = "edge";
 const logger = createLogger("api:upload");
 
 const MAX_FILE_SIZE = 8 * 1024 * 1024;
-const CACHE_CONTROL = "public, max-age=31536000, immutable";
-const ALLOWED_TYPES = new Set([
-  "image/jpeg",
-  "image/png",
-  "image/webp",
-  "image/gif",
-]);
-
-// Per-IP upload quotas to prevent abuse
-const MAX_UPLOADS_PER_IP_PER_DAY = 50;
-
-/**
- * Sanitize filename to prevent path traversal and injection attacks
- */
-const sanitizeFilename = (filename: string): string => {
-  if (!filename) return "unnamed";
-
-  // Remove any directory separators
-  let sanitized = filename.replace(/[\/\\]/g, "");
-
-  // Remove any null bytes
-  sanitized = sanitized.replace(/\0/g, "");
-
-  // Limit length to prevent DOS
-  if (sanitized.length > 255) {
-    sanitized = sanitized.substring(0, 255);
-  }
-
-  // Remove potentially dangerous characters
-  sanitized = sanitized.replace(/[<>:"|?*\x00-\x1f]/g, "");
-
-  return sanitized || "unnamed";
-};
-
-const buildPublicUrl = (domain: string, key: string) => {
-  if (!domain) return key;
-  return domain.endsWith("/") ? `${domain}${key}` : `${domain}/${key}`;
-};
 
 export async function POST(request: NextRequest) {
   const requestId = request.headers.get("x-request-id") ?? createRequestId();
@@ -72,65 +43,31 @@ export async function POST(request: NextRequest) {
     const headers = new Headers();
     const ip = getClientIp(request);
 
-    const rateLimitStart = Date.now();
-    if (env.KV_RATE_LIMIT) {
-      // Check per-IP upload quota (separate from general rate limit)
-      const uploadQuota = await checkRateLimit(
-        env.KV_RATE_LIMIT,
-        ip,
-        MAX_UPLOADS_PER_IP_PER_DAY,
-        "upload_quota",
-      );
-
-      if (!uploadQuota.allowed) {
-        const response = NextResponse.json(
-          {
-            error: "Daily upload limit reached. Your limit resets at midnight UTC.",
-            resetAt: uploadQuota.resetAt,
-          },
-          {
-            status: 429,
-            headers: {
-              "X-RateLimit-Limit": String(uploadQuota.limit),
-              "X-RateLimit-Remaining": String(uploadQuota.remaining),
-              "X-RateLimit-Reset": uploadQuota.resetAt,
-            },
-          },
-        );
-        response.headers.set("X-Request-Id", requestId);
-        timing.end({ requestId, status: 429, reason: "upload_quota_exceeded" });
-        return response;
-      }
+    const authStart = Date.now();
+    const apiKey = await authenticateApiKey(env.KV_RATE_LIMIT, request);
+    timing.addMetric("auth", authStart);
 
-      // Check general rate limit
-      const rate = await checkRateLimit(env.KV_RATE_LIMIT, ip, 20, "upload");
-      timing.addMetric("rateLimit", rateLimitStart);
+    const rateLimitStart = Date.now();
+    const limit = await checkUploadLimits(env, ip, apiKey);
+    timing.addMetric("rateLimit", rateLimitStart);
 
-      if (!rate.allowed) {
-        const response = NextResponse.json(
-          {
-            error: "Upload limit reached. Your limit resets at midnight UTC.",
-            resetAt: rate.resetAt,
-          },
-          {
-            status: 429,
-            headers: {
-              "X-RateLimit-Limit": String(rate.limit),
-              "X-RateLimit-Remaining": String(rate.remaining),
-              "X-RateLimit-Reset": rate.resetAt,
-            },
-          },
-        );
-        response.headers.set("X-Request-Id", requestId);
-        timing.end({ requestId, status: 429, reason: "rate_limited" });
-        return response;
-      }
+    if (!limit.allowed) {
+      const response = NextResponse.json(
+        { error: limit.error, resetAt: limit.resetAt },
+        { status: 429, headers: limit.headers },
+      );
+      response.headers.set("X-Request-Id", requestId);
+      timing.end({
+        requestId,
+        status: 429,
+        reason: limit.reason,
+        ...(apiKey && { apiKeyId: apiKey.id }),
+      });
+      return response;
+    }
 
-      headers.set("X-RateLimit-Limit", String(rate.limit));
-      headers.set("X-RateLimit-Remaining", String(rate.remaining));
-      headers.set("X-RateLimit-Reset", rate.resetAt);
-    } else {
-      timing.addMetric("rateLimit", rateLimitStart);
+    for (const [name, value] of Object.entries(limit.headers)) {
+      headers.set(name, value);
     }
 
     const parseStart = Date.now();
@@ -139,23 +76,25 @@ export async function POST(request: NextRequest) {
     const token = formData.get("turnstileToken");
     timing.addMetric("parseForm", parseStart);
 
-    const turnstileStart = Date.now();
-    const turnstile = await verifyTurnstileToken(
-      env,
-      typeof token === "string" ? token : null,
-      ip,
-      { required: false },
-    );
-    timing.addMetric("turnstile", turnstileStart);
-
-    if (!turnstile.ok) {
-      const response = NextResponse.json(
-        { error: turnstile.error ?? "Security verification failed. Please refresh the page and try again." },
-        { status: 403 },
+    if (!apiKey) {
+      const turnstileStart = Date.now();
+      const turnstile = await verifyTurnstileToken(
+        env,
+        typeof token === "string" ? token : null,
+        ip,
+        { required: false },
       );
-      response.headers.set("X-Request-Id", requestId);
-      timing.end({ requestId, status: 403, reason: "turnstile_failed" });
-      return response;
+      timing.addMetric("turnstile", turnstileStart);
+
+      if (!turnstile.ok) {
+        const response = NextResponse.json(
+          { error: turnstile.error ?? "Security verification failed. Please refresh the page and try again." },
+          { status: 403 },
+        );
+        response.headers.set("X-Request-Id", requestId);
+        timing.end({ requestId, status: 403, reason: "turnstile_failed" });
+        return response;
+      }
     }
 
     if (!(file instanceof File)) {
@@ -220,9 +159,9 @@ export async function POST(request: NextRequest) {
     const detectedType = detectImageType(bytes);
     timing.addMetric("readBuffer", bufferStart);
 
-    if (!detectedType || !ALLOWED_TYPES.has(detectedType)) {
+    if (!detectedType || !UPLOAD_IMAGE_TYPES.has(detectedType)) {
       const response = NextResponse.json(
-        { error: "Unsupported file type. Please use JPEG, PNG, WebP, GIF, or BMP images." },
+        { error: "Unsupported file type. Please use JPEG, PNG, WebP, GIF, AVIF, HEIC, BMP, TIFF, or SVG images." },
         { status: 415 },
       );
       response.headers.set("X-Request-Id", requestId);
@@ -230,7 +169,7 @@ export async function POST(request: NextRequest) {
       return response;
     }
 
-    if (file.type && file.type !== detectedType) {
+    if (file.type && canonicalImageType(file.type) !== detectedType) {
       logger.warn("File type mismatch", {
         requestId,
         declaredType: file.type,
@@ -245,76 +184,39 @@ export async function POST(request: NextRequest) {
       return response;
     }
 
-    const hashStart = Date.now();
-    const hash = await sha256Hex(buffer);
-    timing.addMetric("hash", hashStart);
-
-    const extension = extensionForType(detectedType);
-    const datePrefix = new Date().toISOString().split("T")[0];
-    const key = `uploads/${datePrefix}/${hash}.${extension}`;
-
-    logger.debug("Uploading to R2", {
-      requestId,
-      key,
-      detectedType,
-    });
-
-    const uploadStart = Date.now();
-
-    // Check for hash collision (same hash already exists)
-    const existing = await env.R2_BUCKET.head(key);
-    if (existing) {
-      logger.debug("File already exists (deduplication)", {
-        requestId,
-        key,
-        existingSize: existing.size,
-      });
-
-      // File already exists, return existing URL
-      const publicDomain = env.NEXT_PUBLIC_R2_DOMAIN;
-      const url = buildPublicUrl(publicDomain ?? "", key);
+    const stored = await storeUpload(
+      env,
+      env.R2_BUCKET,
+      {
+        bytes,
+        detectedType,
+        originalName: file.name,
+      },
+      { requestId, ip, timing },
+    );
 
+    if (!stored.ok) {
       const response = NextResponse.json(
-        { key, url, hash, cached: true },
-        { headers },
+        { error: stored.error },
+        { status: stored.status },
       );
       response.headers.set("X-Request-Id", requestId);
-      timing.end({
-        requestId,
-        status: 200,
-        fileSize: file.size,
-        fileType: detectedType,
-        cached: true,
-      });
+      timing.end({ requestId, status: stored.status, reason: stored.reason });
       return response;
     }
 
-    // Sanitize metadata before storage
-    const sanitizedOriginalName = sanitizeFilename(file.name);
-
-    await env.R2_BUCKET.put(key, buffer, {
-      httpMetadata: {
-        contentType: detectedType,
-        cacheControl: CACHE_CONTROL,
-      },
-      customMetadata: {
-        sha256: hash,
-        originalName: sanitizedOriginalName,
-        uploadedAt: new Date().toISOString(),
-      },
+    const response = NextResponse.json(uploadResponseBody(stored), {
+      headers,
     });
-    timing.addMetric("r2Upload", uploadStart);
-
-    const publicDomain = env.NEXT_PUBLIC_R2_DOMAIN;
-    const url = buildPublicUrl(publicDomain ?? "", key);
-
-    const response = NextResponse.json({ key, url, hash }, { headers });
     response.headers.set("X-Request-Id", requestId);
     timing.end({
       requestId,
       status: 200,
       fileSize: file.size,
       fileType: detectedType,
+      ...(stored.cached
+        ? { cached: true }
+        : { storedSize: stored.storedSize, normalized: stored.normalized }),
     });
     return response;
   } catch (error) {
@@ -324,7 +226,10 @@ export async function POST(request: NextRequest) {
     const statusCode = isAppError(error) ? error.statusCode : 500;
     const errorResponse = errorToResponse(error);
 
-    const response = NextResponse.json(errorResponse, { status: statusCode });
+    const response = NextResponse.json(errorResponse, {
+      status: statusCode,
+      headers: errorResponseHeaders(error),
+    });
     response.headers.set("X-Request-Id", requestId);
     return response;
   }
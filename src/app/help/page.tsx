@@ -150,7 +150,7 @@ const sections: Section[] = [
         type: "issue",
         title: "Upload fails or times out",
         solution:
-          "Check that your image is under 10MB and in a supported format (JPEG, PNG, WebP, GIF, BMP). Ensure you have a stable internet connection. Try reducing the file size or using a different browser if the issue persists.",
+          "Check that your image is under 10MB and in a supported format (JPEG, PNG, WebP, GIF, AVIF, HEIC, BMP, TIFF, SVG). Ensure you have a stable internet connection. Try reducing the file size or using a different browser if the issue persists.",
       },
       {
         type: "issue",
@@ -57,7 +57,7 @@ const faqs = [
   {
     question: "What image formats are supported?",
     answer:
-      "We support all common image formats including JPEG, PNG, WebP, GIF, and BMP. The maximum file size is 10MB per image. For best results, use clear, well-lit images with sufficient resolution.",
+      "We support all common image formats including JPEG, PNG, WebP, GIF, AVIF, HEIC, BMP, TIFF, and SVG. The maximum file size is 10MB per image. For best results, use clear, well-lit images with sufficient resolution.",
   },
   {
     question: "Is there an API available?",
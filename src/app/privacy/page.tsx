@@ -58,10 +58,12 @@ export default function PrivacyPage() {
                 <p>
                   <strong className="text-ink-700">Uploaded Images:</strong>{" "}
                   Images you upload for reverse search are temporarily stored in
-                  Cloudflare R2 for processing. They are automatically deleted
-                  within 24 hours according to our bucket lifecycle policy. We do
-                  not use your images for training purposes or share them with
-                  third parties.
+                  Cloudflare R2 so search engines can fetch them. A scheduled
+                  cleanup job deletes them within 24 hours of upload, and you can
+                  delete an image immediately with the &quot;Delete my uploaded
+                  image&quot; button shown with your results. We do not use your
+                  images for training purposes or share them with third parties
+                  other than the search providers that process your search.
                 </p>
                 <p>
                   <strong className="text-ink-700">IP Addresses:</strong> We
@@ -105,6 +107,10 @@ export default function PrivacyPage() {
                 tracking cookies. Cloudflare Turnstile may set cookies for
                 security verification purposes.
               </p>
+              <p className="mt-3">
+                Search result thumbnails are loaded through our servers, so the
+                websites that host them never see your IP address.
+              </p>
             </section>
 
             <section>
@@ -183,9 +189,20 @@ export default function PrivacyPage() {
                 Data Retention
               </h2>
               <ul className="mt-3 list-disc space-y-2 pl-5">
-                <li>Uploaded images: 24 hours maximum</li>
+                <li>
+                  Uploaded images: 24 hours maximum, or until you delete them
+                </li>
                 <li>IP addresses for rate limiting: 48 hours</li>
                 <li>Search cache: 48 hours</li>
+                <li>Search result thumbnails: 7 days</li>
+                <li>
+                  Watched images (saved searches), their image, result history
+                  and alert email address: until you stop watching them
+                </li>
+                <li>
+                  Moderation records (only for images matching our blocklist of
+                  known illegal or abusive content): 90 days
+                </li>
                 <li>Analytics data: 90 days (anonymized)</li>
               </ul>
             </section>
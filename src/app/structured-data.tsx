@@ -72,7 +72,7 @@ const faqSchema: FAQPage = {
       name: "What image formats are supported?",
       acceptedAnswer: {
         "@type": "Answer",
-        text: "We support all common image formats including JPEG, PNG, WebP, GIF, and BMP. The maximum file size is 10MB per image. For best results, use clear, well-lit images with sufficient resolution.",
+        text: "We support all common image formats including JPEG, PNG, WebP, GIF, AVIF, HEIC, BMP, TIFF, and SVG. The maximum file size is 10MB per image. For best results, use clear, well-lit images with sufficient resolution.",
       },
     },
     {
@@ -0,0 +1,121 @@
+/* eslint-disable @next/next/no-img-element */
+"use client";
+
+import { useRef, useState } from "react";
+import type { CropRegion } from "@/lib/image-compression";
+
+type ImageCropperProps = {
+  src: string;
+  /** The current selection, in natural pixel coordinates */
+  value: CropRegion | null;
+  onChange: (region: CropRegion | null) => void;
+};
+
+/** Selections smaller than this (in displayed pixels) are treated as clicks */
+const MIN_SELECTION = 8;
+
+type Point = { x: number; y: number };
+
+/**
+ * Lets the user drag a rectangle over an image to pick the region to search.
+ * Coordinates are reported in the image's natural pixels, ready for
+ * `compressImage({ crop })`.
+ */
+export default function ImageCropper({ src, value, onChange }: ImageCropperProps) {
+  const imageRef = useRef<HTMLImageElement>(null);
+  const [start, setStart] = useState<Point | null>(null);
+  const [current, setCurrent] = useState<Point | null>(null);
+
+  // Position of a pointer event within the displayed image, clamped to it
+  const toLocal = (event: React.PointerEvent): Point | null => {
+    const rect = imageRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    return {
+      x: Math.min(Math.max(event.clientX - rect.left, 0), rect.width),
+      y: Math.min(Math.max(event.clientY - rect.top, 0), rect.height),
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    const point = toLocal(event);
+    if (!point) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setStart(point);
+    setCurrent(point);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!start) return;
+    setCurrent(toLocal(event));
+  };
+
+  const handlePointerUp = () => {
+    const image = imageRef.current;
+    if (!start || !current || !image) return;
+    setStart(null);
+    setCurrent(null);
+
+    const width = Math.abs(current.x - start.x);
+    const height = Math.abs(current.y - start.y);
+    if (width < MIN_SELECTION || height < MIN_SELECTION) {
+      onChange(null);
+      return;
+    }
+
+    const scale = image.naturalWidth / image.clientWidth;
+    onChange({
+      x: Math.round(Math.min(start.x, current.x) * scale),
+      y: Math.round(Math.min(start.y, current.y) * scale),
+      width: Math.round(width * scale),
+      height: Math.round(height * scale),
+    });
+  };
+
+  // Selection box in displayed pixels: the drag in progress, else the value
+  const box = (() => {
+    const image = imageRef.current;
+    if (start && current) {
+      return {
+        left: Math.min(start.x, current.x),
+        top: Math.min(start.y, current.y),
+        width: Math.abs(current.x - start.x),
+        height: Math.abs(current.y - start.y),
+      };
+    }
+    if (value && image?.naturalWidth) {
+      const scale = image.clientWidth / image.naturalWidth;
+      return {
+        left: value.x * scale,
+        top: value.y * scale,
+        width: value.width * scale,
+        height: value.height * scale,
+      };
+    }
+    return null;
+  })();
+
+  return (
+    <div
+      className="relative inline-block max-w-full cursor-crosshair select-none touch-none overflow-hidden rounded-2xl"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <img
+        ref={imageRef}
+        src={src}
+        alt="Drag to select the region to search"
+        draggable={false}
+        className="block max-h-80 max-w-full"
+      />
+      {box && (
+        <div
+          className="pointer-events-none absolute border-2 border-ember-500 shadow-[0_0_0_9999px_rgba(18,16,15,0.45)]"
+          style={box}
+          aria-hidden="true"
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ImageMetadata } from "@/lib/image-metadata";
+
+type ImageMetadataPanelProps = {
+  file: File;
+};
+
+type InspectResponse = {
+  metadata?: ImageMetadata;
+  error?: string;
+};
+
+const formatCoordinate = (value: number, positive: string, negative: string) =>
+  `${Math.abs(value).toFixed(5)}° ${value < 0 ? negative : positive}`;
+
+/**
+ * Shows what an image file says about itself (camera, capture date, GPS,
+ * software, authorship, Content Credentials) before it is searched.
+ */
+export default function ImageMetadataPanel({ file }: ImageMetadataPanelProps) {
+  const [metadata, setMetadata] = useState<ImageMetadata | null>(null);
+  const [status, setStatus] = useState<"loading" | "done" | "error">(
+    "loading",
+  );
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setStatus("loading");
+    setMetadata(null);
+
+    const formData = new FormData();
+    formData.append("file", file);
+
+    fetch("/api/inspect", {
+      method: "POST",
+      body: formData,
+      signal: controller.signal,
+    })
+      .then(async (response) => {
+        const data = (await response.json()) as InspectResponse;
+        if (!response.ok || !data.metadata) {
+          throw new Error(data.error ?? "Inspection failed");
+        }
+        setMetadata(data.metadata);
+        setStatus("done");
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setStatus("error");
+      });
+
+    return () => controller.abort();
+  }, [file]);
+
+  if (status === "loading") {
+    return (
+      <p className="text-xs text-ink-400" aria-live="polite">
+        Reading image metadata...
+      </p>
+    );
+  }
+
+  if (status === "error" || !metadata) {
+    return null;
+  }
+
+  const rows: Array<[string, string]> = [];
+  const camera = [metadata.make, metadata.model].filter(Boolean).join(" ");
+  if (camera) rows.push(["Camera", camera]);
+  if (metadata.lens) rows.push(["Lens", metadata.lens]);
+  if (metadata.capturedAt) {
+    rows.push(["Captured", metadata.capturedAt.replace("T", " ")]);
+  }
+  if (metadata.software) rows.push(["Software", metadata.software]);
+  if (metadata.creator) rows.push(["Creator", metadata.creator]);
+  if (metadata.copyright) rows.push(["Copyright", metadata.copyright]);
+  if (metadata.gps) {
+    rows.push([
+      "Location",
+      `${formatCoordinate(metadata.gps.latitude, "N", "S")}, ${formatCoordinate(metadata.gps.longitude, "E", "W")}`,
+    ]);
+  }
+
+  const blocks = (["exif", "iptc", "xmp"] as const)
+    .filter((source) => metadata.sources[source])
+    .map((source) => source.toUpperCase());
+
+  return (
+    <section
+      aria-label="Image metadata"
+      className="rounded-2xl border border-sand-200 bg-white p-4 text-left"
+    >
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs font-semibold uppercase tracking-[0.2em] text-ink-500">
+          File metadata
+        </p>
+        {metadata.sources.c2pa && (
+          <span className="rounded-full bg-sand-100 px-2 py-0.5 text-xs font-semibold text-ink-700">
+            Content Credentials
+          </span>
+        )}
+      </div>
+
+      {metadata.gps && (
+        <div
+          role="alert"
+          className="mt-3 rounded-xl border border-ember-500/30 bg-ember-500/5 px-3 py-2 text-xs text-ember-600"
+        >
+          This image contains GPS coordinates that reveal where it was taken.
+          Anyone you share the original file with can see them.
+        </div>
+      )}
+
+      {rows.length > 0 ? (
+        <dl className="mt-3 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+          {rows.map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="font-semibold text-ink-500">{label}</dt>
+              <dd className="break-words text-ink-900">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      ) : (
+        <p className="mt-3 text-xs text-ink-500">
+          No camera, location or authorship details found.
+        </p>
+      )}
+
+      {(blocks.length > 0 || metadata.sources.c2pa) && (
+        <p className="mt-3 text-xs text-ink-400">
+          {blocks.length > 0 && `Read from ${blocks.join(", ")}. `}
+          {metadata.sources.c2pa &&
+            "A C2PA manifest is embedded; verify it with a Content Credentials tool."}
+        </p>
+      )}
+    </section>
+  );
+}
@@ -2,20 +2,33 @@
 
 import { useState, useMemo, useEffect } from "react";
 import { SearchResult } from "./search-panel";
+import {
+  firstSeen,
+  LIKELY_ORIGINAL_MIN_SCORE,
+  rankByOriginality,
+} from "@/lib/source-attribution";
 
-type ResultCategory = "all" | "exact" | "similar";
+type ResultCategory = "all" | "original" | "exact" | "similar" | "page";
+
+type SortOrder = "relevance" | "domain" | "earliest";
 
 type ResultsTabsProps = {
   results: SearchResult[];
   onFilteredResults: (results: SearchResult[]) => void;
+  /**
+   * Called when a view depends on publish dates (earliest appearance sort,
+   * "Likely original" tab), so the caller can fetch them
+   */
+  onNeedDates?: () => void;
 };
 
 export default function ResultsTabs({
   results,
   onFilteredResults,
+  onNeedDates,
 }: ResultsTabsProps) {
   const [activeTab, setActiveTab] = useState<ResultCategory>("all");
-  const [sortBy, setSortBy] = useState<"relevance" | "domain">("relevance");
+  const [sortBy, setSortBy] = useState<SortOrder>("relevance");
   const [domainFilter, setDomainFilter] = useState<string>("all");
 
   const domains = useMemo(() => {
@@ -31,19 +44,28 @@ export default function ResultsTabs({
   }, [results]);
 
   const categorizedResults = useMemo(() => {
-    const exact = results.filter((r) => r.domain?.includes("google"));
-    const similar = results.filter((r) => !r.domain?.includes("google"));
-
-    return { exact, similar };
+    // Results cached before match types existed count as similar
+    const byMatchType = (type: ResultCategory) =>
+      results.filter((r) => (r.matchType ?? "similar") === type);
+
+    // Scored against the whole result set, most likely original first
+    const original = rankByOriginality(results).filter(
+      (r) => r.originality.score >= LIKELY_ORIGINAL_MIN_SCORE,
+    );
+
+    return {
+      original,
+      exact: byMatchType("exact"),
+      similar: byMatchType("similar"),
+      page: byMatchType("page"),
+    };
   }, [results]);
 
   const filteredResults = useMemo(() => {
     let filtered: SearchResult[] =
       activeTab === "all"
         ? results
-        : activeTab === "exact"
-          ? categorizedResults.exact
-          : categorizedResults.similar;
+        : categorizedResults[activeTab];
 
     if (domainFilter !== "all") {
       filtered = filtered.filter((r) => r.domain === domainFilter);
@@ -53,6 +75,12 @@ export default function ResultsTabs({
       filtered = [...filtered].sort((a, b) =>
         (a.domain ?? "").localeCompare(b.domain ?? ""),
       );
+    } else if (sortBy === "earliest") {
+      // Undated results keep their relevance order after dated ones
+      filtered = [...filtered].sort((a, b) => {
+        const difference = firstSeen(a) - firstSeen(b);
+        return Number.isNaN(difference) ? 0 : difference;
+      });
     }
 
     return filtered;
@@ -65,6 +93,11 @@ export default function ResultsTabs({
 
   const tabs = [
     { id: "all" as const, label: "All", count: results.length },
+    {
+      id: "original" as const,
+      label: "Likely original",
+      count: categorizedResults.original.length,
+    },
     {
       id: "exact" as const,
       label: "Exact matches",
@@ -75,6 +108,11 @@ export default function ResultsTabs({
       label: "Similar images",
       count: categorizedResults.similar.length,
     },
+    {
+      id: "page" as const,
+      label: "Pages with this image",
+      count: categorizedResults.page.length,
+    },
   ];
 
   return (
@@ -83,7 +121,10 @@ export default function ResultsTabs({
         {tabs.map((tab) => (
           <button
             key={tab.id}
-            onClick={() => setActiveTab(tab.id)}
+            onClick={() => {
+              setActiveTab(tab.id);
+              if (tab.id === "original") onNeedDates?.();
+            }}
             role="tab"
             aria-selected={activeTab === tab.id}
             className={`rounded-full px-4 py-2 text-sm font-medium transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ember-500 focus-visible:ring-offset-2 ${
@@ -110,11 +151,16 @@ export default function ResultsTabs({
         <select
           id="sort-select"
           value={sortBy}
-          onChange={(e) => setSortBy(e.target.value as typeof sortBy)}
+          onChange={(e) => {
+            const order = e.target.value as SortOrder;
+            setSortBy(order);
+            if (order === "earliest") onNeedDates?.();
+          }}
           className="rounded-full border border-sand-300 bg-white px-3 py-1.5 text-sm focus:border-ember-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-ember-500 focus-visible:ring-offset-2"
         >
           <option value="relevance">Relevance</option>
           <option value="domain">Domain</option>
+          <option value="earliest">Earliest appearance</option>
         </select>
 
         {domains.length > 0 && (
@@ -0,0 +1,289 @@
+/* eslint-disable @next/next/no-img-element */
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/** A saved search this browser created (the token only lives here) */
+export type SavedSearchItem = {
+  id: string;
+  deleteToken: string;
+  imageUrl: string;
+  frequency: "daily" | "weekly";
+  /** Changes up to this time were already shown to the user */
+  seenAt: number;
+};
+
+type SavedSearchChange = {
+  runAt: string;
+  addedCount: number;
+  removedCount: number;
+  added: Array<{ title: string; pageUrl: string; domain?: string }>;
+  baseline?: boolean;
+};
+
+type SavedSearchView = {
+  id: string;
+  /** Signed `/api/thumb` path of the watched image */
+  thumbnailUrl?: string;
+  status: "scheduled" | "running";
+  /** Stops running after this unless renewed */
+  expiresAt: string;
+  nextRunAt: string;
+  lastRunAt?: string;
+  resultCount?: number;
+  changes: SavedSearchChange[];
+  lastError?: string;
+};
+
+const SAVED_SEARCHES_KEY = "saved-searches";
+
+// Searches this close to expiring are renewed whenever the list is shown,
+// so images keep being watched for as long as the user keeps coming back
+const RENEW_WITHIN_MS = 30 * 24 * 60 * 60 * 1000;
+
+const dateFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: "medium",
+});
+
+const describeNewPlaces = (count: number) =>
+  `${count} new ${count === 1 ? "place" : "places"} this image appeared`;
+
+/** Renews a saved search, falling back to the view we already have */
+const renewIfExpiring = async (
+  item: SavedSearchItem,
+  view: SavedSearchView,
+): Promise<SavedSearchView> => {
+  if (new Date(view.expiresAt).getTime() - Date.now() > RENEW_WITHIN_MS) {
+    return view;
+  }
+  try {
+    const response = await fetch(`/api/search/saved/${item.id}/renew`, {
+      method: "POST",
+      headers: { "X-Delete-Token": item.deleteToken },
+    });
+    return response.ok ? ((await response.json()) as SavedSearchView) : view;
+  } catch {
+    return view;
+  }
+};
+
+/** Changes the user has not seen yet, ignoring the baseline run */
+const unseenChanges = (view: SavedSearchView, seenAt: number) =>
+  view.changes.filter(
+    (change) => !change.baseline && new Date(change.runAt).getTime() > seenAt,
+  );
+
+export function useSavedSearches() {
+  const [saved, setSaved] = useState<SavedSearchItem[]>([]);
+
+  useEffect(() => {
+    const stored = localStorage.getItem(SAVED_SEARCHES_KEY);
+    if (stored) {
+      try {
+        setSaved(JSON.parse(stored));
+      } catch {
+        console.error("Failed to parse saved searches");
+      }
+    }
+  }, []);
+
+  const update = useCallback(
+    (change: (prev: SavedSearchItem[]) => SavedSearchItem[]) => {
+      setSaved((prev) => {
+        const updated = change(prev);
+        localStorage.setItem(SAVED_SEARCHES_KEY, JSON.stringify(updated));
+        return updated;
+      });
+    },
+    [],
+  );
+
+  const addSavedSearch = useCallback(
+    (item: Omit<SavedSearchItem, "seenAt">) =>
+      update((prev) => [
+        { ...item, seenAt: Date.now() },
+        ...prev.filter((other) => other.id !== item.id),
+      ]),
+    [update],
+  );
+
+  const removeSavedSearch = useCallback(
+    (id: string) => update((prev) => prev.filter((item) => item.id !== id)),
+    [update],
+  );
+
+  const markSeen = useCallback(
+    (id: string) =>
+      update((prev) =>
+        prev.map((item) =>
+          item.id === id ? { ...item, seenAt: Date.now() } : item,
+        ),
+      ),
+    [update],
+  );
+
+  return { saved, addSavedSearch, removeSavedSearch, markSeen };
+}
+
+type SavedSearchesProps = {
+  saved: SavedSearchItem[];
+  onRemove: (id: string) => void;
+  onMarkSeen: (id: string) => void;
+};
+
+export default function SavedSearches({
+  saved,
+  onRemove,
+  onMarkSeen,
+}: SavedSearchesProps) {
+  const [views, setViews] = useState<Record<string, SavedSearchView | null>>(
+    {},
+  );
+  const requestedRef = useRef(new Set<string>());
+
+  // Load each saved search once; a 404 means it was deleted elsewhere
+  useEffect(() => {
+    const missing = saved.filter((item) => !requestedRef.current.has(item.id));
+    if (missing.length === 0) return;
+    for (const item of missing) requestedRef.current.add(item.id);
+
+    Promise.all(
+      missing.map(async (item) => {
+        try {
+          const response = await fetch(`/api/search/saved/${item.id}`);
+          if (response.status === 404) return [item.id, null] as const;
+          if (!response.ok) return null;
+          const view = (await response.json()) as SavedSearchView;
+          return [item.id, await renewIfExpiring(item, view)] as const;
+        } catch {
+          return null;
+        }
+      }),
+    ).then((entries) => {
+      setViews((current) => ({
+        ...current,
+        ...Object.fromEntries(entries.filter((entry) => entry !== null)),
+      }));
+    });
+  }, [saved]);
+
+  const handleRemove = async (item: SavedSearchItem) => {
+    try {
+      const response = await fetch(`/api/search/saved/${item.id}`, {
+        method: "DELETE",
+        headers: { "X-Delete-Token": item.deleteToken },
+      });
+      if (!response.ok && response.status !== 404) return;
+      onRemove(item.id);
+    } catch {
+      // Keep it listed so the user can try again
+    }
+  };
+
+  if (saved.length === 0) return null;
+
+  return (
+    <div className="rounded-3xl border border-sand-200 bg-white/70 p-6">
+      <h3 className="text-lg font-semibold text-ink-900 mb-1">
+        Watched images
+      </h3>
+      <p className="text-xs text-ink-500 mb-4">
+        We search for these again on schedule and list the places they
+        newly appear.
+      </p>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        {saved.map((item) => {
+          const view = views[item.id];
+          const unseen = view ? unseenChanges(view, item.seenAt) : [];
+          const newPlaces = unseen.reduce(
+            (total, change) => total + change.addedCount,
+            0,
+          );
+          const latestAdded = unseen[0]?.added ?? [];
+
+          return (
+            <div
+              key={item.id}
+              className="flex flex-col gap-2 rounded-2xl border border-sand-200 bg-white p-3"
+            >
+              <div className="flex items-center gap-3">
+                <div className="h-12 w-12 flex-shrink-0 overflow-hidden rounded-lg bg-sand-200">
+                  {view?.thumbnailUrl && (
+                    <img
+                      src={view.thumbnailUrl}
+                      alt="Watched image"
+                      loading="lazy"
+                      width={48}
+                      height={48}
+                      className="h-full w-full object-cover"
+                    />
+                  )}
+                </div>
+                <div className="min-w-0 flex-1">
+                  <p className="text-xs text-ink-500">
+                    {item.frequency === "daily" ? "Daily" : "Weekly"}
+                    {view &&
+                      ` · Next check ${dateFormatter.format(new Date(view.nextRunAt))} · Until ${dateFormatter.format(new Date(view.expiresAt))}`}
+                  </p>
+                  <p
+                    className={`text-sm font-semibold truncate ${newPlaces > 0 ? "text-ember-600" : "text-ink-900"}`}
+                  >
+                    {view === null
+                      ? "No longer watched"
+                      : newPlaces > 0
+                        ? describeNewPlaces(newPlaces)
+                        : view?.resultCount !== undefined
+                          ? `${view.resultCount} known places`
+                          : "First check pending"}
+                  </p>
+                  {view?.lastError && (
+                    <p className="text-xs text-ink-400 truncate">
+                      Last check: {view.lastError}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              {latestAdded.length > 0 && (
+                <ul className="space-y-1 text-xs">
+                  {latestAdded.slice(0, 5).map((result) => (
+                    <li key={result.pageUrl} className="truncate">
+                      <a
+                        href={result.pageUrl}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="text-ink-700 underline decoration-sand-300 hover:text-ember-600"
+                      >
+                        {result.domain ?? result.title}
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="flex flex-wrap gap-2 text-xs">
+                {newPlaces > 0 && (
+                  <button
+                    onClick={() => onMarkSeen(item.id)}
+                    className="rounded-full bg-sand-100 px-3 py-1 font-medium text-ink-700 transition hover:bg-sand-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ember-500"
+                  >
+                    Mark as seen
+                  </button>
+                )}
+                <button
+                  onClick={() =>
+                    view === null ? onRemove(item.id) : handleRemove(item)
+                  }
+                  className="rounded-full px-3 py-1 font-semibold text-ember-600 hover:text-ember-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ember-500"
+                >
+                  Stop watching
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
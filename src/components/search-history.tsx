@@ -2,6 +2,7 @@
 
 import { useEffect, useState } from "react";
 import { SearchResult } from "./search-panel";
+import type { CropRegion } from "@/lib/image-compression";
 
 export type HistoryItem = {
   id: string;
@@ -10,6 +11,10 @@ export type HistoryItem = {
   previewUrl?: string;
   results?: SearchResult[];
   resultCount?: number;
+  /** Shared by searches of the same picked file (the original and its crops) */
+  sourceId?: string;
+  /** Region searched, when only part of the file was */
+  crop?: CropRegion;
 };
 
 const HISTORY_KEY = "search-history";
@@ -88,38 +93,69 @@ export default function SearchHistory({
       </div>
 
       <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
-        {history.map((item) => (
-          <button
-            key={item.id}
-            onClick={() => onItemClick(item)}
-            className="group flex items-center gap-3 rounded-2xl border border-sand-200 bg-white p-3 text-left transition hover:border-ember-500 hover:shadow-md focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ember-500 focus-visible:ring-offset-2"
-          >
-            <div className="h-12 w-12 flex-shrink-0 overflow-hidden rounded-lg bg-sand-200">
-              {item.previewUrl ? (
-                <img
-                  src={item.previewUrl}
-                  alt="Search preview"
-                  loading="lazy"
-                  width={48}
-                  height={48}
-                  className="h-full w-full object-cover"
-                />
-              ) : (
-                <div className="flex h-full items-center justify-center text-xs text-ink-400">
-                  No preview
+        {history.map((item) => {
+          const linked = item.sourceId
+            ? history.filter(
+                (other) =>
+                  other.sourceId === item.sourceId && other.id !== item.id,
+              )
+            : [];
+
+          return (
+            <div
+              key={item.id}
+              className="flex flex-col gap-2 rounded-2xl border border-sand-200 bg-white p-3 transition hover:border-ember-500 hover:shadow-md"
+            >
+              <button
+                onClick={() => onItemClick(item)}
+                className="group flex items-center gap-3 rounded-xl text-left focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ember-500 focus-visible:ring-offset-2"
+              >
+                <div className="h-12 w-12 flex-shrink-0 overflow-hidden rounded-lg bg-sand-200">
+                  {item.previewUrl ? (
+                    <img
+                      src={item.previewUrl}
+                      alt="Search preview"
+                      loading="lazy"
+                      width={48}
+                      height={48}
+                      className="h-full w-full object-cover"
+                    />
+                  ) : (
+                    <div className="flex h-full items-center justify-center text-xs text-ink-400">
+                      No preview
+                    </div>
+                  )}
+                </div>
+                <div className="min-w-0 flex-1">
+                  <p className="text-xs text-ink-500">
+                    {new Date(item.timestamp).toLocaleDateString()}
+                    {item.crop &&
+                      ` · Region ${item.crop.width}×${item.crop.height}`}
+                  </p>
+                  <p className="text-sm font-semibold text-ink-900 truncate">
+                    {item.resultCount ?? item.results?.length ?? 0} results
+                  </p>
+                </div>
+              </button>
+              {linked.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1.5 text-xs">
+                  <span className="text-ink-400">Compare with:</span>
+                  {linked.map((other) => (
+                    <button
+                      key={other.id}
+                      onClick={() => onItemClick(other)}
+                      className="rounded-full bg-sand-100 px-2.5 py-1 font-medium text-ink-700 transition hover:bg-sand-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ember-500"
+                    >
+                      {other.crop
+                        ? `Region (${other.resultCount ?? other.results?.length ?? 0})`
+                        : `Original (${other.resultCount ?? other.results?.length ?? 0})`}
+                    </button>
+                  ))}
                 </div>
               )}
             </div>
-            <div className="min-w-0 flex-1">
-              <p className="text-xs text-ink-500">
-                {new Date(item.timestamp).toLocaleDateString()}
-              </p>
-              <p className="text-sm font-semibold text-ink-900 truncate">
-                {item.resultCount ?? item.results?.length ?? 0} results
-              </p>
-            </div>
-          </button>
-        ))}
+          );
+        })}
       </div>
     </div>
   );
@@ -3,28 +3,114 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import TurnstileWidget from "@/components/turnstile-widget";
+import ImageMetadataPanel from "@/components/image-metadata-panel";
+import ImageCropper from "@/components/image-cropper";
+import SearchHistory, {
+  useHistory,
+  type HistoryItem,
+} from "@/components/search-history";
+import ResultsTabs from "@/components/results-tabs";
+import SavedSearches, { useSavedSearches } from "@/components/saved-searches";
 import { ResultsGridSkeleton } from "@/components/skeleton";
+import {
+  compressImage,
+  prepareImageForUpload,
+  type CropRegion,
+} from "@/lib/image-compression";
+import { hashFile } from "@/lib/file-hash";
+import type { OriginalityScore } from "@/lib/source-attribution";
 
 export type SearchResult = {
   title: string;
   pageUrl: string;
   imageUrl?: string;
   domain?: string;
+  providers?: string[];
+  score?: number;
+  position?: number;
+  snippet?: string;
+  imageWidth?: number;
+  imageHeight?: number;
+  /** Date the search engine reports for the page */
+  timestamp?: string;
+  /** Publish date read from the page by /api/search/enrich */
+  publishedAt?: string;
+  siteName?: string;
+  /** Set on results shown under the "Likely original" tab */
+  originality?: OriginalityScore;
+  matchType?: "exact" | "similar" | "page";
+  matchDistance?: number;
+  /** Signed `/api/thumb` path, set by the server when the proxy is on */
+  thumbnailUrl?: string;
+};
+
+type EnrichResponse = {
+  pages?: Record<string, { publishedAt?: string; siteName?: string }>;
+  error?: string;
 };
 
 type SearchResponse = {
   taskId?: string;
+  provider?: string;
   status?: "ready" | "pending";
   results?: SearchResult[];
   checkUrl?: string;
   error?: string;
   resetAt?: string;
-  cached?: boolean;
+  cached?: boolean | "near-duplicate";
+  /** Searched image, on cached responses */
+  imageUrl?: string;
+  /** Hamming distance to the cached image, for near-duplicate hits */
+  distance?: number;
+};
+
+type UploadResponse = {
+  key?: string;
+  url?: string;
+  hash?: string;
+  /** For `DELETE /api/upload/{key}`; absent when the image was already stored */
+  deleteToken?: string;
+  error?: string;
+};
+
+type SavedSearchResponse = {
+  id?: string;
+  imageUrl?: string;
+  frequency?: "daily" | "weekly";
+  /** For `DELETE /api/search/saved/{id}` */
+  deleteToken?: string;
+  error?: string;
+};
+
+type SearchStreamEvent = {
+  type: "queued" | "polling" | "partial" | "ready" | "failed";
+  attempt?: number;
+  maxAttempts?: number;
+  results?: SearchResult[];
+  checkUrl?: string;
+  error?: string;
 };
 
 const POLL_ATTEMPTS = 10;
 const POLL_DELAY = 2000;
+const STREAM_EVENTS = ["queued", "polling", "partial", "ready", "failed"];
 const TURNSTILE_SITE_KEY = process.env.NEXT_PUBLIC_TURNSTILE_SITE_KEY ?? "";
+/** Files larger than /api/upload accepts go straight to R2 */
+const DIRECT_UPLOAD_THRESHOLD = 8 * 1024 * 1024;
+/** Top results checked for publish dates, in requests of ENRICH_BATCH_SIZE */
+const ENRICH_RESULT_LIMIT = 20;
+const ENRICH_BATCH_SIZE = 10;
+
+const dateFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: "medium",
+});
+
+// Result thumbnails load through the signed /api/thumb URL the server sent,
+// so third-party hosts never see our users; inline data URIs need no proxy
+const thumbnailSrc = (result: SearchResult) =>
+  result.imageUrl?.startsWith("data:")
+    ? result.imageUrl
+    : result.thumbnailUrl;
 
 const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
@@ -78,10 +164,20 @@ export default function SearchPanel() {
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [imageUrl, setImageUrl] = useState("");
   const [status, setStatus] = useState<
-    "idle" | "uploading" | "searching" | "polling" | "done" | "error"
+    | "idle"
+    | "preparing"
+    | "uploading"
+    | "searching"
+    | "polling"
+    | "done"
+    | "error"
   >("idle");
   const [error, setError] = useState<string | null>(null);
   const [results, setResults] = useState<SearchResult[]>([]);
+  const [displayedResults, setDisplayedResults] = useState<SearchResult[]>([]);
+  const [enrichment, setEnrichment] = useState<
+    "idle" | "loading" | "done" | "error"
+  >("idle");
   const [checkUrl, setCheckUrl] = useState<string | null>(null);
   const [taskId, setTaskId] = useState<string | null>(null);
   const [searchedImageUrl, setSearchedImageUrl] = useState<string | null>(null);
@@ -93,8 +189,33 @@ export default function SearchPanel() {
     height: number;
   } | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [isCropping, setIsCropping] = useState(false);
+  const [crop, setCrop] = useState<CropRegion | null>(null);
+  const [uploadedImage, setUploadedImage] = useState<{
+    key: string;
+    deleteToken: string;
+  } | null>(null);
+  const [deletion, setDeletion] = useState<
+    "idle" | "deleting" | "deleted" | "error"
+  >("idle");
+  const [watchFrequency, setWatchFrequency] = useState<"daily" | "weekly">(
+    "weekly",
+  );
+  const [watching, setWatching] = useState<
+    "idle" | "saving" | "saved" | "error"
+  >("idle");
+  const [watchError, setWatchError] = useState<string | null>(null);
+  const { history, addToHistory, clearHistory } = useHistory();
+  const { saved, addSavedSearch, removeSavedSearch, markSeen } =
+    useSavedSearches();
 
   const abortRef = useRef(false);
+  // Links searches of the same picked file (the original and its crops)
+  const sourceIdRef = useRef<string | null>(null);
+  const pendingHistoryRef = useRef<Omit<
+    HistoryItem,
+    "id" | "timestamp" | "results" | "resultCount"
+  > | null>(null);
   const pollTokenRef = useRef(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const dropZoneRef = useRef<HTMLLabelElement>(null);
@@ -112,6 +233,10 @@ export default function SearchPanel() {
   }, []);
 
   useEffect(() => {
+    setIsCropping(false);
+    setCrop(null);
+    sourceIdRef.current = file ? crypto.randomUUID() : null;
+
     if (!file) {
       setPreviewUrl(null);
       setImageDimensions(null);
@@ -126,6 +251,14 @@ export default function SearchPanel() {
     return () => URL.revokeObjectURL(url);
   }, [file]);
 
+  // Record each finished search, once, with the results it produced
+  useEffect(() => {
+    const pending = pendingHistoryRef.current;
+    if (status !== "done" || !pending) return;
+    pendingHistoryRef.current = null;
+    addToHistory({ ...pending, results, resultCount: results.length });
+  }, [status, results, addToHistory]);
+
   // Memoize file metadata
   const fileMetadata = useMemo(() => {
     if (!file) return null;
@@ -139,6 +272,7 @@ export default function SearchPanel() {
 
   const reset = () => {
     pollTokenRef.current += 1;
+    pendingHistoryRef.current = null;
     setStatus("idle");
     setError(null);
     setResults([]);
@@ -146,6 +280,125 @@ export default function SearchPanel() {
     setTaskId(null);
     setSearchedImageUrl(null);
     setPollProgress(0);
+    setUploadedImage(null);
+    setDeletion("idle");
+    setWatching("idle");
+    setWatchError(null);
+    setEnrichment("idle");
+  };
+
+  // Reads publish dates from the top result pages for "earliest" sorting
+  // and the "Likely original" tab
+  const handleEnrichResults = useCallback(async () => {
+    if (enrichment === "loading" || enrichment === "done") return;
+    const pageUrls = results
+      .slice(0, ENRICH_RESULT_LIMIT)
+      .filter((result) => !result.publishedAt)
+      .map((result) => result.pageUrl);
+    if (pageUrls.length === 0) {
+      setEnrichment("done");
+      return;
+    }
+
+    setEnrichment("loading");
+    try {
+      const pages: NonNullable<EnrichResponse["pages"]> = {};
+      for (let start = 0; start < pageUrls.length; start += ENRICH_BATCH_SIZE) {
+        const response = await fetch("/api/search/enrich", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            pageUrls: pageUrls.slice(start, start + ENRICH_BATCH_SIZE),
+          }),
+        });
+        const data = await parseJsonResponse<EnrichResponse>(response);
+        if (!response.ok) {
+          throw new Error(data.error ?? "Enrichment failed");
+        }
+        Object.assign(pages, data.pages);
+      }
+
+      setResults((current) =>
+        current.map((result) => {
+          const page = pages[result.pageUrl];
+          return page
+            ? {
+                ...result,
+                publishedAt: page.publishedAt ?? result.publishedAt,
+                siteName: page.siteName ?? result.siteName,
+              }
+            : result;
+        }),
+      );
+      setEnrichment("done");
+    } catch {
+      setEnrichment("error");
+    }
+  }, [enrichment, results]);
+
+  // Removes the upload from storage before its retention period ends
+  const handleDeleteUpload = async () => {
+    if (!uploadedImage) return;
+    setDeletion("deleting");
+    try {
+      const response = await fetch(`/api/upload/${uploadedImage.key}`, {
+        method: "DELETE",
+        headers: { "X-Delete-Token": uploadedImage.deleteToken },
+      });
+      if (!response.ok && response.status !== 404) {
+        throw new Error("Delete failed");
+      }
+      setUploadedImage(null);
+      setDeletion("deleted");
+    } catch {
+      setDeletion("error");
+    }
+  };
+
+  // Saves the search so it is re-run on schedule and new places reported
+  const handleWatch = async () => {
+    if (!searchedImageUrl) return;
+    if (turnstileEnabled && !turnstileToken) {
+      setWatching("error");
+      setWatchError("Complete the security check to watch this image.");
+      return;
+    }
+
+    setWatching("saving");
+    setWatchError(null);
+    try {
+      const response = await fetch("/api/search/saved", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          imageUrl: searchedImageUrl,
+          frequency: watchFrequency,
+          turnstileToken: turnstileToken ?? undefined,
+        }),
+      });
+      const data = await parseJsonResponse<SavedSearchResponse>(response);
+      if (!response.ok || !data.id || !data.deleteToken) {
+        throw new Error(data.error ?? "Could not watch this image.");
+      }
+
+      addSavedSearch({
+        id: data.id,
+        deleteToken: data.deleteToken,
+        imageUrl: data.imageUrl ?? searchedImageUrl,
+        frequency: data.frequency ?? watchFrequency,
+      });
+      setWatching("saved");
+    } catch (err) {
+      setWatching("error");
+      setWatchError(
+        err instanceof Error ? err.message : "Could not watch this image.",
+      );
+    } finally {
+      if (turnstileEnabled) {
+        setTurnstileToken(null);
+        setTurnstileResetKey((current) => current + 1);
+      }
+    }
   };
 
   // Handle drag and drop events
@@ -177,31 +430,102 @@ export default function SearchPanel() {
     [],
   );
 
-  const handleUpload = async () => {
-    if (!file) throw new Error("Select an image first.");
+  // Pre-signed PUT to R2, then server-side validation of the stored file
+  const handleDirectUpload = async (upload: File, hash: string) => {
+    const presignResponse = await fetch("/api/upload/presign", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        sha256: hash,
+        type: upload.type,
+        size: upload.size,
+      }),
+    });
+    const session = await parseJsonResponse<{
+      key?: string;
+      uploadUrl?: string;
+      headers?: Record<string, string>;
+      error?: string;
+    }>(presignResponse);
+    if (!presignResponse.ok || !session.key || !session.uploadUrl) {
+      throw new Error(session.error || "Upload failed.");
+    }
+
+    const putResponse = await fetch(session.uploadUrl, {
+      method: "PUT",
+      headers: session.headers,
+      body: upload,
+    });
+    if (!putResponse.ok) {
+      throw new Error("Upload failed.");
+    }
+
+    const finalizeResponse = await fetch("/api/upload/finalize", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        key: session.key,
+        filename: upload.name,
+      }),
+    });
+    const data = await parseJsonResponse<UploadResponse>(finalizeResponse);
+    if (!finalizeResponse.ok || !data.url) {
+      throw new Error(data.error || "Upload failed.");
+    }
+
+    return { ...data, url: data.url, hash: data.hash ?? null };
+  };
+
+  const handleUpload = async (upload: File, hash: string | null) => {
     setStatus("uploading");
 
+    if (hash && upload.size > DIRECT_UPLOAD_THRESHOLD) {
+      return handleDirectUpload(upload, hash);
+    }
+
     const formData = new FormData();
-    formData.append("file", file);
+    formData.append("file", upload);
 
     const response = await fetch("/api/upload", {
       method: "POST",
       body: formData,
     });
 
-    const data = await parseJsonResponse<{
-      url?: string;
-      hash?: string;
-      error?: string;
-    }>(response);
+    const data = await parseJsonResponse<UploadResponse>(response);
     if (!response.ok || !data.url) {
       throw new Error(data.error || "Upload failed.");
     }
 
-    return { url: data.url, hash: data.hash ?? null };
+    return { ...data, url: data.url, hash: data.hash ?? null };
   };
 
-  const pollResults = async (id: string) => {
+  // Cache-only search by hash; null on a miss or any failure
+  const lookupCachedSearch = async (
+    imageHash: string,
+  ): Promise<SearchResponse | null> => {
+    try {
+      const response = await fetch("/api/search", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          cacheOnly: true,
+          imageHash,
+        }),
+      });
+      if (!response.ok) return null;
+      return await parseJsonResponse<SearchResponse>(response);
+    } catch {
+      return null;
+    }
+  };
+
+  const pollResults = async (id: string, provider?: string) => {
     const token = pollTokenRef.current;
     setStatus("polling");
     setPollProgress(0);
@@ -214,7 +538,9 @@ export default function SearchPanel() {
       const progress = Math.round(((attempt + 1) / POLL_ATTEMPTS) * 100);
       setPollProgress(progress);
 
-      const response = await fetch(`/api/search?taskId=${id}`);
+      const params = new URLSearchParams({ taskId: id });
+      if (provider) params.set("provider", provider);
+      const response = await fetch(`/api/search?${params}`);
       const data = await parseJsonResponse<SearchResponse>(response);
 
       if (token !== pollTokenRef.current) return;
@@ -236,10 +562,90 @@ export default function SearchPanel() {
     setPollProgress(100);
   };
 
-  const handleSearch = async (
-    resolvedUrl: string,
-    resolvedHash?: string | null,
-  ) => {
+  // Follow a task over Server-Sent Events, polling when unavailable
+  const streamResults = (id: string, provider?: string) => {
+    if (typeof EventSource === "undefined") {
+      return pollResults(id, provider);
+    }
+
+    const token = pollTokenRef.current;
+    setStatus("polling");
+    setPollProgress(0);
+
+    const params = new URLSearchParams({ taskId: id });
+    if (provider) params.set("provider", provider);
+
+    return new Promise<void>((resolve) => {
+      const source = new EventSource(`/api/search/stream?${params}`);
+      let received = false;
+
+      const finish = () => {
+        source.close();
+        resolve();
+      };
+
+      const handleEvent = (message: MessageEvent<string>) => {
+        if (abortRef.current || token !== pollTokenRef.current) {
+          finish();
+          return;
+        }
+        received = true;
+
+        let event: SearchStreamEvent;
+        try {
+          event = JSON.parse(message.data) as SearchStreamEvent;
+        } catch {
+          return;
+        }
+
+        switch (event.type) {
+          case "polling":
+            if (event.attempt && event.maxAttempts) {
+              setPollProgress(
+                Math.round((event.attempt / event.maxAttempts) * 100),
+              );
+            }
+            break;
+          case "partial":
+            setResults(event.results ?? []);
+            setCheckUrl(event.checkUrl ?? null);
+            break;
+          case "ready":
+            setResults(event.results ?? []);
+            setCheckUrl(event.checkUrl ?? null);
+            setStatus("done");
+            setPollProgress(100);
+            finish();
+            break;
+          case "failed":
+            setStatus("error");
+            setError(event.error || "Search failed.");
+            finish();
+            break;
+        }
+      };
+
+      STREAM_EVENTS.forEach((type) =>
+        source.addEventListener(type, handleEvent as EventListener),
+      );
+
+      source.onerror = () => {
+        source.close();
+        if (token !== pollTokenRef.current) {
+          resolve();
+        } else if (!received) {
+          // The stream never opened (proxy, old runtime): poll instead
+          pollResults(id, provider).then(resolve);
+        } else {
+          setStatus("error");
+          setError("Lost connection while searching. Please try again.");
+          resolve();
+        }
+      };
+    });
+  };
+
+  const handleSearch = async (resolvedUrl: string) => {
     setStatus("searching");
     setSearchedImageUrl(resolvedUrl);
 
@@ -250,7 +656,6 @@ export default function SearchPanel() {
       },
       body: JSON.stringify({
         imageUrl: resolvedUrl,
-        imageHash: resolvedHash ?? undefined,
         turnstileToken: turnstileToken ?? undefined,
       }),
     });
@@ -274,7 +679,7 @@ export default function SearchPanel() {
 
     if (data.taskId) {
       setTaskId(data.taskId);
-      await pollResults(data.taskId);
+      await streamResults(data.taskId, data.provider);
       return;
     }
 
@@ -288,20 +693,74 @@ export default function SearchPanel() {
     try {
       let resolvedUrl = imageUrl.trim();
       let resolvedHash: string | null = null;
+      let searchedCrop: CropRegion | undefined;
 
       if (turnstileEnabled && !turnstileToken) {
         throw new Error("Complete the security check to continue.");
       }
 
       if (mode === "upload") {
-        const uploaded = await handleUpload();
+        if (!file) throw new Error("Select an image first.");
+
+        setStatus("preparing");
+
+        // Only the selected region is uploaded and searched
+        let upload: File;
+        if (crop) {
+          const region = await compressImage(file, { crop });
+          const extension = region.type.split("/")[1] ?? "png";
+          upload = new File([region], `crop.${extension}`, {
+            type: region.type,
+          });
+          searchedCrop = crop;
+        } else {
+          upload = await prepareImageForUpload(file);
+        }
+
+        // Best effort: without it only URL cache hits remain
+        resolvedHash = await hashFile(upload).catch(() => null);
+
+        // Images searched before are answered without uploading them
+        if (resolvedHash) {
+          const cached = await lookupCachedSearch(resolvedHash);
+          if (cached?.results?.length) {
+            setResults(cached.results);
+            setCheckUrl(cached.checkUrl ?? null);
+            setSearchedImageUrl(cached.imageUrl ?? null);
+            if (cached.imageUrl) {
+              pendingHistoryRef.current = {
+                imageUrl: cached.imageUrl,
+                previewUrl: cached.imageUrl,
+                sourceId: sourceIdRef.current ?? undefined,
+                crop: searchedCrop,
+              };
+            }
+            setStatus("done");
+            return;
+          }
+        }
+
+        const uploaded = await handleUpload(upload, resolvedHash);
         resolvedUrl = uploaded.url;
-        resolvedHash = uploaded.hash;
+        resolvedHash ??= uploaded.hash;
+        if (uploaded.key && uploaded.deleteToken) {
+          setUploadedImage({
+            key: uploaded.key,
+            deleteToken: uploaded.deleteToken,
+          });
+        }
       } else if (!resolvedUrl) {
         throw new Error("Paste an image URL to continue.");
       }
 
-      await handleSearch(resolvedUrl, resolvedHash);
+      pendingHistoryRef.current = {
+        imageUrl: resolvedUrl,
+        previewUrl: resolvedUrl,
+        sourceId:
+          mode === "upload" ? (sourceIdRef.current ?? undefined) : undefined,
+        crop: searchedCrop,
+      };
+      await handleSearch(resolvedUrl);
     } catch (err) {
       setStatus("error");
       setError(err instanceof Error ? err.message : "Search failed.");
@@ -322,6 +781,25 @@ export default function SearchPanel() {
     return `${seconds}s`;
   }, [status, pollProgress]);
 
+  // Show a past search (e.g. to compare a crop with its original)
+  const handleHistoryClick = useCallback((item: HistoryItem) => {
+    pollTokenRef.current += 1;
+    pendingHistoryRef.current = null;
+    setError(null);
+    setTaskId(null);
+    setCheckUrl(null);
+    setResults(item.results ?? []);
+    setSearchedImageUrl(item.imageUrl);
+    setWatching("idle");
+    setEnrichment("idle");
+    setStatus("done");
+  }, []);
+
+  const handleCropToggle = useCallback(() => {
+    setIsCropping((current) => !current);
+    setCrop(null);
+  }, []);
+
   // Memoize mode switching handlers
   const handleModeUpload = useCallback(() => setMode("upload"), []);
   const handleModeUrl = useCallback(() => setMode("url"), []);
@@ -329,6 +807,8 @@ export default function SearchPanel() {
   // Screen reader status message
   const srStatusMessage = useMemo(() => {
     switch (status) {
+      case "preparing":
+        return "Preparing image, please wait.";
       case "uploading":
         return "Uploading image, please wait.";
       case "searching":
@@ -414,89 +894,123 @@ export default function SearchPanel() {
           aria-labelledby={`mode-${mode}`}
         >
           {mode === "upload" ? (
-            <label
-              ref={dropZoneRef}
-              className={`flex min-h-[180px] cursor-pointer flex-col items-center justify-center gap-3 rounded-2xl border-2 border-dashed bg-white px-4 py-6 text-center transition-all min-h-[180px] ${
-                isDragging
-                  ? "border-ember-500 bg-ember-50 scale-[1.02]"
-                  : "border-sand-300 hover:border-ember-500"
-              }`}
-              onDragOver={handleDragOver}
-              onDragLeave={handleDragLeave}
-              onDrop={handleDrop}
-            >
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept="image/*"
-                className="hidden"
-                onChange={handleFileChange}
-                aria-label="Upload image file"
-                aria-describedby="upload-instructions"
-              />
-              <span id="upload-instructions" className="sr-only">
-                Supported formats: JPEG, PNG, WebP, GIF, BMP. Maximum file size: 10MB.
-              </span>
-              {previewUrl ? (
-                <div className="flex flex-col items-center gap-3">
-                  <div className="relative group cursor-pointer overflow-hidden rounded-2xl shadow-lg">
-                    <img
-                      src={previewUrl}
-                      alt="Preview"
-                      width={112}
-                      height={112}
-                      className="h-28 w-28 object-cover transition-transform duration-300 group-hover:scale-110"
-                    />
-                    <div className="absolute inset-0 bg-black/0 group-hover:bg-black/20 transition-colors duration-300 flex items-center justify-center">
-                      <span className="text-white opacity-0 group-hover:opacity-100 transition-opacity duration-300 text-sm font-semibold">
-                        Replace
-                      </span>
+            <>
+              <label
+                ref={dropZoneRef}
+                className={`flex min-h-[180px] cursor-pointer flex-col items-center justify-center gap-3 rounded-2xl border-2 border-dashed bg-white px-4 py-6 text-center transition-all min-h-[180px] ${
+                  isDragging
+                    ? "border-ember-500 bg-ember-50 scale-[1.02]"
+                    : "border-sand-300 hover:border-ember-500"
+                }`}
+                onDragOver={handleDragOver}
+                onDragLeave={handleDragLeave}
+                onDrop={handleDrop}
+              >
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/*,.heic,.heif"
+                  className="hidden"
+                  onChange={handleFileChange}
+                  aria-label="Upload image file"
+                  aria-describedby="upload-instructions"
+                />
+                <span id="upload-instructions" className="sr-only">
+                  Supported formats: JPEG, PNG, WebP, GIF, AVIF, HEIC, BMP, TIFF, SVG. Maximum file size: 10MB.
+                </span>
+                {previewUrl ? (
+                  <div className="flex flex-col items-center gap-3">
+                    <div className="relative group cursor-pointer overflow-hidden rounded-2xl shadow-lg">
+                      <img
+                        src={previewUrl}
+                        alt="Preview"
+                        width={112}
+                        height={112}
+                        className="h-28 w-28 object-cover transition-transform duration-300 group-hover:scale-110"
+                      />
+                      <div className="absolute inset-0 bg-black/0 group-hover:bg-black/20 transition-colors duration-300 flex items-center justify-center">
+                        <span className="text-white opacity-0 group-hover:opacity-100 transition-opacity duration-300 text-sm font-semibold">
+                          Replace
+                        </span>
+                      </div>
                     </div>
-                  </div>
-                  {fileMetadata && (
-                    <div className="text-xs text-ink-500 flex gap-3">
-                      {fileMetadata.dimensions && (
+                    {fileMetadata && (
+                      <div className="text-xs text-ink-500 flex gap-3">
+                        {fileMetadata.dimensions && (
+                          <span className="flex items-center gap-1">
+                            <svg
+                              className="w-3 h-3"
+                              fill="currentColor"
+                              viewBox="0 0 20 20"
+                            >
+                              <path d="M4 4a2 2 0 012-2h8a2 2 0 012 2v12a2 2 0 01-2 2H6a2 2 0 01-2-2V4z" />
+                            </svg>
+                            {fileMetadata.dimensions}
+                          </span>
+                        )}
                         <span className="flex items-center gap-1">
                           <svg
                             className="w-3 h-3"
                             fill="currentColor"
                             viewBox="0 0 20 20"
                           >
-                            <path d="M4 4a2 2 0 012-2h8a2 2 0 012 2v12a2 2 0 01-2 2H6a2 2 0 01-2-2V4z" />
+                            <path
+                              fillRule="evenodd"
+                              d="M4 4a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V16a2 2 0 01-2 2H6a2 2 0 01-2-2V4z"
+                              clipRule="evenodd"
+                            />
                           </svg>
-                          {fileMetadata.dimensions}
+                          {fileMetadata.size}
                         </span>
-                      )}
-                      <span className="flex items-center gap-1">
-                        <svg
-                          className="w-3 h-3"
-                          fill="currentColor"
-                          viewBox="0 0 20 20"
-                        >
-                          <path
-                            fillRule="evenodd"
-                            d="M4 4a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V16a2 2 0 01-2 2H6a2 2 0 01-2-2V4z"
-                            clipRule="evenodd"
-                          />
-                        </svg>
-                        {fileMetadata.size}
-                      </span>
-                    </div>
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <p className="text-lg font-semibold text-ink-900">
+                      {isDragging
+                        ? "Drop image here"
+                        : "Drop an image or click to browse"}
+                    </p>
+                    <p className="text-sm text-ink-500">
+                      JPG, PNG, WebP, GIF, AVIF, HEIC, BMP, TIFF, or SVG up to 10MB.
+                    </p>
+                  </div>
+                )}
+              </label>
+              {file && previewUrl && (
+                <div className="space-y-3 rounded-2xl border border-sand-200 bg-white p-4">
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="text-xs font-semibold uppercase tracking-[0.2em] text-ink-500">
+                      Search a region
+                    </p>
+                    <button
+                      type="button"
+                      onClick={handleCropToggle}
+                      aria-pressed={isCropping}
+                      className="rounded-full border border-sand-300 bg-white px-3 py-1.5 text-xs font-semibold text-ink-700 transition hover:border-ink-900 hover:text-ink-900 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ember-500 focus-visible:ring-offset-2"
+                    >
+                      {isCropping ? "Use whole image" : "Crop"}
+                    </button>
+                  </div>
+                  {isCropping && (
+                    <>
+                      <ImageCropper
+                        src={previewUrl}
+                        value={crop}
+                        onChange={setCrop}
+                      />
+                      <p className="text-xs text-ink-500" aria-live="polite">
+                        {crop
+                          ? `Searching a ${crop.width}×${crop.height} px region. Drag again to change it.`
+                          : "Drag over the logo, face or product you want to search."}
+                      </p>
+                    </>
                   )}
                 </div>
-              ) : (
-                <div className="space-y-2">
-                  <p className="text-lg font-semibold text-ink-900">
-                    {isDragging
-                      ? "Drop image here"
-                      : "Drop an image or click to browse"}
-                  </p>
-                  <p className="text-sm text-ink-500">
-                    JPG, PNG, WebP, GIF, or BMP up to 10MB.
-                  </p>
-                </div>
               )}
-            </label>
+              {file && <ImageMetadataPanel file={file} />}
+            </>
           ) : (
             <div className="space-y-3">
               <label
@@ -539,6 +1053,7 @@ export default function SearchPanel() {
           <button
             type="submit"
             disabled={
+              status === "preparing" ||
               status === "uploading" ||
               status === "searching" ||
               status === "polling" ||
@@ -547,16 +1062,20 @@ export default function SearchPanel() {
             className="flex w-full items-center justify-center gap-2 rounded-2xl bg-ember-500 px-5 py-3 text-sm font-semibold text-white transition hover:bg-ember-600 disabled:cursor-not-allowed disabled:opacity-70 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ember-500 focus-visible:ring-offset-2 min-h-[48px]"
             aria-live="polite"
             aria-busy={
+              status === "preparing" ||
               status === "uploading" ||
               status === "searching" ||
               status === "polling"
             }
           >
+            {status === "preparing" && "Preparing…"}
             {status === "uploading" && "Uploading…"}
             {status === "searching" && "Searching…"}
             {status === "polling" && "Finding matches…"}
             {(status === "idle" || status === "done" || status === "error") &&
-              "Start Reverse Search"}
+              (mode === "upload" && crop
+                ? "Search Selected Region"
+                : "Start Reverse Search")}
           </button>
         </form>
 
@@ -584,7 +1103,7 @@ export default function SearchPanel() {
                 <p className="mt-1 text-ember-500 text-xs">
                   {error.includes("Rate limit") && "Your daily limit resets at midnight UTC. Try again tomorrow or contact us for higher limits."}
                   {error.includes("security check") && "Please complete the CAPTCHA verification above before searching."}
-                  {error.includes("Upload failed") && "Check your file size (max 10MB) and format (JPG, PNG, WebP, GIF, BMP)."}
+                  {error.includes("Upload failed") && "Check your file size (max 10MB) and format (JPG, PNG, WebP, GIF, AVIF, HEIC, BMP, TIFF, SVG)."}
                   {error.includes("URL") && "Make sure the URL points directly to an image file (ending in .jpg, .png, etc.)."}
                   {!error.includes("Rate limit") && !error.includes("security check") && !error.includes("Upload failed") && !error.includes("URL") && "Please try again. If the problem persists, try a different image or contact support."}
                 </p>
@@ -641,6 +1160,7 @@ export default function SearchPanel() {
           </p>
           <p className="mt-3 text-2xl font-semibold" aria-live="polite">
             {status === "idle" && "Ready when you are"}
+            {status === "preparing" && "Preparing image"}
             {status === "uploading" && "Uploading image"}
             {status === "searching" && "Querying DataForSEO"}
             {status === "polling" && "Waiting for results"}
@@ -727,8 +1247,85 @@ export default function SearchPanel() {
               </div>
             )}
 
-            <div className="mt-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-              {results.map((item) => (
+            {searchedImageUrl && (
+              <div className="mt-4 flex flex-wrap items-center gap-3 text-xs text-ink-500">
+                <label className="flex items-center gap-2">
+                  <span>Watch for new copies</span>
+                  <select
+                    value={watchFrequency}
+                    onChange={(event) =>
+                      setWatchFrequency(
+                        event.target.value as "daily" | "weekly",
+                      )
+                    }
+                    disabled={watching === "saving" || watching === "saved"}
+                    className="rounded-full border border-sand-300 bg-white px-3 py-2 text-ink-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ember-500"
+                  >
+                    <option value="weekly">Weekly</option>
+                    <option value="daily">Daily</option>
+                  </select>
+                </label>
+                <button
+                  type="button"
+                  onClick={handleWatch}
+                  disabled={watching === "saving" || watching === "saved"}
+                  className="rounded-full border border-sand-300 px-4 py-2 font-semibold text-ink-700 transition hover:bg-sand-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ember-500 focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 min-h-[44px]"
+                >
+                  {watching === "saving"
+                    ? "Saving…"
+                    : watching === "saved"
+                      ? "Watching"
+                      : "Watch this image"}
+                </button>
+                <span aria-live="polite">
+                  {watching === "saved" &&
+                    "We'll search again on schedule and show new places below."}
+                  {watching === "error" && watchError}
+                </span>
+              </div>
+            )}
+
+            {(uploadedImage || deletion !== "idle") && (
+              <div className="mt-4 flex flex-wrap items-center gap-3 text-xs text-ink-500">
+                {uploadedImage && (
+                  <button
+                    type="button"
+                    onClick={handleDeleteUpload}
+                    disabled={deletion === "deleting"}
+                    className="rounded-full border border-sand-300 px-4 py-2 font-semibold text-ink-700 transition hover:bg-sand-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ember-500 focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 min-h-[44px]"
+                  >
+                    {deletion === "deleting"
+                      ? "Deleting…"
+                      : "Delete my uploaded image"}
+                  </button>
+                )}
+                <span aria-live="polite">
+                  {deletion === "deleted" &&
+                    "Your uploaded image was deleted from our storage."}
+                  {deletion === "error" &&
+                    "We couldn't delete the image. It will still be removed automatically within 24 hours."}
+                  {deletion === "idle" &&
+                    "Uploads are deleted automatically within 24 hours."}
+                </span>
+              </div>
+            )}
+
+            <div className="mt-6">
+              <ResultsTabs
+                results={results}
+                onFilteredResults={setDisplayedResults}
+                onNeedDates={handleEnrichResults}
+              />
+              <p className="mt-2 text-xs text-ink-500" aria-live="polite">
+                {enrichment === "loading" &&
+                  "Checking when the top results were published…"}
+                {enrichment === "error" &&
+                  "Publish dates are unavailable right now; sorting by the dates search engines reported."}
+              </p>
+            </div>
+
+            <div className="mt-4 grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {displayedResults.map((item) => (
                 <a
                   key={item.pageUrl}
                   href={item.pageUrl}
@@ -737,10 +1334,10 @@ export default function SearchPanel() {
                   className="group flex flex-col overflow-hidden rounded-2xl border border-sand-200 bg-white transition hover:-translate-y-1 hover:shadow-lg focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ember-500 focus-visible:ring-offset-2"
                 >
                   <div className="h-40 w-full overflow-hidden bg-sand-200 relative">
-                    {item.imageUrl ? (
+                    {thumbnailSrc(item) ? (
                       <>
                         <img
-                          src={item.imageUrl}
+                          src={thumbnailSrc(item)}
                           alt={item.title}
                           loading="lazy"
                           width={320}
@@ -760,8 +1357,43 @@ export default function SearchPanel() {
                       {item.title}
                     </p>
                     <p className="text-xs text-ink-500">
-                      {item.domain || "Source"}
+                      {item.siteName || item.domain || "Source"}
                     </p>
+                    {item.snippet && (
+                      <p className="text-xs text-ink-500 line-clamp-2">
+                        {item.snippet}
+                      </p>
+                    )}
+                    {(item.publishedAt || item.timestamp) && (
+                      <p className="text-xs text-ink-400">
+                        {item.publishedAt
+                          ? `Published ${dateFormatter.format(new Date(item.publishedAt))}`
+                          : `Seen ${dateFormatter.format(new Date(item.timestamp!))}`}
+                      </p>
+                    )}
+                    {item.providers && item.providers.length > 0 && (
+                      <p className="text-xs text-ink-400">
+                        Found by {item.providers.join(", ")}
+                      </p>
+                    )}
+                    {item.originality && (
+                      <div className="pt-1 text-xs text-ink-500">
+                        <p className="font-semibold text-ink-700">
+                          Originality {item.originality.score}/100
+                        </p>
+                        <ul className="list-disc pl-4">
+                          {item.originality.signals
+                            .filter((signal) => signal.points !== 0)
+                            .map((signal) => (
+                              <li key={signal.label}>
+                                {signal.label} (
+                                {signal.points > 0 ? "+" : ""}
+                                {signal.points})
+                              </li>
+                            ))}
+                        </ul>
+                      </div>
+                    )}
                   </div>
                 </a>
               ))}
@@ -777,6 +1409,26 @@ export default function SearchPanel() {
           </div>
         )}
       </div>
+
+      {saved.length > 0 && (
+        <div className="lg:col-span-2">
+          <SavedSearches
+            saved={saved}
+            onRemove={removeSavedSearch}
+            onMarkSeen={markSeen}
+          />
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <div className="lg:col-span-2">
+          <SearchHistory
+            history={history}
+            onItemClick={handleHistoryClick}
+            onClear={clearHistory}
+          />
+        </div>
+      )}
     </div>
   );
 }
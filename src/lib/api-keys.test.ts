@@ -0,0 +1,190 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  API_KEY_PREFIX,
+  apiKeyUsageHeaders,
+  assertAdminRequest,
+  authenticateApiKey,
+  checkApiKeyQuota,
+  createApiKey,
+  DEFAULT_API_KEY_DAILY_LIMIT,
+  listApiKeys,
+  parseCreateApiKeyInput,
+  revokeApiKey,
+} from "@/lib/api-keys";
+import { sha256Hex } from "@/lib/crypto";
+import {
+  AuthenticationError,
+  ServiceUnavailableError,
+  ValidationError,
+} from "@/lib/errors";
+import { createMockEnv, MockKVNamespace } from "@/test/setup";
+
+const withAuth = (token?: string) =>
+  new Request("https://example.com/api/search", {
+    method: "POST",
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+  });
+
+describe("API keys", () => {
+  let kv: KVNamespace;
+
+  beforeEach(() => {
+    kv = new MockKVNamespace() as unknown as KVNamespace;
+  });
+
+  it("stores only the hash of minted keys", async () => {
+    const { key, record } = await createApiKey(kv, { name: "Partner" });
+
+    expect(key.startsWith(API_KEY_PREFIX)).toBe(true);
+    expect(record).toMatchObject({
+      name: "Partner",
+      prefix: key.slice(0, record.prefix.length),
+      dailyLimit: DEFAULT_API_KEY_DAILY_LIMIT,
+    });
+
+    const { keys } = await (kv as unknown as MockKVNamespace).list();
+    const stored = await Promise.all(keys.map(({ name }) => kv.get(name)));
+    expect(stored.some((value) => value?.includes(key))).toBe(false);
+    expect(await kv.get(`apikey:hash:${await sha256Hex(key)}`)).not.toBeNull();
+  });
+
+  it("lists and revokes keys", async () => {
+    const first = await createApiKey(kv, { name: "One" });
+    await createApiKey(kv, { name: "Two" });
+
+    const revoked = await revokeApiKey(kv, first.record.id);
+    expect(revoked?.revokedAt).toBeDefined();
+    expect(await revokeApiKey(kv, "missing")).toBeNull();
+
+    const keys = await listApiKeys(kv);
+    expect(keys.map((entry) => [entry.name, !!entry.revokedAt])).toEqual([
+      ["One", true],
+      ["Two", false],
+    ]);
+  });
+
+  describe("authenticateApiKey", () => {
+    it("returns null for anonymous requests", async () => {
+      expect(await authenticateApiKey(kv, withAuth())).toBeNull();
+    });
+
+    it("resolves a valid key", async () => {
+      const { key, record } = await createApiKey(kv, { name: "Partner" });
+      expect(await authenticateApiKey(kv, withAuth(key))).toEqual(record);
+    });
+
+    it("rejects unknown and revoked keys", async () => {
+      const { key, record } = await createApiKey(kv, { name: "Partner" });
+      await revokeApiKey(kv, record.id);
+
+      await expect(authenticateApiKey(kv, withAuth(key))).rejects.toThrow(
+        "revoked",
+      );
+      await expect(
+        authenticateApiKey(kv, withAuth(`${API_KEY_PREFIX}nope`)),
+      ).rejects.toThrow(AuthenticationError);
+      await expect(
+        authenticateApiKey(kv, withAuth("not-a-key")),
+      ).rejects.toThrow(AuthenticationError);
+    });
+
+    it("fails closed without KV", async () => {
+      await expect(
+        authenticateApiKey(undefined, withAuth(`${API_KEY_PREFIX}abc`)),
+      ).rejects.toThrow(ServiceUnavailableError);
+    });
+  });
+
+  describe("checkApiKeyQuota", () => {
+    it("enforces the daily quota", async () => {
+      const { record } = await createApiKey(kv, {
+        name: "Partner",
+        dailyLimit: 2,
+        monthlyLimit: 10,
+      });
+
+      await checkApiKeyQuota(kv, record);
+      const second = await checkApiKeyQuota(kv, record);
+      const third = await checkApiKeyQuota(kv, record);
+
+      expect(second.allowed).toBe(true);
+      expect(third.allowed).toBe(false);
+      expect(third.daily.remaining).toBe(0);
+      // The denied request was not counted against the month
+      expect(third.monthly.remaining).toBe(8);
+    });
+
+    it("enforces the monthly quota", async () => {
+      const { record } = await createApiKey(kv, {
+        name: "Partner",
+        dailyLimit: 10,
+        monthlyLimit: 1,
+      });
+
+      await checkApiKeyQuota(kv, record);
+      const usage = await checkApiKeyQuota(kv, record);
+
+      expect(usage.allowed).toBe(false);
+      expect(apiKeyUsageHeaders(usage)).toMatchObject({
+        "X-RateLimit-Limit": "1",
+        "X-RateLimit-Reset": usage.monthly.resetAt,
+        // The denied request was not counted against the day
+        "X-Quota-Daily-Remaining": "9",
+      });
+    });
+
+    it("charges every unit of a request's cost", async () => {
+      const { record } = await createApiKey(kv, {
+        name: "Partner",
+        dailyLimit: 5,
+        monthlyLimit: 100,
+      });
+
+      const batch = await checkApiKeyQuota(kv, record, 4);
+      const tooLarge = await checkApiKeyQuota(kv, record, 2);
+
+      expect(batch.allowed).toBe(true);
+      expect(batch.daily.remaining).toBe(1);
+      expect(tooLarge.allowed).toBe(false);
+      // Nothing was taken for the batch that did not fit
+      expect(tooLarge.monthly.remaining).toBe(96);
+    });
+  });
+
+  describe("assertAdminRequest", () => {
+    it("requires a configured, matching admin token", () => {
+      const env = { ...createMockEnv(), ADMIN_API_TOKEN: "admin-secret" };
+
+      expect(() => assertAdminRequest(env, withAuth("admin-secret"))).not.toThrow();
+      expect(() => assertAdminRequest(env, withAuth("wrong"))).toThrow(
+        AuthenticationError,
+      );
+      expect(() => assertAdminRequest(env, withAuth())).toThrow(
+        AuthenticationError,
+      );
+      expect(() =>
+        assertAdminRequest(
+          { ...env, ADMIN_API_TOKEN: undefined },
+          withAuth("admin-secret"),
+        ),
+      ).toThrow("not configured");
+    });
+  });
+
+  describe("parseCreateApiKeyInput", () => {
+    it("validates the request body", async () => {
+      const request = (body: unknown) =>
+        new Request("https://example.com/api/admin/keys", {
+          method: "POST",
+          body: JSON.stringify(body),
+        });
+
+      await expect(
+        parseCreateApiKeyInput(request({ name: " Partner ", dailyLimit: 50 })),
+      ).resolves.toEqual({ name: "Partner", dailyLimit: 50 });
+      await expect(
+        parseCreateApiKeyInput(request({ name: "", dailyLimit: -1 })),
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * API keys for programmatic access
+ *
+ * Keys are shown once when minted and only their SHA-256 hash is stored
+ * in KV. Requests carrying `Authorization: Bearer <key>` skip Turnstile
+ * and are metered against the key's own daily and monthly quotas instead
+ * of the per-IP limits.
+ */
+
+import { z } from "zod";
+import type { AppEnv } from "@/lib/cf-env";
+import { sha256Hex, timingSafeEqual } from "@/lib/crypto";
+import {
+  AuthenticationError,
+  ServiceUnavailableError,
+  ValidationError,
+} from "@/lib/errors";
+import {
+  checkRateLimit,
+  peekRateLimit,
+  type RateLimitStatus,
+} from "@/lib/rate-limit";
+import { getBearerToken } from "@/lib/request";
+
+/** Prefix that identifies API keys (and distinguishes them from other tokens) */
+export const API_KEY_PREFIX = "isr_";
+
+/** Random bytes per key (192 bits) */
+const API_KEY_RANDOM_BYTES = 24;
+
+/** Characters of the key kept for display, e.g. "isr_3f9a1c" */
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 6;
+
+/** Default daily request quota for new keys */
+export const DEFAULT_API_KEY_DAILY_LIMIT = 1000;
+
+/** Default monthly request quota for new keys */
+export const DEFAULT_API_KEY_MONTHLY_LIMIT = 20000;
+
+/** KV key holding the list of minted key IDs and hashes */
+const API_KEY_INDEX_KEY = "apikey:index";
+
+const recordKey = (hash: string) => `apikey:hash:${hash}`;
+
+/**
+ * Stored API key metadata (never includes the key itself)
+ */
+export type ApiKeyRecord = {
+  id: string;
+  name: string;
+  /** First characters of the key, for recognizing it in listings */
+  prefix: string;
+  dailyLimit: number;
+  monthlyLimit: number;
+  createdAt: string;
+  revokedAt?: string;
+};
+
+type ApiKeyIndexEntry = { id: string; hash: string };
+
+/**
+ * Quota usage for an authenticated request
+ */
+export type ApiKeyUsage = {
+  allowed: boolean;
+  daily: RateLimitStatus;
+  monthly: RateLimitStatus;
+};
+
+export const CreateApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  dailyLimit: z.number().int().positive().max(1_000_000).optional(),
+  monthlyLimit: z.number().int().positive().max(10_000_000).optional(),
+});
+
+export type CreateApiKeyInput = z.infer<typeof CreateApiKeySchema>;
+
+const generateApiKey = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(API_KEY_RANDOM_BYTES));
+  const random = Array.from(bytes)
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  return `${API_KEY_PREFIX}${random}`;
+};
+
+const readIndex = async (kv: KVNamespace): Promise<ApiKeyIndexEntry[]> =>
+  (await kv.get<ApiKeyIndexEntry[]>(API_KEY_INDEX_KEY, { type: "json" })) ?? [];
+
+/**
+ * Mints a new API key.
+ *
+ * @returns The plaintext key (only available now) and its stored record
+ */
+export const createApiKey = async (
+  kv: KVNamespace,
+  input: CreateApiKeyInput,
+): Promise<{ key: string; record: ApiKeyRecord }> => {
+  const key = generateApiKey();
+  const hash = await sha256Hex(key);
+  const record: ApiKeyRecord = {
+    id: crypto.randomUUID(),
+    name: input.name,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    dailyLimit: input.dailyLimit ?? DEFAULT_API_KEY_DAILY_LIMIT,
+    monthlyLimit: input.monthlyLimit ?? DEFAULT_API_KEY_MONTHLY_LIMIT,
+    createdAt: new Date().toISOString(),
+  };
+
+  await kv.put(recordKey(hash), JSON.stringify(record));
+  const index = await readIndex(kv);
+  await kv.put(
+    API_KEY_INDEX_KEY,
+    JSON.stringify([...index, { id: record.id, hash }]),
+  );
+
+  return { key, record };
+};
+
+/**
+ * Lists every minted key, including revoked ones.
+ */
+export const listApiKeys = async (kv: KVNamespace): Promise<ApiKeyRecord[]> => {
+  const index = await readIndex(kv);
+  const records = await Promise.all(
+    index.map((entry) =>
+      kv.get<ApiKeyRecord>(recordKey(entry.hash), { type: "json" }),
+    ),
+  );
+  return records.filter((record): record is ApiKeyRecord => record !== null);
+};
+
+/**
+ * Revokes a key by ID. Revoked keys stay listed but no longer authenticate.
+ *
+ * @returns The updated record, or null when no key has that ID
+ */
+export const revokeApiKey = async (
+  kv: KVNamespace,
+  id: string,
+): Promise<ApiKeyRecord | null> => {
+  const entry = (await readIndex(kv)).find((item) => item.id === id);
+  if (!entry) {
+    return null;
+  }
+
+  const record = await kv.get<ApiKeyRecord>(recordKey(entry.hash), {
+    type: "json",
+  });
+  if (!record) {
+    return null;
+  }
+
+  const revoked = {
+    ...record,
+    revokedAt: record.revokedAt ?? new Date().toISOString(),
+  };
+  await kv.put(recordKey(entry.hash), JSON.stringify(revoked));
+  return revoked;
+};
+
+/**
+ * Resolves the API key on a request.
+ *
+ * @returns The key's record, or null for anonymous requests
+ * @throws AuthenticationError when a key is present but unknown or revoked
+ * @throws ServiceUnavailableError when keys cannot be checked (no KV binding)
+ */
+export const authenticateApiKey = async (
+  kv: KVNamespace | undefined,
+  request: Request,
+): Promise<ApiKeyRecord | null> => {
+  const token = getBearerToken(request);
+  if (!token) {
+    return null;
+  }
+  if (!token.startsWith(API_KEY_PREFIX)) {
+    throw new AuthenticationError("Invalid API key.");
+  }
+  if (!kv) {
+    throw new ServiceUnavailableError(
+      "API key authentication is unavailable. Please try again later.",
+    );
+  }
+
+  const record = await kv.get<ApiKeyRecord>(
+    recordKey(await sha256Hex(token)),
+    { type: "json" },
+  );
+  if (!record) {
+    throw new AuthenticationError("Invalid API key.");
+  }
+  if (record.revokedAt) {
+    throw new AuthenticationError("This API key has been revoked.", {
+      apiKeyId: record.id,
+    });
+  }
+  return record;
+};
+
+/**
+ * Counts a request against a key's monthly and daily quotas.
+ * Searches, batches and uploads share the same quota; a batch costs one
+ * unit per image it searches. Both windows are read first and the request
+ * is only counted when both still have room for its whole cost, so
+ * retries after either quota runs out cost nothing.
+ */
+export const checkApiKeyQuota = async (
+  kv: KVNamespace,
+  record: ApiKeyRecord,
+  cost = 1,
+): Promise<ApiKeyUsage> => {
+  const subject = `key:${record.id}`;
+  const [monthlyPeek, dailyPeek] = await Promise.all([
+    peekRateLimit(
+      kv,
+      subject,
+      record.monthlyLimit,
+      "apikey_quota",
+      "month",
+      cost,
+    ),
+    peekRateLimit(kv, subject, record.dailyLimit, "apikey_quota", "day", cost),
+  ]);
+  if (!monthlyPeek.allowed || !dailyPeek.allowed) {
+    return { allowed: false, daily: dailyPeek, monthly: monthlyPeek };
+  }
+
+  const monthly = await checkRateLimit(
+    kv,
+    subject,
+    record.monthlyLimit,
+    "apikey_quota",
+    "month",
+    cost,
+  );
+  const daily = await checkRateLimit(
+    kv,
+    subject,
+    record.dailyLimit,
+    "apikey_quota",
+    "day",
+    cost,
+  );
+  return { allowed: daily.allowed && monthly.allowed, daily, monthly };
+};
+
+/**
+ * Response headers describing a key's remaining quota.
+ * The standard X-RateLimit-* headers carry whichever window ran out first.
+ */
+export const apiKeyUsageHeaders = (
+  usage: ApiKeyUsage,
+): Record<string, string> => {
+  const binding =
+    usage.monthly.allowed && usage.daily.remaining <= usage.monthly.remaining
+      ? usage.daily
+      : usage.monthly;
+  return {
+    "X-RateLimit-Limit": String(binding.limit),
+    "X-RateLimit-Remaining": String(binding.remaining),
+    "X-RateLimit-Reset": binding.resetAt,
+    "X-Quota-Daily-Limit": String(usage.daily.limit),
+    "X-Quota-Daily-Remaining": String(usage.daily.remaining),
+    "X-Quota-Daily-Reset": usage.daily.resetAt,
+    "X-Quota-Monthly-Limit": String(usage.monthly.limit),
+    "X-Quota-Monthly-Remaining": String(usage.monthly.remaining),
+    "X-Quota-Monthly-Reset": usage.monthly.resetAt,
+  };
+};
+
+/**
+ * Checks that a request carries the admin token.
+ *
+ * @throws AuthenticationError when ADMIN_API_TOKEN is unset or does not match
+ */
+export const assertAdminRequest = (env: AppEnv, request: Request): void => {
+  const expected = env.ADMIN_API_TOKEN;
+  if (!expected) {
+    throw new AuthenticationError("Admin API is not configured.");
+  }
+  const token = getBearerToken(request);
+  if (!token || !timingSafeEqual(token, expected)) {
+    throw new AuthenticationError("Invalid admin token.");
+  }
+};
+
+/**
+ * Parses the body of a key minting request.
+ */
+export const parseCreateApiKeyInput = async (
+  request: Request,
+): Promise<CreateApiKeyInput> => {
+  const payload = await request.json().catch(() => null);
+  const parsed = CreateApiKeySchema.safeParse(payload);
+  if (!parsed.success) {
+    const [issue] = parsed.error.errors;
+    throw new ValidationError(
+      `Invalid input: ${issue?.message ?? "validation failed"}`,
+      issue?.path[0] as string | undefined,
+      undefined,
+      { zodErrors: parsed.error.errors },
+    );
+  }
+  return parsed.data;
+};
@@ -1,7 +1,7 @@
 /**
  * Cloudflare environment bindings and configuration
  *
- * Provides type-safe access to Cloudflare Workers bindings (KV, R2)
+ * Provides type-safe access to Cloudflare Workers bindings (KV, R2, Durable Objects, Images)
  * and environment variables in both edge runtime and local development.
  */
 
@@ -15,6 +15,10 @@ type CloudflareEnv = {
   KV_RATE_LIMIT?: KVNamespace;
   /** R2 bucket for image storage */
   R2_BUCKET?: R2Bucket;
+  /** Durable Object namespace for atomic rate limiting (falls back to KV) */
+  RATE_LIMITER?: DurableObjectNamespace;
+  /** Cloudflare Images binding for server-side upload normalization */
+  IMAGES?: ImagesBinding;
 };
 
 /**
@@ -35,10 +39,54 @@ type BaseEnv = {
   DFS_ENDPOINT_POST?: string;
   /** DataForSEO endpoint for retrieving results */
   DFS_ENDPOINT_GET?: string;
+  /** DataForSEO Bing search-by-image task_post endpoint */
+  DFS_ENDPOINT_BING_POST?: string;
+  /** DataForSEO Bing search-by-image task_get endpoint */
+  DFS_ENDPOINT_BING_GET?: string;
+  /** DataForSEO Yandex search-by-image task_post endpoint */
+  DFS_ENDPOINT_YANDEX_POST?: string;
+  /** DataForSEO Yandex search-by-image task_get endpoint */
+  DFS_ENDPOINT_YANDEX_GET?: string;
+
+  // Search providers
+  /** Default search provider ID (default: "dataforseo") */
+  SEARCH_PROVIDER?: string;
+
+  // Webhooks
+  /** Secret used to HMAC-sign search completion callbacks */
+  WEBHOOK_SECRET?: string;
+
+  // Thumbnails
+  /** Secret used to HMAC-sign `/api/thumb` URLs (the proxy is off without it) */
+  THUMBNAIL_SIGNING_SECRET?: string;
+
+  // Rate limiting
+  /** JSON overrides of the per-bucket rate limit algorithm and limits */
+  RATE_LIMIT_CONFIG?: string;
+
+  // API access
+  /** Bearer token for the admin API (API key management) */
+  ADMIN_API_TOKEN?: string;
+
+  // Uploads
+  /** "true" to normalize uploads (strip metadata, orient, downsize) */
+  UPLOAD_NORMALIZE?: string;
+  /** Longest edge of normalized uploads in pixels (default: 2048) */
+  UPLOAD_MAX_DIMENSION?: string;
+  /** Hours uploads are kept before scheduled cleanup deletes them (default: 24) */
+  UPLOAD_RETENTION_HOURS?: string;
 
   // R2 Storage
   /** Public domain for R2 bucket access */
   NEXT_PUBLIC_R2_DOMAIN?: string;
+  /** Cloudflare account ID, for pre-signed direct uploads to R2 */
+  R2_ACCOUNT_ID?: string;
+  /** R2 API token access key ID, for pre-signed direct uploads */
+  R2_ACCESS_KEY_ID?: string;
+  /** R2 API token secret access key, for pre-signed direct uploads */
+  R2_SECRET_ACCESS_KEY?: string;
+  /** Name of the bucket bound as R2_BUCKET, for pre-signed direct uploads */
+  R2_BUCKET_NAME?: string;
 
   // Site configuration
   /** Base URL of the site */
@@ -80,3 +128,21 @@ export const getEnv = (): AppEnv => {
     return process.env as AppEnv;
   }
 };
+
+/**
+ * Keeps background work alive after the response is sent.
+ *
+ * Uses the edge runtime's `waitUntil` when available. Outside the edge
+ * runtime the promise simply keeps running. Rejections are swallowed, so
+ * callers should log their own failures.
+ *
+ * @param work - The promise to keep alive
+ */
+export const runInBackground = (work: Promise<unknown>): void => {
+  const guarded = work.catch(() => undefined);
+  try {
+    getRequestContext().ctx.waitUntil(guarded);
+  } catch {
+    // Not in a request context (local dev, tests)
+  }
+};
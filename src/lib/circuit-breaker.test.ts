@@ -2,8 +2,11 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 import {
   CircuitBreaker,
   CircuitBreakerOpenError,
+  createKVCircuitBreakerStore,
   dataForSEOCircuitBreaker,
 } from "./circuit-breaker";
+import { errorResponseHeaders, ValidationError } from "./errors";
+import { MockKVNamespace } from "@/test/setup";
 
 describe("CircuitBreaker", () => {
   let breaker: CircuitBreaker;
@@ -166,6 +169,90 @@ describe("CircuitBreaker", () => {
       );
     });
   });
+  describe("failure classification", () => {
+    it("should not count errors rejected by isFailure", async () => {
+      const breaker = new CircuitBreaker({
+        failureThreshold: 1,
+        isFailure: (error) => !(error instanceof ValidationError),
+      });
+      const fn = vi.fn().mockRejectedValue(new ValidationError("bad input"));
+
+      await expect(breaker.execute(fn)).rejects.toThrow("bad input");
+      await expect(breaker.execute(fn)).rejects.toThrow("bad input");
+
+      expect(breaker.getMetrics().state).toBe("closed");
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it("should only open after consecutive failures", async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 2 });
+      const fail = vi.fn().mockRejectedValue(new Error("fail"));
+      const succeed = vi.fn().mockResolvedValue("ok");
+
+      await expect(breaker.execute(fail)).rejects.toThrow("fail");
+      await breaker.execute(succeed);
+      await expect(breaker.execute(fail)).rejects.toThrow("fail");
+
+      expect(breaker.getMetrics().state).toBe("closed");
+    });
+  });
+
+  describe("open error", () => {
+    it("should map to a 503 with a Retry-After header", async () => {
+      const breaker = new CircuitBreaker({
+        failureThreshold: 1,
+        resetTimeoutMs: 30000,
+      });
+      await expect(
+        breaker.execute(() => Promise.reject(new Error("fail"))),
+      ).rejects.toThrow("fail");
+
+      const error = await breaker
+        .execute(() => Promise.resolve("ok"))
+        .catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(CircuitBreakerOpenError);
+      expect((error as CircuitBreakerOpenError).statusCode).toBe(503);
+      expect(errorResponseHeaders(error)).toEqual({ "Retry-After": "30" });
+    });
+  });
+
+  describe("shared state", () => {
+    it("should share an open circuit between instances through KV", async () => {
+      const kv = new MockKVNamespace() as unknown as KVNamespace;
+      const store = createKVCircuitBreakerStore(kv, "circuit:test");
+      const first = new CircuitBreaker({ failureThreshold: 1 });
+      const second = new CircuitBreaker({ failureThreshold: 1 });
+      const fn = vi.fn().mockRejectedValue(new Error("fail"));
+
+      await expect(first.execute(fn, "test", store)).rejects.toThrow("fail");
+      await expect(second.execute(fn, "test", store)).rejects.toThrow(
+        CircuitBreakerOpenError,
+      );
+
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(second.getMetrics().state).toBe("open");
+    });
+
+    it("should ignore stored state older than local state", async () => {
+      const kv = new MockKVNamespace() as unknown as KVNamespace;
+      const store = createKVCircuitBreakerStore(kv, "circuit:test");
+      await store.save({ state: "open", failureCount: 5, updatedAt: 1 });
+      breaker.forceState("closed");
+
+      await breaker.sync(store, true);
+
+      expect(breaker.getMetrics().state).toBe("closed");
+    });
+
+    it("should ignore malformed stored state", async () => {
+      const kv = new MockKVNamespace() as unknown as KVNamespace;
+      await kv.put("circuit:test", JSON.stringify({ state: "broken" }));
+      const store = createKVCircuitBreakerStore(kv, "circuit:test");
+
+      await expect(store.load()).resolves.toBeNull();
+    });
+  });
 });
 
 describe("dataForSEOCircuitBreaker", () => {
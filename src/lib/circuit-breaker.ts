@@ -8,8 +8,18 @@
  * - CLOSED: Normal operation, requests pass through
  * - OPEN: Service is failing, requests are blocked
  * - HALF-OPEN: Testing if service has recovered
+ *
+ * Edge isolates do not share memory, so a breaker can optionally be
+ * synchronized through a CircuitBreakerStore (e.g. KV) to share its state.
  */
 
+import type { DataForSEOEngine } from "@/lib/dataforseo";
+import {
+  DataForSEOError,
+  ServiceUnavailableError,
+  ValidationError,
+} from "@/lib/errors";
+
 /**
  * Circuit breaker states
  */
@@ -25,6 +35,32 @@ export interface CircuitBreakerOptions {
   resetTimeoutMs?: number;
   /** Max concurrent requests in half-open state (default: 3) */
   halfOpenMaxCalls?: number;
+  /**
+   * Decides whether an error counts against the circuit (default: all errors).
+   * Errors that do not count are treated as proof the service is reachable.
+   */
+  isFailure?: (error: unknown) => boolean;
+  /** Minimum time in ms between reads from a shared store (default: 5000) */
+  syncIntervalMs?: number;
+}
+
+/**
+ * Circuit state shared between isolates through a store
+ */
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  failureCount: number;
+  lastFailureTime?: number;
+  /** Timestamp of the write, used to discard stale snapshots */
+  updatedAt: number;
+}
+
+/**
+ * Persistence backend for sharing circuit state
+ */
+export interface CircuitBreakerStore {
+  load(): Promise<CircuitBreakerSnapshot | null>;
+  save(snapshot: CircuitBreakerSnapshot): Promise<void>;
 }
 
 /**
@@ -56,6 +92,14 @@ const DEFAULT_RESET_TIMEOUT_MS = 30000;
 /** Default max calls allowed in half-open state */
 const DEFAULT_HALF_OPEN_MAX_CALLS = 3;
 
+/** Default minimum interval between shared store reads (5 seconds) */
+const DEFAULT_SYNC_INTERVAL_MS = 5000;
+
+/** TTL for persisted circuit state in KV (1 hour) */
+const STATE_TTL_SECONDS = 60 * 60;
+
+const CIRCUIT_STATES = new Set<CircuitState>(["closed", "open", "half-open"]);
+
 /**
  * Circuit Breaker implementation for protecting against cascading failures.
  *
@@ -84,15 +128,21 @@ export class CircuitBreaker {
   private totalCalls = 0;
   private totalFailures = 0;
   private halfOpenCalls = 0;
+  private updatedAt = 0;
+  private lastSyncAt = 0;
 
   private readonly failureThreshold: number;
   private readonly resetTimeoutMs: number;
   private readonly halfOpenMaxCalls: number;
+  private readonly isFailure: (error: unknown) => boolean;
+  private readonly syncIntervalMs: number;
 
   constructor(options: CircuitBreakerOptions = {}) {
     this.failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
     this.resetTimeoutMs = options.resetTimeoutMs ?? DEFAULT_RESET_TIMEOUT_MS;
     this.halfOpenMaxCalls = options.halfOpenMaxCalls ?? DEFAULT_HALF_OPEN_MAX_CALLS;
+    this.isFailure = options.isFailure ?? (() => true);
+    this.syncIntervalMs = options.syncIntervalMs ?? DEFAULT_SYNC_INTERVAL_MS;
   }
 
   /**
@@ -100,11 +150,20 @@ export class CircuitBreaker {
    *
    * @param fn - The async function to execute
    * @param context - Optional context for error messages
+   * @param store - Optional shared store to synchronize state with
    * @returns The result of the function
    * @throws CircuitBreakerOpenError if the circuit is open
    * @throws The original error if the function fails
    */
-  async execute<T>(fn: () => Promise<T>, context?: string): Promise<T> {
+  async execute<T>(
+    fn: () => Promise<T>,
+    context?: string,
+    store?: CircuitBreakerStore,
+  ): Promise<T> {
+    if (store) {
+      await this.sync(store);
+    }
+
     this.totalCalls++;
 
     if (this.state === "open") {
@@ -115,16 +174,19 @@ export class CircuitBreaker {
         this.failureCount = 0;
         this.successCount = 0;
       } else {
+        const retryAfter = this.getRetryAfter();
         throw new CircuitBreakerOpenError(
           `Circuit breaker is open${context ? ` for ${context}` : ""}. ` +
-            `Try again after ${this.getRetryAfter()}s`
+            `Try again after ${retryAfter}s`,
+          retryAfter,
         );
       }
     }
 
     if (this.state === "half-open" && this.halfOpenCalls >= this.halfOpenMaxCalls) {
       throw new CircuitBreakerOpenError(
-        "Circuit breaker half-open capacity exceeded. Please retry."
+        "Circuit breaker half-open capacity exceeded. Please retry.",
+        1,
       );
     }
 
@@ -132,13 +194,54 @@ export class CircuitBreaker {
       this.halfOpenCalls++;
     }
 
+    const before = this.persistedFields();
+
     try {
       const result = await fn();
       this.onSuccess();
       return result;
     } catch (error) {
-      this.onFailure();
+      if (this.isFailure(error)) {
+        this.onFailure();
+      } else {
+        this.onSuccess();
+      }
       throw error;
+    } finally {
+      if (store && this.persistedFields() !== before) {
+        await this.persist(store);
+      }
+    }
+  }
+
+  /**
+   * Adopts newer state from a shared store.
+   *
+   * Reads are throttled by `syncIntervalMs` unless forced. Store errors are
+   * ignored so an unavailable store never blocks the protected call.
+   *
+   * @param store - The shared store to read from
+   * @param force - Skip the sync interval throttle
+   */
+  async sync(store: CircuitBreakerStore, force = false): Promise<void> {
+    const now = Date.now();
+    if (!force && now - this.lastSyncAt < this.syncIntervalMs) return;
+    this.lastSyncAt = now;
+
+    try {
+      const snapshot = await store.load();
+      if (!snapshot || snapshot.updatedAt <= this.updatedAt) return;
+
+      if (snapshot.state !== this.state) {
+        this.halfOpenCalls = 0;
+        this.successCount = 0;
+      }
+      this.state = snapshot.state;
+      this.failureCount = snapshot.failureCount;
+      this.lastFailureTime = snapshot.lastFailureTime;
+      this.updatedAt = snapshot.updatedAt;
+    } catch {
+      // Fall back to local state
     }
   }
 
@@ -170,13 +273,17 @@ export class CircuitBreaker {
       this.successCount = 0;
       this.halfOpenCalls = 0;
     }
+    this.updatedAt = Date.now();
   }
 
   /**
    * Resets the circuit breaker to closed state.
+   * Also forgets shared state, so the next sync adopts whatever is stored.
    */
   reset(): void {
     this.forceState("closed");
+    this.updatedAt = 0;
+    this.lastSyncAt = 0;
   }
 
   private onSuccess(): void {
@@ -190,6 +297,9 @@ export class CircuitBreaker {
         this.failureCount = 0;
         this.halfOpenCalls = 0;
       }
+    } else if (this.state === "closed") {
+      // Only consecutive failures should open the circuit
+      this.failureCount = 0;
     }
   }
 
@@ -214,24 +324,125 @@ export class CircuitBreaker {
     const remaining = Math.max(0, this.resetTimeoutMs - elapsed);
     return Math.ceil(remaining / 1000);
   }
+
+  /**
+   * Serializes the fields shared through a store, for change detection.
+   */
+  private persistedFields(): string {
+    return `${this.state}:${this.failureCount}:${this.lastFailureTime ?? ""}`;
+  }
+
+  private async persist(store: CircuitBreakerStore): Promise<void> {
+    this.updatedAt = Date.now();
+    try {
+      await store.save({
+        state: this.state,
+        failureCount: this.failureCount,
+        lastFailureTime: this.lastFailureTime,
+        updatedAt: this.updatedAt,
+      });
+    } catch {
+      // Sharing state is best effort; local state stays authoritative
+    }
+  }
 }
 
 /**
  * Error thrown when the circuit breaker is open and blocking requests.
+ * Maps to HTTP 503 with a Retry-After hint.
  */
-export class CircuitBreakerOpenError extends Error {
-  constructor(message: string) {
-    super(message);
+export class CircuitBreakerOpenError extends ServiceUnavailableError {
+  constructor(message: string, retryAfterSeconds?: number) {
+    super(message, retryAfterSeconds);
     this.name = "CircuitBreakerOpenError";
   }
 }
 
 /**
- * Global circuit breaker instance for DataForSEO API calls.
- * Configured with sensible defaults for external API protection.
+ * Creates a store that shares circuit state through Cloudflare KV.
+ *
+ * KV is eventually consistent, so isolates converge on the shared state
+ * within seconds rather than instantly.
+ *
+ * @param kv - The Cloudflare KV namespace
+ * @param key - KV key holding the snapshot
  */
-export const dataForSEOCircuitBreaker = new CircuitBreaker({
-  failureThreshold: DEFAULT_FAILURE_THRESHOLD,
-  resetTimeoutMs: DEFAULT_RESET_TIMEOUT_MS,
-  halfOpenMaxCalls: DEFAULT_HALF_OPEN_MAX_CALLS,
+export const createKVCircuitBreakerStore = (
+  kv: KVNamespace,
+  key: string,
+): CircuitBreakerStore => ({
+  async load() {
+    const data = await kv.get(key, { type: "json" });
+    if (!data || typeof data !== "object") return null;
+    const snapshot = data as CircuitBreakerSnapshot;
+    if (
+      !CIRCUIT_STATES.has(snapshot.state) ||
+      typeof snapshot.failureCount !== "number" ||
+      typeof snapshot.updatedAt !== "number"
+    ) {
+      return null;
+    }
+    return snapshot;
+  },
+  async save(snapshot) {
+    await kv.put(key, JSON.stringify(snapshot), {
+      expirationTtl: STATE_TTL_SECONDS,
+    });
+  },
 });
+
+/** KV key holding the shared circuit state of the Google engine */
+export const DATAFORSEO_CIRCUIT_KEY = "circuit:dataforseo";
+
+/**
+ * Returns the KV key holding an engine's shared circuit state.
+ * Google keeps the original key so existing state carries over.
+ */
+export const getDataForSEOCircuitKey = (engine: DataForSEOEngine): string =>
+  engine === "google"
+    ? DATAFORSEO_CIRCUIT_KEY
+    : `${DATAFORSEO_CIRCUIT_KEY}:${engine}`;
+
+/**
+ * Returns the shared store for an engine's breaker, if KV is bound.
+ */
+export const getDataForSEOCircuitStore = (
+  kv?: KVNamespace,
+  engine: DataForSEOEngine = "google",
+): CircuitBreakerStore | undefined =>
+  kv
+    ? createKVCircuitBreakerStore(kv, getDataForSEOCircuitKey(engine))
+    : undefined;
+
+/**
+ * Creates a breaker for DataForSEO API calls.
+ * Configured with sensible defaults for external API protection.
+ * Client errors (bad input, 4xx other than 429) do not trip the circuit.
+ */
+const createDataForSEOCircuitBreaker = () =>
+  new CircuitBreaker({
+    failureThreshold: DEFAULT_FAILURE_THRESHOLD,
+    resetTimeoutMs: DEFAULT_RESET_TIMEOUT_MS,
+    halfOpenMaxCalls: DEFAULT_HALF_OPEN_MAX_CALLS,
+    isFailure: (error) =>
+      !(error instanceof ValidationError) &&
+      !DataForSEOError.isClientError(error),
+  });
+
+/**
+ * One breaker per DataForSEO engine, so an outage of one engine's
+ * endpoints does not block searches on the others.
+ */
+export const dataForSEOCircuitBreakers: Record<
+  DataForSEOEngine,
+  CircuitBreaker
+> = {
+  google: createDataForSEOCircuitBreaker(),
+  bing: createDataForSEOCircuitBreaker(),
+  yandex: createDataForSEOCircuitBreaker(),
+};
+
+/**
+ * Circuit breaker for the default (Google) DataForSEO engine.
+ */
+export const dataForSEOCircuitBreaker = dataForSEOCircuitBreakers.google;
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { sha256Hex } from "@/lib/crypto";
+import { hmacSha256Hex, sha256Hex, timingSafeEqual } from "@/lib/crypto";
 
 describe("sha256Hex", () => {
   it("hashes a simple string correctly", async () => {
@@ -74,3 +74,33 @@ describe("sha256Hex", () => {
     expect(result).toBe(result.toLowerCase());
   });
 });
+
+describe("hmacSha256Hex", () => {
+  it("matches the RFC 2104 reference output", async () => {
+    const result = await hmacSha256Hex(
+      "key",
+      "The quick brown fox jumps over the lazy dog",
+    );
+    expect(result).toBe(
+      "f7bc83f430538424b13298e6aa6fb143ef4d59a14946175997479dbc2d1a3cd8",
+    );
+  });
+
+  it("produces different signatures for different secrets", async () => {
+    const a = await hmacSha256Hex("secret-a", "payload");
+    const b = await hmacSha256Hex("secret-b", "payload");
+    expect(a).not.toBe(b);
+  });
+});
+
+describe("timingSafeEqual", () => {
+  it("matches identical strings", () => {
+    expect(timingSafeEqual("secret-token", "secret-token")).toBe(true);
+  });
+
+  it("rejects different strings of the same or different length", () => {
+    expect(timingSafeEqual("secret-token", "secret-tokem")).toBe(false);
+    expect(timingSafeEqual("secret-token", "secret")).toBe(false);
+    expect(timingSafeEqual("secret", "")).toBe(false);
+  });
+});
@@ -1,7 +1,7 @@
 /**
  * Computes the SHA-256 hash of the input and returns it as a hexadecimal string.
  *
- * @param input - The data to hash, either as a string or ArrayBuffer
+ * @param input - The data to hash, as a string, ArrayBuffer or byte array
  * @returns A promise that resolves to the 64-character lowercase hex string
  *
  * @example
@@ -12,7 +12,9 @@
  * const fileHash = await sha256Hex(arrayBuffer);
  * ```
  */
-export const sha256Hex = async (input: ArrayBuffer | string): Promise<string> => {
+export const sha256Hex = async (
+  input: ArrayBuffer | Uint8Array | string,
+): Promise<string> => {
   const data =
     typeof input === "string"
       ? new TextEncoder().encode(input)
@@ -22,3 +24,58 @@ export const sha256Hex = async (input: ArrayBuffer | string): Promise<string> =>
     .map((byte) => byte.toString(16).padStart(2, "0"))
     .join("");
 };
+
+/**
+ * Computes an HMAC-SHA256 signature and returns it as a hexadecimal string.
+ *
+ * @param secret - The shared signing secret
+ * @param message - The message to sign
+ * @returns A promise that resolves to the 64-character lowercase hex signature
+ *
+ * @example
+ * ```ts
+ * const signature = await hmacSha256Hex(env.WEBHOOK_SECRET, body);
+ * ```
+ */
+export const hmacSha256Hex = async (
+  secret: string,
+  message: string,
+): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+/**
+ * Compares two strings in time that depends only on their length,
+ * so secrets cannot be recovered by timing the comparison.
+ *
+ * @param a - The first string
+ * @param b - The second string
+ * @returns Whether the strings are identical
+ *
+ * @example
+ * ```ts
+ * if (!timingSafeEqual(token, env.ADMIN_API_TOKEN)) {
+ *   throw new AuthenticationError();
+ * }
+ * ```
+ */
+export const timingSafeEqual = (a: string, b: string): boolean => {
+  const left = new TextEncoder().encode(a);
+  const right = new TextEncoder().encode(b);
+  let diff = left.length ^ right.length;
+  for (let index = 0; index < left.length; index++) {
+    diff |= left[index] ^ (right[index % Math.max(1, right.length)] ?? 0);
+  }
+  return diff === 0;
+};
@@ -2,15 +2,27 @@ import { describe, expect, it, vi, beforeEach } from "vitest";
 import {
   extractCheckUrl,
   extractSearchResults,
+  parseCacheLookupInput,
   parseImageSearchInput,
   postSearchByImageTask,
   getSearchByImageTask,
   pollSearchResults,
   resolveSearchResults,
+  createSearchByImageTask,
+  createSearchByImageTasks,
+  fetchSearchByImageTask,
+  MAX_TASKS_PER_POST,
 } from "@/lib/dataforseo";
 import { createMockEnv, mockFetch, restoreFetch } from "@/test/setup";
 import { DataForSEOError, ValidationError } from "@/lib/errors";
 import type { AppEnv } from "@/lib/cf-env";
+import {
+  CircuitBreakerOpenError,
+  DATAFORSEO_CIRCUIT_KEY,
+  dataForSEOCircuitBreaker,
+  dataForSEOCircuitBreakers,
+  getDataForSEOCircuitKey,
+} from "@/lib/circuit-breaker";
 
 const sampleResponse = {
   tasks: [
@@ -283,6 +295,91 @@ describe("dataforseo parsing", () => {
       expect(results[0].domain).toBeUndefined();
       expect(results[1].domain).toBe("valid.com");
     });
+
+    it("keeps rank, snippet, dimensions and timestamp when present", () => {
+      const response = {
+        tasks: [
+          {
+            result: [
+              {
+                items: [
+                  {
+                    url: "https://example.com/post",
+                    rank_absolute: 3,
+                    position: "left",
+                    description: "  Photo of the bay  ",
+                    image_width: 1200,
+                    image_height: 800,
+                    timestamp: "2019-11-15 12:57:46 +00:00",
+                  },
+                  { url: "https://example.com/other", position: "right" },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+
+      const [first, second] = extractSearchResults(response);
+      expect(first).toMatchObject({
+        position: 3,
+        snippet: "Photo of the bay",
+        imageWidth: 1200,
+        imageHeight: 800,
+        timestamp: "2019-11-15T12:57:46.000Z",
+      });
+      expect(second).toEqual({
+        title: "example.com",
+        pageUrl: "https://example.com/other",
+        imageUrl: undefined,
+        domain: "example.com",
+        matchType: "similar",
+      });
+    });
+
+    it("derives the match type from the SERP section", () => {
+      const response = {
+        tasks: [
+          {
+            result: [
+              {
+                items: [
+                  {
+                    type: "exact_matches",
+                    items: [{ url: "https://example.com/exact" }],
+                  },
+                  {
+                    type: "pages_with_matching_images",
+                    items: [{ url: "https://example.com/page" }],
+                  },
+                  {
+                    type: "images",
+                    items: [{ url: "https://example.com/similar" }],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+
+      expect(
+        extractSearchResults(response).map((result) => result.matchType),
+      ).toEqual(["exact", "page", "similar"]);
+
+      const organic = extractSearchResults({
+        tasks: [
+          {
+            result: [
+              {
+                items: [{ type: "organic", url: "https://example.com/a" }],
+              },
+            ],
+          },
+        ],
+      });
+      expect(organic[0].matchType).toBe("page");
+    });
   });
 
   describe("parseImageSearchInput", () => {
@@ -298,7 +395,6 @@ describe("dataforseo parsing", () => {
 
       const result = await parseImageSearchInput(request);
       expect(result.imageUrl).toBe("https://example.com/image.jpg");
-      expect(result.imageHash).toBe("a".repeat(64));
       expect(result.turnstileToken).toBe("token123");
     });
 
@@ -312,11 +408,10 @@ describe("dataforseo parsing", () => {
 
       const result = await parseImageSearchInput(request);
       expect(result.imageUrl).toBe("https://example.com/image.jpg");
-      expect(result.imageHash).toBeUndefined();
       expect(result.turnstileToken).toBeUndefined();
     });
 
-    it("normalizes imageHash to lowercase", async () => {
+    it("drops the client's imageHash, which the server never trusts", async () => {
       const request = new Request("https://example.com", {
         method: "POST",
         body: JSON.stringify({
@@ -326,13 +421,56 @@ describe("dataforseo parsing", () => {
       });
 
       const result = await parseImageSearchInput(request);
-      expect(result.imageHash).toBe("a".repeat(64));
+      expect(result).not.toHaveProperty("imageHash");
     });
 
-    it("throws ValidationError for missing imageUrl", async () => {
+    it("normalizes provider to lowercase", async () => {
       const request = new Request("https://example.com", {
         method: "POST",
-        body: JSON.stringify({}),
+        body: JSON.stringify({
+          imageUrl: "https://example.com/image.jpg",
+          provider: "DataForSEO",
+        }),
+      });
+
+      const result = await parseImageSearchInput(request);
+      expect(result.provider).toBe("dataforseo");
+    });
+
+    it("accepts the async flag", async () => {
+      const request = new Request("https://example.com", {
+        method: "POST",
+        body: JSON.stringify({
+          imageUrl: "https://example.com/image.jpg",
+          async: true,
+        }),
+      });
+
+      const result = await parseImageSearchInput(request);
+      expect(result.async).toBe(true);
+    });
+
+    it("rejects callback URLs pointing at private hosts", async () => {
+      const request = new Request("https://example.com", {
+        method: "POST",
+        body: JSON.stringify({
+          imageUrl: "https://example.com/image.jpg",
+          callbackUrl: "https://192.168.1.10/hook",
+        }),
+      });
+
+      await expect(parseImageSearchInput(request)).rejects.toMatchObject({
+        field: "callbackUrl",
+      });
+    });
+
+    it("throws ValidationError for malformed provider", async () => {
+      const request = new Request("https://example.com", {
+        method: "POST",
+        body: JSON.stringify({
+          imageUrl: "https://example.com/image.jpg",
+          provider: "../etc",
+        }),
       });
 
       await expect(parseImageSearchInput(request)).rejects.toThrow(
@@ -340,12 +478,10 @@ describe("dataforseo parsing", () => {
       );
     });
 
-    it("throws ValidationError for invalid imageUrl", async () => {
+    it("throws ValidationError for missing imageUrl", async () => {
       const request = new Request("https://example.com", {
         method: "POST",
-        body: JSON.stringify({
-          imageUrl: "not-a-url",
-        }),
+        body: JSON.stringify({}),
       });
 
       await expect(parseImageSearchInput(request)).rejects.toThrow(
@@ -353,12 +489,11 @@ describe("dataforseo parsing", () => {
       );
     });
 
-    it("throws ValidationError for invalid imageHash format", async () => {
+    it("throws ValidationError for invalid imageUrl", async () => {
       const request = new Request("https://example.com", {
         method: "POST",
         body: JSON.stringify({
-          imageUrl: "https://example.com/image.jpg",
-          imageHash: "not-a-hash",
+          imageUrl: "not-a-url",
         }),
       });
 
@@ -391,6 +526,50 @@ describe("dataforseo parsing", () => {
       );
     });
   });
+
+  describe("parseCacheLookupInput", () => {
+    const jsonRequest = (body: unknown) =>
+      new Request("https://example.com", {
+        method: "POST",
+        body: typeof body === "string" ? body : JSON.stringify(body),
+      });
+
+    it("parses hash-only lookups and ignores client perceptual hashes", async () => {
+      const result = await parseCacheLookupInput(
+        jsonRequest({
+          cacheOnly: true,
+          imageHash: "A".repeat(64),
+          perceptualHash: "3C3E0E1A3A1C1E3C",
+        }),
+      );
+
+      expect(result).toEqual({
+        cacheOnly: true,
+        imageHash: "a".repeat(64),
+        provider: undefined,
+        providers: undefined,
+      });
+    });
+
+    it("leaves the body readable for regular searches", async () => {
+      const request = jsonRequest({ imageUrl: "https://example.com/image.jpg" });
+
+      expect(await parseCacheLookupInput(request)).toBeNull();
+      expect((await parseImageSearchInput(request)).imageUrl).toBe(
+        "https://example.com/image.jpg",
+      );
+    });
+
+    it("ignores malformed JSON", async () => {
+      expect(await parseCacheLookupInput(jsonRequest("invalid json"))).toBeNull();
+    });
+
+    it("requires an image hash", async () => {
+      await expect(
+        parseCacheLookupInput(jsonRequest({ cacheOnly: true })),
+      ).rejects.toThrow(ValidationError);
+    });
+  });
 });
 
 describe("DataForSEO API calls", () => {
@@ -399,6 +578,9 @@ describe("DataForSEO API calls", () => {
   beforeEach(() => {
     env = createMockEnv();
     restoreFetch();
+    Object.values(dataForSEOCircuitBreakers).forEach((breaker) =>
+      breaker.reset(),
+    );
   });
 
   describe("postSearchByImageTask", () => {
@@ -432,6 +614,31 @@ describe("DataForSEO API calls", () => {
       ).rejects.toThrow(DataForSEOError);
     });
 
+    it("uses the engine-specific endpoint", async () => {
+      const bingEnv = {
+        ...env,
+        DFS_ENDPOINT_BING_POST: "https://test.api.dataforseo.com/bing/task_post",
+      };
+      mockFetch({ tasks: [{ id: "task123" }] });
+
+      await postSearchByImageTask(
+        bingEnv,
+        "https://example.com/image.jpg",
+        "bing",
+      );
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        "https://test.api.dataforseo.com/bing/task_post",
+        expect.objectContaining({ method: "POST" }),
+      );
+    });
+
+    it("names the missing engine endpoint in the error", async () => {
+      await expect(
+        postSearchByImageTask(env, "https://example.com/image.jpg", "yandex"),
+      ).rejects.toThrow("Missing DFS_ENDPOINT_YANDEX_POST");
+    });
+
     it("retries on 500 errors", async () => {
       let attempts = 0;
       global.fetch = vi.fn().mockImplementation(async () => {
@@ -573,6 +780,97 @@ describe("DataForSEO API calls", () => {
     });
   });
 
+  describe("circuit breaker", () => {
+    it("fails fast with a 503 once the shared circuit is open", async () => {
+      await env.KV_RATE_LIMIT!.put(
+        DATAFORSEO_CIRCUIT_KEY,
+        JSON.stringify({
+          state: "open",
+          failureCount: 5,
+          lastFailureTime: Date.now(),
+          updatedAt: Date.now(),
+        }),
+      );
+      const fetchSpy = vi.fn();
+      global.fetch = fetchSpy;
+
+      const error = await postSearchByImageTask(
+        env,
+        "https://example.com/image.jpg",
+      ).catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(CircuitBreakerOpenError);
+      expect((error as CircuitBreakerOpenError).statusCode).toBe(503);
+      expect((error as CircuitBreakerOpenError).retryAfterSeconds).toBeGreaterThan(0);
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it("keeps a separate circuit per engine", async () => {
+      await env.KV_RATE_LIMIT!.put(
+        DATAFORSEO_CIRCUIT_KEY,
+        JSON.stringify({
+          state: "open",
+          failureCount: 5,
+          lastFailureTime: Date.now(),
+          updatedAt: Date.now(),
+        }),
+      );
+      const bingEnv = {
+        ...env,
+        DFS_ENDPOINT_BING_POST: "https://test.api.dataforseo.com/bing/task_post",
+      };
+      mockFetch({ tasks: [{ id: "task123" }] });
+
+      await expect(
+        postSearchByImageTask(bingEnv, "https://example.com/image.jpg", "bing"),
+      ).resolves.toMatchObject({ tasks: [{ id: "task123" }] });
+      await expect(
+        postSearchByImageTask(bingEnv, "https://example.com/image.jpg"),
+      ).rejects.toThrow(CircuitBreakerOpenError);
+      expect(getDataForSEOCircuitKey("bing")).not.toBe(DATAFORSEO_CIRCUIT_KEY);
+    });
+
+    it("does not count client errors against the circuit", async () => {
+      global.fetch = vi
+        .fn()
+        .mockImplementation(() =>
+          Promise.resolve(new Response("Bad Request", { status: 400 })),
+        );
+
+      for (let i = 0; i < 6; i++) {
+        await expect(
+          postSearchByImageTask(env, "https://example.com/image.jpg"),
+        ).rejects.toThrow(DataForSEOError);
+      }
+
+      expect(dataForSEOCircuitBreaker.getMetrics().state).toBe("closed");
+    });
+
+    it("persists failures to KV for other isolates", async () => {
+      global.fetch = vi
+        .fn()
+        .mockImplementation(() =>
+          Promise.resolve(new Response("Server Error", { status: 500 })),
+        );
+      vi.stubGlobal("setTimeout", (fn: () => void) => {
+        return fn() as unknown as NodeJS.Timeout;
+      });
+
+      try {
+        await expect(
+          getSearchByImageTask(env, "task123"),
+        ).rejects.toThrow(DataForSEOError);
+      } finally {
+        vi.unstubAllGlobals();
+      }
+
+      const stored = await env.KV_RATE_LIMIT!.get(DATAFORSEO_CIRCUIT_KEY, {
+        type: "json",
+      });
+      expect(stored).toMatchObject({ state: "closed", failureCount: 1 });
+    });
+  });
+
   describe("getSearchByImageTask", () => {
     it("retrieves task results", async () => {
       const mockResponse = {
@@ -636,6 +934,145 @@ describe("DataForSEO API calls", () => {
     });
   });
 
+  describe("createSearchByImageTask", () => {
+    it("returns the created task ID", async () => {
+      mockFetch({ tasks: [{ id: "task123", status_code: 20100 }] });
+
+      const task = await createSearchByImageTask(
+        env,
+        "https://example.com/image.jpg",
+      );
+
+      expect(task.taskId).toBe("task123");
+    });
+
+    it("throws with the status message when no task ID is returned", async () => {
+      mockFetch({ tasks: [{ status_message: "Invalid Field" }] });
+
+      await expect(
+        createSearchByImageTask(env, "https://example.com/image.jpg"),
+      ).rejects.toThrow("Invalid Field");
+    });
+  });
+
+  describe("createSearchByImageTasks", () => {
+    it("tags each task and matches responses by tag", async () => {
+      const fetchSpy = vi.fn().mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            tasks: [
+              { id: "task-b", status_code: 20100, data: { tag: "1" } },
+              { id: "task-a", status_code: 20100, data: { tag: "0" } },
+            ],
+          }),
+        ),
+      );
+      global.fetch = fetchSpy;
+
+      const outcomes = await createSearchByImageTasks(env, [
+        "https://example.com/a.jpg",
+        "https://example.com/b.jpg",
+      ]);
+
+      const body = JSON.parse(
+        (fetchSpy.mock.calls[0] as [string, RequestInit])[1].body as string,
+      );
+      expect(body.map((task: { tag: string }) => task.tag)).toEqual(["0", "1"]);
+      expect(outcomes).toEqual([
+        { status: "fulfilled", value: { taskId: "task-a", checkUrl: undefined } },
+        { status: "fulfilled", value: { taskId: "task-b", checkUrl: undefined } },
+      ]);
+    });
+
+    it("rejects only the tasks DataForSEO refused", async () => {
+      mockFetch({
+        tasks: [
+          { id: "task-a", status_code: 20100, data: { tag: "0" } },
+          {
+            id: "task-b",
+            status_code: 40501,
+            status_message: "Invalid Field",
+            data: { tag: "1" },
+          },
+        ],
+      });
+
+      const outcomes = await createSearchByImageTasks(env, [
+        "https://example.com/a.jpg",
+        "https://example.com/b.jpg",
+      ]);
+
+      expect(outcomes[0].status).toBe("fulfilled");
+      expect(outcomes[1]).toMatchObject({
+        status: "rejected",
+        reason: expect.objectContaining({ message: "Invalid Field" }),
+      });
+    });
+
+    it("splits large batches into chunks of the API limit", async () => {
+      const fetchSpy = vi.fn().mockImplementation(
+        async () => new Response(JSON.stringify({ tasks: [] })),
+      );
+      global.fetch = fetchSpy;
+
+      const urls = Array.from(
+        { length: MAX_TASKS_PER_POST + 1 },
+        (_, i) => `https://example.com/${i}.jpg`,
+      );
+      const outcomes = await createSearchByImageTasks(env, urls);
+
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+      expect(outcomes).toHaveLength(urls.length);
+      expect(outcomes.every((outcome) => outcome.status === "rejected")).toBe(
+        true,
+      );
+    });
+  });
+
+  describe("fetchSearchByImageTask", () => {
+    it("normalizes a completed task", async () => {
+      mockFetch({
+        tasks: [
+          {
+            id: "task123",
+            result: [
+              {
+                check_url: "https://google.com/search",
+                items: [{ title: "Result", url: "https://example.com/page" }],
+              },
+            ],
+          },
+        ],
+      });
+
+      const resolution = await fetchSearchByImageTask(env, "task123");
+
+      expect(resolution).toEqual({
+        taskId: "task123",
+        status: "ready",
+        checkUrl: "https://google.com/search",
+        results: [
+          {
+            title: "Result",
+            pageUrl: "https://example.com/page",
+            imageUrl: undefined,
+            domain: "example.com",
+            matchType: "similar",
+          },
+        ],
+      });
+    });
+
+    it("reports pending when the task has no items yet", async () => {
+      mockFetch({ tasks: [{ id: "task123", result: [{ items: [] }] }] });
+
+      const resolution = await fetchSearchByImageTask(env, "task123");
+
+      expect(resolution.status).toBe("pending");
+      expect(resolution.results).toEqual([]);
+    });
+  });
+
   describe("pollSearchResults", () => {
     it("returns results when found on first attempt", async () => {
       const mockData = {
@@ -1,35 +1,123 @@
 import { z } from "zod";
 import type { AppEnv } from "@/lib/cf-env";
-import { validatePublicImageUrl } from "@/lib/url-validation";
+import {
+  dataForSEOCircuitBreakers,
+  getDataForSEOCircuitStore,
+} from "@/lib/circuit-breaker";
+import {
+  validatePublicCallbackUrl,
+  validatePublicImageUrl,
+} from "@/lib/url-validation";
 import {
   DataForSEOError,
   NetworkError,
   ValidationError,
   isAppError,
 } from "@/lib/errors";
+import type {
+  MatchType,
+  SearchProvider,
+  SearchResolution,
+  SearchResult,
+  SearchTask,
+} from "@/lib/search-provider";
 
-export type SearchResult = {
-  title: string;
-  pageUrl: string;
-  imageUrl?: string;
-  domain?: string;
-};
+export type { SearchResult } from "@/lib/search-provider";
+
+export const ProviderIdSchema = z.string().regex(/^[a-z0-9_-]{1,32}$/i);
+
+/** Maximum number of providers a single fan-out search may query */
+export const MAX_FANOUT_PROVIDERS = 5;
 
 const ImageSearchSchema = z.object({
   imageUrl: z.string().url().max(2048),
-  imageHash: z
-    .string()
-    .regex(/^[a-f0-9]{64}$/i)
-    .optional(),
   turnstileToken: z.string().min(1).optional(),
+  provider: ProviderIdSchema.optional(),
+  providers: z
+    .array(ProviderIdSchema)
+    .min(1)
+    .max(MAX_FANOUT_PROVIDERS)
+    .optional(),
+  /** Only create the task and return its ID without waiting for results */
+  async: z.boolean().optional(),
+  /** HTTPS URL notified with a signed payload when the search settles */
+  callbackUrl: z.string().url().max(2048).optional(),
 });
 
 export type ImageSearchInput = z.infer<typeof ImageSearchSchema>;
 
+/**
+ * Cache-only lookup: answers from cached results for an image hash without
+ * an image URL, so clients can skip uploading images that were searched
+ * before. Never reaches a search provider.
+ */
+const CacheLookupSchema = z.object({
+  cacheOnly: z.literal(true),
+  imageHash: z.string().regex(/^[a-f0-9]{64}$/i),
+  provider: ProviderIdSchema.optional(),
+  providers: z
+    .array(ProviderIdSchema)
+    .min(1)
+    .max(MAX_FANOUT_PROVIDERS)
+    .optional(),
+});
+
+export type CacheLookupInput = z.infer<typeof CacheLookupSchema>;
+
+/**
+ * DataForSEO search engines that support search-by-image tasks.
+ * Each engine is configured by its own DFS_ENDPOINT_* pair.
+ */
+export type DataForSEOEngine = "google" | "bing" | "yandex";
+
+type DataForSEOEndpoints = {
+  post?: string;
+  get?: string;
+  postVar: string;
+  getVar: string;
+};
+
+/**
+ * Resolves the task_post/task_get endpoints configured for an engine.
+ * Google keeps the original DFS_ENDPOINT_POST / DFS_ENDPOINT_GET names.
+ */
+const resolveEndpoints = (
+  env: AppEnv,
+  engine: DataForSEOEngine,
+): DataForSEOEndpoints => {
+  switch (engine) {
+    case "bing":
+      return {
+        post: env.DFS_ENDPOINT_BING_POST,
+        get: env.DFS_ENDPOINT_BING_GET,
+        postVar: "DFS_ENDPOINT_BING_POST",
+        getVar: "DFS_ENDPOINT_BING_GET",
+      };
+    case "yandex":
+      return {
+        post: env.DFS_ENDPOINT_YANDEX_POST,
+        get: env.DFS_ENDPOINT_YANDEX_GET,
+        postVar: "DFS_ENDPOINT_YANDEX_POST",
+        getVar: "DFS_ENDPOINT_YANDEX_GET",
+      };
+    default:
+      return {
+        post: env.DFS_ENDPOINT_POST,
+        get: env.DFS_ENDPOINT_GET,
+        postVar: "DFS_ENDPOINT_POST",
+        getVar: "DFS_ENDPOINT_GET",
+      };
+  }
+};
+
 const DEFAULT_LANGUAGE_CODE = "en";
 const DEFAULT_LOCATION_CODE = 2840;
 
 const REQUEST_TIMEOUT_MS = 30000; // 30 seconds
+/** Maximum tasks DataForSEO accepts in one task_post call */
+export const MAX_TASKS_PER_POST = 100;
+/** DataForSEO status code for a successfully created task */
+const TASK_CREATED_STATUS = 20100;
 const MAX_RETRIES = 3;
 const BASE_RETRY_DELAY_MS = 1000; // Start with 1 second
 
@@ -104,6 +192,9 @@ type DataForSeoTask = {
   id?: string;
   status_code?: number;
   status_message?: string;
+  data?: {
+    tag?: string;
+  };
   result?: Array<{
     check_url?: string;
     items?: unknown[];
@@ -116,7 +207,20 @@ type DataForSeoResponse = {
   tasks?: DataForSeoTask[];
 };
 
-const extractRawItems = (data: DataForSeoResponse): unknown[] => {
+/**
+ * A result item with the `type` of the SERP section it was listed under
+ */
+type RawItem = {
+  item: unknown;
+  section?: string;
+};
+
+const itemType = (item: unknown): string | undefined =>
+  item && typeof item === "object" && "type" in item
+    ? String((item as { type?: unknown }).type ?? "") || undefined
+    : undefined;
+
+const extractRawItems = (data: DataForSeoResponse): RawItem[] => {
   const task = data.tasks?.[0];
   const result = task?.result?.[0];
   const items = result?.items ?? [];
@@ -132,13 +236,18 @@ const extractRawItems = (data: DataForSeoResponse): unknown[] => {
         typeof item === "object" &&
         Array.isArray((item as { items?: unknown[] }).items),
     )
-    .flatMap((item) => (item as { items?: unknown[] }).items ?? []);
+    .flatMap((group) =>
+      ((group as { items?: unknown[] }).items ?? []).map((item) => ({
+        item,
+        section: itemType(group),
+      })),
+    );
 
   if (nested.length > 0) {
     return nested;
   }
 
-  return items;
+  return items.map((item) => ({ item, section: itemType(item) }));
 };
 
 const safeHostname = (url: string | undefined) => {
@@ -150,8 +259,55 @@ const safeHostname = (url: string | undefined) => {
   }
 };
 
+/** Longest snippet kept per result */
+const MAX_SNIPPET_LENGTH = 500;
+
+const positiveInteger = (...values: unknown[]): number | undefined => {
+  for (const value of values) {
+    const number = typeof value === "string" ? Number(value) : value;
+    if (typeof number === "number" && Number.isInteger(number) && number > 0) {
+      return number;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Converts DataForSEO timestamps ("2019-11-15 12:57:46 +00:00") and ISO
+ * dates to ISO 8601 UTC.
+ */
+const normalizeTimestamp = (value: unknown): string | undefined => {
+  if (typeof value !== "string" || !value.trim()) return undefined;
+  const iso = value
+    .trim()
+    .replace(
+      /^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ?([+-]\d{2}:?\d{2})$/,
+      "$1T$2$3",
+    );
+  const time = Date.parse(iso);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+};
+
+/**
+ * Maps the first recognized SERP section or item type to a match type.
+ * Page sections ("pages_with_matching_images") are checked before generic
+ * image sections.
+ */
+const matchTypeForSection = (
+  ...types: Array<string | undefined>
+): MatchType | undefined => {
+  for (const type of types) {
+    if (!type) continue;
+    if (/exact|full_match/i.test(type)) return "exact";
+    if (/organic|page/i.test(type)) return "page";
+    if (/similar|image/i.test(type)) return "similar";
+  }
+  return undefined;
+};
+
 const normalizeResult = (
   item: Record<string, unknown>,
+  section?: string,
 ): SearchResult | null => {
   const pageUrl =
     (typeof item.url === "string" && item.url) ||
@@ -175,11 +331,34 @@ const normalizeResult = (
     (typeof item.thumbnail === "string" && item.thumbnail) ||
     undefined;
 
+  const snippet =
+    (typeof item.description === "string" && item.description.trim()) ||
+    (typeof item.snippet === "string" && item.snippet.trim()) ||
+    (typeof item.subtitle === "string" && item.subtitle.trim()) ||
+    undefined;
+  // `position` is a layout hint ("left"/"right") on SERP items, not a rank
+  const position = positiveInteger(
+    item.rank_absolute,
+    item.rank_group,
+    item.position,
+  );
+  const imageWidth = positiveInteger(item.image_width, item.width);
+  const imageHeight = positiveInteger(item.image_height, item.height);
+  const timestamp = normalizeTimestamp(item.timestamp ?? item.date);
+  // Results from unrecognized sections are treated as visually similar
+  const matchType =
+    matchTypeForSection(section, itemType(item)) ?? "similar";
+
   return {
     title,
     pageUrl,
     imageUrl,
     domain: safeHostname(pageUrl),
+    ...(position && { position }),
+    ...(snippet && { snippet: snippet.slice(0, MAX_SNIPPET_LENGTH) }),
+    ...(imageWidth && imageHeight && { imageWidth, imageHeight }),
+    ...(timestamp && { timestamp }),
+    matchType,
   };
 };
 
@@ -190,9 +369,12 @@ export const extractSearchResults = (
   const seen = new Set<string>();
   const results: SearchResult[] = [];
 
-  for (const raw of rawItems) {
-    if (!raw || typeof raw !== "object") continue;
-    const normalized = normalizeResult(raw as Record<string, unknown>);
+  for (const { item, section } of rawItems) {
+    if (!item || typeof item !== "object") continue;
+    const normalized = normalizeResult(
+      item as Record<string, unknown>,
+      section,
+    );
     if (!normalized) continue;
     if (seen.has(normalized.pageUrl)) continue;
     seen.add(normalized.pageUrl);
@@ -206,6 +388,32 @@ export const extractCheckUrl = (data: DataForSeoResponse) => {
   return data.tasks?.[0]?.result?.[0]?.check_url;
 };
 
+const toSearchInputError = (error: unknown): Error => {
+  if (error instanceof z.ZodError) {
+    const field = error.errors[0]?.path[0] as string | undefined;
+    return new ValidationError(
+      `Invalid input: ${error.errors[0]?.message ?? "validation failed"}`,
+      field,
+      undefined,
+      { zodErrors: error.errors },
+    );
+  }
+  if (isAppError(error)) {
+    return error;
+  }
+  return new ValidationError(
+    "Failed to parse search input",
+    undefined,
+    undefined,
+    { originalError: error instanceof Error ? error.message : String(error) },
+  );
+};
+
+const normalizeProviders = (providers: string[] | undefined) =>
+  providers
+    ? Array.from(new Set(providers.map((id) => id.toLowerCase())))
+    : undefined;
+
 export const parseImageSearchInput = async (
   request: Request,
 ): Promise<ImageSearchInput> => {
@@ -213,31 +421,66 @@ export const parseImageSearchInput = async (
     const payload = await request.json();
     const parsed = ImageSearchSchema.parse(payload);
     const validatedUrl = validatePublicImageUrl(parsed.imageUrl);
+    let callbackUrl: string | undefined;
+    if (parsed.callbackUrl) {
+      try {
+        callbackUrl = validatePublicCallbackUrl(parsed.callbackUrl);
+      } catch (error) {
+        throw new ValidationError(
+          error instanceof Error ? error.message : "Invalid callback URL.",
+          "callbackUrl",
+        );
+      }
+    }
 
     return {
       ...parsed,
       imageUrl: validatedUrl,
-      imageHash: parsed.imageHash?.toLowerCase(),
+      provider: parsed.provider?.toLowerCase(),
+      providers: normalizeProviders(parsed.providers),
+      callbackUrl,
     };
   } catch (error) {
-    if (error instanceof z.ZodError) {
-      const field = error.errors[0]?.path[0] as string | undefined;
-      throw new ValidationError(
-        `Invalid input: ${error.errors[0]?.message ?? "validation failed"}`,
-        field,
-        undefined,
-        { zodErrors: error.errors },
-      );
-    }
-    if (isAppError(error)) {
-      throw error;
-    }
-    throw new ValidationError(
-      "Failed to parse search input",
-      undefined,
-      undefined,
-      { originalError: error instanceof Error ? error.message : String(error) },
-    );
+    throw toSearchInputError(error);
+  }
+};
+
+/**
+ * Parses a cache-only lookup (`"cacheOnly": true`) from a search request.
+ * The body is read from a clone, so the request can still be parsed with
+ * `parseImageSearchInput` when it is a regular search.
+ *
+ * @returns The lookup, or null when the request is not a lookup
+ * @throws ValidationError when a lookup payload is invalid
+ */
+export const parseCacheLookupInput = async (
+  request: Request,
+): Promise<CacheLookupInput | null> => {
+  let payload: unknown;
+  try {
+    payload = await request.clone().json();
+  } catch {
+    // Malformed bodies are reported by parseImageSearchInput
+    return null;
+  }
+  if (
+    !payload ||
+    typeof payload !== "object" ||
+    (payload as { cacheOnly?: unknown }).cacheOnly !== true
+  ) {
+    return null;
+  }
+
+  try {
+    const parsed = CacheLookupSchema.parse(payload);
+    return {
+      ...parsed,
+      imageHash: parsed.imageHash.toLowerCase(),
+      provider: parsed.provider?.toLowerCase(),
+      providers: normalizeProviders(parsed.providers),
+    };
+  } catch (error) {
+    throw toSearchInputError(error);
   }
 };
 
@@ -273,39 +516,28 @@ const fetchWithTimeout = async (
 };
 
 /**
- * POST request to create a new search task with retry logic
+ * Sends a DataForSEO request with retry logic
  * Retries on transient failures with exponential backoff
  */
-export const postSearchByImageTask = async (
+const requestWithRetry = async (
   env: AppEnv,
-  imageUrl: string,
+  url: string,
+  init: RequestInit,
+  operation: "task_post" | "task_get",
+  errorContext: Record<string, unknown>,
 ): Promise<DataForSeoResponse> => {
-  const endpoint = env.DFS_ENDPOINT_POST;
-  if (!endpoint) {
-    throw new DataForSEOError("Missing DFS_ENDPOINT_POST", "missing_endpoint");
-  }
-
-  const requestBody = [
-    {
-      image_url: imageUrl,
-      location_code: DEFAULT_LOCATION_CODE,
-      language_code: DEFAULT_LANGUAGE_CODE,
-    },
-  ];
-
   let lastError: Error | null = null;
 
   for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
     try {
       const response = await fetchWithTimeout(
-        endpoint,
+        url,
         {
-          method: "POST",
+          ...init,
           headers: {
             Authorization: buildAuthHeader(env),
             "Content-Type": "application/json",
           },
-          body: JSON.stringify(requestBody),
         },
         REQUEST_TIMEOUT_MS,
       );
@@ -317,19 +549,19 @@ export const postSearchByImageTask = async (
         // Don't retry on client errors (4xx) except 429 (rate limit)
         if (statusCode >= 400 && statusCode < 500 && statusCode !== 429) {
           throw new DataForSEOError(
-            `DataForSEO task_post failed: ${errorText}`,
+            `DataForSEO ${operation} failed: ${errorText}`,
             "http_error",
             statusCode,
-            sanitizeErrorContext({ imageUrl, attempt }),
+            sanitizeErrorContext({ ...errorContext, attempt }),
           );
         }
 
         // Retry on server errors (5xx) and rate limit (429)
         lastError = new DataForSEOError(
-          `DataForSEO task_post failed: ${errorText}`,
+          `DataForSEO ${operation} failed: ${errorText}`,
           "http_error",
           statusCode,
-          sanitizeErrorContext({ imageUrl, attempt }),
+          sanitizeErrorContext({ ...errorContext, attempt }),
         );
 
         if (attempt < MAX_RETRIES - 1) {
@@ -371,93 +603,115 @@ export const postSearchByImageTask = async (
 };
 
 /**
- * GET request to retrieve search task results with retry logic
- * Retries on transient failures with exponential backoff
+ * Runs a DataForSEO request through the engine's circuit breaker.
+ * Breaker state is persisted in KV (when bound) so all isolates see it.
  */
-export const getSearchByImageTask = async (
+const withCircuitBreaker = <T>(
   env: AppEnv,
-  taskId: string,
+  engine: DataForSEOEngine,
+  operation: string,
+  fn: () => Promise<T>,
+): Promise<T> =>
+  dataForSEOCircuitBreakers[engine].execute(
+    fn,
+    `DataForSEO ${engine} ${operation}`,
+    getDataForSEOCircuitStore(env.KV_RATE_LIMIT, engine),
+  );
+
+/**
+ * POST request to create a new search task with retry logic
+ * Fails fast with CircuitBreakerOpenError while DataForSEO is unhealthy
+ */
+export const postSearchByImageTask = async (
+  env: AppEnv,
+  imageUrl: string,
+  engine: DataForSEOEngine = "google",
 ): Promise<DataForSeoResponse> => {
-  const base = env.DFS_ENDPOINT_GET;
-  if (!base) {
-    throw new DataForSEOError("Missing DFS_ENDPOINT_GET", "missing_endpoint");
+  const { post: endpoint, postVar } = resolveEndpoints(env, engine);
+  if (!endpoint) {
+    throw new DataForSEOError(`Missing ${postVar}`, "missing_endpoint");
   }
 
-  const url = `${base}/${taskId}`;
-  let lastError: Error | null = null;
-
-  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-    try {
-      const response = await fetchWithTimeout(
-        url,
-        {
-          method: "GET",
-          headers: {
-            Authorization: buildAuthHeader(env),
-            "Content-Type": "application/json",
-          },
-        },
-        REQUEST_TIMEOUT_MS,
-      );
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        const statusCode = response.status;
-
-        // Don't retry on client errors (4xx) except 429 (rate limit)
-        if (statusCode >= 400 && statusCode < 500 && statusCode !== 429) {
-          throw new DataForSEOError(
-            `DataForSEO task_get failed: ${errorText}`,
-            "http_error",
-            statusCode,
-            sanitizeErrorContext({ taskId, attempt }),
-          );
-        }
-
-        // Retry on server errors (5xx) and rate limit (429)
-        lastError = new DataForSEOError(
-          `DataForSEO task_get failed: ${errorText}`,
-          "http_error",
-          statusCode,
-          sanitizeErrorContext({ taskId, attempt }),
-        );
-
-        if (attempt < MAX_RETRIES - 1) {
-          const retryDelay = calculateRetryDelay(attempt);
-          await delay(retryDelay);
-          continue;
-        }
-
-        throw lastError;
-      }
+  const requestBody = [
+    {
+      image_url: imageUrl,
+      location_code: DEFAULT_LOCATION_CODE,
+      language_code: DEFAULT_LANGUAGE_CODE,
+    },
+  ];
 
-      return (await response.json()) as DataForSeoResponse;
-    } catch (error) {
-      if (isAppError(error)) {
-        // Don't retry validation errors, auth errors, or client errors (4xx except 429)
-        if (
-          error instanceof ValidationError ||
-          DataForSEOError.isAuthError(error) ||
-          DataForSEOError.isClientError(error)
-        ) {
-          throw error;
-        }
-      }
+  return withCircuitBreaker(env, engine, "task_post", () =>
+    requestWithRetry(
+      env,
+      endpoint,
+      { method: "POST", body: JSON.stringify(requestBody) },
+      "task_post",
+      { imageUrl },
+    ),
+  );
+};
 
-      lastError = error instanceof Error ? error : new Error(String(error));
+/**
+ * POST request creating several search tasks in one call
+ * Each task is tagged with its index so responses can be matched back
+ */
+export const postSearchByImageTasks = async (
+  env: AppEnv,
+  imageUrls: string[],
+  engine: DataForSEOEngine = "google",
+): Promise<DataForSeoResponse> => {
+  const { post: endpoint, postVar } = resolveEndpoints(env, engine);
+  if (!endpoint) {
+    throw new DataForSEOError(`Missing ${postVar}`, "missing_endpoint");
+  }
+  if (imageUrls.length > MAX_TASKS_PER_POST) {
+    throw new ValidationError(
+      `At most ${MAX_TASKS_PER_POST} tasks can be posted at once`,
+      "imageUrls",
+    );
+  }
 
-      // Retry on network errors or timeouts
-      if (attempt < MAX_RETRIES - 1) {
-        const retryDelay = calculateRetryDelay(attempt);
-        await delay(retryDelay);
-        continue;
-      }
+  const requestBody = imageUrls.map((imageUrl, index) => ({
+    image_url: imageUrl,
+    location_code: DEFAULT_LOCATION_CODE,
+    language_code: DEFAULT_LANGUAGE_CODE,
+    tag: String(index),
+  }));
+
+  return withCircuitBreaker(env, engine, "task_post", () =>
+    requestWithRetry(
+      env,
+      endpoint,
+      { method: "POST", body: JSON.stringify(requestBody) },
+      "task_post",
+      { taskCount: imageUrls.length },
+    ),
+  );
+};
 
-      throw lastError;
-    }
+/**
+ * GET request to retrieve search task results with retry logic
+ * Fails fast with CircuitBreakerOpenError while DataForSEO is unhealthy
+ */
+export const getSearchByImageTask = async (
+  env: AppEnv,
+  taskId: string,
+  engine: DataForSEOEngine = "google",
+): Promise<DataForSeoResponse> => {
+  const { get: base, getVar } = resolveEndpoints(env, engine);
+  if (!base) {
+    throw new DataForSEOError(`Missing ${getVar}`, "missing_endpoint");
   }
 
-  throw lastError || new DataForSEOError("Max retries exceeded", "max_retries");
+  return withCircuitBreaker(env, engine, "task_get", () =>
+    requestWithRetry(
+      env,
+      `${base}/${taskId}`,
+      { method: "GET" },
+      "task_get",
+      { taskId },
+    ),
+  );
 };
 
 /**
@@ -468,7 +722,7 @@ export const getSearchByImageTask = async (
  *
  * @param env - Application environment with API credentials
  * @param taskId - The DataForSEO task ID to poll
- * @param options - Optional polling configuration overrides
+ * @param options - Optional polling configuration overrides and engine
  * @returns Object containing raw data and extracted results
  */
 export const pollSearchResults = async (
@@ -479,6 +733,7 @@ export const pollSearchResults = async (
     initialDelayMs?: number;
     maxDelayMs?: number;
     maxTotalTimeMs?: number;
+    engine?: DataForSEOEngine;
   },
 ) => {
   const {
@@ -486,6 +741,7 @@ export const pollSearchResults = async (
     initialDelayMs = POLLING_CONFIG.initialDelayMs,
     maxDelayMs = POLLING_CONFIG.maxDelayMs,
     maxTotalTimeMs = POLLING_CONFIG.maxTotalTimeMs,
+    engine = "google",
   } = options ?? {};
 
   const startTime = Date.now();
@@ -500,7 +756,7 @@ export const pollSearchResults = async (
 
     await delay(currentDelay);
 
-    const data = await getSearchByImageTask(env, taskId);
+    const data = await getSearchByImageTask(env, taskId, engine);
     const results = extractSearchResults(data);
 
     if (results.length > 0) {
@@ -517,8 +773,17 @@ export const pollSearchResults = async (
   return { data: null, results: [], attempts: maxAttempts };
 };
 
-export const resolveSearchResults = async (env: AppEnv, imageUrl: string) => {
-  const postData = await postSearchByImageTask(env, imageUrl);
+/**
+ * Submits a search task and returns its ID without waiting for results.
+ *
+ * @throws Error if DataForSEO does not return a task ID
+ */
+export const createSearchByImageTask = async (
+  env: AppEnv,
+  imageUrl: string,
+  engine: DataForSEOEngine = "google",
+): Promise<SearchTask> => {
+  const postData = await postSearchByImageTask(env, imageUrl, engine);
   const taskId = postData.tasks?.[0]?.id;
 
   if (!taskId) {
@@ -527,12 +792,132 @@ export const resolveSearchResults = async (env: AppEnv, imageUrl: string) => {
     );
   }
 
-  const { data: pollData, results } = await pollSearchResults(env, taskId);
+  return { taskId, checkUrl: extractCheckUrl(postData) };
+};
+
+/**
+ * Submits many search tasks using as few task_post calls as possible.
+ *
+ * A failed call rejects every image in its chunk; a task DataForSEO
+ * refuses only rejects that image.
+ *
+ * @returns One settled outcome per image, in input order
+ */
+export const createSearchByImageTasks = async (
+  env: AppEnv,
+  imageUrls: string[],
+  engine: DataForSEOEngine = "google",
+): Promise<PromiseSettledResult<SearchTask>[]> => {
+  const outcomes: PromiseSettledResult<SearchTask>[] = [];
+
+  for (let start = 0; start < imageUrls.length; start += MAX_TASKS_PER_POST) {
+    const chunk = imageUrls.slice(start, start + MAX_TASKS_PER_POST);
+
+    let tasks: DataForSeoTask[];
+    try {
+      tasks = (await postSearchByImageTasks(env, chunk, engine)).tasks ?? [];
+    } catch (reason) {
+      outcomes.push(
+        ...chunk.map(() => ({ status: "rejected" as const, reason })),
+      );
+      continue;
+    }
+
+    chunk.forEach((_, index) => {
+      const task =
+        tasks.find((entry) => entry.data?.tag === String(index)) ??
+        tasks[index];
+      outcomes.push(
+        task?.id &&
+        (task.status_code === undefined ||
+          task.status_code === TASK_CREATED_STATUS)
+          ? {
+              status: "fulfilled",
+              value: { taskId: task.id, checkUrl: task.result?.[0]?.check_url },
+            }
+          : {
+              status: "rejected",
+              reason: new DataForSEOError(
+                task?.status_message || "No task id returned",
+                "task_rejected",
+                undefined,
+                { statusCode: task?.status_code },
+              ),
+            },
+      );
+    });
+  }
+
+  return outcomes;
+};
+
+/**
+ * Fetches a task once and normalizes its current state.
+ */
+export const fetchSearchByImageTask = async (
+  env: AppEnv,
+  taskId: string,
+  engine: DataForSEOEngine = "google",
+): Promise<SearchResolution> => {
+  const data = await getSearchByImageTask(env, taskId, engine);
+  const results = extractSearchResults(data);
 
   return {
     taskId,
     results,
-    checkUrl: extractCheckUrl(pollData ?? postData),
+    checkUrl: extractCheckUrl(data),
     status: results.length > 0 ? "ready" : "pending",
   };
 };
+
+export const resolveSearchResults = async (
+  env: AppEnv,
+  imageUrl: string,
+  engine: DataForSEOEngine = "google",
+): Promise<SearchResolution> => {
+  const { taskId, checkUrl: postCheckUrl } = await createSearchByImageTask(
+    env,
+    imageUrl,
+    engine,
+  );
+
+  const { data: pollData, results } = await pollSearchResults(env, taskId, {
+    engine,
+  });
+
+  return {
+    taskId,
+    results,
+    checkUrl: pollData ? extractCheckUrl(pollData) : postCheckUrl,
+    status: results.length > 0 ? "ready" : "pending",
+  };
+};
+
+/**
+ * Builds a SearchProvider bound to one DataForSEO engine.
+ *
+ * Google keeps the plain "dataforseo" ID and the legacy cache key space;
+ * other engines are suffixed ("dataforseo-bing") and namespaced in cache.
+ */
+export const createDataForSEOProvider = (
+  engine: DataForSEOEngine,
+): SearchProvider => ({
+  id: engine === "google" ? "dataforseo" : `dataforseo-${engine}`,
+  cacheNamespace: engine === "google" ? undefined : engine,
+  createTask: (env, imageUrl) => createSearchByImageTask(env, imageUrl, engine),
+  createTasks: (env, imageUrls) =>
+    createSearchByImageTasks(env, imageUrls, engine),
+  fetchTask: (env, taskId) => fetchSearchByImageTask(env, taskId, engine),
+  resolve: (env, imageUrl) => resolveSearchResults(env, imageUrl, engine),
+});
+
+/**
+ * DataForSEO Google implementation of the SearchProvider contract
+ */
+export const dataForSEOProvider = createDataForSEOProvider("google");
+
+/** DataForSEO Bing search-by-image provider */
+export const dataForSEOBingProvider = createDataForSEOProvider("bing");
+
+/** DataForSEO Yandex search-by-image provider */
+export const dataForSEOYandexProvider = createDataForSEOProvider("yandex");
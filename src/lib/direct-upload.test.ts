@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildStagingKey,
+  DIRECT_UPLOAD_MAX_SIZE,
+  parseFinalizeInput,
+  parsePresignInput,
+  parseStagingKey,
+} from "./direct-upload";
+import { ValidationError } from "./errors";
+
+const HASH = "ab".repeat(32);
+
+const jsonRequest = (body: unknown) =>
+  new Request("https://example.com/api/upload/presign", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+describe("parsePresignInput", () => {
+  it("normalizes the hash and content type", async () => {
+    const input = await parsePresignInput(
+      jsonRequest({ sha256: HASH.toUpperCase(), type: "image/jpg", size: 1024 }),
+    );
+
+    expect(input).toEqual({ sha256: HASH, type: "image/jpeg", size: 1024 });
+  });
+
+  it("rejects unsupported types, oversized files and bad hashes", async () => {
+    await expect(
+      parsePresignInput(
+        jsonRequest({ sha256: HASH, type: "application/pdf", size: 1024 }),
+      ),
+    ).rejects.toThrow(ValidationError);
+    await expect(
+      parsePresignInput(
+        jsonRequest({
+          sha256: HASH,
+          type: "image/png",
+          size: DIRECT_UPLOAD_MAX_SIZE + 1,
+        }),
+      ),
+    ).rejects.toThrow(ValidationError);
+    await expect(
+      parsePresignInput(
+        jsonRequest({ sha256: "abc", type: "image/png", size: 1024 }),
+      ),
+    ).rejects.toThrow(ValidationError);
+  });
+});
+
+describe("parseFinalizeInput", () => {
+  it("only accepts staging keys", async () => {
+    const key = buildStagingKey(HASH, "image/png");
+
+    await expect(parseFinalizeInput(jsonRequest({ key }))).resolves.toEqual({
+      key,
+    });
+    await expect(
+      parseFinalizeInput(jsonRequest({ key: `uploads/2024-01-01/${HASH}.png` })),
+    ).rejects.toThrow(ValidationError);
+    await expect(
+      parseFinalizeInput(jsonRequest({ key: `incoming/../${HASH}.png` })),
+    ).rejects.toThrow(ValidationError);
+  });
+});
+
+describe("staging keys", () => {
+  it("round-trips the content hash", () => {
+    const key = buildStagingKey(HASH, "image/tiff");
+
+    expect(key).toBe(`incoming/${HASH}.tif`);
+    expect(parseStagingKey(key)).toBe(HASH);
+    expect(parseStagingKey("incoming/not-a-hash.jpg")).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Direct-to-R2 upload sessions
+ *
+ * Large files skip the edge function: `/api/upload/presign` issues a
+ * short-lived PUT URL scoped to one content hash and type under the
+ * `incoming/` staging prefix, the browser uploads to R2, and
+ * `/api/upload/finalize` validates the staged object before storing it
+ * like a regular upload.
+ */
+
+import { z } from "zod";
+import { ValidationError } from "@/lib/errors";
+import { canonicalImageType, extensionForType } from "@/lib/image";
+import { UPLOAD_IMAGE_TYPES } from "@/lib/upload-storage";
+
+/** Largest file accepted through a direct upload */
+export const DIRECT_UPLOAD_MAX_SIZE = 25 * 1024 * 1024;
+
+/** Seconds a pre-signed upload URL stays valid */
+export const DIRECT_UPLOAD_TTL_SECONDS = 300;
+
+/** R2 prefix for objects uploaded directly but not yet finalized */
+export const STAGING_PREFIX = "incoming/";
+
+const STAGING_KEY_PATTERN = /^incoming\/([a-f0-9]{64})\.([a-z]{3,4})$/;
+
+const PresignSchema = z.object({
+  sha256: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-f0-9]{64}$/, "sha256 must be a hex SHA-256 digest"),
+  type: z
+    .string()
+    .trim()
+    .transform((type) => canonicalImageType(type))
+    .refine((type) => UPLOAD_IMAGE_TYPES.has(type), {
+      message: "Unsupported file type",
+    }),
+  size: z
+    .number()
+    .int()
+    .positive()
+    .max(DIRECT_UPLOAD_MAX_SIZE, "File too large for direct upload"),
+  turnstileToken: z.string().optional(),
+});
+
+const FinalizeSchema = z.object({
+  key: z.string().regex(STAGING_KEY_PATTERN, "Invalid upload key"),
+  filename: z.string().max(1024).optional(),
+});
+
+export type PresignInput = z.infer<typeof PresignSchema>;
+export type FinalizeInput = z.infer<typeof FinalizeSchema>;
+
+const parseBody = async <T>(
+  request: Request,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+): Promise<T> => {
+  const payload = await request.json().catch(() => null);
+  const parsed = schema.safeParse(payload);
+  if (!parsed.success) {
+    const [issue] = parsed.error.errors;
+    throw new ValidationError(
+      `Invalid input: ${issue?.message ?? "validation failed"}`,
+      issue?.path[0] as string | undefined,
+      undefined,
+      { zodErrors: parsed.error.errors },
+    );
+  }
+  return parsed.data;
+};
+
+/**
+ * Parses a presign request body (`{ sha256, type, size, turnstileToken? }`).
+ *
+ * @throws {ValidationError} When the hash, type or size is invalid
+ */
+export const parsePresignInput = (request: Request): Promise<PresignInput> =>
+  parseBody(request, PresignSchema);
+
+/**
+ * Parses a finalize request body (`{ key, filename? }`).
+ *
+ * @throws {ValidationError} When the key is not a staging key
+ */
+export const parseFinalizeInput = (request: Request): Promise<FinalizeInput> =>
+  parseBody(request, FinalizeSchema);
+
+/**
+ * Builds the staging key a direct upload is written to.
+ *
+ * @param sha256 - Hex SHA-256 of the file
+ * @param type - Canonical MIME type of the file
+ * @returns e.g. `incoming/{sha256}.jpg`
+ */
+export const buildStagingKey = (sha256: string, type: string): string =>
+  `${STAGING_PREFIX}${sha256}.${extensionForType(type)}`;
+
+/**
+ * Reads the content hash a staging key was issued for.
+ *
+ * @param key - An object key
+ * @returns The hex SHA-256, or null when the key is not a staging key
+ */
+export const parseStagingKey = (key: string): string | null =>
+  STAGING_KEY_PATTERN.exec(key)?.[1] ?? null;
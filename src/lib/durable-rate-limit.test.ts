@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createMockEnv,
+  MockDurableObjectNamespace,
+  MockKVNamespace,
+} from "@/test/setup";
+import {
+  checkDurableRateLimit,
+  enforceRateLimit,
+  hasRateLimitStore,
+  RateLimiterDurableObject,
+} from "./durable-rate-limit";
+import type { RateLimitConfig } from "./rate-limit";
+
+vi.mock("@cloudflare/next-on-pages", () => ({
+  getRequestContext: vi.fn(),
+}));
+
+const fixedWindow: RateLimitConfig = { algorithm: "fixed-window", limit: 5 };
+
+const createNamespace = () =>
+  new MockDurableObjectNamespace(
+    (state) => new RateLimiterDurableObject(state),
+  );
+
+describe("RateLimiterDurableObject", () => {
+  let namespace: ReturnType<typeof createNamespace>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-15T12:00:00Z"));
+    namespace = createNamespace();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("allows exactly the limit under concurrent requests", async () => {
+    const results = await Promise.all(
+      Array.from({ length: 20 }, () =>
+        checkDurableRateLimit(
+          namespace as unknown as DurableObjectNamespace,
+          "1.2.3.4",
+          "search",
+          fixedWindow,
+        ),
+      ),
+    );
+
+    expect(results.filter((status) => status.allowed)).toHaveLength(5);
+    expect(results.at(-1)).toMatchObject({ allowed: false, remaining: 0 });
+  });
+
+  it("keeps a separate object per bucket and subject", async () => {
+    const ns = namespace as unknown as DurableObjectNamespace;
+    await checkDurableRateLimit(ns, "1.2.3.4", "search", fixedWindow);
+    await checkDurableRateLimit(ns, "5.6.7.8", "search", fixedWindow);
+    await checkDurableRateLimit(ns, "1.2.3.4", "upload", fixedWindow);
+
+    expect([...namespace.instances.keys()].sort()).toEqual([
+      "search:1.2.3.4",
+      "search:5.6.7.8",
+      "upload:1.2.3.4",
+    ]);
+  });
+
+  it("schedules an alarm that clears expired state", async () => {
+    const ns = namespace as unknown as DurableObjectNamespace;
+    await checkDurableRateLimit(ns, "1.2.3.4", "search", {
+      algorithm: "sliding-window",
+      limit: 3,
+      windowSeconds: 120,
+    });
+
+    const instance = namespace.instances.get("search:1.2.3.4")!;
+    expect(instance.storage.alarm).toBeGreaterThan(Date.now());
+    expect(instance.storage.store.size).toBe(1);
+
+    await instance.object.alarm();
+    expect(instance.storage.store.size).toBe(0);
+  });
+
+  it("rejects malformed requests", async () => {
+    const object = new RateLimiterDurableObject({
+      storage: {},
+    } as unknown as DurableObjectState);
+
+    const invalid = await object.fetch(
+      new Request("https://rate-limiter.internal/check", {
+        method: "POST",
+        body: JSON.stringify({ subject: "1.2.3.4" }),
+      }),
+    );
+    const wrongMethod = await object.fetch(
+      new Request("https://rate-limiter.internal/check"),
+    );
+
+    expect(invalid.status).toBe(400);
+    expect(wrongMethod.status).toBe(405);
+  });
+});
+
+describe("enforceRateLimit", () => {
+  it("uses the Durable Object when bound", async () => {
+    const namespace = createNamespace();
+    const kv = new MockKVNamespace();
+    const env = {
+      ...createMockEnv(),
+      RATE_LIMITER: namespace as unknown as DurableObjectNamespace,
+      KV_RATE_LIMIT: kv as unknown as KVNamespace,
+    };
+
+    const status = await enforceRateLimit(env, "1.2.3.4", "search", fixedWindow);
+
+    expect(status).toMatchObject({ allowed: true, remaining: 4 });
+    expect(namespace.instances.size).toBe(1);
+    expect((await kv.list()).keys).toHaveLength(0);
+  });
+
+  it("falls back to KV when the Durable Object fails", async () => {
+    const kv = new MockKVNamespace();
+    const env = {
+      ...createMockEnv(),
+      RATE_LIMITER: {
+        idFromName: (name: string) => name,
+        get: () => ({
+          fetch: async () => new Response("boom", { status: 500 }),
+        }),
+      } as unknown as DurableObjectNamespace,
+      KV_RATE_LIMIT: kv as unknown as KVNamespace,
+    };
+
+    const status = await enforceRateLimit(env, "1.2.3.4", "search", fixedWindow);
+
+    expect(status).toMatchObject({ allowed: true, remaining: 4 });
+    expect((await kv.list()).keys).toHaveLength(1);
+  });
+
+  it("uses KV when no Durable Object is bound", async () => {
+    const kv = new MockKVNamespace();
+    const env = {
+      ...createMockEnv(),
+      KV_RATE_LIMIT: kv as unknown as KVNamespace,
+    };
+
+    expect(hasRateLimitStore(env)).toBe(true);
+    await enforceRateLimit(env, "1.2.3.4", "search", fixedWindow);
+    expect((await kv.list()).keys).toHaveLength(1);
+  });
+
+  it("throws when no store is bound", async () => {
+    const env = { ...createMockEnv(), KV_RATE_LIMIT: undefined };
+
+    expect(hasRateLimitStore(env)).toBe(false);
+    await expect(
+      enforceRateLimit(env, "1.2.3.4", "search", fixedWindow),
+    ).rejects.toThrow("No rate limit store is bound");
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Atomic rate limiting backed by a Durable Object
+ *
+ * KV is eventually consistent, so concurrent requests can all read the same
+ * counter and exceed a limit. A Durable Object processes requests for one
+ * id sequentially, so each subject gets its own object and every check is
+ * an atomic read-modify-write of its storage. The algorithms themselves are
+ * the same plans used by the KV limiter.
+ *
+ * Cloudflare Pages cannot host Durable Objects: deploy
+ * `RateLimiterDurableObject` from a companion Worker and bind it to the
+ * Pages project as `RATE_LIMITER`. Without the binding, or when the object
+ * is unreachable, limits fall back to KV.
+ */
+
+import { z } from "zod";
+import type { AppEnv } from "@/lib/cf-env";
+import { createLogger } from "@/lib/logger";
+import {
+  applyRateLimit,
+  planRateLimit,
+  RateLimitConfigSchema,
+  type RateLimitConfig,
+  type RateLimitStatus,
+} from "@/lib/rate-limit";
+
+const logger = createLogger("rate-limit:durable");
+
+/** Internal URL for limiter requests (never leaves the Workers runtime) */
+const LIMITER_URL = "https://rate-limiter.internal/check";
+
+const LimiterRequestSchema = z.object({
+  subject: z.string().min(1),
+  bucket: z.string().min(1),
+  config: RateLimitConfigSchema,
+  cost: z.number().int().positive().optional(),
+});
+
+/**
+ * Durable Object that stores rate limit state for one bucket and subject.
+ *
+ * Storage is wiped by an alarm once the state has expired, mirroring the
+ * TTLs the KV limiter uses.
+ */
+export class RateLimiterDurableObject {
+  constructor(private readonly state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    if (request.method !== "POST") {
+      return new Response("Method not allowed", { status: 405 });
+    }
+
+    const parsed = LimiterRequestSchema.safeParse(
+      await request.json().catch(() => null),
+    );
+    if (!parsed.success) {
+      return Response.json(
+        { error: "Invalid rate limit request" },
+        { status: 400 },
+      );
+    }
+
+    const { subject, bucket, config, cost } = parsed.data;
+    const plan = planRateLimit(subject, bucket, config, cost);
+    const current = (await this.state.storage.get<string>(plan.key)) ?? null;
+    const { value, status } = plan.compute(current);
+
+    if (value !== null) {
+      await this.state.storage.put(plan.key, value);
+      await this.state.storage.setAlarm(Date.now() + plan.ttlSeconds * 1000);
+    }
+
+    return Response.json(status);
+  }
+
+  async alarm(): Promise<void> {
+    await this.state.storage.deleteAll();
+  }
+}
+
+/**
+ * Checks a request against the Durable Object for its bucket and subject.
+ *
+ * @throws Error when the object responds with an error status
+ */
+export const checkDurableRateLimit = async (
+  namespace: DurableObjectNamespace,
+  subject: string,
+  bucket: string,
+  config: RateLimitConfig,
+  cost = 1,
+): Promise<RateLimitStatus> => {
+  const stub = namespace.get(namespace.idFromName(`${bucket}:${subject}`));
+  const response = await stub.fetch(LIMITER_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ subject, bucket, config, cost }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Rate limiter responded with ${response.status}`);
+  }
+
+  return (await response.json()) as RateLimitStatus;
+};
+
+/**
+ * Whether any rate limit store is bound.
+ */
+export const hasRateLimitStore = (env: AppEnv): boolean =>
+  Boolean(env.RATE_LIMITER || env.KV_RATE_LIMIT);
+
+/**
+ * Checks a request using the Durable Object limiter when bound, falling
+ * back to KV when it is absent or fails.
+ *
+ * @param env - The application environment
+ * @param subject - Who is being limited (usually the client IP)
+ * @param bucket - The bucket name
+ * @param config - Algorithm and limits, usually from `getRateLimitConfig`
+ * @param cost - Units the request counts as (default: 1)
+ * @throws Error when neither RATE_LIMITER nor KV_RATE_LIMIT is bound
+ *
+ * @example
+ * ```ts
+ * if (hasRateLimitStore(env)) {
+ *   const config = getRateLimitConfig(env, "search");
+ *   const status = await enforceRateLimit(env, clientIp, "search", config);
+ * }
+ * ```
+ */
+export const enforceRateLimit = async (
+  env: AppEnv,
+  subject: string,
+  bucket: string,
+  config: RateLimitConfig,
+  cost = 1,
+): Promise<RateLimitStatus> => {
+  if (env.RATE_LIMITER) {
+    try {
+      return await checkDurableRateLimit(
+        env.RATE_LIMITER,
+        subject,
+        bucket,
+        config,
+        cost,
+      );
+    } catch (error) {
+      if (!env.KV_RATE_LIMIT) {
+        throw error;
+      }
+      logger.warn("Durable rate limiter failed, falling back to KV", {
+        bucket,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  if (!env.KV_RATE_LIMIT) {
+    throw new Error("No rate limit store is bound");
+  }
+
+  return applyRateLimit(env.KV_RATE_LIMIT, subject, bucket, config, cost);
+};
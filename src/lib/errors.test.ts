@@ -6,6 +6,7 @@ import {
   ValidationError,
   NetworkError,
   CacheError,
+  ContentBlockedError,
   isAppError,
   formatError,
   errorToResponse,
@@ -344,6 +345,24 @@ describe("CacheError", () => {
   });
 });
 
+describe("ContentBlockedError", () => {
+  it("returns 451 without exposing the match", () => {
+    const error = new ContentBlockedError(undefined, {
+      sha256: "a".repeat(64),
+      match: "exact",
+    });
+
+    expect(error.code).toBe("CONTENT_BLOCKED");
+    expect(error.statusCode).toBe(451);
+    expect(error.name).toBe("ContentBlockedError");
+    expect(errorToResponse(error)).toEqual({
+      error: "This image can't be processed.",
+      code: "CONTENT_BLOCKED",
+      context: undefined,
+    });
+  });
+});
+
 describe("isAppError", () => {
   it("returns true for AppError instances", () => {
     expect(isAppError(new AppError("Test", "TEST"))).toBe(true);
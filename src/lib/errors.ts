@@ -18,6 +18,7 @@ const PUBLIC_CONTEXT_KEYS = new Set([
   "resetAt", // Rate limit reset time
   "timeout", // Whether it was a timeout
   "operation", // Cache operation type
+  "retryAfter", // Seconds until a temporarily unavailable service may be retried
 ]);
 
 /**
@@ -182,6 +183,19 @@ export class ValidationError extends AppError {
   }
 }
 
+/**
+ * Missing, invalid or revoked credentials (API keys, admin tokens)
+ */
+export class AuthenticationError extends AppError {
+  constructor(
+    message: string = "Authentication required",
+    context?: Record<string, unknown>,
+  ) {
+    super(message, "UNAUTHORIZED", 401, context);
+    this.name = "AuthenticationError";
+  }
+}
+
 /**
  * Network/timeout errors
  */
@@ -199,6 +213,39 @@ export class NetworkError extends AppError {
   }
 }
 
+/**
+ * Temporary service unavailability (e.g. an upstream circuit breaker is open)
+ * Carries the number of seconds clients should wait before retrying
+ */
+export class ServiceUnavailableError extends AppError {
+  constructor(
+    message: string,
+    public readonly retryAfterSeconds?: number,
+    context?: Record<string, unknown>,
+  ) {
+    super(message, "SERVICE_UNAVAILABLE", 503, {
+      ...context,
+      retryAfter: retryAfterSeconds,
+    });
+    this.name = "ServiceUnavailableError";
+  }
+}
+
+/**
+ * Image matched the moderation blocklist
+ * The match details (hash, distance) stay in the internal context so the
+ * blocklist cannot be probed through responses
+ */
+export class ContentBlockedError extends AppError {
+  constructor(
+    message: string = "This image can't be processed.",
+    context?: Record<string, unknown>,
+  ) {
+    super(message, "CONTENT_BLOCKED", 451, context);
+    this.name = "ContentBlockedError";
+  }
+}
+
 /**
  * Cache operation errors
  */
@@ -223,6 +270,24 @@ export function isAppError(error: unknown): error is AppError {
   return error instanceof AppError;
 }
 
+/**
+ * HTTP headers that should accompany an error response
+ * Adds Retry-After for temporarily unavailable services and a Bearer
+ * challenge for authentication failures
+ */
+export function errorResponseHeaders(error: unknown): Record<string, string> {
+  if (error instanceof AuthenticationError) {
+    return { "WWW-Authenticate": "Bearer" };
+  }
+  if (
+    error instanceof ServiceUnavailableError &&
+    error.retryAfterSeconds !== undefined
+  ) {
+    return { "Retry-After": String(Math.max(1, error.retryAfterSeconds)) };
+  }
+  return {};
+}
+
 /**
  * Format error for internal logging (includes all details)
  * SECURITY: This output should NEVER be sent to clients
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { hashFile } from "./file-hash";
+
+describe("hashFile", () => {
+  it("hashes on the main thread when workers are unavailable", async () => {
+    const hash = await hashFile(new Blob(["hello world"]));
+    expect(hash).toBe(
+      "b94d27b9934d3e08a52e52d7da7dabfac484efe37a5380ee9088f7ace2efcde9",
+    );
+  });
+
+  it("matches the hash of the raw bytes", async () => {
+    const bytes = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 1, 2, 3]);
+    const hash = await hashFile(new Blob([bytes]));
+    const digest = await crypto.subtle.digest("SHA-256", bytes);
+    const expected = Array.from(new Uint8Array(digest))
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+
+    expect(hash).toBe(expected);
+  });
+});
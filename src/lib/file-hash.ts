@@ -0,0 +1,99 @@
+/**
+ * SHA-256 hashing of files in the browser
+ *
+ * Hashes run in a Web Worker (`sha256.worker.ts`) so large images do not
+ * block rendering. Where workers are unavailable or fail, hashing falls
+ * back to the main thread. The hash matches what `/api/upload` computes for
+ * the same bytes, so it can be used for cache lookups before uploading.
+ */
+
+import { sha256Hex } from "@/lib/crypto";
+import type {
+  Sha256WorkerRequest,
+  Sha256WorkerResponse,
+} from "@/lib/sha256.worker";
+
+type PendingHash = {
+  resolve: (hash: string) => void;
+  reject: (error: Error) => void;
+};
+
+/** Shared worker; null once it is known to be unavailable */
+let worker: Worker | null | undefined;
+let nextRequestId = 0;
+const pending = new Map<number, PendingHash>();
+
+const failPending = (error: Error) => {
+  for (const request of pending.values()) {
+    request.reject(error);
+  }
+  pending.clear();
+};
+
+const getWorker = (): Worker | null => {
+  if (worker !== undefined) return worker;
+  if (typeof Worker === "undefined") {
+    worker = null;
+    return worker;
+  }
+
+  try {
+    const created = new Worker(
+      new URL("./sha256.worker.ts", import.meta.url),
+      { type: "module" },
+    );
+    created.onmessage = (event: MessageEvent<Sha256WorkerResponse>) => {
+      const request = pending.get(event.data.id);
+      if (!request) return;
+      pending.delete(event.data.id);
+      if ("hash" in event.data) {
+        request.resolve(event.data.hash);
+      } else {
+        request.reject(new Error(event.data.error));
+      }
+    };
+    created.onerror = () => {
+      created.terminate();
+      worker = null;
+      failPending(new Error("Hash worker failed"));
+    };
+    worker = created;
+  } catch {
+    worker = null;
+  }
+  return worker;
+};
+
+/**
+ * Computes the SHA-256 hash of a file or blob.
+ *
+ * @param file - The data to hash
+ * @returns A promise that resolves to the 64-character lowercase hex string
+ *
+ * @example
+ * ```ts
+ * const imageHash = await hashFile(file);
+ * // Ask the server for cached results before uploading
+ * ```
+ */
+export async function hashFile(file: Blob): Promise<string> {
+  const active = getWorker();
+  if (!active) {
+    return sha256Hex(await file.arrayBuffer());
+  }
+
+  const buffer = await file.arrayBuffer();
+  const id = (nextRequestId += 1);
+  try {
+    return await new Promise<string>((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      // Transfer rather than copy the bytes
+      active.postMessage({ id, buffer } satisfies Sha256WorkerRequest, [
+        buffer,
+      ]);
+    });
+  } catch {
+    // The buffer was transferred away, so read the file again
+    return sha256Hex(await file.arrayBuffer());
+  }
+}
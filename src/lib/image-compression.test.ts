@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { clampCropRegion } from "./image-compression";
+
+describe("clampCropRegion", () => {
+  it("keeps regions inside the image", () => {
+    expect(
+      clampCropRegion({ x: 10, y: 20, width: 30, height: 40 }, 100, 100),
+    ).toEqual({ x: 10, y: 20, width: 30, height: 40 });
+  });
+
+  it("clips regions to the image bounds", () => {
+    expect(
+      clampCropRegion({ x: -10, y: 90, width: 50, height: 50 }, 100, 100),
+    ).toEqual({ x: 0, y: 90, width: 40, height: 10 });
+  });
+
+  it("rounds to whole pixels", () => {
+    expect(
+      clampCropRegion({ x: 0.4, y: 0.6, width: 10.2, height: 9.7 }, 100, 100),
+    ).toEqual({ x: 0, y: 1, width: 11, height: 9 });
+  });
+
+  it("returns null for regions outside the image", () => {
+    expect(
+      clampCropRegion({ x: 120, y: 0, width: 10, height: 10 }, 100, 100),
+    ).toBeNull();
+    expect(
+      clampCropRegion({ x: 10, y: 10, width: 0, height: 10 }, 100, 100),
+    ).toBeNull();
+  });
+});
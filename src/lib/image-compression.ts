@@ -27,9 +27,29 @@ const BLUR_QUALITY = 0.5;
 /** Blur filter radius in pixels */
 const BLUR_RADIUS = 2;
 
+/** Files larger than this are compressed before upload */
+const UPLOAD_COMPRESS_THRESHOLD_BYTES = 2 * 1024 * 1024;
+
+/** Types never compressed before upload (animation would be lost) */
+const UPLOAD_PASSTHROUGH_TYPES = new Set(["image/gif"]);
+
 /** Supported output formats for compression */
 export type CompressedImageFormat = "image/jpeg" | "image/webp";
 
+/**
+ * A rectangle of an image, in the image's natural pixel coordinates
+ */
+export interface CropRegion {
+  /** Left edge in pixels */
+  x: number;
+  /** Top edge in pixels */
+  y: number;
+  /** Width in pixels */
+  width: number;
+  /** Height in pixels */
+  height: number;
+}
+
 /**
  * Options for image compression
  */
@@ -42,6 +62,34 @@ export interface CompressImageOptions {
   quality?: number;
   /** Output format (default: "image/webp") */
   format?: CompressedImageFormat;
+  /** Region to keep; the rest of the image is discarded (default: all) */
+  crop?: CropRegion;
+}
+
+/**
+ * Clamps a crop region to the image bounds, rounding to whole pixels.
+ *
+ * @returns The clamped region, or null when nothing of it lies inside the
+ *   image
+ *
+ * @example
+ * ```ts
+ * clampCropRegion({ x: -10, y: 0, width: 50, height: 50 }, 40, 40);
+ * // => { x: 0, y: 0, width: 40, height: 40 }
+ * ```
+ */
+export function clampCropRegion(
+  crop: CropRegion,
+  imageWidth: number,
+  imageHeight: number
+): CropRegion | null {
+  const left = Math.max(0, Math.round(crop.x));
+  const top = Math.max(0, Math.round(crop.y));
+  const right = Math.min(imageWidth, Math.round(crop.x + crop.width));
+  const bottom = Math.min(imageHeight, Math.round(crop.y + crop.height));
+
+  if (right <= left || bottom <= top) return null;
+  return { x: left, y: top, width: right - left, height: bottom - top };
 }
 
 /**
@@ -49,6 +97,7 @@ export interface CompressImageOptions {
  *
  * Resizes the image to fit within the specified dimensions while
  * maintaining aspect ratio, then compresses using the specified format.
+ * With `crop`, only that region is kept and it is the region that is fitted.
  *
  * @param file - The image file to compress
  * @param options - Compression options
@@ -74,6 +123,7 @@ export async function compressImage(
     maxHeight = DEFAULT_MAX_HEIGHT,
     quality = DEFAULT_QUALITY,
     format = DEFAULT_FORMAT,
+    crop,
   } = options;
 
   return new Promise((resolve, reject) => {
@@ -83,9 +133,17 @@ export async function compressImage(
     img.onload = () => {
       URL.revokeObjectURL(url);
 
+      const source = crop
+        ? clampCropRegion(crop, img.naturalWidth, img.naturalHeight)
+        : { x: 0, y: 0, width: img.naturalWidth, height: img.naturalHeight };
+      if (!source) {
+        reject(new Error("Crop region is outside the image"));
+        return;
+      }
+
       // Calculate new dimensions maintaining aspect ratio
-      let width = img.width;
-      let height = img.height;
+      let width = source.width;
+      let height = source.height;
       const aspectRatio = width / height;
 
       if (width > maxWidth) {
@@ -109,7 +167,17 @@ export async function compressImage(
         return;
       }
 
-      ctx.drawImage(img, 0, 0, width, height);
+      ctx.drawImage(
+        img,
+        source.x,
+        source.y,
+        source.width,
+        source.height,
+        0,
+        0,
+        width,
+        height
+      );
 
       canvas.toBlob(
         (blob) => {
@@ -231,6 +299,47 @@ export function getImageDimensions(file: File): Promise<ImageDimensions> {
   });
 }
 
+/**
+ * Prepares an image for upload, compressing it when it is oversized.
+ *
+ * Files over 2 MB, or larger than 2048px on either side, are re-encoded with
+ * `compressImage`. The original is kept when it is small enough, when it is
+ * a GIF, when the browser cannot decode it (e.g. HEIC outside Safari) or
+ * when compression would not make it smaller.
+ *
+ * @param file - The image picked by the user
+ * @returns The file to upload
+ *
+ * @example
+ * ```ts
+ * const upload = await prepareImageForUpload(file);
+ * formData.append("file", upload);
+ * ```
+ */
+export async function prepareImageForUpload(file: File): Promise<File> {
+  if (UPLOAD_PASSTHROUGH_TYPES.has(file.type)) return file;
+
+  try {
+    const { width, height } = await getImageDimensions(file);
+    const oversized =
+      file.size > UPLOAD_COMPRESS_THRESHOLD_BYTES ||
+      width > DEFAULT_MAX_WIDTH ||
+      height > DEFAULT_MAX_HEIGHT;
+    if (!oversized) return file;
+
+    const compressed = await compressImage(file);
+    if (compressed.size >= file.size) return file;
+
+    const extension = compressed.type.split("/")[1] ?? "webp";
+    const name = file.name.replace(/\.[^.]*$/, "") || "image";
+    return new File([compressed], `${name}.${extension}`, {
+      type: compressed.type,
+    });
+  } catch {
+    return file;
+  }
+}
+
 /** Size unit labels for formatting */
 const SIZE_UNITS = ["B", "KB", "MB"] as const;
 
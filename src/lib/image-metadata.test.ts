@@ -0,0 +1,344 @@
+import { describe, expect, it } from "vitest";
+import { extractImageMetadata } from "./image-metadata";
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+const utf8 = (text: string) => Array.from(new TextEncoder().encode(text));
+
+type TiffField = {
+  tag: number;
+  /** 2 = ASCII, 3 = SHORT, 4 = LONG, 5 = RATIONAL ([numerator, denominator] pairs) */
+  type: 2 | 3 | 4 | 5;
+  value: string | number[];
+};
+
+const TYPE_SIZES = { 2: 1, 3: 2, 4: 4, 5: 8 };
+
+/** Builds TIFF data with IFD0 and optional Exif and GPS sub-IFDs */
+const buildTiff = (
+  ifds: { ifd0: TiffField[]; exif?: TiffField[]; gps?: TiffField[] },
+  little = false,
+): number[] => {
+  const ifd0 = [...ifds.ifd0];
+  if (ifds.exif) ifd0.push({ tag: 0x8769, type: 4, value: [0] });
+  if (ifds.gps) ifd0.push({ tag: 0x8825, type: 4, value: [0] });
+
+  const count = (field: TiffField) =>
+    typeof field.value === "string"
+      ? field.value.length + 1
+      : field.type === 5
+        ? field.value.length / 2
+        : field.value.length;
+  const dataSize = (field: TiffField) => count(field) * TYPE_SIZES[field.type];
+  const ifdSize = (fields: TiffField[]) =>
+    2 +
+    fields.length * 12 +
+    4 +
+    fields.reduce(
+      (total, field) =>
+        total + (dataSize(field) > 4 ? dataSize(field) + (dataSize(field) % 2) : 0),
+      0,
+    );
+
+  const exifOffset = 8 + ifdSize(ifd0);
+  const gpsOffset = exifOffset + (ifds.exif ? ifdSize(ifds.exif) : 0);
+  for (const field of ifd0) {
+    if (field.tag === 0x8769) field.value = [exifOffset];
+    if (field.tag === 0x8825) field.value = [gpsOffset];
+  }
+
+  const buffer = new Uint8Array(gpsOffset + (ifds.gps ? ifdSize(ifds.gps) : 0));
+  const view = new DataView(buffer.buffer);
+  buffer.set(ascii(little ? "II" : "MM"));
+  view.setUint16(2, 42, little);
+  view.setUint32(4, 8, little);
+
+  const writeIfd = (fields: TiffField[], offset: number) => {
+    view.setUint16(offset, fields.length, little);
+    let data = offset + 2 + fields.length * 12 + 4;
+    fields.forEach((field, index) => {
+      const entry = offset + 2 + index * 12;
+      view.setUint16(entry, field.tag, little);
+      view.setUint16(entry + 2, field.type, little);
+      view.setUint32(entry + 4, count(field), little);
+
+      const size = dataSize(field);
+      let at = entry + 8;
+      if (size > 4) {
+        view.setUint32(entry + 8, data, little);
+        at = data;
+        data += size + (size % 2);
+      }
+      if (typeof field.value === "string") {
+        buffer.set(ascii(field.value), at);
+        return;
+      }
+      field.value.forEach((value, i) => {
+        if (field.type === 3) view.setUint16(at + i * 2, value, little);
+        else view.setUint32(at + i * 4, value, little);
+      });
+    });
+  };
+
+  writeIfd(ifd0, 8);
+  if (ifds.exif) writeIfd(ifds.exif, exifOffset);
+  if (ifds.gps) writeIfd(ifds.gps, gpsOffset);
+  return Array.from(buffer);
+};
+
+const CAMERA_TIFF = {
+  ifd0: [
+    { tag: 0x010f, type: 2, value: "Canon" },
+    { tag: 0x0110, type: 2, value: "Canon EOS R5" },
+    { tag: 0x0131, type: 2, value: "Adobe Lightroom 7.0" },
+    { tag: 0x8298, type: 2, value: "(c) Jane Doe" },
+  ],
+  exif: [
+    { tag: 0x9003, type: 2, value: "2024:05:01 14:03:22" },
+    { tag: 0x9011, type: 2, value: "+02:00" },
+    { tag: 0xa434, type: 2, value: "RF24-105mm F4 L IS USM" },
+  ],
+  gps: [
+    { tag: 0x0001, type: 2, value: "S" },
+    { tag: 0x0002, type: 5, value: [33, 1, 51, 1, 3600, 100] },
+    { tag: 0x0003, type: 2, value: "E" },
+    { tag: 0x0004, type: 5, value: [151, 1, 12, 1, 3000, 100] },
+    { tag: 0x0006, type: 5, value: [58, 1] },
+  ],
+} satisfies Parameters<typeof buildTiff>[0];
+
+const jpegSegment = (marker: number, payload: number[]) => [
+  0xff,
+  marker,
+  (payload.length + 2) >> 8,
+  (payload.length + 2) & 0xff,
+  ...payload,
+];
+
+const jpeg = (...segments: number[][]) =>
+  new Uint8Array([
+    0xff, 0xd8,
+    ...segments.flat(),
+    ...jpegSegment(0xda, [0, 1]),
+    0x12, 0x34,
+    0xff, 0xd9,
+  ]);
+
+const pngChunk = (type: string, data: number[]) => [
+  (data.length >> 24) & 0xff,
+  (data.length >> 16) & 0xff,
+  (data.length >> 8) & 0xff,
+  data.length & 0xff,
+  ...ascii(type),
+  ...data,
+  0, 0, 0, 0, // CRC (not checked)
+];
+
+const webpChunk = (fourCC: string, data: number[]) => [
+  ...ascii(fourCC),
+  data.length & 0xff, (data.length >> 8) & 0xff, 0, 0,
+  ...data,
+  ...(data.length % 2 ? [0] : []),
+];
+
+const XMP_PACKET = `<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description xmp:CreatorTool="GIMP 2.10" tiff:Make="Nikon"
+      exif:GPSLatitude="48,51.4N" exif:GPSLongitude="2,17.6W">
+      <dc:creator><rdf:Seq><rdf:li>Jean Dupont</rdf:li></rdf:Seq></dc:creator>
+      <dc:rights><rdf:Alt><rdf:li xml:lang="x-default">CC BY &amp; friends</rdf:li></rdf:Alt></dc:rights>
+      <photoshop:DateCreated>2023-07-14T09:30:00</photoshop:DateCreated>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>`;
+
+/** IPTC-IIM datasets wrapped in a Photoshop 8BIM 0x0404 resource */
+const photoshopIptc = (datasets: Array<[number, string]>) => {
+  const iptc = datasets.flatMap(([dataset, value]) => [
+    0x1c, 2, dataset, 0, value.length, ...ascii(value),
+  ]);
+  return [
+    ...ascii("Photoshop 3.0\0"),
+    ...ascii("8BIM"), 0x04, 0x04,
+    0, 0, // empty name, padded
+    0, 0, 0, iptc.length,
+    ...iptc,
+    ...(iptc.length % 2 ? [0] : []),
+  ];
+};
+
+describe("extractImageMetadata", () => {
+  it("reads camera, capture and GPS details from JPEG EXIF", () => {
+    const metadata = extractImageMetadata(
+      jpeg(
+        jpegSegment(0xe0, ascii("JFIF\0")),
+        jpegSegment(0xe1, [...ascii("Exif\0\0"), ...buildTiff(CAMERA_TIFF)]),
+      ),
+    );
+
+    expect(metadata).toEqual({
+      sources: { exif: true, iptc: false, xmp: false, c2pa: false },
+      make: "Canon",
+      model: "Canon EOS R5",
+      lens: "RF24-105mm F4 L IS USM",
+      capturedAt: "2024-05-01T14:03:22+02:00",
+      software: "Adobe Lightroom 7.0",
+      copyright: "(c) Jane Doe",
+      gps: { latitude: -33.86, longitude: 151.208333, altitude: 58 },
+    });
+  });
+
+  it("parses little-endian TIFF files directly", () => {
+    const metadata = extractImageMetadata(
+      new Uint8Array(buildTiff(CAMERA_TIFF, true)),
+    );
+
+    expect(metadata.model).toBe("Canon EOS R5");
+    expect(metadata.gps?.latitude).toBe(-33.86);
+  });
+
+  it("reads XMP packets, preferring EXIF values", () => {
+    const metadata = extractImageMetadata(
+      jpeg(
+        jpegSegment(0xe1, [
+          ...ascii("Exif\0\0"),
+          ...buildTiff({ ifd0: [{ tag: 0x010f, type: 2, value: "Canon" }] }),
+        ]),
+        jpegSegment(0xe1, [
+          ...ascii("http://ns.adobe.com/xap/1.0/\0"),
+          ...utf8(XMP_PACKET),
+        ]),
+      ),
+    );
+
+    expect(metadata).toMatchObject({
+      sources: { exif: true, xmp: true },
+      make: "Canon",
+      software: "GIMP 2.10",
+      creator: "Jean Dupont",
+      copyright: "CC BY & friends",
+      capturedAt: "2023-07-14T09:30:00",
+      gps: { latitude: 48.856667, longitude: -2.293333 },
+    });
+  });
+
+  it("reads IPTC records from Photoshop resources", () => {
+    const metadata = extractImageMetadata(
+      jpeg(
+        jpegSegment(
+          0xed,
+          photoshopIptc([
+            [80, "Agency Photographer"],
+            [116, "Example News"],
+            [55, "20220301"],
+          ]),
+        ),
+      ),
+    );
+
+    expect(metadata).toMatchObject({
+      sources: { iptc: true },
+      creator: "Agency Photographer",
+      copyright: "Example News",
+      capturedAt: "2022-03-01",
+    });
+  });
+
+  it("detects C2PA manifests in JPEG APP11 segments", () => {
+    const metadata = extractImageMetadata(
+      jpeg(jpegSegment(0xeb, [...ascii("JP"), 0, 1, ...ascii("jumbc2pa")])),
+    );
+
+    expect(metadata.sources.c2pa).toBe(true);
+  });
+
+  it("reads PNG eXIf, XMP and C2PA chunks", () => {
+    const png = new Uint8Array([
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+      ...pngChunk("IHDR", new Array(13).fill(1)),
+      ...pngChunk("eXIf", buildTiff({ ifd0: CAMERA_TIFF.ifd0 })),
+      ...pngChunk("iTXt", [
+        ...ascii("XML:com.adobe.xmp\0"),
+        0, 0, // uncompressed
+        0, 0, // no language tag or translated keyword
+        ...utf8(XMP_PACKET),
+      ]),
+      ...pngChunk("caBX", ascii("jumb")),
+      ...pngChunk("IDAT", [9, 9, 9]),
+      ...pngChunk("IEND", []),
+    ]);
+
+    expect(extractImageMetadata(png)).toMatchObject({
+      sources: { exif: true, xmp: true, c2pa: true },
+      make: "Canon",
+      creator: "Jean Dupont",
+    });
+  });
+
+  it("reads WebP EXIF chunks", () => {
+    const chunks = [
+      ...webpChunk("VP8X", [0x08, 0, 0, 0, 1, 0, 0, 1, 0, 0]),
+      ...webpChunk("VP8 ", [7, 7, 7, 7]),
+      ...webpChunk("EXIF", [...ascii("Exif\0\0"), ...buildTiff(CAMERA_TIFF)]),
+    ];
+    const webp = new Uint8Array([
+      ...ascii("RIFF"),
+      (chunks.length + 4) & 0xff, (chunks.length + 4) >> 8, 0, 0,
+      ...ascii("WEBP"),
+      ...chunks,
+    ]);
+
+    expect(extractImageMetadata(webp)).toMatchObject({
+      sources: { exif: true },
+      model: "Canon EOS R5",
+      gps: { latitude: -33.86 },
+    });
+  });
+
+  it("finds EXIF embedded in HEIC files", () => {
+    const heic = new Uint8Array([
+      0, 0, 0, 24, ...ascii("ftypheic"), 0, 0, 0, 0, ...ascii("mif1heic"),
+      ...ascii("....meta....mdat"),
+      0, 0, 0, 6, ...ascii("Exif\0\0"), ...buildTiff(CAMERA_TIFF),
+    ]);
+
+    expect(extractImageMetadata(heic)).toMatchObject({
+      sources: { exif: true },
+      make: "Canon",
+      capturedAt: "2024-05-01T14:03:22+02:00",
+    });
+  });
+
+  it("ignores GPS values that cannot be real coordinates", () => {
+    const metadata = extractImageMetadata(
+      new Uint8Array(
+        buildTiff({
+          ifd0: [],
+          gps: [
+            { tag: 0x0002, type: 5, value: [1, 0, 0, 0, 0, 0] },
+            { tag: 0x0004, type: 5, value: [200, 1, 0, 1, 0, 1] },
+          ],
+        }),
+      ),
+    );
+
+    expect(metadata.gps).toBeUndefined();
+  });
+
+  it("returns no fields for files without metadata", () => {
+    expect(
+      extractImageMetadata(jpeg(jpegSegment(0xe0, ascii("JFIF\0")))),
+    ).toEqual({
+      sources: { exif: false, iptc: false, xmp: false, c2pa: false },
+    });
+  });
+
+  it("survives truncated metadata blocks", () => {
+    const exif = [...ascii("Exif\0\0"), ...buildTiff(CAMERA_TIFF)];
+    const truncated = jpeg(jpegSegment(0xe1, exif)).slice(0, 60);
+
+    expect(() => extractImageMetadata(truncated)).not.toThrow();
+    expect(extractImageMetadata(new Uint8Array([1, 2, 3])).sources.exif).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,678 @@
+/**
+ * Image metadata extraction
+ *
+ * Reads what an image file says about itself before it is searched: camera,
+ * capture date, GPS position, software and authorship from EXIF, IPTC and
+ * XMP blocks, plus whether it carries a C2PA (Content Credentials) manifest.
+ *
+ * Blocks are located per container (JPEG segments, PNG chunks, WebP chunks,
+ * TIFF files). Other formats such as HEIC and AVIF are scanned for embedded
+ * EXIF and XMP signatures instead. Parsing never throws: malformed blocks
+ * are skipped and simply contribute nothing.
+ */
+
+import { detectImageType } from "@/lib/image";
+
+/** Identifier preceding TIFF data in JPEG APP1 and HEIC Exif items */
+const EXIF_HEADER = bytesOf("Exif\0\0");
+
+/** Identifier preceding XMP packets in JPEG APP1 segments */
+const XMP_JPEG_HEADER = bytesOf("http://ns.adobe.com/xap/1.0/\0");
+
+/** Identifier preceding Photoshop image resources in JPEG APP13 segments */
+const PHOTOSHOP_HEADER = bytesOf("Photoshop 3.0\0");
+
+/** PNG iTXt keyword for XMP packets */
+const PNG_XMP_KEYWORD = "XML:com.adobe.xmp";
+
+/** Start and end of an XMP packet */
+const XMP_START = bytesOf("<x:xmpmeta");
+const XMP_END = bytesOf("</x:xmpmeta>");
+
+/** JUMBF superbox type and the C2PA manifest store label */
+const JUMBF_BOX = bytesOf("jumb");
+const C2PA_LABEL = bytesOf("c2pa");
+
+/** Photoshop image resource holding IPTC-IIM data */
+const PHOTOSHOP_IPTC_RESOURCE = 0x0404;
+
+/** Upper bound on IFD entries, to stop runaway parsing of corrupt files */
+const MAX_IFD_ENTRIES = 512;
+
+/** Longest text value kept from any block */
+const MAX_TEXT_LENGTH = 256;
+
+/** TIFF tags read from IFD0 and the Exif sub-IFD */
+const TIFF_TAGS = {
+  make: 0x010f,
+  model: 0x0110,
+  dateTime: 0x0132,
+  software: 0x0131,
+  artist: 0x013b,
+  copyright: 0x8298,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  dateTimeOriginal: 0x9003,
+  offsetTimeOriginal: 0x9011,
+  lensModel: 0xa434,
+} as const;
+
+/** GPS IFD tags */
+const GPS_TAGS = {
+  latitudeRef: 0x0001,
+  latitude: 0x0002,
+  longitudeRef: 0x0003,
+  longitude: 0x0004,
+  altitudeRef: 0x0005,
+  altitude: 0x0006,
+} as const;
+
+/** IPTC-IIM application record (2) datasets */
+const IPTC_DATASETS = {
+  dateCreated: 55,
+  originatingProgram: 65,
+  byline: 80,
+  copyright: 116,
+} as const;
+
+/** Byte sizes of TIFF field types */
+const TIFF_TYPE_SIZES: Record<number, number> = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  5: 8, // RATIONAL
+  7: 1, // UNDEFINED
+  9: 4, // SLONG
+  10: 8, // SRATIONAL
+};
+
+/**
+ * GPS position recorded in the file
+ */
+export type GpsCoordinates = {
+  /** Decimal degrees, negative south of the equator */
+  latitude: number;
+  /** Decimal degrees, negative west of Greenwich */
+  longitude: number;
+  /** Meters above sea level (negative below) */
+  altitude?: number;
+};
+
+/**
+ * Metadata found in an image file
+ */
+export type ImageMetadata = {
+  /** Which metadata blocks the file carries */
+  sources: {
+    exif: boolean;
+    iptc: boolean;
+    xmp: boolean;
+    /** A C2PA (Content Credentials) manifest is embedded */
+    c2pa: boolean;
+  };
+  make?: string;
+  model?: string;
+  lens?: string;
+  /** Capture time as recorded, e.g. "2024-05-01T14:03:22" (no zone unless recorded) */
+  capturedAt?: string;
+  software?: string;
+  creator?: string;
+  copyright?: string;
+  gps?: GpsCoordinates;
+};
+
+type MetadataFields = Omit<ImageMetadata, "sources">;
+
+type MetadataBlocks = {
+  exif?: Uint8Array;
+  iptc?: Uint8Array;
+  xmp?: string;
+  c2pa: boolean;
+};
+
+type TiffEntry = { type: number; count: number; offset: number };
+
+function bytesOf(text: string): Uint8Array {
+  return Uint8Array.from(text, (char) => char.charCodeAt(0));
+}
+
+const view = (bytes: Uint8Array) =>
+  new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const startsWith = (bytes: Uint8Array, prefix: Uint8Array, offset = 0) =>
+  bytes.length >= offset + prefix.length &&
+  prefix.every((byte, index) => bytes[offset + index] === byte);
+
+const indexOfBytes = (bytes: Uint8Array, pattern: Uint8Array, from = 0) => {
+  const last = bytes.length - pattern.length;
+  outer: for (let i = from; i <= last; i += 1) {
+    for (let j = 0; j < pattern.length; j += 1) {
+      if (bytes[i + j] !== pattern[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+};
+
+const cleanText = (value: string | undefined): string | undefined => {
+  const cleaned = Array.from(value ?? "")
+    .filter((char) => char >= " " && char !== "\u007f")
+    .join("")
+    .trim();
+  return cleaned ? cleaned.slice(0, MAX_TEXT_LENGTH) : undefined;
+};
+
+/** Walks JPEG marker segments up to the start of scan */
+const findJpegBlocks = (bytes: Uint8Array, blocks: MetadataBlocks) => {
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan: no metadata segments follow
+    if (marker === 0xda) break;
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const end = offset + 2 + length;
+    if (length < 2 || end > bytes.length) break;
+    const payload = bytes.subarray(offset + 4, end);
+
+    if (marker === 0xe1 && startsWith(payload, EXIF_HEADER)) {
+      blocks.exif ??= payload.subarray(EXIF_HEADER.length);
+    } else if (marker === 0xe1 && startsWith(payload, XMP_JPEG_HEADER)) {
+      blocks.xmp ??= new TextDecoder().decode(
+        payload.subarray(XMP_JPEG_HEADER.length),
+      );
+    } else if (marker === 0xed && startsWith(payload, PHOTOSHOP_HEADER)) {
+      blocks.iptc ??= findPhotoshopIptc(
+        payload.subarray(PHOTOSHOP_HEADER.length),
+      );
+    } else if (marker === 0xeb && indexOfBytes(payload, C2PA_LABEL) !== -1) {
+      // APP11 carries JUMBF boxes; C2PA manifests are labelled "c2pa"
+      blocks.c2pa = true;
+    }
+    offset = end;
+  }
+};
+
+/** Walks PNG chunks for eXIf, iTXt XMP and caBX (C2PA) */
+const findPngBlocks = (bytes: Uint8Array, blocks: MetadataBlocks) => {
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = view(bytes).getUint32(offset);
+    const end = offset + 12 + length;
+    if (end > bytes.length) break;
+    const type = readAscii(bytes, offset + 4, 4);
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+
+    if (type === "eXIf") {
+      blocks.exif ??= data;
+    } else if (type === "iTXt") {
+      blocks.xmp ??= readPngXmp(data);
+    } else if (type === "caBX") {
+      blocks.c2pa = true;
+    }
+    offset = end;
+  }
+};
+
+/** Reads an uncompressed iTXt chunk if it holds XMP */
+const readPngXmp = (data: Uint8Array): string | undefined => {
+  const keywordEnd = data.indexOf(0);
+  if (keywordEnd === -1 || readAscii(data, 0, keywordEnd) !== PNG_XMP_KEYWORD) {
+    return undefined;
+  }
+  // Compressed XMP would need inflating; Adobe tools write it uncompressed
+  if (data[keywordEnd + 1] !== 0) return undefined;
+
+  let offset = keywordEnd + 3;
+  // Skip the language tag and translated keyword
+  for (let skipped = 0; skipped < 2; skipped += 1) {
+    const end = data.indexOf(0, offset);
+    if (end === -1) return undefined;
+    offset = end + 1;
+  }
+  return new TextDecoder().decode(data.subarray(offset));
+};
+
+/** Walks the RIFF chunks of a WebP file for EXIF, XMP and C2PA */
+const findWebpBlocks = (bytes: Uint8Array, blocks: MetadataBlocks) => {
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const size = view(bytes).getUint32(offset + 4, true);
+    if (offset + 8 + size > bytes.length) break;
+    const fourCC = readAscii(bytes, offset, 4);
+    const data = bytes.subarray(offset + 8, offset + 8 + size);
+
+    if (fourCC === "EXIF") {
+      blocks.exif ??= startsWith(data, EXIF_HEADER)
+        ? data.subarray(EXIF_HEADER.length)
+        : data;
+    } else if (fourCC === "XMP ") {
+      blocks.xmp ??= new TextDecoder().decode(data);
+    } else if (fourCC === "C2PA") {
+      blocks.c2pa = true;
+    }
+    // Chunks are padded to an even size
+    offset += 8 + size + (size % 2);
+  }
+};
+
+/**
+ * Fallback for containers without a dedicated walker (HEIC, AVIF, GIF):
+ * looks for an "Exif\0\0" header followed by TIFF data, an XMP packet and a
+ * JUMBF box labelled "c2pa".
+ */
+const scanForBlocks = (bytes: Uint8Array, blocks: MetadataBlocks) => {
+  if (!blocks.exif) {
+    let index = indexOfBytes(bytes, EXIF_HEADER);
+    while (index !== -1) {
+      const tiff = bytes.subarray(index + EXIF_HEADER.length);
+      if (isTiffHeader(tiff)) {
+        blocks.exif = tiff;
+        break;
+      }
+      index = indexOfBytes(bytes, EXIF_HEADER, index + 1);
+    }
+  }
+
+  if (!blocks.xmp) {
+    const start = indexOfBytes(bytes, XMP_START);
+    const end = start === -1 ? -1 : indexOfBytes(bytes, XMP_END, start);
+    if (end !== -1) {
+      blocks.xmp = new TextDecoder().decode(
+        bytes.subarray(start, end + XMP_END.length),
+      );
+    }
+  }
+
+  if (!blocks.c2pa) {
+    const jumbf = indexOfBytes(bytes, JUMBF_BOX);
+    blocks.c2pa = jumbf !== -1 && indexOfBytes(bytes, C2PA_LABEL, jumbf) !== -1;
+  }
+};
+
+/** Finds the IPTC-IIM resource among Photoshop image resources */
+const findPhotoshopIptc = (data: Uint8Array): Uint8Array | undefined => {
+  let offset = 0;
+  while (offset + 12 <= data.length && readAscii(data, offset, 4) === "8BIM") {
+    const id = view(data).getUint16(offset + 4);
+    // Pascal string name, padded to an even length including its length byte
+    const nameLength = data[offset + 6];
+    const nameSize = nameLength + 1 + ((nameLength + 1) % 2);
+    const sizeOffset = offset + 6 + nameSize;
+    if (sizeOffset + 4 > data.length) return undefined;
+
+    const size = view(data).getUint32(sizeOffset);
+    const start = sizeOffset + 4;
+    if (start + size > data.length) return undefined;
+    if (id === PHOTOSHOP_IPTC_RESOURCE) {
+      return data.subarray(start, start + size);
+    }
+    offset = start + size + (size % 2);
+  }
+  return undefined;
+};
+
+/** Whether the bytes start with an "II*\0" or "MM\0*" TIFF header */
+const isTiffHeader = (bytes: Uint8Array): boolean => {
+  if (bytes.length < 8) return false;
+  const order = readAscii(bytes, 0, 2);
+  if (order !== "II" && order !== "MM") return false;
+  return view(bytes).getUint16(2, order === "II") === 42;
+};
+
+class TiffReader {
+  private readonly data: DataView;
+  private readonly little: boolean;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.data = view(bytes);
+    this.little = readAscii(bytes, 0, 2) === "II";
+  }
+
+  get firstIfdOffset(): number {
+    return this.data.getUint32(4, this.little);
+  }
+
+  /** Reads the entries of the IFD at an offset, keyed by tag */
+  readIfd(offset: number): Map<number, TiffEntry> {
+    const entries = new Map<number, TiffEntry>();
+    if (offset < 8 || offset + 2 > this.bytes.length) return entries;
+
+    const count = Math.min(
+      this.data.getUint16(offset, this.little),
+      MAX_IFD_ENTRIES,
+    );
+    for (let i = 0; i < count; i += 1) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > this.bytes.length) break;
+
+      const type = this.data.getUint16(entry + 2, this.little);
+      const valueCount = this.data.getUint32(entry + 4, this.little);
+      const size = (TIFF_TYPE_SIZES[type] ?? 0) * valueCount;
+      if (size === 0) continue;
+
+      // Values of up to 4 bytes are stored inline
+      const valueOffset =
+        size <= 4 ? entry + 8 : this.data.getUint32(entry + 8, this.little);
+      if (valueOffset + size > this.bytes.length) continue;
+
+      entries.set(this.data.getUint16(entry, this.little), {
+        type,
+        count: valueCount,
+        offset: valueOffset,
+      });
+    }
+    return entries;
+  }
+
+  string(entry: TiffEntry | undefined): string | undefined {
+    if (!entry || (entry.type !== 2 && entry.type !== 7)) return undefined;
+    const raw = this.bytes.subarray(entry.offset, entry.offset + entry.count);
+    const end = raw.indexOf(0);
+    return cleanText(
+      new TextDecoder().decode(end === -1 ? raw : raw.subarray(0, end)),
+    );
+  }
+
+  numbers(entry: TiffEntry | undefined): number[] {
+    if (!entry) return [];
+    const values: number[] = [];
+    for (let i = 0; i < entry.count; i += 1) {
+      const at = entry.offset + i * TIFF_TYPE_SIZES[entry.type];
+      switch (entry.type) {
+        case 1:
+        case 7:
+          values.push(this.bytes[at]);
+          break;
+        case 3:
+          values.push(this.data.getUint16(at, this.little));
+          break;
+        case 4:
+          values.push(this.data.getUint32(at, this.little));
+          break;
+        case 9:
+          values.push(this.data.getInt32(at, this.little));
+          break;
+        case 5:
+          values.push(
+            this.data.getUint32(at, this.little) /
+              this.data.getUint32(at + 4, this.little),
+          );
+          break;
+        case 10:
+          values.push(
+            this.data.getInt32(at, this.little) /
+              this.data.getInt32(at + 4, this.little),
+          );
+          break;
+        default:
+          return [];
+      }
+    }
+    return values;
+  }
+}
+
+/** "2024:05:01 14:03:22" => "2024-05-01T14:03:22" */
+const formatExifDate = (
+  value: string | undefined,
+  offset?: string,
+): string | undefined => {
+  const match = value?.match(
+    /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/,
+  );
+  if (!match || match[1] === "0000") return undefined;
+  const [, year, month, day, hour, minute, second] = match;
+  const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : "";
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`;
+};
+
+const toDegrees = (
+  [degrees, minutes = 0, seconds = 0]: number[],
+  ref: string | undefined,
+  limit: number,
+): number | undefined => {
+  const value = degrees + minutes / 60 + seconds / 3600;
+  if (!Number.isFinite(value) || value > limit) return undefined;
+  const signed = ref === "S" || ref === "W" ? -value : value;
+  return Math.round(signed * 1e6) / 1e6;
+};
+
+const parseGps = (
+  reader: TiffReader,
+  offset: number,
+): GpsCoordinates | undefined => {
+  const gps = reader.readIfd(offset);
+  const latitude = toDegrees(
+    reader.numbers(gps.get(GPS_TAGS.latitude)),
+    reader.string(gps.get(GPS_TAGS.latitudeRef)),
+    90,
+  );
+  const longitude = toDegrees(
+    reader.numbers(gps.get(GPS_TAGS.longitude)),
+    reader.string(gps.get(GPS_TAGS.longitudeRef)),
+    180,
+  );
+  if (latitude === undefined || longitude === undefined) return undefined;
+
+  const [altitude] = reader.numbers(gps.get(GPS_TAGS.altitude));
+  const [belowSeaLevel] = reader.numbers(gps.get(GPS_TAGS.altitudeRef));
+  return {
+    latitude,
+    longitude,
+    ...(Number.isFinite(altitude) && {
+      altitude: Math.round((belowSeaLevel === 1 ? -altitude : altitude) * 10) / 10,
+    }),
+  };
+};
+
+/** Reads camera, capture and GPS fields from TIFF-structured EXIF data */
+const parseExif = (tiff: Uint8Array): MetadataFields => {
+  if (!isTiffHeader(tiff)) return {};
+
+  const reader = new TiffReader(tiff);
+  const ifd0 = reader.readIfd(reader.firstIfdOffset);
+  const [exifOffset] = reader.numbers(ifd0.get(TIFF_TAGS.exifIfd));
+  const [gpsOffset] = reader.numbers(ifd0.get(TIFF_TAGS.gpsIfd));
+  const exif = exifOffset ? reader.readIfd(exifOffset) : new Map();
+
+  return {
+    make: reader.string(ifd0.get(TIFF_TAGS.make)),
+    model: reader.string(ifd0.get(TIFF_TAGS.model)),
+    lens: reader.string(exif.get(TIFF_TAGS.lensModel)),
+    capturedAt:
+      formatExifDate(
+        reader.string(exif.get(TIFF_TAGS.dateTimeOriginal)),
+        reader.string(exif.get(TIFF_TAGS.offsetTimeOriginal)),
+      ) ?? formatExifDate(reader.string(ifd0.get(TIFF_TAGS.dateTime))),
+    software: reader.string(ifd0.get(TIFF_TAGS.software)),
+    creator: reader.string(ifd0.get(TIFF_TAGS.artist)),
+    copyright: reader.string(ifd0.get(TIFF_TAGS.copyright)),
+    gps: gpsOffset ? parseGps(reader, gpsOffset) : undefined,
+  };
+};
+
+/** Reads authorship fields from IPTC-IIM datasets */
+const parseIptc = (data: Uint8Array): MetadataFields => {
+  const values = new Map<number, string>();
+  let offset = 0;
+
+  while (offset + 5 <= data.length && data[offset] === 0x1c) {
+    const record = data[offset + 1];
+    const dataset = data[offset + 2];
+    const size = view(data).getUint16(offset + 3);
+    // Extended (>32 KB) datasets never hold the short fields read here
+    if (size & 0x8000) break;
+
+    const start = offset + 5;
+    if (start + size > data.length) break;
+    if (record === 2 && !values.has(dataset)) {
+      values.set(dataset, new TextDecoder().decode(data.subarray(start, start + size)));
+    }
+    offset = start + size;
+  }
+
+  const date = values.get(IPTC_DATASETS.dateCreated)?.match(/^(\d{4})(\d{2})(\d{2})$/);
+  return {
+    creator: cleanText(values.get(IPTC_DATASETS.byline)),
+    copyright: cleanText(values.get(IPTC_DATASETS.copyright)),
+    software: cleanText(values.get(IPTC_DATASETS.originatingProgram)),
+    capturedAt: date ? `${date[1]}-${date[2]}-${date[3]}` : undefined,
+  };
+};
+
+const decodeXmlEntities = (value: string) =>
+  value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) =>
+      String.fromCodePoint(Number(code)),
+    )
+    .replace(/&amp;/g, "&");
+
+/**
+ * Reads a property written either as an attribute (`tiff:Make="..."`) or an
+ * element, taking the first `rdf:li` of Seq/Bag/Alt containers.
+ */
+const xmpValue = (xmp: string, name: string): string | undefined => {
+  const attribute = xmp.match(new RegExp(`\\s${name}="([^"]*)"`));
+  if (attribute) return cleanText(decodeXmlEntities(attribute[1]));
+
+  const element = xmp.match(
+    new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`),
+  );
+  if (!element) return undefined;
+
+  const item = element[1].match(/<rdf:li(?:\s[^>]*)?>([\s\S]*?)<\/rdf:li>/);
+  const text = (item ? item[1] : element[1]).replace(/<[^>]*>/g, "");
+  return cleanText(decodeXmlEntities(text));
+};
+
+/** XMP GPS coordinates look like "37,46.5123N" or "37,46,30.7N" */
+const parseXmpCoordinate = (
+  value: string | undefined,
+  limit: number,
+): number | undefined => {
+  const match = value?.match(/^(\d+),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?([NSEW])$/);
+  if (!match) return undefined;
+  return toDegrees(
+    [Number(match[1]), Number(match[2]), Number(match[3] ?? 0)],
+    match[4],
+    limit,
+  );
+};
+
+/** Reads camera, capture, GPS and authorship properties from an XMP packet */
+const parseXmp = (xmp: string): MetadataFields => {
+  const latitude = parseXmpCoordinate(xmpValue(xmp, "exif:GPSLatitude"), 90);
+  const longitude = parseXmpCoordinate(xmpValue(xmp, "exif:GPSLongitude"), 180);
+  const date =
+    xmpValue(xmp, "exif:DateTimeOriginal") ??
+    xmpValue(xmp, "photoshop:DateCreated") ??
+    xmpValue(xmp, "xmp:CreateDate");
+
+  return {
+    make: xmpValue(xmp, "tiff:Make"),
+    model: xmpValue(xmp, "tiff:Model"),
+    lens: xmpValue(xmp, "aux:Lens") ?? xmpValue(xmp, "exifEX:LensModel"),
+    capturedAt: date?.match(/^\d{4}-\d{2}-\d{2}/) ? date : undefined,
+    software: xmpValue(xmp, "xmp:CreatorTool"),
+    creator: xmpValue(xmp, "dc:creator"),
+    copyright: xmpValue(xmp, "dc:rights"),
+    gps:
+      latitude !== undefined && longitude !== undefined
+        ? { latitude, longitude }
+        : undefined,
+  };
+};
+
+/** Locates the metadata blocks using the container's own structure */
+const findBlocks = (bytes: Uint8Array): MetadataBlocks => {
+  const blocks: MetadataBlocks = { c2pa: false };
+
+  try {
+    switch (detectImageType(bytes)) {
+      case "image/jpeg":
+        findJpegBlocks(bytes, blocks);
+        break;
+      case "image/png":
+        findPngBlocks(bytes, blocks);
+        break;
+      case "image/webp":
+        findWebpBlocks(bytes, blocks);
+        break;
+      case "image/tiff":
+        blocks.exif = bytes;
+        break;
+      case "image/svg+xml":
+        // Text formats carry no binary metadata blocks
+        return blocks;
+      default:
+        scanForBlocks(bytes, blocks);
+    }
+  } catch {
+    // Malformed containers yield whatever was found before the damage
+  }
+
+  return blocks;
+};
+
+/**
+ * Extracts camera, capture, location and authorship metadata from an image.
+ *
+ * When several blocks record the same field, EXIF wins over XMP, and XMP
+ * over IPTC.
+ *
+ * @param bytes - The complete image file
+ * @returns The metadata found; fields the file does not record are omitted
+ *
+ * @example
+ * ```ts
+ * const metadata = extractImageMetadata(new Uint8Array(await file.arrayBuffer()));
+ * if (metadata.gps) {
+ *   console.warn("This photo reveals where it was taken");
+ * }
+ * ```
+ */
+export const extractImageMetadata = (bytes: Uint8Array): ImageMetadata => {
+  const blocks = findBlocks(bytes);
+  const parse = <T>(block: T | undefined, parser: (block: T) => MetadataFields) => {
+    if (block === undefined) return {};
+    try {
+      return parser(block);
+    } catch {
+      return {};
+    }
+  };
+
+  // Lowest priority first so that later spreads win
+  const layers = [
+    parse(blocks.iptc, parseIptc),
+    parse(blocks.xmp, parseXmp),
+    parse(blocks.exif, parseExif),
+  ];
+  const fields: MetadataFields = {};
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      if (value !== undefined) {
+        (fields as Record<string, unknown>)[key] = value;
+      }
+    }
+  }
+
+  return {
+    sources: {
+      exif: Boolean(blocks.exif),
+      iptc: Boolean(blocks.iptc),
+      xmp: Boolean(blocks.xmp),
+      c2pa: blocks.c2pa,
+    },
+    ...fields,
+  };
+};
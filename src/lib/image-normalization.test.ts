@@ -0,0 +1,244 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_NORMALIZE_MAX_DIMENSION,
+  getNormalizationConfig,
+  normalizeImage,
+  stripImageMetadata,
+} from "./image-normalization";
+import { createMockEnv } from "@/test/setup";
+
+vi.mock("@cloudflare/next-on-pages", () => ({
+  getRequestContext: vi.fn(),
+}));
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+
+const jpegSegment = (marker: number, payload: number[]) => [
+  0xff,
+  marker,
+  (payload.length + 2) >> 8,
+  (payload.length + 2) & 0xff,
+  ...payload,
+];
+
+const JPEG_WITH_EXIF = new Uint8Array([
+  0xff, 0xd8,
+  ...jpegSegment(0xe0, ascii("JFIF\0")),
+  ...jpegSegment(0xe1, ascii("Exif\0\0GPS-DATA")),
+  ...jpegSegment(0xed, ascii("Photoshop 3.0\0")),
+  ...jpegSegment(0xdb, [0, 1, 2, 3]),
+  ...jpegSegment(0xda, [0, 1]),
+  0x12, 0x34, 0xff, 0x00, 0x56,
+  0xff, 0xd9,
+]);
+
+const pngChunk = (type: string, data: number[]) => [
+  0, 0, 0, data.length,
+  ...ascii(type),
+  ...data,
+  0, 0, 0, 0, // CRC (not checked)
+];
+
+const PNG_WITH_TEXT = new Uint8Array([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+  ...pngChunk("IHDR", new Array(13).fill(1)),
+  ...pngChunk("tEXt", ascii("Author\0Me")),
+  ...pngChunk("eXIf", ascii("GPS")),
+  ...pngChunk("IDAT", [9, 9, 9]),
+  ...pngChunk("IEND", []),
+]);
+
+const webpChunk = (fourCC: string, data: number[]) => [
+  ...ascii(fourCC),
+  data.length & 0xff, 0, 0, 0,
+  ...data,
+  ...(data.length % 2 ? [0] : []),
+];
+
+const webpFile = (chunks: number[]) => [
+  ...ascii("RIFF"),
+  (chunks.length + 4) & 0xff, (chunks.length + 4) >> 8, 0, 0,
+  ...ascii("WEBP"),
+  ...chunks,
+];
+
+const WEBP_WITH_EXIF = new Uint8Array(
+  webpFile([
+    ...webpChunk("VP8X", [0x0c, 0, 0, 0, 1, 0, 0, 1, 0, 0]),
+    ...webpChunk("VP8 ", [7, 7, 7, 7]),
+    ...webpChunk("EXIF", ascii("GPS")),
+    ...webpChunk("XMP ", ascii("<x/>")),
+  ]),
+);
+
+/** Fake Images binding that returns fixed output bytes */
+const createImagesBinding = (output: Uint8Array<ArrayBuffer>) => {
+  const transforms: ImageTransform[] = [];
+  const outputs: ImageOutputOptions[] = [];
+  const transformer: ImageTransformer = {
+    transform: (transform) => {
+      transforms.push(transform);
+      return transformer;
+    },
+    draw: () => transformer,
+    output: async (options) => {
+      outputs.push(options);
+      return {
+        response: () => new Response(output),
+        contentType: () => options.format,
+        image: () => new Response(output).body!,
+      };
+    },
+  };
+  const binding = {
+    info: vi.fn(),
+    input: vi.fn(() => transformer),
+  } as unknown as ImagesBinding;
+  return { binding, transforms, outputs };
+};
+
+describe("getNormalizationConfig", () => {
+  const images = {} as ImagesBinding;
+
+  it("is disabled unless UPLOAD_NORMALIZE is true", () => {
+    expect(
+      getNormalizationConfig({ ...createMockEnv(), IMAGES: images }),
+    ).toBeNull();
+  });
+
+  it("is disabled without the IMAGES binding", () => {
+    expect(
+      getNormalizationConfig({ ...createMockEnv(), UPLOAD_NORMALIZE: "true" }),
+    ).toBeNull();
+  });
+
+  it("uses the configured maximum dimension", () => {
+    expect(
+      getNormalizationConfig({
+        ...createMockEnv(),
+        IMAGES: images,
+        UPLOAD_NORMALIZE: "true",
+        UPLOAD_MAX_DIMENSION: "1024",
+      }),
+    ).toEqual({ maxDimension: 1024 });
+  });
+
+  it("falls back to the default for invalid dimensions", () => {
+    expect(
+      getNormalizationConfig({
+        ...createMockEnv(),
+        IMAGES: images,
+        UPLOAD_NORMALIZE: "true",
+        UPLOAD_MAX_DIMENSION: "huge",
+      }),
+    ).toEqual({ maxDimension: DEFAULT_NORMALIZE_MAX_DIMENSION });
+  });
+});
+
+describe("stripImageMetadata", () => {
+  it("removes EXIF and IPTC segments from JPEGs", () => {
+    const stripped = stripImageMetadata(JPEG_WITH_EXIF, "image/jpeg");
+    const text = String.fromCharCode(...stripped);
+
+    expect(text).not.toContain("Exif");
+    expect(text).not.toContain("Photoshop");
+    expect(text).toContain("JFIF");
+    // Scan data after SOS is untouched
+    expect(Array.from(stripped.slice(-7))).toEqual([
+      0x12, 0x34, 0xff, 0x00, 0x56, 0xff, 0xd9,
+    ]);
+  });
+
+  it("removes text and EXIF chunks from PNGs", () => {
+    const stripped = stripImageMetadata(PNG_WITH_TEXT, "image/png");
+    const text = String.fromCharCode(...stripped);
+
+    expect(text).not.toContain("tEXt");
+    expect(text).not.toContain("eXIf");
+    expect(text).toContain("IHDR");
+    expect(text).toContain("IDAT");
+    expect(text).toContain("IEND");
+  });
+
+  it("removes EXIF and XMP chunks from WebPs and clears their flags", () => {
+    const stripped = stripImageMetadata(WEBP_WITH_EXIF, "image/webp");
+    const view = new DataView(stripped.buffer);
+    const text = String.fromCharCode(...stripped);
+
+    expect(text).not.toContain("EXIF");
+    expect(text).not.toContain("XMP ");
+    expect(view.getUint32(4, true)).toBe(stripped.length - 8);
+    // VP8X flags byte follows the chunk header
+    expect(stripped[20] & 0x0c).toBe(0);
+  });
+
+  it("rejects malformed JPEGs", () => {
+    expect(() =>
+      stripImageMetadata(
+        new Uint8Array([0xff, 0xd8, 0xff, 0xe1, 0xff, 0xff]),
+        "image/jpeg",
+      ),
+    ).toThrow("Malformed JPEG");
+  });
+
+  it("leaves GIFs unchanged", () => {
+    const gif = new Uint8Array(ascii("GIF89a..."));
+    expect(stripImageMetadata(gif, "image/gif")).toBe(gif);
+  });
+});
+
+describe("normalizeImage", () => {
+  it("scales down, re-encodes in the same format and strips metadata", async () => {
+    const { binding, transforms, outputs } =
+      createImagesBinding(JPEG_WITH_EXIF);
+
+    const normalized = await normalizeImage(
+      binding,
+      JPEG_WITH_EXIF,
+      "image/jpeg",
+      { maxDimension: 1024 },
+    );
+
+    expect(transforms).toEqual([
+      { width: 1024, height: 1024, fit: "scale-down" },
+    ]);
+    expect(outputs[0]).toMatchObject({ format: "image/jpeg" });
+    expect(normalized.type).toBe("image/jpeg");
+    expect(String.fromCharCode(...normalized.bytes)).not.toContain("Exif");
+  });
+
+  it("converts formats search providers reject", async () => {
+    const { binding, outputs } = createImagesBinding(PNG_WITH_TEXT);
+    const svg = new TextEncoder().encode("<svg></svg>");
+
+    const normalized = await normalizeImage(binding, svg, "image/svg+xml", {
+      maxDimension: 1024,
+    });
+
+    expect(outputs[0]).toMatchObject({ format: "image/png" });
+    expect(normalized.type).toBe("image/png");
+    expect(String.fromCharCode(...normalized.bytes)).not.toContain("tEXt");
+  });
+
+  it("stores GIFs as received", async () => {
+    const { binding } = createImagesBinding(new Uint8Array());
+    const gif = new Uint8Array(ascii("GIF89a..."));
+
+    const normalized = await normalizeImage(binding, gif, "image/gif", {
+      maxDimension: 1024,
+    });
+
+    expect(normalized.bytes).toBe(gif);
+    expect(binding.input).not.toHaveBeenCalled();
+  });
+
+  it("rejects output in an unexpected format", async () => {
+    const { binding } = createImagesBinding(PNG_WITH_TEXT);
+
+    await expect(
+      normalizeImage(binding, JPEG_WITH_EXIF, "image/jpeg", {
+        maxDimension: 1024,
+      }),
+    ).rejects.toThrow("unexpected format");
+  });
+});
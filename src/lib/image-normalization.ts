@@ -0,0 +1,287 @@
+/**
+ * Server-side image normalization for uploads
+ *
+ * Decodes uploads with the Cloudflare Images binding, applies EXIF
+ * orientation, downsizes them to a configured maximum dimension and
+ * re-encodes them in their original format. Metadata segments (EXIF, XMP,
+ * IPTC, text chunks) are then stripped from the encoded bytes so location
+ * data never reaches storage even if the encoder kept any of it.
+ *
+ * Formats search providers do not accept (AVIF, HEIC, BMP, TIFF, SVG) go
+ * through the same pipeline and come out as JPEG, or PNG for SVG. SVGs are
+ * only ever stored rasterized, so scripts and external references in the
+ * markup never reach the public bucket.
+ *
+ * Normalized copies of the same photo hash identically more often than the
+ * originals, which makes hash-keyed cache hits more consistent.
+ */
+
+import type { AppEnv } from "@/lib/cf-env";
+import {
+  detectImageType,
+  searchableTypeFor,
+  type ImageMimeType,
+} from "@/lib/image";
+import { createLogger } from "@/lib/logger";
+
+const logger = createLogger("image-normalization");
+
+/** Default longest edge of normalized images, in pixels */
+export const DEFAULT_NORMALIZE_MAX_DIMENSION = 2048;
+
+/** Largest accepted UPLOAD_MAX_DIMENSION */
+const MAX_NORMALIZE_DIMENSION = 8192;
+
+/** Re-encoding quality for lossy formats (1-100) */
+const NORMALIZE_QUALITY = 85;
+
+/** JPEG markers whose segments carry metadata (APP1 EXIF/XMP, APP13 IPTC, COM) */
+const JPEG_METADATA_MARKERS = new Set([0xe1, 0xed, 0xfe]);
+
+/** JPEG start-of-scan marker: entropy-coded data follows */
+const JPEG_SOS_MARKER = 0xda;
+
+/** PNG chunks that carry metadata */
+const PNG_METADATA_CHUNKS = new Set(["eXIf", "tEXt", "iTXt", "zTXt", "tIME"]);
+
+/** WebP chunks that carry metadata */
+const WEBP_METADATA_CHUNKS = new Set(["EXIF", "XMP "]);
+
+/** VP8X feature flags announcing EXIF (0x08) and XMP (0x04) chunks */
+const WEBP_METADATA_FLAGS = 0x08 | 0x04;
+
+/**
+ * Normalization settings
+ */
+export type NormalizationConfig = {
+  /** Longest edge of the normalized image, in pixels */
+  maxDimension: number;
+};
+
+/**
+ * A normalized image ready for storage
+ */
+export type NormalizedImage = {
+  bytes: Uint8Array;
+  type: ImageMimeType;
+};
+
+/**
+ * Reads the normalization settings for uploads.
+ *
+ * @returns The settings, or null when UPLOAD_NORMALIZE is not "true" or the
+ *   IMAGES binding is missing (uploads are then stored as received)
+ */
+export const getNormalizationConfig = (
+  env: AppEnv,
+): NormalizationConfig | null => {
+  if (env.UPLOAD_NORMALIZE !== "true") {
+    return null;
+  }
+  if (!env.IMAGES) {
+    logger.warn("UPLOAD_NORMALIZE is set but the IMAGES binding is missing");
+    return null;
+  }
+
+  const raw = env.UPLOAD_MAX_DIMENSION;
+  if (!raw) {
+    return { maxDimension: DEFAULT_NORMALIZE_MAX_DIMENSION };
+  }
+
+  const maxDimension = Number(raw);
+  if (
+    !Number.isInteger(maxDimension) ||
+    maxDimension < 1 ||
+    maxDimension > MAX_NORMALIZE_DIMENSION
+  ) {
+    logger.warn("Invalid UPLOAD_MAX_DIMENSION, using default", {
+      value: raw,
+      default: DEFAULT_NORMALIZE_MAX_DIMENSION,
+    });
+    return { maxDimension: DEFAULT_NORMALIZE_MAX_DIMENSION };
+  }
+
+  return { maxDimension };
+};
+
+const readUint32 = (bytes: Uint8Array, offset: number): number =>
+  new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(
+    offset,
+  );
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const output = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+const stripJpegMetadata = (bytes: Uint8Array): Uint8Array => {
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      throw new Error("Malformed JPEG segment");
+    }
+    const marker = bytes[offset + 1];
+    if (marker === JPEG_SOS_MARKER) {
+      break;
+    }
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const end = offset + 2 + length;
+    if (length < 2 || end > bytes.length) {
+      throw new Error("Malformed JPEG segment");
+    }
+    if (!JPEG_METADATA_MARKERS.has(marker)) {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  parts.push(bytes.subarray(offset));
+  return concatBytes(parts);
+};
+
+const stripPngMetadata = (bytes: Uint8Array): Uint8Array => {
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  let offset = 8;
+
+  while (offset + 12 <= bytes.length) {
+    const length = readUint32(bytes, offset);
+    const end = offset + 12 + length;
+    if (end > bytes.length) {
+      throw new Error("Malformed PNG chunk");
+    }
+    if (!PNG_METADATA_CHUNKS.has(readAscii(bytes, offset + 4, 4))) {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  return concatBytes(parts);
+};
+
+const stripWebpMetadata = (bytes: Uint8Array): Uint8Array => {
+  const parts: Uint8Array[] = [];
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const size = new DataView(
+      bytes.buffer,
+      bytes.byteOffset,
+      bytes.byteLength,
+    ).getUint32(offset + 4, true);
+    // Chunks are padded to an even size
+    const end = offset + 8 + size + (size % 2);
+    if (offset + 8 + size > bytes.length) {
+      throw new Error("Malformed WebP chunk");
+    }
+
+    const fourCC = readAscii(bytes, offset, 4);
+    if (!WEBP_METADATA_CHUNKS.has(fourCC)) {
+      const chunk = bytes.slice(offset, Math.min(end, bytes.length));
+      if (fourCC === "VP8X") {
+        chunk[8] &= ~WEBP_METADATA_FLAGS;
+      }
+      parts.push(chunk);
+    }
+    offset = end;
+  }
+
+  const body = concatBytes(parts);
+  const header = bytes.slice(0, 12);
+  new DataView(header.buffer).setUint32(4, body.length + 4, true);
+  return concatBytes([header, body]);
+};
+
+/**
+ * Removes metadata (EXIF, XMP, IPTC, comments, text chunks) from an encoded
+ * image without re-encoding it. GIFs are returned unchanged.
+ *
+ * Orientation is metadata too, so only strip images that are already
+ * upright (e.g. the output of `normalizeImage`).
+ *
+ * @throws Error when the image structure is malformed
+ *
+ * @example
+ * ```ts
+ * const clean = stripImageMetadata(bytes, "image/jpeg");
+ * ```
+ */
+export const stripImageMetadata = (
+  bytes: Uint8Array,
+  type: ImageMimeType,
+): Uint8Array => {
+  switch (type) {
+    case "image/jpeg":
+      return stripJpegMetadata(bytes);
+    case "image/png":
+      return stripPngMetadata(bytes);
+    case "image/webp":
+      return stripWebpMetadata(bytes);
+    default:
+      return bytes;
+  }
+};
+
+/**
+ * Normalizes an uploaded image: applies EXIF orientation, scales it down to
+ * fit `maxDimension`, re-encodes it and strips metadata. Searchable formats
+ * keep their format; others are converted (see `searchableTypeFor`).
+ *
+ * GIFs are stored as received so animations survive (they carry no EXIF).
+ *
+ * @param images - The Cloudflare Images binding
+ * @param bytes - The uploaded image
+ * @param type - The detected type of the upload
+ * @param config - Settings from `getNormalizationConfig`
+ * @throws Error when the image cannot be decoded or re-encoded
+ *
+ * @example
+ * ```ts
+ * const config = getNormalizationConfig(env);
+ * if (config && env.IMAGES) {
+ *   const normalized = await normalizeImage(env.IMAGES, bytes, type, config);
+ * }
+ * ```
+ */
+export const normalizeImage = async (
+  images: ImagesBinding,
+  bytes: Uint8Array,
+  type: ImageMimeType,
+  config: NormalizationConfig,
+): Promise<NormalizedImage> => {
+  if (type === "image/gif") {
+    return { bytes, type };
+  }
+
+  const outputType = searchableTypeFor(type);
+
+  const result = await images
+    .input(new Blob([bytes.slice()]).stream())
+    .transform({
+      width: config.maxDimension,
+      height: config.maxDimension,
+      fit: "scale-down",
+    })
+    .output({ format: outputType, quality: NORMALIZE_QUALITY });
+
+  const encoded = new Uint8Array(
+    await new Response(result.image()).arrayBuffer(),
+  );
+  if (detectImageType(encoded) !== outputType) {
+    throw new Error("Image normalization produced an unexpected format");
+  }
+
+  return { bytes: stripImageMetadata(encoded, outputType), type: outputType };
+};
@@ -1,5 +1,35 @@
 import { describe, expect, it } from "vitest";
-import { detectImageType, extensionForType } from "@/lib/image";
+import {
+  canonicalImageType,
+  detectImageType,
+  extensionForType,
+  isSearchableImageType,
+  searchableTypeFor,
+} from "@/lib/image";
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+
+/** Builds an ISO-BMFF ftyp box with the given major and compatible brands */
+const ftypBox = (major: string, compatible: string[]) => {
+  const size = 16 + compatible.length * 4;
+  return new Uint8Array([
+    0, 0, 0, size,
+    ...ascii("ftyp"),
+    ...ascii(major),
+    0, 0, 0, 0,
+    ...compatible.flatMap(ascii),
+  ]);
+};
+
+/** Builds a BMP file header followed by a DIB header of the given size */
+const bmpHeader = (dibHeaderSize: number) => {
+  const bytes = new Uint8Array(18);
+  bytes.set(ascii("BM"));
+  new DataView(bytes.buffer).setUint32(14, dibHeaderSize, true);
+  return bytes;
+};
+
+const encode = (text: string) => new TextEncoder().encode(text);
 
 describe("detectImageType", () => {
   describe("PNG detection", () => {
@@ -76,6 +106,84 @@ describe("detectImageType", () => {
     });
   });
 
+  describe("AVIF and HEIC detection", () => {
+    it("detects AVIF from its major brand", () => {
+      expect(detectImageType(ftypBox("avif", ["mif1", "miaf"]))).toBe(
+        "image/avif",
+      );
+    });
+
+    it("detects AVIF from a compatible brand", () => {
+      expect(detectImageType(ftypBox("mif1", ["avif", "miaf"]))).toBe(
+        "image/avif",
+      );
+    });
+
+    it("detects HEIC from its major brand", () => {
+      expect(detectImageType(ftypBox("heic", ["mif1", "heic"]))).toBe(
+        "image/heic",
+      );
+    });
+
+    it("detects generic HEIF as HEIC", () => {
+      expect(detectImageType(ftypBox("mif1", ["heix"]))).toBe("image/heic");
+    });
+
+    it("ignores other ISO-BMFF files such as MP4 video", () => {
+      expect(detectImageType(ftypBox("isom", ["iso2", "mp41"]))).toBeNull();
+    });
+  });
+
+  describe("BMP detection", () => {
+    it("detects BMP with a BITMAPINFOHEADER", () => {
+      expect(detectImageType(bmpHeader(40))).toBe("image/bmp");
+    });
+
+    it("detects BMP with a BITMAPV5HEADER", () => {
+      expect(detectImageType(bmpHeader(124))).toBe("image/bmp");
+    });
+
+    it("does not treat other data starting with BM as BMP", () => {
+      expect(detectImageType(encode("BMW owners club newsletter"))).toBeNull();
+    });
+  });
+
+  describe("TIFF detection", () => {
+    it("detects little-endian TIFF", () => {
+      const tiffBytes = new Uint8Array([0x49, 0x49, 0x2a, 0x00, 0x08, 0x00]);
+      expect(detectImageType(tiffBytes)).toBe("image/tiff");
+    });
+
+    it("detects big-endian TIFF", () => {
+      const tiffBytes = new Uint8Array([0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x08]);
+      expect(detectImageType(tiffBytes)).toBe("image/tiff");
+    });
+  });
+
+  describe("SVG detection", () => {
+    it("detects a bare svg element", () => {
+      expect(
+        detectImageType(encode('<svg xmlns="http://www.w3.org/2000/svg"/>')),
+      ).toBe("image/svg+xml");
+    });
+
+    it("detects SVG after an XML declaration, comment and doctype", () => {
+      const svg = [
+        "\uFEFF<?xml version=\"1.0\" encoding=\"UTF-8\"?>",
+        "<!-- Generator: Example -->",
+        '<!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.1//EN" "svg11.dtd">',
+        "<svg viewBox=\"0 0 10 10\"></svg>",
+      ].join("\n");
+      expect(detectImageType(encode(svg))).toBe("image/svg+xml");
+    });
+
+    it("does not treat HTML containing an svg as SVG", () => {
+      expect(
+        detectImageType(encode("<html><body><svg></svg></body></html>")),
+      ).toBeNull();
+    });
+  });
+
   describe("Edge cases", () => {
     it("returns null for empty array", () => {
       const emptyBytes = new Uint8Array([]);
@@ -145,6 +253,14 @@ describe("extensionForType", () => {
     expect(extensionForType("image/webp")).toBe("webp");
   });
 
+  it("maps the newer formats to their extensions", () => {
+    expect(extensionForType("image/avif")).toBe("avif");
+    expect(extensionForType("image/heic")).toBe("heic");
+    expect(extensionForType("image/bmp")).toBe("bmp");
+    expect(extensionForType("image/tiff")).toBe("tif");
+    expect(extensionForType("image/svg+xml")).toBe("svg");
+  });
+
   it("returns 'bin' for unknown mime type", () => {
     expect(extensionForType("image/unknown")).toBe("bin");
   });
@@ -158,3 +274,32 @@ describe("extensionForType", () => {
     expect(extensionForType("text/plain")).toBe("bin");
   });
 });
+
+describe("canonicalImageType", () => {
+  it("resolves aliases to the detected type", () => {
+    expect(canonicalImageType("image/heif")).toBe("image/heic");
+    expect(canonicalImageType("image/x-ms-bmp")).toBe("image/bmp");
+    expect(canonicalImageType("image/jpg")).toBe("image/jpeg");
+  });
+
+  it("normalizes case and whitespace", () => {
+    expect(canonicalImageType(" IMAGE/PNG ")).toBe("image/png");
+  });
+});
+
+describe("searchableTypeFor", () => {
+  it("keeps formats search providers accept", () => {
+    expect(isSearchableImageType("image/webp")).toBe(true);
+    expect(searchableTypeFor("image/webp")).toBe("image/webp");
+    expect(searchableTypeFor("image/gif")).toBe("image/gif");
+  });
+
+  it("converts photos to JPEG and SVG to PNG", () => {
+    expect(isSearchableImageType("image/heic")).toBe(false);
+    expect(searchableTypeFor("image/heic")).toBe("image/jpeg");
+    expect(searchableTypeFor("image/avif")).toBe("image/jpeg");
+    expect(searchableTypeFor("image/tiff")).toBe("image/jpeg");
+    expect(searchableTypeFor("image/bmp")).toBe("image/jpeg");
+    expect(searchableTypeFor("image/svg+xml")).toBe("image/png");
+  });
+});
@@ -6,10 +6,36 @@
  */
 
 /** Supported image MIME types */
-export type ImageMimeType = "image/png" | "image/jpeg" | "image/gif" | "image/webp";
+export type ImageMimeType =
+  | "image/png"
+  | "image/jpeg"
+  | "image/gif"
+  | "image/webp"
+  | "image/avif"
+  | "image/heic"
+  | "image/bmp"
+  | "image/tiff"
+  | "image/svg+xml";
+
+/** Image types that search providers (DataForSEO) accept as-is */
+export type SearchableImageType =
+  | "image/png"
+  | "image/jpeg"
+  | "image/gif"
+  | "image/webp";
 
 /** File extension mapping for supported image types */
-export type ImageExtension = "png" | "jpg" | "gif" | "webp" | "bin";
+export type ImageExtension =
+  | "png"
+  | "jpg"
+  | "gif"
+  | "webp"
+  | "avif"
+  | "heic"
+  | "bmp"
+  | "tif"
+  | "svg"
+  | "bin";
 
 /**
  * Magic byte signatures for supported image formats.
@@ -28,11 +54,66 @@ const IMAGE_SIGNATURES = {
   RIFF: [0x52, 0x49, 0x46, 0x46] as const,
   /** WebP identifier at offset 8: 57 45 42 50 */
   WEBP: [0x57, 0x45, 0x42, 0x50] as const,
+  /** ISO-BMFF file type box at offset 4: "ftyp" */
+  FTYP: [0x66, 0x74, 0x79, 0x70] as const,
+  /** BMP: "BM" */
+  BMP: [0x42, 0x4d] as const,
+  /** TIFF, little-endian: "II" 2A 00 */
+  TIFF_LE: [0x49, 0x49, 0x2a, 0x00] as const,
+  /** TIFF, big-endian: "MM" 00 2A */
+  TIFF_BE: [0x4d, 0x4d, 0x00, 0x2a] as const,
 } as const;
 
 /** Offset where WebP signature appears within RIFF container */
 const WEBP_SIGNATURE_OFFSET = 8;
 
+/** Offset of the "ftyp" box type in ISO-BMFF files (after the box size) */
+const FTYP_SIGNATURE_OFFSET = 4;
+
+/** ftyp brands identifying AVIF images and sequences */
+const AVIF_BRANDS = new Set(["avif", "avis"]);
+
+/** ftyp brands identifying HEIC/HEIF images and sequences */
+const HEIC_BRANDS = new Set([
+  "heic",
+  "heix",
+  "heim",
+  "heis",
+  "hevc",
+  "hevx",
+  "mif1",
+  "msf1",
+]);
+
+/** Offset of the DIB header size in a BMP file */
+const BMP_DIB_HEADER_OFFSET = 14;
+
+/** Known BMP DIB header sizes (BITMAPCOREHEADER through BITMAPV5HEADER) */
+const BMP_DIB_HEADER_SIZES = new Set([12, 40, 52, 56, 64, 108, 124]);
+
+/** How many leading bytes to inspect when sniffing SVG markup */
+const SVG_SNIFF_BYTES = 1024;
+
+/** An `<svg` root, optionally after an XML declaration, comments or doctype */
+const SVG_PROLOG_PATTERN =
+  /^\s*(?:<\?xml[^>]*\?>\s*)?(?:<!--[\s\S]*?-->\s*|<!DOCTYPE[^>]*>\s*)*<svg[\s>]/i;
+
+/**
+ * Declared MIME types that name the same format under another spelling.
+ * Browsers and phones are inconsistent about HEIC and BMP in particular.
+ */
+const MIME_TYPE_ALIASES: Record<string, ImageMimeType> = {
+  "image/jpg": "image/jpeg",
+  "image/pjpeg": "image/jpeg",
+  "image/heif": "image/heic",
+  "image/heic-sequence": "image/heic",
+  "image/heif-sequence": "image/heic",
+  "image/avif-sequence": "image/avif",
+  "image/x-ms-bmp": "image/bmp",
+  "image/x-bmp": "image/bmp",
+  "image/tif": "image/tiff",
+};
+
 /**
  * Checks if a byte array matches a signature at a given offset.
  *
@@ -50,10 +131,70 @@ const matchesSignature = (
   return signature.every((byte, index) => bytes[index + offset] === byte);
 };
 
+const readAscii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+/**
+ * Identifies AVIF and HEIC files from the major and compatible brands of
+ * their ISO-BMFF `ftyp` box. AVIF wins when both are listed, since AVIF
+ * files also declare the generic HEIF brand `mif1`.
+ */
+const detectFtypBrand = (bytes: Uint8Array): ImageMimeType | null => {
+  if (!matchesSignature(bytes, IMAGE_SIGNATURES.FTYP, FTYP_SIGNATURE_OFFSET)) {
+    return null;
+  }
+
+  const boxSize = new DataView(
+    bytes.buffer,
+    bytes.byteOffset,
+    bytes.byteLength,
+  ).getUint32(0);
+  const end = Math.min(boxSize, bytes.length);
+  // Major brand at 8, minor version at 12, compatible brands from 16
+  const brands = [readAscii(bytes, 8, 4)];
+  for (let offset = 16; offset + 4 <= end; offset += 4) {
+    brands.push(readAscii(bytes, offset, 4));
+  }
+
+  if (brands.some((brand) => AVIF_BRANDS.has(brand))) return "image/avif";
+  if (brands.some((brand) => HEIC_BRANDS.has(brand))) return "image/heic";
+  return null;
+};
+
+/**
+ * Checks that a "BM" file continues with a known DIB header size, so that
+ * arbitrary text starting with "BM" is not mistaken for a bitmap.
+ */
+const isBmp = (bytes: Uint8Array): boolean => {
+  if (
+    !matchesSignature(bytes, IMAGE_SIGNATURES.BMP) ||
+    bytes.length < BMP_DIB_HEADER_OFFSET + 4
+  ) {
+    return false;
+  }
+  const headerSize = new DataView(
+    bytes.buffer,
+    bytes.byteOffset,
+    bytes.byteLength,
+  ).getUint32(BMP_DIB_HEADER_OFFSET, true);
+  return BMP_DIB_HEADER_SIZES.has(headerSize);
+};
+
+/**
+ * Recognizes SVG markup: an `<svg` root element, optionally preceded by a
+ * byte order mark, XML declaration, comments or a doctype.
+ */
+const isSvg = (bytes: Uint8Array): boolean => {
+  // TextDecoder drops a leading byte order mark
+  const text = new TextDecoder().decode(bytes.subarray(0, SVG_SNIFF_BYTES));
+  return SVG_PROLOG_PATTERN.test(text);
+};
+
 /**
  * Detects the image type from raw bytes by checking magic byte signatures.
  *
- * @param bytes - The first bytes of the image file (at least 12 bytes recommended)
+ * @param bytes - The first bytes of the image file (at least 32 bytes
+ *   recommended; SVG detection reads up to the first kilobyte)
  * @returns The MIME type if detected, or null if unknown format
  *
  * @example
@@ -80,9 +221,64 @@ export const detectImageType = (bytes: Uint8Array): ImageMimeType | null => {
   ) {
     return "image/webp";
   }
+  const isoBmffType = detectFtypBrand(bytes);
+  if (isoBmffType) return isoBmffType;
+  if (
+    matchesSignature(bytes, IMAGE_SIGNATURES.TIFF_LE) ||
+    matchesSignature(bytes, IMAGE_SIGNATURES.TIFF_BE)
+  ) {
+    return "image/tiff";
+  }
+  if (isBmp(bytes)) return "image/bmp";
+  if (isSvg(bytes)) return "image/svg+xml";
   return null;
 };
 
+/**
+ * Resolves a declared MIME type (e.g. from a File or Content-Type header)
+ * to the canonical type `detectImageType` reports for that format.
+ *
+ * @example
+ * ```ts
+ * canonicalImageType("image/heif"); // => "image/heic"
+ * canonicalImageType("IMAGE/PNG");  // => "image/png"
+ * ```
+ */
+export const canonicalImageType = (mimeType: string): string => {
+  const normalized = mimeType.trim().toLowerCase();
+  return MIME_TYPE_ALIASES[normalized] ?? normalized;
+};
+
+/**
+ * Whether search providers accept the type without conversion.
+ */
+export const isSearchableImageType = (
+  mimeType: ImageMimeType,
+): mimeType is SearchableImageType =>
+  mimeType === "image/png" ||
+  mimeType === "image/jpeg" ||
+  mimeType === "image/gif" ||
+  mimeType === "image/webp";
+
+/**
+ * The searchable format an image should be converted to.
+ * Vector art keeps its transparency and sharp edges as PNG; photos
+ * (AVIF, HEIC, TIFF, BMP) become JPEG.
+ *
+ * @example
+ * ```ts
+ * searchableTypeFor("image/heic");    // => "image/jpeg"
+ * searchableTypeFor("image/svg+xml"); // => "image/png"
+ * searchableTypeFor("image/webp");    // => "image/webp"
+ * ```
+ */
+export const searchableTypeFor = (
+  mimeType: ImageMimeType,
+): SearchableImageType => {
+  if (isSearchableImageType(mimeType)) return mimeType;
+  return mimeType === "image/svg+xml" ? "image/png" : "image/jpeg";
+};
+
 /**
  * Maps a MIME type to its corresponding file extension.
  *
@@ -106,6 +302,16 @@ export const extensionForType = (mimeType: string): ImageExtension => {
       return "gif";
     case "image/webp":
       return "webp";
+    case "image/avif":
+      return "avif";
+    case "image/heic":
+      return "heic";
+    case "image/bmp":
+      return "bmp";
+    case "image/tiff":
+      return "tif";
+    case "image/svg+xml":
+      return "svg";
     default:
       return "bin";
   }
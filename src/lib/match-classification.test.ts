@@ -0,0 +1,263 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  classifyMatch,
+  hashSearchedImage,
+  hashThumbnail,
+  refineCachedMatchTypes,
+  refineMatchTypes,
+} from "@/lib/match-classification";
+import {
+  DHASH_HEIGHT,
+  DHASH_WIDTH,
+  PERCEPTUAL_HASH_SCALE,
+} from "@/lib/perceptual-hash";
+import { getCachedResult, storeCachedResult } from "@/lib/search-cache";
+import type { SearchResult } from "@/lib/search-provider";
+import type { AppEnv } from "@/lib/cf-env";
+import { sha256Hex } from "@/lib/crypto";
+import { createMockEnv, restoreFetch } from "@/test/setup";
+
+const WIDTH = DHASH_WIDTH * PERCEPTUAL_HASH_SCALE;
+const HEIGHT = DHASH_HEIGHT * PERCEPTUAL_HASH_SCALE;
+
+/** RGBA pixels brightening (or darkening) from left to right */
+const gradient = (direction: 1 | -1) => {
+  const pixels = new Uint8Array(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y += 1) {
+    for (let x = 0; x < WIDTH; x += 1) {
+      const value = direction === 1 ? x * 7 : 255 - x * 7;
+      pixels.set([value, value, value, 255], (y * WIDTH + x) * 4);
+    }
+  }
+  return pixels;
+};
+
+/** Hashes of the two gradients */
+const BRIGHTENING_HASH = "0000000000000000";
+const DARKENING_HASH = "ffffffffffffffff";
+
+/** Enough of a PNG to pass signature detection */
+const PNG_BYTES = new Uint8Array([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0,
+]);
+
+const PNG_DATA_URI = `data:image/png;base64,${btoa(
+  String.fromCharCode(...PNG_BYTES),
+)}`;
+
+/** Fake Images binding that decodes every input to the same pixels */
+const createImagesBinding = (pixels: Uint8Array) => {
+  const transformer: ImageTransformer = {
+    transform: () => transformer,
+    draw: () => transformer,
+    output: async (options) => ({
+      response: () => new Response(pixels.slice()),
+      contentType: () => options.format,
+      image: () => new Response(pixels.slice()).body!,
+    }),
+  };
+  return {
+    info: vi.fn(),
+    input: vi.fn(() => transformer),
+  } as unknown as ImagesBinding;
+};
+
+const result = (overrides: Partial<SearchResult> = {}): SearchResult => ({
+  title: "Result",
+  pageUrl: "https://example.com/page",
+  imageUrl: PNG_DATA_URI,
+  matchType: "similar",
+  ...overrides,
+});
+
+describe("match-classification", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  describe("classifyMatch", () => {
+    it("trusts close hashes over the section", () => {
+      expect(classifyMatch("similar", 3)).toBe("exact");
+      expect(classifyMatch("page", 0)).toBe("exact");
+    });
+
+    it("downgrades distant exact claims and keeps pages", () => {
+      expect(classifyMatch("exact", 20)).toBe("similar");
+      expect(classifyMatch("page", 20)).toBe("page");
+      expect(classifyMatch(undefined, 20)).toBe("similar");
+    });
+  });
+
+  describe("hashThumbnail", () => {
+    it("hashes inline thumbnails at the browser's grid size", async () => {
+      const images = createImagesBinding(gradient(1));
+
+      expect(await hashThumbnail(images, PNG_DATA_URI)).toBe(
+        BRIGHTENING_HASH,
+      );
+    });
+
+    it("fetches public thumbnails and skips non-images", async () => {
+      const images = createImagesBinding(gradient(-1));
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(async () => new Response(PNG_BYTES.slice())),
+      );
+
+      expect(
+        await hashThumbnail(images, "https://cdn.example.com/thumb.png"),
+      ).toBe(DARKENING_HASH);
+      expect(
+        await hashThumbnail(images, `data:image/png;base64,${btoa("hello")}`),
+      ).toBeNull();
+      expect(
+        await hashThumbnail(images, "https://localhost/thumb.png"),
+      ).toBeNull();
+      expect(images.input).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("hashSearchedImage", () => {
+    it("hashes our own uploads from R2 without fetching them", async () => {
+      const env: AppEnv = {
+        ...createMockEnv(),
+        NEXT_PUBLIC_R2_DOMAIN: "https://img.example.com",
+        IMAGES: createImagesBinding(gradient(1)),
+      };
+      const uploadKey = `uploads/2026-01-01/${"a".repeat(64)}.png`;
+      await env.R2_BUCKET!.put(uploadKey, PNG_BYTES.slice());
+      const fetchMock = vi.fn();
+      vi.stubGlobal("fetch", fetchMock);
+
+      expect(
+        await hashSearchedImage(env, `https://img.example.com/${uploadKey}`),
+      ).toMatchObject({
+        sha256: await sha256Hex(PNG_BYTES),
+        perceptualHash: BRIGHTENING_HASH,
+        type: "image/png",
+      });
+      expect(
+        await hashSearchedImage(
+          env,
+          `https://img.example.com/uploads/2026-01-01/${"b".repeat(64)}.png`,
+        ),
+      ).toBeNull();
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("still hashes the bytes without the Images binding", async () => {
+      const env: AppEnv = {
+        ...createMockEnv(),
+        NEXT_PUBLIC_R2_DOMAIN: "https://img.example.com",
+      };
+      const uploadKey = `uploads/2026-01-01/${"a".repeat(64)}.png`;
+      await env.R2_BUCKET!.put(uploadKey, PNG_BYTES.slice());
+
+      expect(
+        await hashSearchedImage(env, `https://img.example.com/${uploadKey}`),
+      ).toMatchObject({
+        sha256: await sha256Hex(PNG_BYTES),
+        perceptualHash: null,
+      });
+    });
+  });
+
+  describe("refineMatchTypes", () => {
+    it("sets match type and distance from the thumbnail hash", async () => {
+      const env = {
+        ...createMockEnv(),
+        IMAGES: createImagesBinding(gradient(1)),
+      };
+
+      const [same, unhashed] = await refineMatchTypes(
+        env,
+        [result(), result({ imageUrl: undefined })],
+        BRIGHTENING_HASH,
+      );
+      expect(same).toMatchObject({ matchType: "exact", matchDistance: 0 });
+      expect(unhashed).toEqual(result({ imageUrl: undefined }));
+
+      const [claimed, page] = await refineMatchTypes(
+        env,
+        [result({ matchType: "exact" }), result({ matchType: "page" })],
+        DARKENING_HASH,
+      );
+      expect(claimed).toMatchObject({
+        matchType: "similar",
+        matchDistance: 64,
+      });
+      expect(page).toMatchObject({ matchType: "page", matchDistance: 64 });
+    });
+
+    it("leaves results alone without a binding or valid hash", async () => {
+      const results = [result()];
+
+      expect(
+        await refineMatchTypes(createMockEnv(), results, BRIGHTENING_HASH),
+      ).toBe(results);
+      expect(
+        await refineMatchTypes(
+          { ...createMockEnv(), IMAGES: createImagesBinding(gradient(1)) },
+          results,
+          "not-a-hash",
+        ),
+      ).toBe(results);
+    });
+  });
+
+  describe("refineCachedMatchTypes", () => {
+    it("rewrites the cache entry with refined types", async () => {
+      const env = {
+        ...createMockEnv(),
+        IMAGES: createImagesBinding(gradient(1)),
+      };
+      const kv = env.KV_RATE_LIMIT!;
+      await storeCachedResult(
+        kv,
+        "cache:img:hash:abc",
+        { results: [result()], cachedAt: "2026-01-01" },
+        3600,
+      );
+
+      await refineCachedMatchTypes(
+        env,
+        kv,
+        "cache:img:hash:abc",
+        BRIGHTENING_HASH,
+      );
+
+      expect(await getCachedResult(kv, "cache:img:hash:abc")).toMatchObject({
+        results: [{ matchType: "exact", matchDistance: 0 }],
+        perceptualHash: BRIGHTENING_HASH,
+        cachedAt: "2026-01-01",
+      });
+    });
+
+    it("leaves the entry alone when nothing could be hashed", async () => {
+      const env = createMockEnv();
+      const kv = env.KV_RATE_LIMIT!;
+      const put = vi.spyOn(kv, "put");
+
+      await refineCachedMatchTypes(
+        env,
+        kv,
+        "cache:img:hash:abc",
+        BRIGHTENING_HASH,
+      );
+      await storeCachedResult(
+        kv,
+        "cache:img:hash:abc",
+        { results: [result()], cachedAt: "2026-01-01" },
+        3600,
+      );
+      await refineCachedMatchTypes(
+        env,
+        kv,
+        "cache:img:hash:abc",
+        BRIGHTENING_HASH,
+      );
+
+      expect(put).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Exact vs. similar match classification
+ *
+ * Providers tag each result with the SERP section it came from (see
+ * `matchType` on SearchResult). When the searched image's perceptual hash
+ * is known, this module refines that guess: result thumbnails are decoded
+ * with the Cloudflare Images binding, hashed with the same dHash as the
+ * searched image, and compared against it.
+ *
+ * Thumbnails are either inline `data:` URIs or public HTTPS URLs fetched
+ * through the thumbnail proxy's SSRF-checked fetch. Results whose thumbnail
+ * cannot be read keep the section-based type.
+ *
+ * The searched image itself is read and hashed here too (hashSearchedImage),
+ * so the server never has to trust a hash the client sent. Refining takes
+ * up to MAX_HASHED_THUMBNAILS fetches, so routes run it in the background
+ * against the cache entry (refineCachedMatchTypes) instead of making the
+ * response wait; later reads of the entry get the refined types.
+ */
+
+import type { AppEnv } from "@/lib/cf-env";
+import { sha256Hex } from "@/lib/crypto";
+import { detectImageType } from "@/lib/image";
+import { createLogger } from "@/lib/logger";
+import {
+  hammingDistance,
+  hashImageBytes,
+  PERCEPTUAL_HASH_PATTERN,
+} from "@/lib/perceptual-hash";
+import {
+  getCachedResult,
+  getSearchCacheTtl,
+  storeCachedResult,
+} from "@/lib/search-cache";
+import type { MatchType, SearchResult } from "@/lib/search-provider";
+import { fetchThumbnail, MAX_THUMBNAIL_BYTES } from "@/lib/thumbnail-proxy";
+import { uploadKeyFromUrl } from "@/lib/upload-storage";
+
+const logger = createLogger("match-classification");
+
+/** Largest distance (of 64 bits) still counted as the same image */
+export const EXACT_MATCH_MAX_DISTANCE = 6;
+
+/** Thumbnails hashed per result set; later results keep their section type */
+const MAX_HASHED_THUMBNAILS = 20;
+
+/** Largest searched image read for hashing, the same as the upload limit */
+const MAX_SEARCHED_IMAGE_BYTES = 8 * 1024 * 1024;
+
+/** Thumbnails fetched and decoded at once */
+const HASH_CONCURRENCY = 5;
+
+const DATA_URI_PATTERN = /^data:image\/[a-z0-9.+-]+;base64,([a-z0-9+/=\s]+)$/i;
+
+/**
+ * Decides a result's match type from its section and hash distance.
+ *
+ * - Within EXACT_MATCH_MAX_DISTANCE the result is an exact match, whatever
+ *   section it came from.
+ * - A claimed exact match that hashes further away is only similar.
+ * - Page and similar results otherwise keep their section type.
+ *
+ * @example
+ * ```ts
+ * classifyMatch("similar", 3); // => "exact"
+ * classifyMatch("exact", 20); // => "similar"
+ * classifyMatch("page", 20); // => "page"
+ * ```
+ */
+export const classifyMatch = (
+  section: MatchType | undefined,
+  distance: number,
+): MatchType => {
+  if (distance <= EXACT_MATCH_MAX_DISTANCE) return "exact";
+  return section === "page" ? "page" : "similar";
+};
+
+const decodeDataUri = (value: string): Uint8Array | null => {
+  const match = DATA_URI_PATTERN.exec(value);
+  if (!match) return null;
+  const encoded = match[1].replace(/\s/g, "");
+  if ((encoded.length * 3) / 4 > MAX_THUMBNAIL_BYTES) return null;
+  try {
+    return Uint8Array.from(atob(encoded), (char) => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Computes the dHash of a result thumbnail.
+ *
+ * @param images - The Cloudflare Images binding, used to decode pixels
+ * @param imageUrl - A `data:image/...;base64,` URI or public HTTPS URL
+ * @returns The hash, or null when the thumbnail cannot be read or decoded
+ */
+export const hashThumbnail = async (
+  images: ImagesBinding,
+  imageUrl: string,
+): Promise<string | null> => {
+  try {
+    let bytes: Uint8Array | null;
+    if (imageUrl.startsWith("data:")) {
+      bytes = decodeDataUri(imageUrl);
+    } else {
+      const thumbnail = await fetchThumbnail(imageUrl);
+      bytes = thumbnail.ok ? thumbnail.bytes : null;
+    }
+    return bytes ? await hashImageBytes(images, bytes) : null;
+  } catch (error) {
+    logger.debug("Thumbnail hashing failed", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+};
+
+/**
+ * The searched image as read and hashed by the server
+ */
+export type SearchedImage = {
+  /** SHA-256 of the image bytes */
+  sha256: string;
+  /** dHash, or null without the IMAGES binding or when it cannot be decoded */
+  perceptualHash: string | null;
+  bytes: Uint8Array;
+  type: string;
+};
+
+/** Error for searches whose image the server cannot read */
+export const UNREADABLE_IMAGE_MESSAGE =
+  "The image could not be read. Use a public JPEG, PNG, GIF, WebP or AVIF image under 8 MB, or upload it instead.";
+
+/**
+ * Reads the image being searched and hashes it, so moderation, the search
+ * cache and near-duplicate matching never depend on hashes a client sent.
+ *
+ * Our own uploads are read from R2; other images are fetched like result
+ * thumbnails (public HTTPS, at most MAX_SEARCHED_IMAGE_BYTES).
+ *
+ * @param env - Application environment (`IMAGES` for the dHash)
+ * @param imageUrl - The searched image URL
+ * @returns The image and its hashes, or null when it cannot be read
+ */
+export const hashSearchedImage = async (
+  env: AppEnv,
+  imageUrl: string,
+): Promise<SearchedImage | null> => {
+  try {
+    let bytes: Uint8Array;
+    let type: string;
+    const uploadKey = uploadKeyFromUrl(env, imageUrl);
+    if (uploadKey) {
+      const object = await env.R2_BUCKET?.get(uploadKey);
+      if (!object) return null;
+      bytes = new Uint8Array(await object.arrayBuffer());
+      type =
+        detectImageType(bytes) ??
+        object.httpMetadata?.contentType ??
+        "application/octet-stream";
+    } else {
+      const fetched = await fetchThumbnail(imageUrl, MAX_SEARCHED_IMAGE_BYTES);
+      if (!fetched.ok) return null;
+      ({ bytes, type } = fetched);
+    }
+
+    let perceptualHash: string | null = null;
+    if (env.IMAGES) {
+      perceptualHash = await hashImageBytes(env.IMAGES, bytes).catch(
+        () => null,
+      );
+    }
+    return { sha256: await sha256Hex(bytes), perceptualHash, bytes, type };
+  } catch (error) {
+    logger.debug("Searched image hashing failed", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+};
+
+/**
+ * Refines the match type of results by comparing their thumbnails with
+ * the searched image. Returns the results unchanged when the IMAGES
+ * binding is missing or the perceptual hash is invalid.
+ *
+ * @param env - Application environment (needs `IMAGES`)
+ * @param results - Results with section-based match types
+ * @param perceptualHash - dHash of the searched image
+ * @returns New result objects with `matchType` and `matchDistance` set
+ *   where a thumbnail could be hashed
+ *
+ * @example
+ * ```ts
+ * const results = await refineMatchTypes(env, resolution.results, hash);
+ * results.filter((result) => result.matchType === "exact");
+ * ```
+ */
+export const refineMatchTypes = async (
+  env: AppEnv,
+  results: SearchResult[],
+  perceptualHash: string | undefined,
+): Promise<SearchResult[]> => {
+  if (
+    !env.IMAGES ||
+    !perceptualHash ||
+    !PERCEPTUAL_HASH_PATTERN.test(perceptualHash)
+  ) {
+    return results;
+  }
+
+  const images = env.IMAGES;
+  const candidates = results
+    .map((result, index) => ({ result, index }))
+    .filter(
+      ({ result }) => result.imageUrl && result.matchDistance === undefined,
+    )
+    .slice(0, MAX_HASHED_THUMBNAILS);
+
+  const refined = [...results];
+  for (let start = 0; start < candidates.length; start += HASH_CONCURRENCY) {
+    const batch = candidates.slice(start, start + HASH_CONCURRENCY);
+    const hashes = await Promise.all(
+      batch.map(({ result }) => hashThumbnail(images, result.imageUrl!)),
+    );
+
+    batch.forEach(({ result, index }, position) => {
+      const hash = hashes[position];
+      if (!hash) return;
+      const distance = hammingDistance(perceptualHash, hash);
+      refined[index] = {
+        ...result,
+        matchType: classifyMatch(result.matchType, distance),
+        matchDistance: distance,
+      };
+    });
+  }
+
+  logger.debug("Match types refined", {
+    results: results.length,
+    hashed: refined.filter((result) => result.matchDistance !== undefined)
+      .length,
+  });
+  return refined;
+};
+
+/**
+ * Refines the match types of a cached search in place.
+ *
+ * Meant for `runInBackground` once the results are cached. The hash must
+ * be one the server computed for the image the entry is keyed by, so the
+ * refined types are right for everyone who reads the entry.
+ *
+ * @param env - Application environment (needs `IMAGES`)
+ * @param kv - The KV namespace holding the search cache
+ * @param cacheKey - Cache key of the entry to refine
+ * @param perceptualHash - Server-computed dHash of the searched image
+ */
+export const refineCachedMatchTypes = async (
+  env: AppEnv,
+  kv: KVNamespace,
+  cacheKey: string,
+  perceptualHash: string,
+): Promise<void> => {
+  try {
+    const cached = await getCachedResult(kv, cacheKey);
+    if (!cached) return;
+
+    const results = await refineMatchTypes(env, cached.results, perceptualHash);
+    if (results.every((result, index) => result === cached.results[index])) {
+      return;
+    }
+
+    await storeCachedResult(
+      kv,
+      cacheKey,
+      { ...cached, results, perceptualHash },
+      await getSearchCacheTtl(kv, cacheKey),
+    );
+  } catch (error) {
+    logger.warn("Cached match type refinement failed", {
+      cacheKey,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import {
+  AUDIT_PREFIX,
+  BLOCKLIST_KEY,
+  enforceModeration,
+  loadBlocklist,
+  matchBlocklist,
+} from "./moderation";
+import { ContentBlockedError } from "./errors";
+import { MockKVNamespace, MockR2Bucket } from "@/test/setup";
+import type { AppEnv } from "./cf-env";
+
+const BAD_SHA = "ab".repeat(32);
+const BAD_DHASH = "f0e1d2c3b4a59687";
+
+const createEnv = async (blocklist: unknown) => {
+  const kv = new MockKVNamespace();
+  const r2 = new MockR2Bucket();
+  if (blocklist !== undefined) {
+    await kv.put(BLOCKLIST_KEY, JSON.stringify(blocklist));
+  }
+  const env = {
+    KV_RATE_LIMIT: kv as unknown as KVNamespace,
+    R2_BUCKET: r2 as unknown as R2Bucket,
+  } as AppEnv;
+  return { env, kv, r2 };
+};
+
+describe("matchBlocklist", () => {
+  const blocklist = { sha256: [BAD_SHA], perceptual: [BAD_DHASH] };
+
+  it("matches exact hashes case-insensitively", () => {
+    expect(matchBlocklist(blocklist, { sha256: BAD_SHA.toUpperCase() })).toEqual(
+      { match: "exact" },
+    );
+  });
+
+  it("matches perceptual hashes within the distance", () => {
+    expect(
+      matchBlocklist(blocklist, { perceptualHash: "f0e1d2c3b4a59686" }),
+    ).toEqual({ match: "perceptual", distance: 1 });
+    expect(
+      matchBlocklist(
+        { ...blocklist, maxDistance: 0 },
+        { perceptualHash: "f0e1d2c3b4a59686" },
+      ),
+    ).toBeNull();
+  });
+
+  it("matches alternate hashes of the same image", () => {
+    expect(
+      matchBlocklist(blocklist, {
+        sha256: "cd".repeat(32),
+        alternateSha256: [BAD_SHA.toUpperCase()],
+      }),
+    ).toEqual({ match: "exact" });
+  });
+
+  it("ignores unrelated images", () => {
+    expect(
+      matchBlocklist(blocklist, {
+        sha256: "cd".repeat(32),
+        perceptualHash: "0f1e2d3c4b5a6978",
+      }),
+    ).toBeNull();
+  });
+});
+
+describe("loadBlocklist", () => {
+  it("returns null when none is configured or it is malformed", async () => {
+    expect(await loadBlocklist(undefined)).toBeNull();
+    expect(await loadBlocklist((await createEnv(undefined)).env.KV_RATE_LIMIT))
+      .toBeNull();
+    expect(
+      await loadBlocklist(
+        (await createEnv({ sha256: ["not-a-hash"] })).env.KV_RATE_LIMIT,
+      ),
+    ).toBeNull();
+  });
+
+  it("defaults missing lists to empty", async () => {
+    const { env } = await createEnv({ perceptual: [BAD_DHASH.toUpperCase()] });
+
+    expect(await loadBlocklist(env.KV_RATE_LIMIT)).toEqual({
+      sha256: [],
+      perceptual: [BAD_DHASH],
+    });
+  });
+});
+
+describe("enforceModeration", () => {
+  it("allows images that are not blocklisted", async () => {
+    const { env, r2 } = await createEnv({ sha256: [BAD_SHA] });
+
+    await expect(
+      enforceModeration(
+        env,
+        { sha256: "cd".repeat(32) },
+        { source: "upload", requestId: "req-1" },
+      ),
+    ).resolves.toBeUndefined();
+    expect(r2.store.size).toBe(0);
+  });
+
+  it("quarantines, audits and rejects blocked uploads", async () => {
+    const { env, kv, r2 } = await createEnv({ sha256: [BAD_SHA] });
+    const bytes = new Uint8Array([1, 2, 3]);
+
+    await expect(
+      enforceModeration(
+        env,
+        { sha256: BAD_SHA },
+        {
+          source: "upload",
+          requestId: "req-1",
+          ip: "203.0.113.7",
+          quarantine: { bytes, type: "image/png" },
+        },
+      ),
+    ).rejects.toThrow(ContentBlockedError);
+
+    const [quarantined] = Array.from(r2.store.keys());
+    expect(quarantined).toMatch(
+      new RegExp(`^quarantine/\\d{4}-\\d{2}-\\d{2}/${BAD_SHA}\\.png$`),
+    );
+
+    const { keys } = await kv.list({ prefix: AUDIT_PREFIX });
+    expect(keys).toHaveLength(1);
+    const event = JSON.parse((await kv.get(keys[0].name)) as string);
+    expect(event).toMatchObject({
+      match: "exact",
+      source: "upload",
+      requestId: "req-1",
+      ip: "203.0.113.7",
+      quarantineKey: quarantined,
+    });
+  });
+
+  it("moves stored uploads into quarantine", async () => {
+    const { env, r2 } = await createEnv({ perceptual: [BAD_DHASH] });
+    const key = `uploads/2024-06-01/${"cd".repeat(32)}.jpg`;
+    await r2.put(key, new Uint8Array([1]), {
+      httpMetadata: { contentType: "image/jpeg" },
+    });
+
+    await expect(
+      enforceModeration(
+        env,
+        { perceptualHash: BAD_DHASH },
+        { source: "search", requestId: "req-2", quarantine: { key } },
+      ),
+    ).rejects.toThrow(ContentBlockedError);
+
+    const keys = Array.from(r2.store.keys());
+    expect(keys).toHaveLength(1);
+    expect(keys[0]).toMatch(/^quarantine\/\d{4}-\d{2}-\d{2}\/req-2\.jpg$/);
+  });
+});
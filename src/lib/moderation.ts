@@ -0,0 +1,325 @@
+/**
+ * Content moderation gate for uploads and searches
+ *
+ * Images are checked against a blocklist of known-bad hashes before they
+ * are stored or searched: exact SHA-256 matches, and dHash matches within
+ * a small Hamming distance to catch resized or re-encoded copies.
+ *
+ * The blocklist is one JSON document in KV so operators can update it
+ * without a deploy:
+ *
+ * ```sh
+ * wrangler kv key put --binding KV_RATE_LIMIT moderation:blocklist \
+ *   '{"sha256":["<hex>"],"perceptual":["<16 hex>"],"maxDistance":4}'
+ * ```
+ *
+ * Matches are copied under `quarantine/` in R2 for review, recorded in an
+ * audit log, and rejected with a `ContentBlockedError`.
+ */
+
+import { z } from "zod";
+import type { AppEnv } from "@/lib/cf-env";
+import { ContentBlockedError } from "@/lib/errors";
+import { extensionForType } from "@/lib/image";
+import { createLogger } from "@/lib/logger";
+import {
+  hammingDistance,
+  PERCEPTUAL_HASH_PATTERN,
+} from "@/lib/perceptual-hash";
+
+const logger = createLogger("moderation");
+
+/** KV key holding the blocklist document */
+export const BLOCKLIST_KEY = "moderation:blocklist";
+
+/** KV prefix for audit events */
+export const AUDIT_PREFIX = "moderation:audit:";
+
+/** R2 prefix for quarantined images (never served by the app) */
+export const QUARANTINE_PREFIX = "quarantine/";
+
+/** Default Hamming distance for perceptual matches (of 64 bits) */
+export const DEFAULT_BLOCKLIST_MAX_DISTANCE = 4;
+
+/** Audit events are kept for 90 days */
+const AUDIT_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+/** Edge cache lifetime of the blocklist read */
+const BLOCKLIST_CACHE_TTL_SECONDS = 60;
+
+const BlocklistSchema = z.object({
+  sha256: z
+    .array(z.string().regex(/^[a-f0-9]{64}$/i))
+    .default([])
+    .transform((hashes) => hashes.map((hash) => hash.toLowerCase())),
+  perceptual: z
+    .array(z.string().regex(PERCEPTUAL_HASH_PATTERN))
+    .default([])
+    .transform((hashes) => hashes.map((hash) => hash.toLowerCase())),
+  maxDistance: z.number().int().min(0).max(16).optional(),
+});
+
+export type ModerationBlocklist = z.infer<typeof BlocklistSchema>;
+
+/**
+ * Hashes of the image being checked (any may be unknown)
+ */
+export type ModerationSubject = {
+  sha256?: string;
+  /** Other SHA-256 hashes of the same image, e.g. before normalization */
+  alternateSha256?: string[];
+  perceptualHash?: string;
+};
+
+/**
+ * Why an image was blocked
+ */
+export type ModerationMatch =
+  | { match: "exact" }
+  | { match: "perceptual"; distance: number };
+
+/**
+ * Where the blocked image came from, for quarantine and the audit log
+ */
+export type ModerationContext = {
+  source:
+    | "upload"
+    | "search"
+    | "cache_lookup"
+    | "thumbnail"
+    | "saved_search";
+  requestId: string;
+  ip?: string;
+  imageUrl?: string;
+  /**
+   * The image to quarantine: its bytes, or the key of a stored upload.
+   * Only pass it when the server computed the subject's hashes itself;
+   * hashes a client claims may only be looked up.
+   */
+  quarantine?: { bytes: Uint8Array; type: string } | { key: string };
+};
+
+/**
+ * A recorded moderation block
+ */
+export type ModerationAuditEvent = ModerationMatch & {
+  source: ModerationContext["source"];
+  requestId: string;
+  sha256?: string;
+  alternateSha256?: string[];
+  perceptualHash?: string;
+  ip?: string;
+  imageUrl?: string;
+  quarantineKey?: string;
+  blockedAt: string;
+};
+
+/**
+ * Reads the blocklist from KV.
+ *
+ * @returns The blocklist, or null when none is configured. A malformed
+ *   document is logged and ignored rather than failing every request.
+ */
+export const loadBlocklist = async (
+  kv: KVNamespace | undefined,
+): Promise<ModerationBlocklist | null> => {
+  if (!kv) return null;
+
+  const raw = await kv.get(BLOCKLIST_KEY, {
+    type: "json",
+    cacheTtl: BLOCKLIST_CACHE_TTL_SECONDS,
+  });
+  if (raw === null) return null;
+
+  const parsed = BlocklistSchema.safeParse(raw);
+  if (!parsed.success) {
+    logger.error("Invalid moderation blocklist, ignoring it", undefined, {
+      issues: parsed.error.errors.length,
+    });
+    return null;
+  }
+  return parsed.data;
+};
+
+/**
+ * Checks hashes against a blocklist.
+ *
+ * @returns The match, or null when the image is not blocked
+ *
+ * @example
+ * ```ts
+ * matchBlocklist(
+ *   { sha256: [], perceptual: ["f0e1d2c3b4a59687"] },
+ *   { perceptualHash: "f0e1d2c3b4a59686" },
+ * ); // => { match: "perceptual", distance: 1 }
+ * ```
+ */
+export const matchBlocklist = (
+  blocklist: ModerationBlocklist,
+  subject: ModerationSubject,
+): ModerationMatch | null => {
+  const hashes = [subject.sha256, ...(subject.alternateSha256 ?? [])];
+  if (
+    hashes.some(
+      (hash) => hash && blocklist.sha256.includes(hash.toLowerCase()),
+    )
+  ) {
+    return { match: "exact" };
+  }
+
+  const perceptualHash = subject.perceptualHash?.toLowerCase();
+  if (!perceptualHash || !PERCEPTUAL_HASH_PATTERN.test(perceptualHash)) {
+    return null;
+  }
+
+  const maxDistance = blocklist.maxDistance ?? DEFAULT_BLOCKLIST_MAX_DISTANCE;
+  let closest: number | null = null;
+  for (const blocked of blocklist.perceptual) {
+    const distance = hammingDistance(perceptualHash, blocked);
+    if (distance <= maxDistance && (closest === null || distance < closest)) {
+      closest = distance;
+    }
+  }
+  return closest === null ? null : { match: "perceptual", distance: closest };
+};
+
+const quarantineImage = async (
+  bucket: R2Bucket,
+  subject: ModerationSubject,
+  context: ModerationContext,
+  match: ModerationMatch,
+): Promise<string | undefined> => {
+  const source = context.quarantine;
+  if (!source) return undefined;
+
+  let bytes: Uint8Array | ArrayBuffer;
+  let type: string;
+  if ("key" in source) {
+    const object = await bucket.get(source.key);
+    if (!object) return undefined;
+    bytes = await object.arrayBuffer();
+    type = object.httpMetadata?.contentType ?? "application/octet-stream";
+  } else {
+    ({ bytes, type } = source);
+  }
+
+  const datePrefix = new Date().toISOString().split("T")[0];
+  const name = subject.sha256 ?? context.requestId;
+  const key = `${QUARANTINE_PREFIX}${datePrefix}/${name}.${extensionForType(type)}`;
+  await bucket.put(key, bytes, {
+    httpMetadata: { contentType: type, cacheControl: "private, no-store" },
+    customMetadata: {
+      match: match.match,
+      source: context.source,
+      requestId: context.requestId,
+      ...(subject.sha256 && { sha256: subject.sha256 }),
+      ...("key" in source && { originalKey: source.key }),
+      quarantinedAt: new Date().toISOString(),
+    },
+  });
+
+  // Stored uploads are moved, not copied, so they stop being served
+  if ("key" in source) {
+    await bucket.delete(source.key);
+  }
+  return key;
+};
+
+/**
+ * Records a moderation block in the log and, when KV is bound, in the
+ * audit log under `moderation:audit:{time}:{requestId}`.
+ */
+export const recordModerationEvent = async (
+  kv: KVNamespace | undefined,
+  event: ModerationAuditEvent,
+): Promise<void> => {
+  logger.warn("Image blocked by moderation", { ...event, _type: "audit" });
+  if (!kv) return;
+
+  await kv.put(
+    `${AUDIT_PREFIX}${event.blockedAt}:${event.requestId}`,
+    JSON.stringify(event),
+    { expirationTtl: AUDIT_TTL_SECONDS },
+  );
+};
+
+/**
+ * Rejects blocklisted images. On a match the image is quarantined and the
+ * block is audited before the error is thrown; failures in either step are
+ * logged and never let the image through.
+ *
+ * @param env - The application environment
+ * @param subject - Hashes of the image
+ * @param context - Request details and the image to quarantine
+ * @throws {ContentBlockedError} When the image matches the blocklist
+ *
+ * @example
+ * ```ts
+ * await enforceModeration(env, { sha256, perceptualHash }, {
+ *   source: "upload",
+ *   requestId,
+ *   ip,
+ *   quarantine: { bytes, type: detectedType },
+ * });
+ * ```
+ */
+export const enforceModeration = async (
+  env: AppEnv,
+  subject: ModerationSubject,
+  context: ModerationContext,
+): Promise<void> => {
+  if (
+    !subject.sha256 &&
+    !subject.alternateSha256?.length &&
+    !subject.perceptualHash
+  ) {
+    return;
+  }
+
+  const blocklist = await loadBlocklist(env.KV_RATE_LIMIT);
+  if (!blocklist) return;
+
+  const match = matchBlocklist(blocklist, subject);
+  if (!match) return;
+
+  let quarantineKey: string | undefined;
+  if (env.R2_BUCKET) {
+    try {
+      quarantineKey = await quarantineImage(
+        env.R2_BUCKET,
+        subject,
+        context,
+        match,
+      );
+    } catch (error) {
+      logger.error("Quarantining blocked image failed", error, {
+        requestId: context.requestId,
+      });
+    }
+  }
+
+  try {
+    await recordModerationEvent(env.KV_RATE_LIMIT, {
+      ...match,
+      source: context.source,
+      requestId: context.requestId,
+      sha256: subject.sha256,
+      alternateSha256: subject.alternateSha256,
+      perceptualHash: subject.perceptualHash,
+      ip: context.ip,
+      imageUrl: context.imageUrl,
+      quarantineKey,
+      blockedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error("Recording moderation event failed", error, {
+      requestId: context.requestId,
+    });
+  }
+
+  throw new ContentBlockedError(undefined, {
+    ...match,
+    sha256: subject.sha256,
+    source: context.source,
+  });
+};
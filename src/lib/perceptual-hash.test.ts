@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeDHash,
+  hammingDistance,
+  PERCEPTUAL_HASH_PATTERN,
+} from "./perceptual-hash";
+
+/** Builds RGBA pixels from a grayscale function of (x, y) */
+const createImage = (
+  width: number,
+  height: number,
+  shade: (x: number, y: number) => number,
+) => {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const offset = (y * width + x) * 4;
+      const value = shade(x, y);
+      pixels.set([value, value, value, 255], offset);
+    }
+  }
+  return pixels;
+};
+
+const pattern = (width: number, height: number) => (x: number, y: number) =>
+  Math.round(
+    127 +
+      100 * Math.sin((x / width) * Math.PI * 3) *
+        Math.cos((y / height) * Math.PI * 2),
+  );
+
+describe("computeDHash", () => {
+  it("returns 16 hex characters", () => {
+    const hash = computeDHash(createImage(36, 32, pattern(36, 32)), 36, 32);
+    expect(hash).toMatch(PERCEPTUAL_HASH_PATTERN);
+  });
+
+  it("sets every bit when brightness falls left to right", () => {
+    const pixels = createImage(18, 16, (x) => 255 - x * 14);
+    expect(computeDHash(pixels, 18, 16)).toBe("ffffffffffffffff");
+  });
+
+  it("clears every bit for a flat image", () => {
+    const pixels = createImage(9, 8, () => 128);
+    expect(computeDHash(pixels, 9, 8)).toBe("0000000000000000");
+  });
+
+  it("gives resized copies nearby hashes", () => {
+    const original = computeDHash(
+      createImage(360, 320, pattern(360, 320)),
+      360,
+      320,
+    );
+    const resized = computeDHash(createImage(90, 80, pattern(90, 80)), 90, 80);
+
+    expect(hammingDistance(original, resized)).toBeLessThanOrEqual(2);
+  });
+
+  it("gives different images distant hashes", () => {
+    const a = computeDHash(createImage(36, 32, pattern(36, 32)), 36, 32);
+    const b = computeDHash(
+      createImage(36, 32, (x, y) => ((x + y) % 7) * 36),
+      36,
+      32,
+    );
+
+    expect(hammingDistance(a, b)).toBeGreaterThan(10);
+  });
+
+  it("rejects images smaller than the hash grid", () => {
+    expect(() => computeDHash(createImage(8, 8, () => 0), 8, 8)).toThrow(
+      "at least 9x8",
+    );
+  });
+
+  it("rejects pixel data that does not match the dimensions", () => {
+    expect(() => computeDHash(new Uint8ClampedArray(10), 9, 8)).toThrow(
+      "does not match",
+    );
+  });
+});
+
+describe("hammingDistance", () => {
+  it("is zero for identical hashes", () => {
+    expect(hammingDistance("3c3e0e1a3a1c1e3c", "3C3E0E1A3A1C1E3C")).toBe(0);
+  });
+
+  it("counts differing bits", () => {
+    expect(hammingDistance("0000000000000000", "ffffffffffffffff")).toBe(64);
+    expect(hammingDistance("0000000000000000", "0000000000000013")).toBe(3);
+  });
+
+  it("rejects malformed hashes", () => {
+    expect(() => hammingDistance("abc", "0000000000000000")).toThrow();
+  });
+});
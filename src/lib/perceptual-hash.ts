@@ -0,0 +1,167 @@
+/**
+ * Perceptual image hashing
+ *
+ * A difference hash (dHash) summarizes an image's structure rather than its
+ * bytes: the image is reduced to a 9x8 grayscale grid and each bit records
+ * whether a cell is brighter than its right-hand neighbour. Resized,
+ * re-encoded or lightly edited copies produce hashes a few bits apart, so
+ * the Hamming distance between two hashes measures how alike they look.
+ *
+ * These helpers only work on raw RGBA data. The edge runtime has no image
+ * decoder of its own, so the server decodes pixels with the Cloudflare
+ * Images binding (hashImageBytes).
+ */
+
+import { detectImageType } from "@/lib/image";
+
+/** Width of the grayscale grid (one more than the bits per row) */
+export const DHASH_WIDTH = 9;
+
+/** Height of the grayscale grid (rows of bits) */
+export const DHASH_HEIGHT = 8;
+
+/**
+ * Oversampling of the dHash grid when decoding for perceptual hashing.
+ * Every hash must be computed at the same size to be comparable.
+ */
+export const PERCEPTUAL_HASH_SCALE = 4;
+
+/** Bits in a hash */
+export const PERCEPTUAL_HASH_BITS = (DHASH_WIDTH - 1) * DHASH_HEIGHT;
+
+/** A 64-bit hash as 16 hex characters */
+export const PERCEPTUAL_HASH_PATTERN = /^[a-f0-9]{16}$/i;
+
+/** Set bits per hex digit, for popcounts */
+const NIBBLE_BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+/**
+ * Reduces RGBA pixels to the dHash grid by averaging the luminance of
+ * every pixel that falls in each cell.
+ */
+const toGrayscaleGrid = (
+  pixels: ArrayLike<number>,
+  width: number,
+  height: number,
+): number[] => {
+  const sums = new Array<number>(DHASH_WIDTH * DHASH_HEIGHT).fill(0);
+  const counts = new Array<number>(DHASH_WIDTH * DHASH_HEIGHT).fill(0);
+
+  for (let y = 0; y < height; y += 1) {
+    const row = Math.min(
+      DHASH_HEIGHT - 1,
+      Math.floor((y * DHASH_HEIGHT) / height),
+    );
+    for (let x = 0; x < width; x += 1) {
+      const column = Math.min(
+        DHASH_WIDTH - 1,
+        Math.floor((x * DHASH_WIDTH) / width),
+      );
+      const offset = (y * width + x) * 4;
+      // ITU-R BT.601 luma
+      const luma =
+        pixels[offset] * 0.299 +
+        pixels[offset + 1] * 0.587 +
+        pixels[offset + 2] * 0.114;
+      const cell = row * DHASH_WIDTH + column;
+      sums[cell] += luma;
+      counts[cell] += 1;
+    }
+  }
+
+  return sums.map((sum, cell) => (counts[cell] ? sum / counts[cell] : 0));
+};
+
+/**
+ * Computes the difference hash of an image.
+ *
+ * @param pixels - RGBA pixel data, e.g. `ImageData.data`
+ * @param width - Image width in pixels (at least 9)
+ * @param height - Image height in pixels (at least 8)
+ * @returns The hash as 16 lowercase hex characters
+ * @throws Error when the image is smaller than the hash grid or the pixel
+ *   data does not match its dimensions
+ *
+ * @example
+ * ```ts
+ * const { data, width, height } = ctx.getImageData(0, 0, 36, 32);
+ * computeDHash(data, width, height); // => "3c3e0e1a3a1c1e3c"
+ * ```
+ */
+export const computeDHash = (
+  pixels: ArrayLike<number>,
+  width: number,
+  height: number,
+): string => {
+  if (width < DHASH_WIDTH || height < DHASH_HEIGHT) {
+    throw new Error(
+      `Image must be at least ${DHASH_WIDTH}x${DHASH_HEIGHT} pixels`,
+    );
+  }
+  if (pixels.length < width * height * 4) {
+    throw new Error("Pixel data does not match the image dimensions");
+  }
+
+  const grid = toGrayscaleGrid(pixels, width, height);
+  let hash = "";
+
+  for (let row = 0; row < DHASH_HEIGHT; row += 1) {
+    let byte = 0;
+    for (let column = 0; column < DHASH_WIDTH - 1; column += 1) {
+      const left = grid[row * DHASH_WIDTH + column];
+      const right = grid[row * DHASH_WIDTH + column + 1];
+      byte = (byte << 1) | (left > right ? 1 : 0);
+    }
+    hash += byte.toString(16).padStart(2, "0");
+  }
+
+  return hash;
+};
+
+/**
+ * Counts the bits that differ between two hashes.
+ *
+ * @throws Error when either value is not a 64-bit hex hash
+ *
+ * @example
+ * ```ts
+ * hammingDistance("ffffffffffffffff", "fffffffffffffff0"); // => 4
+ * ```
+ */
+export const hammingDistance = (a: string, b: string): number => {
+  if (!PERCEPTUAL_HASH_PATTERN.test(a) || !PERCEPTUAL_HASH_PATTERN.test(b)) {
+    throw new Error("Perceptual hashes must be 16 hex characters");
+  }
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    distance += NIBBLE_BITS[parseInt(a[i], 16) ^ parseInt(b[i], 16)];
+  }
+  return distance;
+};
+
+/**
+ * Computes the dHash of encoded image bytes.
+ *
+ * @param images - The Cloudflare Images binding, used to decode pixels
+ * @returns The hash, or null when the bytes are not a decodable image
+ */
+export const hashImageBytes = async (
+  images: ImagesBinding,
+  bytes: Uint8Array,
+): Promise<string | null> => {
+  // Only hand real images to the decoder
+  if (!detectImageType(bytes)) return null;
+
+  const width = DHASH_WIDTH * PERCEPTUAL_HASH_SCALE;
+  const height = DHASH_HEIGHT * PERCEPTUAL_HASH_SCALE;
+  // Stretched to the grid, not cropped, so the aspect ratio never matters
+  const result = await images
+    .input(new Blob([bytes.slice()]).stream())
+    .transform({ width, height, fit: "squeeze" })
+    .output({ format: "rgba" });
+  const pixels = new Uint8Array(
+    await new Response(result.image()).arrayBuffer(),
+  );
+  return computeDHash(pixels, width, height);
+};
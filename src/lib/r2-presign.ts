@@ -0,0 +1,212 @@
+/**
+ * Pre-signed R2 upload URLs
+ *
+ * Signs S3-compatible (AWS Signature Version 4) query-string URLs so the
+ * browser can PUT large files straight into R2 instead of streaming them
+ * through the edge function. Signatures are computed with Web Crypto, so
+ * this runs in the edge runtime without an AWS SDK.
+ */
+
+import type { AppEnv } from "@/lib/cf-env";
+import { sha256Hex } from "@/lib/crypto";
+
+/**
+ * Credentials for the R2 S3-compatible API
+ */
+export type DirectUploadConfig = {
+  accountId: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  bucketName: string;
+};
+
+/**
+ * A request to sign
+ */
+export type PresignInput = {
+  method: "GET" | "PUT";
+  /** Absolute URL of the object */
+  url: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+  service: string;
+  /** Seconds the URL stays valid (max 7 days) */
+  expiresIn: number;
+  /** Headers the client must send unchanged, e.g. content-type */
+  headers?: Record<string, string>;
+  /** Hex SHA-256 of the body, or "UNSIGNED-PAYLOAD" */
+  payloadHash?: string;
+  /** Signing time (defaults to now) */
+  date?: Date;
+};
+
+/**
+ * Reads direct-upload credentials from the environment.
+ *
+ * @param env - The application environment
+ * @returns The config, or null when any R2 API credential is missing
+ */
+export const getDirectUploadConfig = (
+  env: AppEnv,
+): DirectUploadConfig | null => {
+  const accountId = env.R2_ACCOUNT_ID?.trim();
+  const accessKeyId = env.R2_ACCESS_KEY_ID?.trim();
+  const secretAccessKey = env.R2_SECRET_ACCESS_KEY?.trim();
+  const bucketName = env.R2_BUCKET_NAME?.trim();
+  if (!accountId || !accessKeyId || !secretAccessKey || !bucketName) {
+    return null;
+  }
+  return { accountId, accessKeyId, secretAccessKey, bucketName };
+};
+
+const encoder = new TextEncoder();
+
+const toHex = (bytes: ArrayBuffer) =>
+  Array.from(new Uint8Array(bytes))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+const hmac = async (key: ArrayBuffer | Uint8Array, message: string) => {
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    key instanceof Uint8Array ? key.slice() : key,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  return crypto.subtle.sign("HMAC", cryptoKey, encoder.encode(message));
+};
+
+// RFC 3986 encoding as required by SigV4 (encodeURIComponent leaves !'()* alone)
+const uriEncode = (value: string) =>
+  encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+
+const toAmzDate = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+/**
+ * Signs a URL with AWS Signature Version 4 query parameters.
+ *
+ * @param input - The request to sign
+ * @returns The URL with `X-Amz-*` query parameters appended
+ *
+ * @example
+ * ```ts
+ * const url = await createPresignedUrl({
+ *   method: "PUT",
+ *   url: "https://<account>.r2.cloudflarestorage.com/bucket/key.jpg",
+ *   accessKeyId,
+ *   secretAccessKey,
+ *   region: "auto",
+ *   service: "s3",
+ *   expiresIn: 300,
+ *   headers: { "content-type": "image/jpeg" },
+ * });
+ * ```
+ */
+export const createPresignedUrl = async (
+  input: PresignInput,
+): Promise<string> => {
+  const url = new URL(input.url);
+  const amzDate = toAmzDate(input.date ?? new Date());
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${input.region}/${input.service}/aws4_request`;
+
+  const headers: Record<string, string> = { host: url.host };
+  for (const [name, value] of Object.entries(input.headers ?? {})) {
+    headers[name.toLowerCase()] = value.trim();
+  }
+  const headerNames = Object.keys(headers).sort();
+  const signedHeaders = headerNames.join(";");
+
+  const query: Array<[string, string]> = [
+    ...url.searchParams.entries(),
+    ["X-Amz-Algorithm", "AWS4-HMAC-SHA256"],
+    ["X-Amz-Credential", `${input.accessKeyId}/${scope}`],
+    ["X-Amz-Date", amzDate],
+    ["X-Amz-Expires", String(input.expiresIn)],
+    ["X-Amz-SignedHeaders", signedHeaders],
+  ];
+  const canonicalQuery = query
+    .map(([name, value]) => [uriEncode(name), uriEncode(value)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([name, value]) => `${name}=${value}`)
+    .join("&");
+
+  const canonicalPath = url.pathname
+    .split("/")
+    .map((segment) => uriEncode(decodeURIComponent(segment)))
+    .join("/");
+
+  const canonicalRequest = [
+    input.method,
+    canonicalPath,
+    canonicalQuery,
+    headerNames.map((name) => `${name}:${headers[name]}\n`).join(""),
+    signedHeaders,
+    input.payloadHash ?? "UNSIGNED-PAYLOAD",
+  ].join("\n");
+
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    await sha256Hex(canonicalRequest),
+  ].join("\n");
+
+  const dateKey = await hmac(
+    encoder.encode(`AWS4${input.secretAccessKey}`),
+    dateStamp,
+  );
+  const regionKey = await hmac(dateKey, input.region);
+  const serviceKey = await hmac(regionKey, input.service);
+  const signingKey = await hmac(serviceKey, "aws4_request");
+  const signature = toHex(await hmac(signingKey, stringToSign));
+
+  return `${url.origin}${canonicalPath}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+};
+
+/**
+ * Signs a PUT URL for one R2 object, bound to its content type, length
+ * and SHA-256 so the client cannot upload anything else with it.
+ *
+ * @param config - R2 API credentials
+ * @param upload - Object key, content type, byte length and hex SHA-256
+ * @param expiresIn - Seconds the URL stays valid
+ * @returns The upload URL and the headers the client must send with it
+ */
+export const presignR2Upload = async (
+  config: DirectUploadConfig,
+  upload: { key: string; contentType: string; size: number; sha256: string },
+  expiresIn: number,
+) => {
+  const headers = {
+    "content-length": String(upload.size),
+    "content-type": upload.contentType,
+    "x-amz-content-sha256": upload.sha256,
+  };
+  const url = await createPresignedUrl({
+    method: "PUT",
+    url: `https://${config.accountId}.r2.cloudflarestorage.com/${config.bucketName}/${upload.key}`,
+    accessKeyId: config.accessKeyId,
+    secretAccessKey: config.secretAccessKey,
+    region: "auto",
+    service: "s3",
+    expiresIn,
+    headers,
+    payloadHash: upload.sha256,
+  });
+
+  // Browsers set Content-Length themselves and refuse to let scripts set it
+  return {
+    url,
+    headers: {
+      "Content-Type": headers["content-type"],
+      "x-amz-content-sha256": headers["x-amz-content-sha256"],
+    },
+  };
+};
@@ -1,6 +1,14 @@
-import { describe, expect, it } from "vitest";
-import { checkRateLimit, makeRateLimitKey } from "@/lib/rate-limit";
-import { MockKVNamespace } from "@/test/setup";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  applyRateLimit,
+  checkRateLimit,
+  DEFAULT_RATE_LIMITS,
+  describeRateLimitReset,
+  getRateLimitConfig,
+  makeRateLimitKey,
+  peekRateLimit,
+} from "@/lib/rate-limit";
+import { createMockEnv, MockKVNamespace } from "@/test/setup";
 
 describe("rate limiting", () => {
   it("builds deterministic keys", () => {
@@ -17,6 +25,27 @@ describe("rate limiting", () => {
     expect(key).toBe("upload:127.0.0.1:2026-01-14");
   });
 
+  it("builds monthly keys", () => {
+    const key = makeRateLimitKey(
+      "key:abc",
+      new Date("2026-01-14T10:00:00Z"),
+      "apikey_quota",
+      "month",
+    );
+    expect(key).toBe("apikey_quota:key:abc:2026-01");
+  });
+
+  it("resets monthly windows at the start of the next UTC month", async () => {
+    const kv = new MockKVNamespace() as unknown as KVNamespace;
+    const status = await checkRateLimit(kv, "ip", 5, "monthly", "month");
+    const now = new Date();
+    const expected = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1),
+    ).toISOString();
+
+    expect(status.resetAt).toBe(expected);
+  });
+
   it("enforces limits", async () => {
     const kv = new MockKVNamespace() as unknown as KVNamespace;
 
@@ -32,4 +61,204 @@ describe("rate limiting", () => {
     expect(third.allowed).toBe(false);
     expect(third.remaining).toBe(0);
   });
+
+  it("peeks without counting", async () => {
+    const kv = new MockKVNamespace() as unknown as KVNamespace;
+
+    await checkRateLimit(kv, "ip", 2);
+    expect(await peekRateLimit(kv, "ip", 2)).toMatchObject({
+      allowed: true,
+      remaining: 1,
+    });
+    expect((await checkRateLimit(kv, "ip", 2)).remaining).toBe(0);
+    expect((await peekRateLimit(kv, "ip", 2)).allowed).toBe(false);
+  });
+});
+
+describe("rate limit algorithms", () => {
+  let kv: KVNamespace;
+
+  const hit = async (
+    times: number,
+    config: Parameters<typeof applyRateLimit>[3],
+  ) => {
+    const statuses = [];
+    for (let i = 0; i < times; i++) {
+      statuses.push(await applyRateLimit(kv, "ip", "search", config));
+    }
+    return statuses;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-10T18:30:00Z"));
+    kv = new MockKVNamespace() as unknown as KVNamespace;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("fixed window", () => {
+    it("resets at the next midnight UTC", async () => {
+      const [status] = await hit(1, { algorithm: "fixed-window", limit: 3 });
+      expect(status.resetAt).toBe("2026-03-11T00:00:00.000Z");
+    });
+
+    it("starts a new count after midnight", async () => {
+      const config = { algorithm: "fixed-window" as const, limit: 1 };
+      await hit(1, config);
+      expect((await hit(1, config))[0].allowed).toBe(false);
+
+      vi.setSystemTime(new Date("2026-03-11T00:00:01Z"));
+      expect((await hit(1, config))[0].allowed).toBe(true);
+    });
+  });
+
+  describe("sliding window", () => {
+    const config = {
+      algorithm: "sliding-window" as const,
+      limit: 2,
+      windowSeconds: 60 * 60,
+    };
+
+    it("frees slots as old requests leave the window", async () => {
+      const [first] = await hit(1, config);
+      vi.advanceTimersByTime(30 * 60 * 1000);
+      const [second, third] = await hit(2, config);
+
+      expect(first).toMatchObject({ allowed: true, remaining: 1 });
+      expect(second).toMatchObject({ allowed: true, remaining: 0 });
+      expect(third.allowed).toBe(false);
+      expect(third.resetAt).toBe("2026-03-10T19:30:00.000Z");
+
+      // The first request ages out after an hour, the second has not yet
+      vi.setSystemTime(new Date("2026-03-10T19:30:01Z"));
+      const [fourth, fifth] = await hit(2, config);
+      expect(fourth.allowed).toBe(true);
+      expect(fifth.allowed).toBe(false);
+    });
+
+    it("does not reset at midnight", async () => {
+      vi.setSystemTime(new Date("2026-03-10T23:59:00Z"));
+      await hit(2, config);
+
+      vi.setSystemTime(new Date("2026-03-11T00:01:00Z"));
+      expect((await hit(1, config))[0].allowed).toBe(false);
+    });
+  });
+
+  describe("token bucket", () => {
+    const config = {
+      algorithm: "token-bucket" as const,
+      limit: 4,
+      windowSeconds: 4 * 60,
+    };
+
+    it("allows a burst up to the bucket size", async () => {
+      const statuses = await hit(5, config);
+      expect(statuses.map((status) => status.allowed)).toEqual([
+        true,
+        true,
+        true,
+        true,
+        false,
+      ]);
+      expect(statuses[3].remaining).toBe(0);
+      // One token refills every minute
+      expect(statuses[4].resetAt).toBe("2026-03-10T18:31:00.000Z");
+    });
+
+    it("refills tokens over time", async () => {
+      await hit(4, config);
+
+      vi.advanceTimersByTime(2 * 60 * 1000);
+      const statuses = await hit(3, config);
+
+      expect(statuses.map((status) => status.allowed)).toEqual([
+        true,
+        true,
+        false,
+      ]);
+    });
+
+    it("never holds more than the bucket size", async () => {
+      await hit(1, config);
+      vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+
+      const [status] = await hit(1, config);
+      expect(status.remaining).toBe(3);
+    });
+  });
+
+  describe("cost", () => {
+    it.each([
+      { algorithm: "fixed-window" as const, limit: 5 },
+      { algorithm: "sliding-window" as const, limit: 5, windowSeconds: 3600 },
+      { algorithm: "token-bucket" as const, limit: 5, windowSeconds: 3600 },
+    ])("counts every unit of a request with $algorithm", async (config) => {
+      const first = await applyRateLimit(kv, "ip", "batch", config, 3);
+      expect(first).toMatchObject({ allowed: true, remaining: 2 });
+
+      // Too costly for what is left, and nothing is taken
+      const second = await applyRateLimit(kv, "ip", "batch", config, 3);
+      expect(second).toMatchObject({ allowed: false, remaining: 2 });
+
+      const third = await applyRateLimit(kv, "ip", "batch", config, 2);
+      expect(third).toMatchObject({ allowed: true, remaining: 0 });
+    });
+  });
+});
+
+describe("getRateLimitConfig", () => {
+  it("falls back to the defaults", () => {
+    expect(getRateLimitConfig(createMockEnv(), "upload")).toEqual(
+      DEFAULT_RATE_LIMITS.upload,
+    );
+  });
+
+  it("reads per-bucket overrides", () => {
+    const env = {
+      ...createMockEnv(),
+      RATE_LIMIT_CONFIG: JSON.stringify({
+        search: { algorithm: "token-bucket", limit: 5, windowSeconds: 3600 },
+      }),
+    };
+
+    expect(getRateLimitConfig(env, "search")).toEqual({
+      algorithm: "token-bucket",
+      limit: 5,
+      windowSeconds: 3600,
+    });
+    expect(getRateLimitConfig(env, "upload_quota")).toEqual(
+      DEFAULT_RATE_LIMITS.upload_quota,
+    );
+  });
+
+  it("ignores invalid configuration", () => {
+    for (const RATE_LIMIT_CONFIG of [
+      "not json",
+      JSON.stringify({ search: { algorithm: "leaky-bucket", limit: 5 } }),
+    ]) {
+      const env = { ...createMockEnv(), RATE_LIMIT_CONFIG };
+      expect(getRateLimitConfig(env, "search")).toEqual(
+        DEFAULT_RATE_LIMITS.search,
+      );
+    }
+  });
+});
+
+describe("describeRateLimitReset", () => {
+  it("mentions midnight only for daily fixed windows", () => {
+    expect(
+      describeRateLimitReset({ algorithm: "fixed-window", limit: 1 }),
+    ).toContain("midnight UTC");
+    expect(
+      describeRateLimitReset({
+        algorithm: "sliding-window",
+        limit: 1,
+        windowSeconds: 60,
+      }),
+    ).not.toContain("midnight");
+  });
 });
@@ -1,10 +1,26 @@
 /**
  * Rate limiting module using Cloudflare KV
  *
- * Implements a daily rate limit per IP address with atomic operations
- * to prevent race conditions in concurrent requests.
+ * Supports three algorithms behind the same `RateLimitStatus` contract:
+ * - fixed-window: a counter per UTC day (or month) that resets at the boundary
+ * - sliding-window: a log of recent request times, so limits cannot be burst
+ *   at a window edge
+ * - token-bucket: tokens refill continuously, allowing short bursts up to
+ *   the bucket size
+ *
+ * Each bucket (search, upload, upload_quota, inspect, cache_lookup, enrich,
+ * thumb, batch, saved_search) picks its algorithm through
+ * `RATE_LIMIT_CONFIG`. A request usually costs one unit; a batch costs one
+ * per image it searches. Writes are verified and retried to narrow the
+ * race window between concurrent requests.
  */
 
+import { z } from "zod";
+import type { AppEnv } from "@/lib/cf-env";
+import { createLogger } from "@/lib/logger";
+
+const logger = createLogger("rate-limit");
+
 /**
  * Result of a rate limit check
  */
@@ -19,9 +35,18 @@ export type RateLimitStatus = {
   resetAt: string;
 };
 
+/** Length of a rate limit window */
+export type RateLimitPeriod = "day" | "month";
+
 /** Duration of rate limit window in seconds (24 hours) */
 const RATE_LIMIT_WINDOW_SECONDS = 60 * 60 * 24;
 
+/** Lifetime of a monthly counter in seconds (31 days, the longest month) */
+const MONTHLY_WINDOW_SECONDS = 60 * 60 * 24 * 31;
+
+/** KV rejects expirationTtl values below 60 seconds */
+const MIN_KV_TTL_SECONDS = 60;
+
 /** Maximum retry attempts for atomic KV operations */
 const MAX_RETRY_ATTEMPTS = 3;
 
@@ -31,13 +56,118 @@ const RETRY_DELAY_MS = 50;
 /** Default daily request limit per IP */
 export const DEFAULT_DAILY_LIMIT = 10;
 
+export const RateLimitConfigSchema = z.discriminatedUnion("algorithm", [
+  z.object({
+    algorithm: z.literal("fixed-window"),
+    limit: z.number().int().positive(),
+    period: z.enum(["day", "month"]).optional(),
+  }),
+  z.object({
+    algorithm: z.literal("sliding-window"),
+    limit: z.number().int().positive().max(1000),
+    windowSeconds: z.number().int().positive(),
+  }),
+  z.object({
+    algorithm: z.literal("token-bucket"),
+    /** Bucket size: the largest burst allowed */
+    limit: z.number().int().positive(),
+    /** Time for an empty bucket to refill completely */
+    windowSeconds: z.number().int().positive(),
+  }),
+]);
+
+/**
+ * Algorithm and limits for one rate limit bucket
+ */
+export type RateLimitConfig = z.infer<typeof RateLimitConfigSchema>;
+
+/** Available rate limiting algorithms */
+export type RateLimitAlgorithm = RateLimitConfig["algorithm"];
+
+/** Buckets whose algorithm can be configured */
+export type RateLimitBucket =
+  | "search"
+  | "upload"
+  | "upload_quota"
+  | "inspect"
+  | "cache_lookup"
+  | "enrich"
+  | "thumb"
+  | "batch"
+  | "saved_search";
+
+/** Limits used when `RATE_LIMIT_CONFIG` does not override a bucket */
+export const DEFAULT_RATE_LIMITS: Record<RateLimitBucket, RateLimitConfig> = {
+  search: { algorithm: "fixed-window", limit: DEFAULT_DAILY_LIMIT },
+  upload: { algorithm: "fixed-window", limit: 20 },
+  upload_quota: { algorithm: "fixed-window", limit: 50 },
+  inspect: { algorithm: "fixed-window", limit: 100 },
+  cache_lookup: { algorithm: "fixed-window", limit: 200 },
+  enrich: { algorithm: "fixed-window", limit: 100 },
+  // Only thumbnail cache misses count; a results page shows dozens
+  thumb: { algorithm: "fixed-window", limit: 2000 },
+  // Counted per image a batch sends to the provider, not per batch
+  batch: { algorithm: "fixed-window", limit: 100 },
+  // Every saved search keeps costing provider calls, so creation is scarce
+  saved_search: { algorithm: "fixed-window", limit: 10 },
+};
+
+const RateLimitOverridesSchema = z
+  .object({
+    search: RateLimitConfigSchema,
+    upload: RateLimitConfigSchema,
+    upload_quota: RateLimitConfigSchema,
+    inspect: RateLimitConfigSchema,
+    cache_lookup: RateLimitConfigSchema,
+    enrich: RateLimitConfigSchema,
+    thumb: RateLimitConfigSchema,
+    batch: RateLimitConfigSchema,
+    saved_search: RateLimitConfigSchema,
+  })
+  .partial();
+
+/**
+ * Resolves the configuration for a bucket.
+ *
+ * `RATE_LIMIT_CONFIG` is a JSON object keyed by bucket, e.g.
+ * `{"search":{"algorithm":"token-bucket","limit":10,"windowSeconds":86400}}`.
+ * Invalid configuration is logged and ignored.
+ *
+ * @param env - The application environment
+ * @param bucket - The bucket to configure
+ * @returns The override for the bucket, or its default
+ */
+export const getRateLimitConfig = (
+  env: AppEnv,
+  bucket: RateLimitBucket,
+): RateLimitConfig => {
+  if (!env.RATE_LIMIT_CONFIG) {
+    return DEFAULT_RATE_LIMITS[bucket];
+  }
+
+  try {
+    const overrides = RateLimitOverridesSchema.parse(
+      JSON.parse(env.RATE_LIMIT_CONFIG),
+    );
+    return overrides[bucket] ?? DEFAULT_RATE_LIMITS[bucket];
+  } catch (error) {
+    logger.warn("Ignoring invalid RATE_LIMIT_CONFIG", {
+      bucket,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return DEFAULT_RATE_LIMITS[bucket];
+  }
+};
+
 /**
  * Generates a rate limit key for KV storage.
  *
  * @param ip - The client IP address
  * @param date - The date for the rate limit window (default: current date)
  * @param bucket - The rate limit bucket name (default: "limit")
- * @returns A unique key in format `{bucket}:{ip}:{YYYY-MM-DD}`
+ * @param period - The window length (default: "day")
+ * @returns A unique key in format `{bucket}:{ip}:{YYYY-MM-DD}`, or
+ * `{bucket}:{ip}:{YYYY-MM}` for monthly windows
  *
  * @example
  * ```ts
@@ -52,102 +182,381 @@ export const makeRateLimitKey = (
   ip: string,
   date = new Date(),
   bucket = "limit",
+  period: RateLimitPeriod = "day",
 ): string => {
   const day = date.toISOString().split("T")[0];
-  return `${bucket}:${ip}:${day}`;
+  const window = period === "month" ? day.slice(0, 7) : day;
+  return `${bucket}:${ip}:${window}`;
 };
 
 /**
- * Checks and increments the rate limit counter for an IP address.
- *
- * Uses an optimistic locking pattern with retries to handle concurrent requests.
- * The counter automatically expires after 24 hours.
+ * Computes when the current fixed window ends: the next UTC midnight,
+ * or the start of the next UTC month for monthly windows.
+ */
+const getWindowEnd = (period: RateLimitPeriod, now = new Date()): Date =>
+  new Date(
+    Date.UTC(
+      now.getUTCFullYear(),
+      now.getUTCMonth() + (period === "month" ? 1 : 0),
+      period === "month" ? 1 : now.getUTCDate() + 1,
+    ),
+  );
+
+/**
+ * Human-readable hint for when a limited client may try again.
+ */
+export const describeRateLimitReset = (config: RateLimitConfig): string => {
+  if (config.algorithm !== "fixed-window") {
+    return "Please try again later.";
+  }
+  return config.period === "month"
+    ? "Your limit resets at the start of next month (UTC)."
+    : "Your limit resets at midnight UTC.";
+};
+
+/**
+ * One step of a rate limit algorithm: which key holds the state, how long
+ * it must be kept, and how a request changes it. `compute` returns a null
+ * value when the stored state should be left untouched.
  *
- * @param kv - The Cloudflare KV namespace
- * @param ip - The client IP address to check
- * @param limit - Maximum requests allowed per day (default: 10)
- * @param bucket - The rate limit bucket name (default: "limit")
- * @returns The current rate limit status
+ * Plans are storage-agnostic so KV and the Durable Object limiter share them.
+ */
+export type RateLimitPlan = {
+  key: string;
+  ttlSeconds: number;
+  compute: (current: string | null) => {
+    value: string | null;
+    status: RateLimitStatus;
+  };
+};
+
+/**
+ * Fixed window: a counter per UTC day (or month) that resets at midnight
+ * UTC (or the start of the month). A request is allowed only when its
+ * whole cost fits in what is left.
+ */
+const planFixedWindow = (
+  subject: string,
+  bucket: string,
+  limit: number,
+  period: RateLimitPeriod,
+  now: number,
+  cost = 1,
+): RateLimitPlan => {
+  const date = new Date(now);
+  const resetAt = getWindowEnd(period, date).toISOString();
+
+  return {
+    key: makeRateLimitKey(subject, date, bucket, period),
+    ttlSeconds:
+      period === "month" ? MONTHLY_WINDOW_SECONDS : RATE_LIMIT_WINDOW_SECONDS,
+    compute: (current) => {
+      const parsed = current ? Number.parseInt(current, 10) : 0;
+      const count = Number.isNaN(parsed) ? 0 : parsed;
+      const allowed = count + cost <= limit;
+      const nextCount = allowed ? count + cost : count;
+
+      let value: string | null = allowed ? `${nextCount}` : null;
+      if (!allowed && count >= limit) {
+        // Keep counting past the limit so repeated attempts stay denied
+        value = `${count + 1}`;
+      }
+
+      return {
+        value,
+        status: {
+          allowed,
+          remaining: Math.max(0, limit - nextCount),
+          limit,
+          resetAt,
+        },
+      };
+    },
+  };
+};
+
+/**
+ * Sliding window log: allows `limit` requests in any `windowSeconds` span.
+ * A request costing several units is logged once per unit. `resetAt` is
+ * when the oldest counted request leaves the window and a slot frees up.
+ */
+const planSlidingWindow = (
+  subject: string,
+  bucket: string,
+  limit: number,
+  windowSeconds: number,
+  now: number,
+  cost = 1,
+): RateLimitPlan => {
+  const windowMs = windowSeconds * 1000;
+
+  return {
+    key: `${bucket}:sw:${subject}`,
+    ttlSeconds: windowSeconds,
+    compute: (current) => {
+      let log: number[] = [];
+      try {
+        const parsed: unknown = current ? JSON.parse(current) : [];
+        log = Array.isArray(parsed)
+          ? parsed.filter((value): value is number => typeof value === "number")
+          : [];
+      } catch {
+        // Corrupt state starts a fresh log
+      }
+
+      const recent = log.filter((timestamp) => timestamp > now - windowMs);
+      const allowed = recent.length + cost <= limit;
+      const next = allowed
+        ? [...recent, ...Array.from({ length: cost }, () => now)]
+        : recent;
+      const oldest = next[0] ?? now;
+
+      return {
+        value: allowed ? JSON.stringify(next) : null,
+        status: {
+          allowed,
+          remaining: Math.max(0, limit - next.length),
+          limit,
+          resetAt: new Date(oldest + windowMs).toISOString(),
+        },
+      };
+    },
+  };
+};
+
+/**
+ * Token bucket: holds up to `limit` tokens and refills at
+ * `limit / windowSeconds` tokens per second. Each request takes one token
+ * per unit of its cost. `resetAt` is when enough tokens have arrived for
+ * denied requests, and when the bucket is full again otherwise.
+ */
+const planTokenBucket = (
+  subject: string,
+  bucket: string,
+  limit: number,
+  windowSeconds: number,
+  now: number,
+  cost = 1,
+): RateLimitPlan => {
+  const refillPerMs = limit / (windowSeconds * 1000);
+
+  return {
+    key: `${bucket}:tb:${subject}`,
+    ttlSeconds: windowSeconds,
+    compute: (current) => {
+      let tokens = limit;
+      try {
+        const state = current
+          ? (JSON.parse(current) as { tokens?: unknown; updatedAt?: unknown })
+          : null;
+        if (
+          state &&
+          typeof state.tokens === "number" &&
+          typeof state.updatedAt === "number"
+        ) {
+          const elapsed = Math.max(0, now - state.updatedAt);
+          tokens = Math.min(limit, state.tokens + elapsed * refillPerMs);
+        }
+      } catch {
+        // Corrupt state starts with a full bucket
+      }
+
+      const allowed = tokens >= cost;
+      const left = allowed ? tokens - cost : tokens;
+      const waitMs = allowed
+        ? (limit - left) / refillPerMs
+        : (cost - left) / refillPerMs;
+
+      return {
+        value: allowed ? JSON.stringify({ tokens: left, updatedAt: now }) : null,
+        status: {
+          allowed,
+          remaining: Math.floor(left),
+          limit,
+          resetAt: new Date(now + Math.ceil(waitMs)).toISOString(),
+        },
+      };
+    },
+  };
+};
+
+/**
+ * Builds the plan for one request against a bucket.
  *
- * @example
- * ```ts
- * const status = await checkRateLimit(env.KV_RATE_LIMIT, clientIp);
- * if (!status.allowed) {
- *   return new Response("Rate limit exceeded", { status: 429 });
- * }
- * ```
+ * @param subject - Who is being limited (usually the client IP)
+ * @param bucket - The bucket name, used as the storage key prefix
+ * @param config - Algorithm and limits
+ * @param cost - Units the request counts as (default: 1)
+ * @param now - Current time in milliseconds (default: Date.now())
+ */
+export const planRateLimit = (
+  subject: string,
+  bucket: string,
+  config: RateLimitConfig,
+  cost = 1,
+  now = Date.now(),
+): RateLimitPlan => {
+  switch (config.algorithm) {
+    case "sliding-window":
+      return planSlidingWindow(
+        subject,
+        bucket,
+        config.limit,
+        config.windowSeconds,
+        now,
+        cost,
+      );
+    case "token-bucket":
+      return planTokenBucket(
+        subject,
+        bucket,
+        config.limit,
+        config.windowSeconds,
+        now,
+        cost,
+      );
+    default:
+      return planFixedWindow(
+        subject,
+        bucket,
+        config.limit,
+        config.period ?? "day",
+        now,
+        cost,
+      );
+  }
+};
+
+/**
+ * Runs a plan against KV, retrying when a concurrent request changed the
+ * value between the write and a re-read. KV is eventually consistent, so
+ * this narrows the race window but cannot close it; use the Durable Object
+ * limiter when limits must be exact.
  */
-export const checkRateLimit = async (
+const runPlanOnKV = async (
   kv: KVNamespace,
-  ip: string,
-  limit = DEFAULT_DAILY_LIMIT,
-  bucket = "limit",
+  { key, ttlSeconds, compute }: RateLimitPlan,
 ): Promise<RateLimitStatus> => {
-  const key = makeRateLimitKey(ip, new Date(), bucket);
-
-  // Use atomic check-and-set pattern to prevent race conditions
-  // KV's get/put operations are atomic per key, but we need to be careful
-  // about the check-then-act race window
   let attempt = 0;
 
   while (attempt < MAX_RETRY_ATTEMPTS) {
     const current = await kv.get(key, { type: "text" });
-    const count = current ? Number.parseInt(current, 10) : 0;
-    const nextCount = Number.isNaN(count) ? 1 : count + 1;
+    const { value, status } = compute(current);
 
-    const allowed = nextCount <= limit;
-    const remaining = Math.max(0, limit - nextCount);
+    // Denied requests leave the stored state untouched
+    if (value === null) {
+      return status;
+    }
 
-    // Attempt to write with conditional check using metadata as a lock
-    // This is a simple optimistic locking pattern
     try {
-      // Write the new count
-      await kv.put(key, `${nextCount}`, {
-        expirationTtl: RATE_LIMIT_WINDOW_SECONDS,
+      await kv.put(key, value, {
+        expirationTtl: Math.max(MIN_KV_TTL_SECONDS, Math.ceil(ttlSeconds)),
       });
 
       // Verify it was written correctly (check for race condition)
       const verify = await kv.get(key, { type: "text" });
-      const verifyCount = verify ? Number.parseInt(verify, 10) : 0;
-
-      // If verification shows a different value, we hit a race condition
-      // Retry to ensure accuracy
-      if (!Number.isNaN(verifyCount) && verifyCount !== nextCount) {
+      if (verify !== null && verify !== value) {
         attempt++;
         continue;
       }
 
-      const resetAt = new Date(Date.now() + RATE_LIMIT_WINDOW_SECONDS * 1000).toISOString();
-
-      return {
-        allowed,
-        remaining,
-        limit,
-        resetAt,
-      };
+      return status;
     } catch (error) {
-      // On error, retry if we have attempts left
       attempt++;
       if (attempt >= MAX_RETRY_ATTEMPTS) {
         throw error;
       }
-      // Small delay before retry
       await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
     }
   }
 
-  // Fallback: if we exhausted retries, use a conservative estimate
-  const current = await kv.get(key, { type: "text" });
-  const count = current ? Number.parseInt(current, 10) : 0;
-  const nextCount = Number.isNaN(count) ? 1 : count + 1;
-  const allowed = nextCount <= limit;
-  const remaining = Math.max(0, limit - nextCount);
-  const resetAt = new Date(Date.now() + RATE_LIMIT_WINDOW_SECONDS * 1000).toISOString();
+  // Exhausted retries: report the state as computed from the latest value
+  return compute(await kv.get(key, { type: "text" })).status;
+};
+
+/**
+ * Checks and increments the rate limit counter for an IP address.
+ *
+ * This is the fixed-window algorithm: a counter per UTC day (or month)
+ * that resets at midnight UTC (or the start of the month).
+ *
+ * @param kv - The Cloudflare KV namespace
+ * @param ip - The client IP address to check
+ * @param limit - Maximum requests allowed per day (default: 10)
+ * @param bucket - The rate limit bucket name (default: "limit")
+ * @param period - The window length (default: "day")
+ * @param cost - Units the request counts as (default: 1)
+ * @returns The current rate limit status
+ *
+ * @example
+ * ```ts
+ * const status = await checkRateLimit(env.KV_RATE_LIMIT, clientIp);
+ * if (!status.allowed) {
+ *   return new Response("Rate limit exceeded", { status: 429 });
+ * }
+ * ```
+ */
+export const checkRateLimit = (
+  kv: KVNamespace,
+  ip: string,
+  limit = DEFAULT_DAILY_LIMIT,
+  bucket = "limit",
+  period: RateLimitPeriod = "day",
+  cost = 1,
+): Promise<RateLimitStatus> =>
+  runPlanOnKV(
+    kv,
+    planFixedWindow(ip, bucket, limit, period, Date.now(), cost),
+  );
+
+/**
+ * Reads a fixed-window counter without counting a request against it.
+ * `allowed` says whether a request of the given cost would still fit.
+ */
+export const peekRateLimit = async (
+  kv: KVNamespace,
+  ip: string,
+  limit = DEFAULT_DAILY_LIMIT,
+  bucket = "limit",
+  period: RateLimitPeriod = "day",
+  cost = 1,
+): Promise<RateLimitStatus> => {
+  const now = new Date();
+  const current = await kv.get(makeRateLimitKey(ip, now, bucket, period), {
+    type: "text",
+  });
+  const parsed = current ? Number.parseInt(current, 10) : 0;
+  const count = Number.isNaN(parsed) ? 0 : parsed;
 
   return {
-    allowed,
-    remaining,
+    allowed: count + cost <= limit,
+    remaining: Math.max(0, limit - count),
     limit,
-    resetAt,
+    resetAt: getWindowEnd(period, now).toISOString(),
   };
 };
+
+/**
+ * Checks a request against a bucket in KV using its configured algorithm.
+ *
+ * @param kv - The Cloudflare KV namespace
+ * @param subject - Who is being limited (usually the client IP)
+ * @param bucket - The bucket name, used as the KV key prefix
+ * @param config - Algorithm and limits, usually from `getRateLimitConfig`
+ * @param cost - Units the request counts as (default: 1)
+ * @returns The current rate limit status
+ *
+ * @example
+ * ```ts
+ * const config = getRateLimitConfig(env, "search");
+ * const status = await applyRateLimit(kv, clientIp, "search", config);
+ * ```
+ */
+export const applyRateLimit = (
+  kv: KVNamespace,
+  subject: string,
+  bucket: string,
+  config: RateLimitConfig,
+  cost = 1,
+): Promise<RateLimitStatus> =>
+  runPlanOnKV(kv, planRateLimit(subject, bucket, config, cost));
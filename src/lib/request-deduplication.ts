@@ -4,7 +4,7 @@
  * Uses in-flight request tracking and pending promises
  */
 
-import type { SearchResult } from "./dataforseo";
+import type { SearchResult } from "./search-provider";
 
 type PendingRequest = {
   promise: Promise<SearchResults>;
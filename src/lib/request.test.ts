@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { getClientIp } from "@/lib/request";
+import { getBearerToken, getClientIp } from "@/lib/request";
 import { createMockRequest } from "@/test/setup";
 import type { NextRequest } from "next/server";
 
@@ -126,3 +126,28 @@ describe("getClientIp", () => {
     expect(ip).toBeTruthy();
   });
 });
+
+describe("getBearerToken", () => {
+  it("extracts the token from a Bearer Authorization header", () => {
+    const request = createMockRequest({
+      headers: { authorization: "Bearer isr_abc123" },
+    });
+    expect(getBearerToken(request)).toBe("isr_abc123");
+  });
+
+  it("accepts any casing of the scheme", () => {
+    const request = createMockRequest({
+      headers: { authorization: "bearer isr_abc123" },
+    });
+    expect(getBearerToken(request)).toBe("isr_abc123");
+  });
+
+  it("returns null for missing or non-Bearer credentials", () => {
+    expect(getBearerToken(createMockRequest())).toBeNull();
+    expect(
+      getBearerToken(
+        createMockRequest({ headers: { authorization: "Basic dXNlcjpwYXNz" } }),
+      ),
+    ).toBeNull();
+  });
+});
@@ -112,3 +112,26 @@ export const getClientIp = (request: NextRequest): string => {
   // This should only happen in non-production environments
   return LOCALHOST_IP;
 };
+
+/** Authorization scheme for API keys and admin tokens */
+const BEARER_PATTERN = /^Bearer\s+(\S+)\s*$/i;
+
+/**
+ * Extracts a Bearer token from the Authorization header.
+ *
+ * @param request - The incoming request
+ * @returns The token, or null when the header is missing or not a Bearer credential
+ *
+ * @example
+ * ```ts
+ * const token = getBearerToken(request);
+ * // "Authorization: Bearer isr_abc" => "isr_abc"
+ * ```
+ */
+export const getBearerToken = (request: Request): string | null => {
+  const header = request.headers.get("authorization");
+  if (!header) {
+    return null;
+  }
+  return BEARER_PATTERN.exec(header.trim())?.[1] ?? null;
+};
@@ -0,0 +1,179 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  enrichPages,
+  extractPageMetadata,
+  fetchPageMetadata,
+  MAX_ENRICH_PAGES,
+  parseEnrichInput,
+} from "@/lib/result-enrichment";
+import { ValidationError } from "@/lib/errors";
+import { MockKVNamespace, restoreFetch } from "@/test/setup";
+
+const ARTICLE_HTML = `<!doctype html>
+<html><head>
+  <title>Fallback title</title>
+  <meta property="og:title" content="Sunset over the bay &amp; harbour">
+  <meta property="og:site_name" content='Daily Photo'>
+  <meta name="description" content="A   long
+    description">
+  <meta property="og:image" content="/images/sunset.jpg">
+  <meta property="article:published_time" content="2019-05-04T08:30:00+02:00">
+  <meta property="article:modified_time" content="2020-01-01T00:00:00Z">
+</head><body></body></html>`;
+
+const htmlResponse = (html: string, init: ResponseInit = {}) =>
+  new Response(html, {
+    status: 200,
+    ...init,
+    headers: { "Content-Type": "text/html; charset=utf-8", ...init.headers },
+  });
+
+/**
+ * Routes fetches by method and URL. HEAD requests come from the
+ * validateResolvedIP check and always succeed.
+ */
+const stubPages = (pages: Record<string, () => Response>) => {
+  const fetchMock = vi.fn(
+    async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (init?.method === "HEAD") return new Response(null, { status: 200 });
+      const page = pages[String(input)];
+      return page ? page() : new Response("Not found", { status: 404 });
+    },
+  );
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+};
+
+const pageRequests = (fetchMock: ReturnType<typeof stubPages>) =>
+  fetchMock.mock.calls
+    .filter(([, init]) => init?.method !== "HEAD")
+    .map(([input]) => String(input));
+
+describe("result-enrichment", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  describe("extractPageMetadata", () => {
+    it("reads Open Graph and article tags", () => {
+      expect(
+        extractPageMetadata(ARTICLE_HTML, "https://photos.example.com/post/1"),
+      ).toEqual({
+        title: "Sunset over the bay & harbour",
+        description: "A long description",
+        siteName: "Daily Photo",
+        image: "https://photos.example.com/images/sunset.jpg",
+        publishedAt: "2019-05-04T06:30:00.000Z",
+        modifiedAt: "2020-01-01T00:00:00.000Z",
+      });
+    });
+
+    it("falls back to the title tag and JSON-LD dates", () => {
+      const html = `<title>Plain page</title>
+        <script type="application/ld+json">{"@type":"Article","datePublished":"2015-02-03"}</script>`;
+
+      expect(extractPageMetadata(html)).toEqual({
+        title: "Plain page",
+        publishedAt: "2015-02-03T00:00:00.000Z",
+      });
+    });
+
+    it("ignores implausible dates", () => {
+      const html = `<meta name="date" content="0000-00-00">
+        <meta itemprop="datePublished" content="1970-01-01">`;
+
+      expect(extractPageMetadata(html)).toEqual({});
+    });
+  });
+
+  describe("fetchPageMetadata", () => {
+    it("follows redirects to public pages", async () => {
+      const fetchMock = stubPages({
+        "https://example.com/old": () =>
+          new Response(null, {
+            status: 301,
+            headers: { Location: "/new" },
+          }),
+        "https://example.com/new": () => htmlResponse(ARTICLE_HTML),
+      });
+
+      const metadata = await fetchPageMetadata("https://example.com/old");
+
+      expect(metadata?.publishedAt).toBe("2019-05-04T06:30:00.000Z");
+      expect(pageRequests(fetchMock)).toEqual([
+        "https://example.com/old",
+        "https://example.com/new",
+      ]);
+    });
+
+    it("refuses private hosts, including redirect targets", async () => {
+      const fetchMock = stubPages({
+        "https://example.com/hop": () =>
+          new Response(null, {
+            status: 302,
+            headers: { Location: "https://169.254.169.254/latest/meta-data" },
+          }),
+      });
+
+      expect(await fetchPageMetadata("https://localhost/admin")).toBeNull();
+      expect(await fetchPageMetadata("http://example.com/page")).toBeNull();
+      expect(await fetchPageMetadata("https://example.com/hop")).toBeNull();
+      expect(pageRequests(fetchMock)).toEqual(["https://example.com/hop"]);
+    });
+
+    it("skips non-HTML responses", async () => {
+      stubPages({
+        "https://example.com/photo.jpg": () =>
+          new Response("binary", { headers: { "Content-Type": "image/jpeg" } }),
+      });
+
+      expect(
+        await fetchPageMetadata("https://example.com/photo.jpg"),
+      ).toBeNull();
+    });
+  });
+
+  describe("enrichPages", () => {
+    it("returns metadata by URL and caches it", async () => {
+      const kv = new MockKVNamespace() as unknown as KVNamespace;
+      const fetchMock = stubPages({
+        "https://example.com/a": () => htmlResponse(ARTICLE_HTML),
+      });
+      const urls = ["https://example.com/a", "https://example.com/missing"];
+
+      const pages = await enrichPages(kv, urls);
+      expect(Object.keys(pages)).toEqual(["https://example.com/a"]);
+      expect(pages["https://example.com/a"].siteName).toBe("Daily Photo");
+
+      // Successes and failures are both served from the cache
+      fetchMock.mockClear();
+      expect(await enrichPages(kv, urls)).toEqual(pages);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("parseEnrichInput", () => {
+    const request = (body: unknown) =>
+      new Request("https://example.com/api/search/enrich", {
+        method: "POST",
+        body: JSON.stringify(body),
+      });
+
+    it("accepts up to MAX_ENRICH_PAGES URLs", async () => {
+      await expect(
+        parseEnrichInput(request({ pageUrls: ["https://example.com/a"] })),
+      ).resolves.toEqual({ pageUrls: ["https://example.com/a"] });
+
+      const tooMany = Array.from(
+        { length: MAX_ENRICH_PAGES + 1 },
+        (_, i) => `https://example.com/${i}`,
+      );
+      await expect(
+        parseEnrichInput(request({ pageUrls: tooMany })),
+      ).rejects.toThrow(ValidationError);
+      await expect(parseEnrichInput(request({ pageUrls: [] }))).rejects.toThrow(
+        ValidationError,
+      );
+    });
+  });
+});
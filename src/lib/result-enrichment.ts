@@ -0,0 +1,331 @@
+/**
+ * Search result enrichment
+ *
+ * Fetches result pages server-side and reads what they say about
+ * themselves: Open Graph title, description, site name and image, and
+ * the publish date from `article:published_time`, schema.org
+ * `datePublished` or similar tags. Publish dates let users sort results
+ * by earliest appearance when looking for the original source.
+ *
+ * Pages are fetched with fetchPublicUrl and only the start of each is read.
+ * Metadata is cached in KV per page URL.
+ */
+
+import { z } from "zod";
+import { sha256Hex } from "@/lib/crypto";
+import { ValidationError } from "@/lib/errors";
+import { createLogger } from "@/lib/logger";
+import {
+  fetchPublicUrl,
+  readBodyPrefix,
+  validatePublicPageUrl,
+} from "@/lib/url-validation";
+
+const logger = createLogger("result-enrichment");
+
+/** Most pages enriched per request (each costs up to two subrequests) */
+export const MAX_ENRICH_PAGES = 10;
+
+/** Prefix for cached page metadata */
+const PAGE_CACHE_PREFIX = "enrich:page:";
+
+/** Cache lifetime of page metadata (7 days) */
+const PAGE_CACHE_TTL_SECONDS = 60 * 60 * 24 * 7;
+
+/** Cache lifetime of failed fetches (1 day) */
+const FAILED_PAGE_CACHE_TTL_SECONDS = 60 * 60 * 24;
+
+/** Redirects followed per page */
+const MAX_REDIRECTS = 3;
+
+/** Per-hop fetch timeout */
+const FETCH_TIMEOUT_MS = 5000;
+
+/** Bytes of HTML read per page; metadata lives in the head */
+const MAX_HTML_BYTES = 256 * 1024;
+
+/** Pages fetched at once */
+const FETCH_CONCURRENCY = 5;
+
+/** Publish dates before this are treated as placeholders */
+const EARLIEST_PLAUSIBLE_DATE = Date.parse("1990-01-01T00:00:00Z");
+
+const USER_AGENT =
+  "ImageSearchReverse/1.0 (+https://imagesearchreverse.com; metadata preview)";
+
+/**
+ * What a page says about itself
+ */
+export type PageMetadata = {
+  title?: string;
+  description?: string;
+  siteName?: string;
+  image?: string;
+  /** ISO publish time */
+  publishedAt?: string;
+  /** ISO last-modified time */
+  modifiedAt?: string;
+};
+
+const EnrichInputSchema = z.object({
+  pageUrls: z.array(z.string().url().max(2048)).min(1).max(MAX_ENRICH_PAGES),
+});
+
+export type EnrichInput = z.infer<typeof EnrichInputSchema>;
+
+const META_TAG_PATTERN = /<meta\b[^>]*>/gi;
+const ATTRIBUTE_PATTERN =
+  /([a-zA-Z_:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+const TITLE_PATTERN = /<title[^>]*>([^<]*)<\/title>/i;
+const JSON_LD_DATE_PATTERN = /"datePublished"\s*:\s*"([^"]+)"/;
+
+const PUBLISHED_KEYS = [
+  "article:published_time",
+  "og:published_time",
+  "datepublished",
+  "date",
+  "pubdate",
+  "dc.date.issued",
+  "dc.date",
+  "parsely-pub-date",
+];
+
+const MODIFIED_KEYS = [
+  "article:modified_time",
+  "og:updated_time",
+  "datemodified",
+];
+
+const decodeEntities = (value: string): string =>
+  value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) =>
+      String.fromCodePoint(parseInt(hex, 16)),
+    )
+    .replace(/&#(\d+);/g, (_, code: string) =>
+      String.fromCodePoint(Number(code)),
+    )
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+
+const clean = (value: string | undefined, maxLength = 500) => {
+  const text = value && decodeEntities(value).replace(/\s+/g, " ").trim();
+  return text ? text.slice(0, maxLength) : undefined;
+};
+
+const toIsoDate = (value: string | undefined): string | undefined => {
+  if (!value) return undefined;
+  const time = Date.parse(value.trim());
+  if (
+    Number.isNaN(time) ||
+    time < EARLIEST_PLAUSIBLE_DATE ||
+    time > Date.now() + 24 * 60 * 60 * 1000
+  ) {
+    return undefined;
+  }
+  return new Date(time).toISOString();
+};
+
+const toHttpsUrl = (value: string | undefined, base?: string) => {
+  if (!value) return undefined;
+  try {
+    const url = new URL(decodeEntities(value.trim()), base);
+    return url.protocol === "https:" ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Reads Open Graph, Twitter, schema.org and Dublin Core metadata from the
+ * start of an HTML document. Never throws; missing fields are omitted.
+ *
+ * @param html - HTML source (the head is enough)
+ * @param baseUrl - Page URL, for resolving relative image URLs
+ *
+ * @example
+ * ```ts
+ * extractPageMetadata(
+ *   '<meta property="article:published_time" content="2021-03-04T10:00:00Z">',
+ * ); // => { publishedAt: "2021-03-04T10:00:00.000Z" }
+ * ```
+ */
+export const extractPageMetadata = (
+  html: string,
+  baseUrl?: string,
+): PageMetadata => {
+  const tags = new Map<string, string>();
+  for (const [tag] of html.matchAll(META_TAG_PATTERN)) {
+    const attributes = new Map<string, string>();
+    for (const match of tag.matchAll(ATTRIBUTE_PATTERN)) {
+      attributes.set(match[1].toLowerCase(), match[2] ?? match[3] ?? match[4]);
+    }
+    const key = (
+      attributes.get("property") ??
+      attributes.get("name") ??
+      attributes.get("itemprop")
+    )?.toLowerCase();
+    const content = attributes.get("content");
+    // The first occurrence wins, as with most consumers of these tags
+    if (key && content !== undefined && !tags.has(key)) {
+      tags.set(key, content);
+    }
+  }
+
+  const first = (keys: string[]) =>
+    keys.map((key) => tags.get(key)).find((value) => value?.trim());
+
+  const publishedAt =
+    toIsoDate(first(PUBLISHED_KEYS)) ??
+    toIsoDate(JSON_LD_DATE_PATTERN.exec(html)?.[1]);
+
+  const metadata: PageMetadata = {
+    title: clean(
+      first(["og:title", "twitter:title"]) ?? TITLE_PATTERN.exec(html)?.[1],
+      300,
+    ),
+    description: clean(
+      first(["og:description", "description", "twitter:description"]),
+    ),
+    siteName: clean(first(["og:site_name", "application-name"]), 100),
+    image: toHttpsUrl(first(["og:image", "twitter:image"]), baseUrl),
+    publishedAt,
+    modifiedAt: toIsoDate(first(MODIFIED_KEYS)),
+  };
+
+  return Object.fromEntries(
+    Object.entries(metadata).filter(([, value]) => value !== undefined),
+  ) as PageMetadata;
+};
+
+/**
+ * Fetches a result page and extracts its metadata.
+ *
+ * @returns The metadata, or null when the page is not public HTTPS HTML or
+ *   cannot be fetched
+ */
+export const fetchPageMetadata = async (
+  pageUrl: string,
+): Promise<PageMetadata | null> => {
+  try {
+    const fetched = await fetchPublicUrl(pageUrl, {
+      validate: validatePublicPageUrl,
+      maxRedirects: MAX_REDIRECTS,
+      timeoutMs: FETCH_TIMEOUT_MS,
+      headers: {
+        Accept: "text/html,application/xhtml+xml",
+        "User-Agent": USER_AGENT,
+      },
+    });
+    if (!fetched) return null;
+
+    const { response, url } = fetched;
+    const contentType = response.headers.get("content-type") ?? "";
+    if (!response.ok || !/html/i.test(contentType)) {
+      await response.body?.cancel();
+      return null;
+    }
+
+    const { bytes } = await readBodyPrefix(response, MAX_HTML_BYTES);
+    return extractPageMetadata(new TextDecoder().decode(bytes), url);
+  } catch (error) {
+    logger.debug("Page metadata fetch failed", {
+      pageUrl,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+};
+
+const cacheKeyFor = async (pageUrl: string) =>
+  `${PAGE_CACHE_PREFIX}${await sha256Hex(pageUrl)}`;
+
+const enrichPage = async (
+  kv: KVNamespace | undefined,
+  pageUrl: string,
+): Promise<PageMetadata | null> => {
+  const cacheKey = kv ? await cacheKeyFor(pageUrl) : undefined;
+  if (kv && cacheKey) {
+    const cached = await kv
+      .get<{ metadata: PageMetadata | null }>(cacheKey, { type: "json" })
+      .catch(() => null);
+    if (cached) return cached.metadata;
+  }
+
+  const metadata = await fetchPageMetadata(pageUrl);
+
+  if (kv && cacheKey) {
+    await kv
+      .put(cacheKey, JSON.stringify({ metadata }), {
+        expirationTtl: metadata
+          ? PAGE_CACHE_TTL_SECONDS
+          : FAILED_PAGE_CACHE_TTL_SECONDS,
+      })
+      .catch((error: unknown) => {
+        logger.warn("Caching page metadata failed", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  }
+  return metadata;
+};
+
+/**
+ * Enriches result pages, reading from and filling the KV cache.
+ *
+ * @param kv - Cache namespace, or undefined to always fetch
+ * @param pageUrls - Result page URLs (at most MAX_ENRICH_PAGES)
+ * @returns Metadata keyed by page URL; pages that failed are omitted
+ *
+ * @example
+ * ```ts
+ * const pageUrls = results.map((result) => result.pageUrl);
+ * const pages = await enrichPages(env.KV_RATE_LIMIT, pageUrls);
+ * const publishedAt = pages[results[0].pageUrl]?.publishedAt;
+ * ```
+ */
+export const enrichPages = async (
+  kv: KVNamespace | undefined,
+  pageUrls: string[],
+): Promise<Record<string, PageMetadata>> => {
+  const unique = Array.from(new Set(pageUrls)).slice(0, MAX_ENRICH_PAGES);
+  const pages: Record<string, PageMetadata> = {};
+
+  for (let start = 0; start < unique.length; start += FETCH_CONCURRENCY) {
+    const batch = unique.slice(start, start + FETCH_CONCURRENCY);
+    const metadata = await Promise.all(
+      batch.map((pageUrl) => enrichPage(kv, pageUrl)),
+    );
+    batch.forEach((pageUrl, index) => {
+      const entry = metadata[index];
+      if (entry) pages[pageUrl] = entry;
+    });
+  }
+
+  return pages;
+};
+
+/**
+ * Parses an enrichment request body (`{ pageUrls }`).
+ *
+ * @throws {ValidationError} When the list is empty, too long or has an
+ *   invalid URL
+ */
+export const parseEnrichInput = async (
+  request: Request,
+): Promise<EnrichInput> => {
+  const payload = await request.json().catch(() => null);
+  const parsed = EnrichInputSchema.safeParse(payload);
+  if (!parsed.success) {
+    const [issue] = parsed.error.errors;
+    throw new ValidationError(
+      `Invalid input: ${issue?.message ?? "validation failed"}`,
+      issue?.path[0] as string | undefined,
+      undefined,
+      { zodErrors: parsed.error.errors },
+    );
+  }
+  return parsed.data;
+};
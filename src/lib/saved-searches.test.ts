@@ -0,0 +1,534 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@cloudflare/next-on-pages", () => ({
+  getRequestContext: vi.fn(() => ({ env: {} })),
+}));
+
+// Saved images are read over the network before they are moderated
+vi.mock("@/lib/match-classification", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/match-classification")>()),
+  hashSearchedImage: vi.fn(async () => ({
+    sha256: IMAGE_SHA256,
+    perceptualHash: null,
+    bytes: new Uint8Array([1]),
+    type: "image/png",
+  })),
+}));
+
+import {
+  ALERT_OUTBOX_PREFIX,
+  buildSavedSearchView,
+  confirmSavedSearchEmail,
+  createSavedSearch,
+  deleteSavedSearch,
+  describeNewPlaces,
+  diffSnapshot,
+  getSavedSearch,
+  MAX_ACTIVE_SAVED_SEARCHES,
+  parseSaveSearchInput,
+  renewSavedSearch,
+  runDueSavedSearches,
+  SAVED_SEARCH_TTL_DAYS,
+  TASK_POLL_DELAY_MS,
+  type SaveSearchInput,
+} from "@/lib/saved-searches";
+import { BLOCKLIST_KEY } from "@/lib/moderation";
+import { buildCacheKey, storeCachedResult } from "@/lib/search-cache";
+import { stubSearchProvider, type SearchResult } from "@/lib/search-provider";
+import { WEBHOOK_SIGNATURE_HEADER } from "@/lib/search-webhooks";
+import {
+  ContentBlockedError,
+  DataForSEOError,
+  RateLimitError,
+  ValidationError,
+} from "@/lib/errors";
+import type { AppEnv } from "@/lib/cf-env";
+import {
+  createMockEnv,
+  MockKVNamespace,
+  MockR2Bucket,
+  restoreFetch,
+} from "@/test/setup";
+
+const IMAGE_URL = "https://example.com/logo.png";
+/** SHA-256 the server computes for every saved image in these tests */
+const IMAGE_SHA256 = "c".repeat(64);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const jsonRequest = (body: unknown) =>
+  new Request("https://example.com/api/search/saved", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+
+const result = (pageUrl: string): SearchResult => ({
+  title: pageUrl,
+  pageUrl,
+});
+
+const input = (overrides: Partial<SaveSearchInput> = {}): SaveSearchInput => ({
+  imageUrl: IMAGE_URL,
+  frequency: "weekly",
+  provider: "stub",
+  ...overrides,
+});
+
+/** Outbox messages queued so far */
+const outbox = async (kv: KVNamespace) => {
+  const { keys } = await (kv as unknown as MockKVNamespace).list({
+    prefix: ALERT_OUTBOX_PREFIX,
+  });
+  return Promise.all(
+    keys.map(
+      async ({ name }) =>
+        JSON.parse((await kv.get(name))!) as { to: string; text: string },
+    ),
+  );
+};
+
+/** Follows the link in a queued confirmation email */
+const confirmEmail = async (kv: KVNamespace, id: string) => {
+  const [message] = await outbox(kv);
+  const token = message.text.match(/confirm\?token=([a-f0-9]+)/)![1];
+  return confirmSavedSearchEmail(kv, id, token);
+};
+
+/** Makes the stub provider answer every task with these pages */
+const stubResults = (...pageUrls: string[]) =>
+  vi.spyOn(stubSearchProvider, "fetchTask").mockImplementation(
+    async (_env, taskId) => ({
+      taskId,
+      status: "ready",
+      results: pageUrls.map(result),
+    }),
+  );
+
+describe("saved-searches", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    restoreFetch();
+  });
+
+  describe("describeNewPlaces", () => {
+    it("pluralizes", () => {
+      expect(describeNewPlaces(1)).toBe("1 new place this image appeared");
+      expect(describeNewPlaces(3)).toBe("3 new places this image appeared");
+    });
+  });
+
+  describe("diffSnapshot", () => {
+    it("compares normalized page URLs", () => {
+      const { added, removed } = diffSnapshot(
+        ["https://www.a.com/page/", "https://b.com/gone"],
+        [
+          result("https://a.com/page?utm_source=feed"),
+          result("https://c.com/new"),
+          result("https://c.com/new/"),
+        ],
+      );
+
+      expect(added).toEqual([result("https://c.com/new")]);
+      expect(removed).toEqual(["https://b.com/gone"]);
+    });
+  });
+
+  describe("parseSaveSearchInput", () => {
+    it("defaults to weekly runs", async () => {
+      const parsed = await parseSaveSearchInput(
+        createMockEnv(),
+        jsonRequest({ imageUrl: IMAGE_URL, email: "Brand@Example.com" }),
+      );
+
+      expect(parsed).toMatchObject({
+        imageUrl: IMAGE_URL,
+        frequency: "weekly",
+        email: "brand@example.com",
+      });
+    });
+
+    it("rejects private images and unsigned callbacks", async () => {
+      await expect(
+        parseSaveSearchInput(
+          createMockEnv(),
+          jsonRequest({ imageUrl: "https://127.0.0.1/a.png" }),
+        ),
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        parseSaveSearchInput(
+          createMockEnv(),
+          jsonRequest({
+            imageUrl: IMAGE_URL,
+            callbackUrl: "https://hooks.example.com/alerts",
+          }),
+        ),
+      ).rejects.toThrow("Search callbacks are not enabled");
+    });
+  });
+
+  describe("createSavedSearch", () => {
+    it("uses cached results as the baseline", async () => {
+      const env = createMockEnv();
+      const kv = env.KV_RATE_LIMIT!;
+      await storeCachedResult(
+        kv,
+        await buildCacheKey(IMAGE_URL, IMAGE_SHA256, "stub"),
+        { results: [result("https://a.com/1")], cachedAt: "2026-01-01" },
+        3600,
+      );
+
+      const { saved, deleteToken } = await createSavedSearch(
+        kv,
+        env,
+        input(),
+      );
+
+      expect(deleteToken).toMatch(/^[a-f0-9]{48}$/);
+      expect(saved.snapshot).toEqual(["https://a.com/1"]);
+      expect(saved.changes[0]).toMatchObject({ addedCount: 1, baseline: true });
+      expect(
+        new Date(saved.nextRunAt).getTime() - Date.parse(saved.createdAt),
+      ).toBe(7 * DAY_MS);
+      expect(
+        new Date(saved.expiresAt).getTime() - Date.parse(saved.createdAt),
+      ).toBe(SAVED_SEARCH_TTL_DAYS * DAY_MS);
+      expect(buildSavedSearchView(saved).newPlaces).toBe(0);
+    });
+
+    it("rejects blocklisted images", async () => {
+      const env = createMockEnv();
+      const kv = env.KV_RATE_LIMIT!;
+      await kv.put(BLOCKLIST_KEY, JSON.stringify({ sha256: [IMAGE_SHA256] }));
+
+      await expect(
+        createSavedSearch(kv, env, input(), { owner: "ip:1.2.3.4" }),
+      ).rejects.toThrow(ContentBlockedError);
+      const { keys } = await (kv as unknown as MockKVNamespace).list({
+        prefix: "saved:",
+      });
+      expect(keys).toHaveLength(0);
+    });
+
+    it("caps active saved searches per owner", async () => {
+      const env = createMockEnv();
+      const kv = env.KV_RATE_LIMIT!;
+      const save = (owner: string) =>
+        createSavedSearch(kv, env, input(), { owner });
+      let last: Awaited<ReturnType<typeof save>> | undefined;
+      for (let count = 0; count < MAX_ACTIVE_SAVED_SEARCHES; count += 1) {
+        last = await save("ip:1.2.3.4");
+      }
+
+      await expect(save("ip:1.2.3.4")).rejects.toThrow(RateLimitError);
+      await save("key:other");
+
+      await deleteSavedSearch(kv, env, last!.saved.id, last!.deleteToken);
+      await save("ip:1.2.3.4");
+    });
+
+    it("queues a confirmation link for the email address", async () => {
+      const env = createMockEnv();
+      const kv = env.KV_RATE_LIMIT!;
+      const { saved } = await createSavedSearch(
+        kv,
+        env,
+        input({ email: "brand@example.com" }),
+        { siteUrl: "https://imagesearchreverse.com" },
+      );
+
+      const [message] = await outbox(kv);
+      expect(message.to).toBe("brand@example.com");
+      expect(message.text).toContain(
+        `https://imagesearchreverse.com/api/search/saved/${saved.id}/confirm?token=`,
+      );
+      expect(buildSavedSearchView(saved).alerts).toEqual({
+        webhook: false,
+        email: false,
+        emailPending: true,
+      });
+
+      expect(await confirmSavedSearchEmail(kv, saved.id, "wrong")).toBe(false);
+      expect(await confirmEmail(kv, saved.id)).toBe(true);
+      const stored = await getSavedSearch(kv, saved.id);
+      expect(buildSavedSearchView(stored!).alerts).toMatchObject({
+        email: true,
+        emailPending: false,
+      });
+    });
+
+    it("keeps a copy of uploaded images", async () => {
+      const env: AppEnv = {
+        ...createMockEnv(),
+        NEXT_PUBLIC_R2_DOMAIN: "https://img.example.com",
+      };
+      const uploadKey = `uploads/2026-01-01/${"a".repeat(64)}.png`;
+      await env.R2_BUCKET!.put(uploadKey, new Uint8Array([1, 2, 3]));
+
+      const { saved } = await createSavedSearch(
+        env.KV_RATE_LIMIT!,
+        env,
+        input({ imageUrl: `https://img.example.com/${uploadKey}` }),
+      );
+
+      expect(saved.imageKey).toBe(`saved/${saved.id}.png`);
+      expect(saved.imageUrl).toBe(`https://img.example.com/saved/${saved.id}.png`);
+      expect(
+        (env.R2_BUCKET as unknown as MockR2Bucket).store.has(saved.imageKey!),
+      ).toBe(true);
+
+      await expect(
+        createSavedSearch(
+          env.KV_RATE_LIMIT!,
+          env,
+          input({
+            imageUrl: `https://img.example.com/uploads/2026-01-01/${"b".repeat(64)}.png`,
+          }),
+        ),
+      ).rejects.toThrow("This upload has expired");
+    });
+  });
+
+  describe("runDueSavedSearches", () => {
+    it("records a baseline, then alerts on new places", async () => {
+      const env: AppEnv = { ...createMockEnv(), WEBHOOK_SECRET: "secret" };
+      const kv = env.KV_RATE_LIMIT!;
+      const fetchMock = vi.fn(async () => new Response(null, { status: 204 }));
+      vi.stubGlobal("fetch", fetchMock);
+      stubResults("https://a.com/1");
+
+      const { saved } = await createSavedSearch(
+        kv,
+        env,
+        input({
+          callbackUrl: "https://hooks.example.com/alerts",
+          email: "brand@example.com",
+        }),
+      );
+      await confirmEmail(kv, saved.id);
+      const start = Date.parse(saved.createdAt);
+
+      // One tick submits the task, the next collects it
+      expect(await runDueSavedSearches(env, { now: start })).toMatchObject({
+        due: 1,
+        started: 1,
+      });
+      const polled = start + TASK_POLL_DELAY_MS;
+      expect(await runDueSavedSearches(env, { now: polled })).toMatchObject({
+        completed: 1,
+      });
+      let stored = await getSavedSearch(kv, saved.id);
+      expect(stored?.changes[0]).toMatchObject({ baseline: true });
+      expect(fetchMock).not.toHaveBeenCalled();
+
+      // Not due again until a week later
+      expect(
+        await runDueSavedSearches(env, { now: start + DAY_MS }),
+      ).toMatchObject({ due: 0 });
+
+      stubResults("https://a.com/1", "https://b.com/2", "https://c.com/3");
+      const later = polled + 7 * DAY_MS;
+      await runDueSavedSearches(env, { now: later });
+      await runDueSavedSearches(env, { now: later + TASK_POLL_DELAY_MS });
+
+      stored = await getSavedSearch(kv, saved.id);
+      expect(stored?.changes[0]).toMatchObject({
+        addedCount: 2,
+        removedCount: 0,
+        notified: ["webhook", "email"],
+      });
+      expect(buildSavedSearchView(stored!).newPlaces).toBe(2);
+
+      const [url, init] = fetchMock.mock.calls[0] as unknown as [
+        string,
+        RequestInit,
+      ];
+      expect(url).toBe("https://hooks.example.com/alerts");
+      expect(JSON.parse(init.body as string)).toMatchObject({
+        event: "saved_search.changed",
+        summary: "2 new places this image appeared",
+      });
+      expect(
+        (init.headers as Record<string, string>)[WEBHOOK_SIGNATURE_HEADER],
+      ).toMatch(/^t=\d+,v1=[a-f0-9]{64}$/);
+
+      // The confirmation email and the alert
+      expect(await outbox(kv)).toHaveLength(2);
+    });
+
+    it("does not email alerts to unconfirmed addresses", async () => {
+      const env = createMockEnv();
+      const kv = env.KV_RATE_LIMIT!;
+      stubResults("https://a.com/1");
+      const { saved } = await createSavedSearch(
+        kv,
+        env,
+        input({ email: "brand@example.com" }),
+      );
+      const start = Date.parse(saved.createdAt);
+      const polled = start + TASK_POLL_DELAY_MS;
+      await runDueSavedSearches(env, { now: start });
+      await runDueSavedSearches(env, { now: polled });
+
+      stubResults("https://a.com/1", "https://b.com/2");
+      const later = polled + 7 * DAY_MS;
+      await runDueSavedSearches(env, { now: later });
+      await runDueSavedSearches(env, { now: later + TASK_POLL_DELAY_MS });
+
+      const stored = await getSavedSearch(kv, saved.id);
+      expect(stored?.changes[0]).toMatchObject({ addedCount: 1, notified: [] });
+      expect(await outbox(kv)).toHaveLength(1);
+    });
+
+    it("deletes expired searches and their kept images", async () => {
+      const env: AppEnv = {
+        ...createMockEnv(),
+        NEXT_PUBLIC_R2_DOMAIN: "https://img.example.com",
+      };
+      const kv = env.KV_RATE_LIMIT!;
+      const uploadKey = `uploads/2026-01-01/${"a".repeat(64)}.png`;
+      await env.R2_BUCKET!.put(uploadKey, new Uint8Array([1, 2, 3]));
+      const { saved } = await createSavedSearch(
+        kv,
+        env,
+        input({ imageUrl: `https://img.example.com/${uploadKey}` }),
+        { owner: "ip:1.2.3.4" },
+      );
+      const expiry = Date.parse(saved.expiresAt);
+
+      expect(await runDueSavedSearches(env, { now: expiry })).toMatchObject({
+        due: 0,
+        expired: 1,
+      });
+      expect(await getSavedSearch(kv, saved.id)).toBeNull();
+      expect(
+        (env.R2_BUCKET as unknown as MockR2Bucket).store.has(saved.imageKey!),
+      ).toBe(false);
+      const { keys } = await (kv as unknown as MockKVNamespace).list({
+        prefix: "saved:owner:",
+      });
+      expect(keys).toHaveLength(0);
+    });
+
+    it("waits for pending tasks and reschedules failed ones", async () => {
+      const env = createMockEnv();
+      const kv = env.KV_RATE_LIMIT!;
+      const fetchTask = vi
+        .spyOn(stubSearchProvider, "fetchTask")
+        .mockImplementation(async (_env, taskId) => ({
+          taskId,
+          status: "pending",
+          results: [],
+        }));
+
+      const { saved } = await createSavedSearch(kv, env, input());
+      const start = Date.parse(saved.createdAt);
+      await runDueSavedSearches(env, { now: start });
+
+      // Not checked again until the poll delay has passed
+      expect(await runDueSavedSearches(env, { now: start })).toMatchObject({
+        due: 0,
+      });
+      const polled = start + TASK_POLL_DELAY_MS;
+      expect(await runDueSavedSearches(env, { now: polled })).toMatchObject({
+        due: 1,
+        completed: 0,
+        failed: 0,
+      });
+
+      fetchTask.mockRejectedValue(
+        new DataForSEOError("Task not found", undefined, 404),
+      );
+      const failedAt = polled + TASK_POLL_DELAY_MS;
+      expect(await runDueSavedSearches(env, { now: failedAt })).toMatchObject({
+        failed: 1,
+      });
+      const stored = await getSavedSearch(kv, saved.id);
+      expect(stored?.taskId).toBeUndefined();
+      expect(stored?.lastError).toBe("Task not found");
+      expect(Date.parse(stored!.nextRunAt)).toBe(failedAt + 7 * DAY_MS);
+    });
+
+    it("does not let running searches starve due ones", async () => {
+      const env = createMockEnv();
+      const kv = env.KV_RATE_LIMIT!;
+      vi.spyOn(stubSearchProvider, "fetchTask").mockImplementation(
+        async (_env, taskId) => ({ taskId, status: "pending", results: [] }),
+      );
+
+      const running = await Promise.all(
+        Array.from({ length: 10 }, () => createSavedSearch(kv, env, input())),
+      );
+      const start = Math.max(
+        ...running.map(({ saved }) => Date.parse(saved.createdAt)),
+      );
+      expect(await runDueSavedSearches(env, { now: start })).toMatchObject({
+        started: 10,
+      });
+
+      const { saved } = await createSavedSearch(kv, env, input());
+      const now = Math.max(start, Date.parse(saved.createdAt)) + 1000;
+      expect(await runDueSavedSearches(env, { now })).toMatchObject({
+        due: 1,
+        started: 1,
+      });
+    });
+
+    it("deletes searches whose image was blocklisted since", async () => {
+      const env = createMockEnv();
+      const kv = env.KV_RATE_LIMIT!;
+      const createTask = vi.spyOn(stubSearchProvider, "createTask");
+      const { saved } = await createSavedSearch(kv, env, input(), {
+        owner: "ip:1.2.3.4",
+      });
+      await kv.put(BLOCKLIST_KEY, JSON.stringify({ sha256: [IMAGE_SHA256] }));
+
+      expect(
+        await runDueSavedSearches(env, { now: Date.parse(saved.createdAt) }),
+      ).toMatchObject({ due: 1, started: 0, blocked: 1 });
+      expect(createTask).not.toHaveBeenCalled();
+      expect(await getSavedSearch(kv, saved.id)).toBeNull();
+    });
+
+    it("returns null without KV", async () => {
+      expect(
+        await runDueSavedSearches({ ...createMockEnv(), KV_RATE_LIMIT: undefined }),
+      ).toBeNull();
+    });
+  });
+
+  describe("renewSavedSearch", () => {
+    it("extends the expiry with the delete token", async () => {
+      const env = createMockEnv();
+      const kv = env.KV_RATE_LIMIT!;
+      const { saved, deleteToken } = await createSavedSearch(kv, env, input());
+      const later = Date.parse(saved.createdAt) + 60 * DAY_MS;
+
+      expect(await renewSavedSearch(kv, saved.id, "wrong", later)).toBeNull();
+      const renewed = await renewSavedSearch(kv, saved.id, deleteToken, later);
+      expect(Date.parse(renewed!.expiresAt)).toBe(
+        later + SAVED_SEARCH_TTL_DAYS * DAY_MS,
+      );
+      expect((await getSavedSearch(kv, saved.id))?.expiresAt).toBe(
+        renewed!.expiresAt,
+      );
+
+      const expired = Date.parse(renewed!.expiresAt);
+      expect(
+        await renewSavedSearch(kv, saved.id, deleteToken, expired),
+      ).toBeNull();
+    });
+  });
+
+  describe("deleteSavedSearch", () => {
+    it("requires the delete token", async () => {
+      const env = createMockEnv();
+      const kv = env.KV_RATE_LIMIT!;
+      const { saved, deleteToken } = await createSavedSearch(kv, env, input());
+
+      expect(await deleteSavedSearch(kv, env, saved.id, "wrong")).toBe(false);
+      expect(await deleteSavedSearch(kv, env, saved.id, deleteToken)).toBe(
+        true,
+      );
+      expect(await getSavedSearch(kv, saved.id)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,1154 @@
+/**
+ * Saved searches with scheduled re-runs
+ *
+ * Brand-protection users check the same images every week for new
+ * appearances. A saved search stores the image URL with a frequency; a
+ * Cron Trigger re-runs due searches, diffs the results
+ * against the previous snapshot and records which page URLs were added
+ * or removed. New places are announced through a signed webhook and an
+ * email stand-in (queued in KV until a mail provider is wired up).
+ *
+ * Provider tasks are asynchronous, so a run spans two ticks: the first
+ * submits the task and the next fetches it. Pages cannot run Cron
+ * Triggers, so deploy `savedSearchWorker` from a companion Worker or call
+ * `POST /api/admin/saved-searches/run` from any scheduler.
+ *
+ * Saved searches expire SAVED_SEARCH_TTL_DAYS after they were saved or
+ * last renewed, each owner (API key or IP) may keep at most
+ * MAX_ACTIVE_SAVED_SEARCHES, and alert emails only go to addresses that
+ * followed the confirmation link. The image is moderated when the search
+ * is saved and before every run; a search whose image has been
+ * blocklisted since is deleted.
+ *
+ * KV is not transactional: overlapping runs of the same search may
+ * submit a task twice, but each finished run is recorded once. Likewise
+ * two saves racing past the per-owner cap may both succeed.
+ */
+
+import { z } from "zod";
+import type { AppEnv } from "@/lib/cf-env";
+import { sha256Hex, timingSafeEqual } from "@/lib/crypto";
+import { MAX_FANOUT_PROVIDERS, ProviderIdSchema } from "@/lib/dataforseo";
+import {
+  ContentBlockedError,
+  DataForSEOError,
+  RateLimitError,
+  ValidationError,
+} from "@/lib/errors";
+import { createLogger } from "@/lib/logger";
+import { createRequestId } from "@/lib/request-id";
+import { buildCacheKey, getCachedResult } from "@/lib/search-cache";
+import {
+  getRequestedSearchProvider,
+  getSearchProviderForTask,
+  normalizeResultUrl,
+} from "@/lib/search-fanout";
+import { moderateSearchedImage } from "@/lib/search-moderation";
+import type { SearchResult } from "@/lib/search-provider";
+import {
+  assertSearchCallbacksEnabled,
+  signWebhookPayload,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+} from "@/lib/search-webhooks";
+import { buildPublicUrl, uploadKeyFromUrl } from "@/lib/upload-storage";
+import {
+  validatePublicCallbackUrl,
+  validatePublicImageUrl,
+} from "@/lib/url-validation";
+
+const logger = createLogger("search:saved");
+
+/** Prefix for saved search records */
+export const SAVED_SEARCH_PREFIX = "saved:search" as const;
+
+/** Prefix for queued alert emails */
+export const ALERT_OUTBOX_PREFIX = "saved:outbox" as const;
+
+/** Prefix for the per-owner index used to count active saved searches */
+export const SAVED_SEARCH_OWNER_PREFIX = "saved:owner" as const;
+
+/** R2 prefix for uploaded images kept for saved searches */
+export const SAVED_IMAGE_PREFIX = "saved/";
+
+/** Hours between runs for each frequency */
+export const SAVED_SEARCH_INTERVAL_HOURS = {
+  daily: 24,
+  weekly: 24 * 7,
+} as const;
+
+export type SavedSearchFrequency = keyof typeof SAVED_SEARCH_INTERVAL_HOURS;
+
+/** Days a saved search keeps running after it was saved or renewed */
+export const SAVED_SEARCH_TTL_DAYS = 90;
+
+/** Saved searches one API key or IP address may keep at once */
+export const MAX_ACTIVE_SAVED_SEARCHES = 20;
+
+/**
+ * How long KV keeps a record past its expiry, so a scheduled tick can
+ * delete its kept image before the record disappears
+ */
+const EXPIRED_RECORD_GRACE_SECONDS = 60 * 60 * 24 * 7;
+
+/** Shortest TTL KV accepts */
+const MIN_KV_TTL_SECONDS = 60;
+
+/**
+ * Saved searches handled per scheduled tick. Keeps each tick well under
+ * the Worker subrequest limit; the rest stay due for the next tick.
+ */
+const MAX_RUNS_PER_TICK = 10;
+
+/** Searches run at once within a tick */
+const RUN_CONCURRENCY = 5;
+
+/** A task still pending after this long is abandoned until the next run */
+const MAX_TASK_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How long a running search waits before its task is checked again. Its
+ * next check is scheduled like a run, so searches waiting on the provider
+ * never take the MAX_RUNS_PER_TICK slots of searches that are due.
+ */
+export const TASK_POLL_DELAY_MS = 15 * 60 * 1000;
+
+/** Changes kept per saved search, newest first */
+const MAX_CHANGE_HISTORY = 10;
+
+/** Added results and removed URLs kept per change and sent in alerts */
+const MAX_CHANGE_ITEMS = 20;
+
+/** Keys per KV list page (the API maximum) */
+const KV_LIST_PAGE_SIZE = 1000;
+
+const TOKEN_BYTES = 24;
+const ALERT_TIMEOUT_MS = 10000;
+const ALERT_OUTBOX_TTL_SECONDS = 60 * 60 * 24 * 7;
+
+const SaveSearchSchema = z.object({
+  imageUrl: z.string().url().max(2048),
+  frequency: z.enum(["daily", "weekly"]).default("weekly"),
+  callbackUrl: z.string().url().max(2048).optional(),
+  email: z.string().trim().email().max(254).optional(),
+  turnstileToken: z.string().min(1).optional(),
+  provider: ProviderIdSchema.optional(),
+  providers: z
+    .array(ProviderIdSchema)
+    .min(1)
+    .max(MAX_FANOUT_PROVIDERS)
+    .optional(),
+});
+
+export type SaveSearchInput = z.infer<typeof SaveSearchSchema>;
+
+/**
+ * What changed between two runs of a saved search
+ */
+export type SavedSearchChange = {
+  runAt: string;
+  /** Results whose page URL was not in the previous snapshot */
+  addedCount: number;
+  removedCount: number;
+  /** First MAX_CHANGE_ITEMS added results */
+  added: SearchResult[];
+  /** First MAX_CHANGE_ITEMS page URLs no longer found */
+  removed: string[];
+  /** The first run, which only records the snapshot */
+  baseline?: boolean;
+  /** Channels the change was announced on */
+  notified?: Array<"webhook" | "email">;
+};
+
+/**
+ * Stored saved search record
+ */
+export type SavedSearch = {
+  id: string;
+  imageUrl: string;
+  /** Provider selected when the search was saved */
+  provider: string;
+  /** Fan-out providers, when more than one was selected */
+  providers?: string[];
+  frequency: SavedSearchFrequency;
+  callbackUrl?: string;
+  email?: string;
+  /** SHA-256 of the token in the confirmation email, until confirmed */
+  emailTokenHash?: string;
+  /** When the email address was confirmed; alerts are only emailed after */
+  emailConfirmedAt?: string;
+  /** SHA-256 of the token needed to delete or renew the saved search */
+  deleteTokenHash: string;
+  /** SHA-256 of the API key ID or IP address that saved the search */
+  ownerHash?: string;
+  /** R2 key of the kept copy, when the image was one of our uploads */
+  imageKey?: string;
+  createdAt: string;
+  /** When the search stops running unless renewed */
+  expiresAt: string;
+  /** When the search is next due, or its running task next checked */
+  nextRunAt: string;
+  lastRunAt?: string;
+  /** Provider task of the run in progress */
+  taskId?: string;
+  taskCreatedAt?: string;
+  /** Page URLs found by the last completed run */
+  snapshot?: string[];
+  changes: SavedSearchChange[];
+  lastError?: string;
+};
+
+/**
+ * Metadata stored with each record, so due searches are found with
+ * `kv.list()` alone
+ */
+type SavedSearchMetadata = { nextRunAt: string; expiresAt?: string };
+
+/**
+ * Saved search as returned to clients
+ */
+export type SavedSearchView = Pick<
+  SavedSearch,
+  | "id"
+  | "imageUrl"
+  | "provider"
+  | "providers"
+  | "frequency"
+  | "createdAt"
+  | "expiresAt"
+  | "nextRunAt"
+  | "lastRunAt"
+  | "changes"
+  | "lastError"
+> & {
+  /** "running" while a provider task is pending */
+  status: "scheduled" | "running";
+  /** Results found by the last completed run */
+  resultCount?: number;
+  /** Added places reported by the latest change */
+  newPlaces: number;
+  /** `email` once the address is confirmed, `emailPending` until then */
+  alerts: { webhook: boolean; email: boolean; emailPending: boolean };
+};
+
+/**
+ * JSON body POSTed to callback URLs (and queued for email) when a run
+ * finds new places
+ */
+export type SavedSearchAlert = {
+  event: "saved_search.changed";
+  deliveryId: string;
+  savedSearchId: string;
+  imageUrl: string;
+  /** e.g. "3 new places this image appeared" */
+  summary: string;
+  change: SavedSearchChange;
+  sentAt: string;
+};
+
+/**
+ * Counts from one scheduled tick
+ */
+export type SavedSearchRunResult = {
+  scanned: number;
+  due: number;
+  /** Provider tasks submitted */
+  started: number;
+  /** Runs that finished and recorded a change */
+  completed: number;
+  failed: number;
+  /** Expired saved searches deleted */
+  expired: number;
+  /** Saved searches deleted because their image is now blocklisted */
+  blocked: number;
+};
+
+type RunOutcome = "started" | "waiting" | "completed" | "failed" | "blocked";
+
+const savedSearchKey = (id: string) => `${SAVED_SEARCH_PREFIX}:${id}`;
+
+const ownerIndexKey = (ownerHash: string, id: string) =>
+  `${SAVED_SEARCH_OWNER_PREFIX}:${ownerHash}:${id}`;
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+const createToken = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(TOKEN_BYTES)))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+const addHours = (from: number, hours: number) =>
+  new Date(from + hours * 60 * 60 * 1000).toISOString();
+
+const secondsUntil = (iso: string, now: number) =>
+  Math.max(
+    MIN_KV_TTL_SECONDS,
+    Math.ceil((new Date(iso).getTime() - now) / 1000),
+  );
+
+const tokenMatches = async (token: string, hash: string | undefined) =>
+  Boolean(token && hash && timingSafeEqual(await sha256Hex(token), hash));
+
+/**
+ * Whether a saved search has passed its expiry and no longer runs.
+ */
+export const isSavedSearchExpired = (
+  saved: SavedSearch,
+  now = Date.now(),
+): boolean => new Date(saved.expiresAt).getTime() <= now;
+
+/**
+ * Describes how many new places a change found.
+ *
+ * @example
+ * ```ts
+ * describeNewPlaces(1); // => "1 new place this image appeared"
+ * ```
+ */
+export const describeNewPlaces = (count: number): string =>
+  `${count} new ${count === 1 ? "place" : "places"} this image appeared`;
+
+/**
+ * Parses and validates a save request body.
+ *
+ * @throws ValidationError if the body is malformed, the image URL is not
+ *   public, or a callback is requested without webhook signing enabled
+ */
+export const parseSaveSearchInput = async (
+  env: AppEnv,
+  request: Request,
+): Promise<SaveSearchInput> => {
+  let parsed: z.infer<typeof SaveSearchSchema>;
+  try {
+    parsed = SaveSearchSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new ValidationError(
+        `Invalid input: ${error.errors[0]?.message ?? "validation failed"}`,
+        error.errors[0]?.path.join("."),
+        undefined,
+        { zodErrors: error.errors },
+      );
+    }
+    throw new ValidationError(
+      "Failed to parse saved search input",
+      undefined,
+      undefined,
+      { originalError: errorMessage(error) },
+    );
+  }
+
+  let imageUrl: string;
+  try {
+    imageUrl = validatePublicImageUrl(parsed.imageUrl);
+  } catch (error) {
+    throw new ValidationError(errorMessage(error), "imageUrl");
+  }
+
+  let callbackUrl: string | undefined;
+  if (parsed.callbackUrl) {
+    assertSearchCallbacksEnabled(env);
+    try {
+      callbackUrl = validatePublicCallbackUrl(parsed.callbackUrl);
+    } catch (error) {
+      throw new ValidationError(errorMessage(error), "callbackUrl");
+    }
+  }
+
+  return {
+    ...parsed,
+    imageUrl,
+    callbackUrl,
+    email: parsed.email?.toLowerCase(),
+    provider: parsed.provider?.toLowerCase(),
+    providers: parsed.providers
+      ? Array.from(new Set(parsed.providers.map((id) => id.toLowerCase())))
+      : undefined,
+  };
+};
+
+/**
+ * Diffs a run's results against the previous snapshot by normalized page
+ * URL (see normalizeResultUrl).
+ *
+ * @param previous - Page URLs found by the previous run
+ * @param results - Results of this run
+ * @returns Results not seen before, and previous URLs no longer found
+ *
+ * @example
+ * ```ts
+ * diffSnapshot(["https://a.com/1"], [{ title: "B", pageUrl: "https://b.com/" }]);
+ * // => { added: [{ title: "B", ... }], removed: ["https://a.com/1"] }
+ * ```
+ */
+export const diffSnapshot = (
+  previous: string[],
+  results: SearchResult[],
+): { added: SearchResult[]; removed: string[] } => {
+  const before = new Set(previous.map(normalizeResultUrl));
+  const after = new Set<string>();
+  const added: SearchResult[] = [];
+
+  for (const result of results) {
+    const key = normalizeResultUrl(result.pageUrl);
+    if (after.has(key)) continue;
+    after.add(key);
+    if (!before.has(key)) added.push(result);
+  }
+
+  const removed = previous.filter(
+    (url) => !after.has(normalizeResultUrl(url)),
+  );
+  return { added, removed };
+};
+
+/**
+ * Loads a saved search record.
+ *
+ * @returns The saved search, or null if unknown
+ */
+export const getSavedSearch = async (
+  kv: KVNamespace,
+  id: string,
+): Promise<SavedSearch | null> => {
+  try {
+    const data = await kv.get(savedSearchKey(id), { type: "json" });
+    if (!data || typeof data !== "object") return null;
+    const saved = data as SavedSearch;
+    return Array.isArray(saved.changes) ? saved : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveSavedSearch = async (kv: KVNamespace, saved: SavedSearch) => {
+  const metadata: SavedSearchMetadata = {
+    nextRunAt: saved.nextRunAt,
+    expiresAt: saved.expiresAt,
+  };
+  await kv.put(savedSearchKey(saved.id), JSON.stringify(saved), {
+    metadata,
+    expirationTtl:
+      secondsUntil(saved.expiresAt, Date.now()) + EXPIRED_RECORD_GRACE_SECONDS,
+  });
+};
+
+/**
+ * Lists the owner's index entry until the search expires, so expired
+ * searches stop counting against the cap on their own.
+ */
+const indexOwner = async (kv: KVNamespace, saved: SavedSearch) => {
+  if (!saved.ownerHash) return;
+  await kv.put(ownerIndexKey(saved.ownerHash, saved.id), "1", {
+    expirationTtl: secondsUntil(saved.expiresAt, Date.now()),
+  });
+};
+
+/**
+ * Counts an owner's saved searches that have not expired.
+ */
+const countActiveSavedSearches = async (
+  kv: KVNamespace,
+  ownerHash: string,
+): Promise<number> => {
+  const page = await kv.list({
+    prefix: `${SAVED_SEARCH_OWNER_PREFIX}:${ownerHash}:`,
+    limit: MAX_ACTIVE_SAVED_SEARCHES + 1,
+  });
+  return page.keys.length;
+};
+
+/** Deletes a saved search record with its owner index and kept image */
+const removeSavedSearch = async (
+  kv: KVNamespace,
+  env: AppEnv,
+  saved: SavedSearch,
+) => {
+  await kv.delete(savedSearchKey(saved.id));
+  if (saved.ownerHash) {
+    await kv.delete(ownerIndexKey(saved.ownerHash, saved.id));
+  }
+  if (saved.imageKey) {
+    await env.R2_BUCKET?.delete(saved.imageKey);
+  }
+};
+
+/**
+ * Keeps a copy of an uploaded image, which upload cleanup would otherwise
+ * delete before the next run.
+ *
+ * @returns The copy's key and public URL, or null when the image is not
+ *   one of our uploads
+ * @throws ValidationError when the upload is already gone
+ */
+const keepUploadedImage = async (
+  env: AppEnv,
+  id: string,
+  imageUrl: string,
+): Promise<{ key: string; url: string } | null> => {
+  const uploadKey = uploadKeyFromUrl(env, imageUrl);
+  if (!uploadKey) return null;
+
+  const object = await env.R2_BUCKET?.get(uploadKey);
+  if (!env.R2_BUCKET || !object) {
+    throw new ValidationError(
+      "This upload has expired. Upload the image again to save the search.",
+      "imageUrl",
+    );
+  }
+
+  const extension = uploadKey.slice(uploadKey.lastIndexOf("."));
+  const key = `${SAVED_IMAGE_PREFIX}${id}${extension}`;
+  await env.R2_BUCKET.put(key, await object.arrayBuffer(), {
+    httpMetadata: object.httpMetadata,
+    customMetadata: { savedSearchId: id },
+  });
+  return { key, url: buildPublicUrl(env.NEXT_PUBLIC_R2_DOMAIN ?? "", key) };
+};
+
+/**
+ * Saves a search and schedules its runs.
+ *
+ * When the image's results are in the search cache they become the
+ * baseline snapshot and the first run is one period away; otherwise the
+ * first scheduled tick records the baseline. With an `email`, a
+ * confirmation link is queued; alerts are emailed only once it is opened.
+ * The image is read and moderated first, and cached results are looked up
+ * by the hash the server computed.
+ *
+ * @param kv - The Cloudflare KV namespace
+ * @param env - Application environment
+ * @param input - Parsed save request
+ * @param options - `owner` identifies the caller (e.g. `key:<id>` or
+ *   `ip:<address>`) for the MAX_ACTIVE_SAVED_SEARCHES cap; `siteUrl` is
+ *   the origin confirmation links point at; `requestId` and `ip` go to
+ *   the moderation audit log
+ * @returns The stored record and the token for deleting or renewing it
+ *   (only available now)
+ * @throws RateLimitError when the owner already has
+ *   MAX_ACTIVE_SAVED_SEARCHES saved searches
+ * @throws ValidationError when the image cannot be read
+ * @throws ContentBlockedError when the image is blocklisted
+ */
+export const createSavedSearch = async (
+  kv: KVNamespace,
+  env: AppEnv,
+  input: SaveSearchInput,
+  options: {
+    owner?: string;
+    siteUrl?: string;
+    requestId?: string;
+    ip?: string;
+  } = {},
+): Promise<{ saved: SavedSearch; deleteToken: string }> => {
+  const ownerHash = options.owner
+    ? await sha256Hex(options.owner)
+    : undefined;
+  if (
+    ownerHash &&
+    (await countActiveSavedSearches(kv, ownerHash)) >=
+      MAX_ACTIVE_SAVED_SEARCHES
+  ) {
+    throw new RateLimitError(
+      `You can watch up to ${MAX_ACTIVE_SAVED_SEARCHES} images at once. Stop watching one to add another.`,
+      undefined,
+      MAX_ACTIVE_SAVED_SEARCHES,
+      0,
+    );
+  }
+
+  const provider = getRequestedSearchProvider(env, input);
+  const { searched, stored } = await moderateSearchedImage(
+    env,
+    input.imageUrl,
+    {
+      source: "saved_search",
+      requestId: options.requestId ?? createRequestId(),
+      ip: options.ip,
+    },
+  );
+  const id = crypto.randomUUID();
+  const deleteToken = createToken();
+  const emailToken = input.email ? createToken() : undefined;
+  const now = Date.now();
+
+  // Searches cache normalized uploads under the original's hash
+  const cacheKey = await buildCacheKey(
+    input.imageUrl,
+    stored?.customMetadata?.originalSha256 ?? searched.sha256,
+    provider.cacheNamespace,
+  );
+  const cached = await getCachedResult(kv, cacheKey);
+  const kept = await keepUploadedImage(env, id, input.imageUrl);
+  const createdAt = new Date(now).toISOString();
+
+  const saved: SavedSearch = {
+    id,
+    imageUrl: kept?.url ?? input.imageUrl,
+    provider: provider.id,
+    providers:
+      input.providers && input.providers.length > 1
+        ? input.providers
+        : undefined,
+    frequency: input.frequency,
+    callbackUrl: input.callbackUrl,
+    email: input.email,
+    emailTokenHash: emailToken ? await sha256Hex(emailToken) : undefined,
+    deleteTokenHash: await sha256Hex(deleteToken),
+    ownerHash,
+    imageKey: kept?.key,
+    createdAt,
+    expiresAt: addHours(now, SAVED_SEARCH_TTL_DAYS * 24),
+    nextRunAt: cached?.results.length
+      ? addHours(now, SAVED_SEARCH_INTERVAL_HOURS[input.frequency])
+      : createdAt,
+    changes: [],
+  };
+
+  if (cached?.results.length) {
+    const { added } = diffSnapshot([], cached.results);
+    saved.snapshot = added.map((result) => result.pageUrl);
+    saved.lastRunAt = createdAt;
+    saved.changes = [
+      {
+        runAt: createdAt,
+        addedCount: added.length,
+        removedCount: 0,
+        added: added.slice(0, MAX_CHANGE_ITEMS),
+        removed: [],
+        baseline: true,
+      },
+    ];
+  }
+
+  await saveSavedSearch(kv, saved);
+  await indexOwner(kv, saved);
+  if (saved.email && emailToken) {
+    await queueConfirmationEmail(
+      kv,
+      saved,
+      `${options.siteUrl ?? ""}/api/search/saved/${id}/confirm?token=${emailToken}`,
+    );
+  }
+
+  logger.info("Saved search created", {
+    savedSearchId: id,
+    provider: provider.id,
+    frequency: saved.frequency,
+    baseline: Boolean(saved.snapshot),
+  });
+
+  return { saved, deleteToken };
+};
+
+/**
+ * Builds the client view of a saved search.
+ */
+export const buildSavedSearchView = (
+  saved: SavedSearch,
+): SavedSearchView => {
+  const [latest] = saved.changes;
+  return {
+    id: saved.id,
+    imageUrl: saved.imageUrl,
+    provider: saved.provider,
+    providers: saved.providers,
+    frequency: saved.frequency,
+    createdAt: saved.createdAt,
+    expiresAt: saved.expiresAt,
+    nextRunAt: saved.nextRunAt,
+    lastRunAt: saved.lastRunAt,
+    status: saved.taskId ? "running" : "scheduled",
+    resultCount: saved.snapshot?.length,
+    newPlaces: latest && !latest.baseline ? latest.addedCount : 0,
+    alerts: {
+      webhook: Boolean(saved.callbackUrl),
+      email: Boolean(saved.email && saved.emailConfirmedAt),
+      emailPending: Boolean(saved.email && !saved.emailConfirmedAt),
+    },
+    changes: saved.changes,
+    lastError: saved.lastError,
+  };
+};
+
+/**
+ * Deletes a saved search and its kept image.
+ *
+ * @param token - The token returned when the search was saved
+ * @returns False when no saved search has that ID or the token is wrong
+ */
+export const deleteSavedSearch = async (
+  kv: KVNamespace,
+  env: AppEnv,
+  id: string,
+  token: string,
+): Promise<boolean> => {
+  const saved = await getSavedSearch(kv, id);
+  if (!saved || !(await tokenMatches(token, saved.deleteTokenHash))) {
+    return false;
+  }
+
+  await removeSavedSearch(kv, env, saved);
+  logger.info("Saved search deleted", { savedSearchId: id });
+  return true;
+};
+
+/**
+ * Keeps a saved search running for another SAVED_SEARCH_TTL_DAYS.
+ *
+ * @param token - The token returned when the search was saved
+ * @returns The renewed record, or null when no live saved search has that
+ *   ID or the token is wrong
+ */
+export const renewSavedSearch = async (
+  kv: KVNamespace,
+  id: string,
+  token: string,
+  now = Date.now(),
+): Promise<SavedSearch | null> => {
+  const saved = await getSavedSearch(kv, id);
+  if (
+    !saved ||
+    isSavedSearchExpired(saved, now) ||
+    !(await tokenMatches(token, saved.deleteTokenHash))
+  ) {
+    return null;
+  }
+
+  saved.expiresAt = addHours(now, SAVED_SEARCH_TTL_DAYS * 24);
+  await saveSavedSearch(kv, saved);
+  await indexOwner(kv, saved);
+  logger.info("Saved search renewed", {
+    savedSearchId: id,
+    expiresAt: saved.expiresAt,
+  });
+  return saved;
+};
+
+/**
+ * Confirms a saved search's email address, so alerts are emailed to it.
+ *
+ * @param token - The token from the confirmation link
+ * @returns False when no live saved search has that ID or the token is
+ *   wrong; true when confirmed (or already confirmed)
+ */
+export const confirmSavedSearchEmail = async (
+  kv: KVNamespace,
+  id: string,
+  token: string,
+  now = Date.now(),
+): Promise<boolean> => {
+  const saved = await getSavedSearch(kv, id);
+  if (!saved?.email || isSavedSearchExpired(saved, now)) return false;
+  if (saved.emailConfirmedAt) return true;
+  if (!(await tokenMatches(token, saved.emailTokenHash))) return false;
+
+  saved.emailConfirmedAt = new Date(now).toISOString();
+  saved.emailTokenHash = undefined;
+  await saveSavedSearch(kv, saved);
+  logger.info("Saved search email confirmed", { savedSearchId: id });
+  return true;
+};
+
+/**
+ * POSTs a signed alert to the saved search's callback URL. A single
+ * attempt: the next run reports later changes on its own.
+ *
+ * @returns Whether the receiver acknowledged with a 2xx status
+ */
+const sendAlertWebhook = async (
+  env: AppEnv,
+  callbackUrl: string,
+  alert: SavedSearchAlert,
+): Promise<boolean> => {
+  const secret = env.WEBHOOK_SECRET;
+  if (!secret) return false;
+
+  const body = JSON.stringify(alert);
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), ALERT_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(validatePublicCallbackUrl(callbackUrl), {
+      method: "POST",
+      redirect: "manual",
+      signal: controller.signal,
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "ImageSearchReverse-Webhook/1.0",
+        [WEBHOOK_EVENT_HEADER]: alert.event,
+        [WEBHOOK_DELIVERY_HEADER]: alert.deliveryId,
+        [WEBHOOK_SIGNATURE_HEADER]: await signWebhookPayload(
+          secret,
+          body,
+          Math.floor(Date.now() / 1000),
+        ),
+      },
+      body,
+    });
+    return response.ok;
+  } catch (error) {
+    logger.warn("Saved search alert delivery failed", {
+      savedSearchId: alert.savedSearchId,
+      error: errorMessage(error),
+    });
+    return false;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+/**
+ * Queues an email in KV. Stand-in until a mail provider is wired up: a
+ * sender can drain `saved:outbox:` entries.
+ */
+const queueEmail = async (
+  kv: KVNamespace,
+  deliveryId: string,
+  message: {
+    to: string;
+    subject: string;
+    text: string;
+    alert?: SavedSearchAlert;
+  },
+): Promise<void> => {
+  await kv.put(
+    `${ALERT_OUTBOX_PREFIX}:${deliveryId}`,
+    JSON.stringify(message),
+    { expirationTtl: ALERT_OUTBOX_TTL_SECONDS },
+  );
+};
+
+const queueAlertEmail = async (
+  kv: KVNamespace,
+  to: string,
+  alert: SavedSearchAlert,
+): Promise<void> => {
+  const lines = alert.change.added.map((result) => `- ${result.pageUrl}`);
+  await queueEmail(kv, alert.deliveryId, {
+    to,
+    subject: alert.summary,
+    text: [`${alert.summary}:`, "", ...lines].join("\n"),
+    alert,
+  });
+  logger.info("Saved search alert email queued", {
+    savedSearchId: alert.savedSearchId,
+    deliveryId: alert.deliveryId,
+  });
+};
+
+const queueConfirmationEmail = async (
+  kv: KVNamespace,
+  saved: SavedSearch,
+  confirmUrl: string,
+): Promise<void> => {
+  await queueEmail(kv, crypto.randomUUID(), {
+    to: saved.email!,
+    subject: "Confirm alerts for your watched image",
+    text: [
+      `Open this link to get an email when ${saved.imageUrl} appears in new places:`,
+      "",
+      confirmUrl,
+      "",
+      "If you did not ask for this, ignore this email and none will follow.",
+    ].join("\n"),
+  });
+  logger.info("Saved search confirmation email queued", {
+    savedSearchId: saved.id,
+  });
+};
+
+/**
+ * Announces a change on the saved search's channels.
+ *
+ * @returns The channels the alert went out on
+ */
+const notifyChange = async (
+  kv: KVNamespace,
+  env: AppEnv,
+  saved: SavedSearch,
+  change: SavedSearchChange,
+): Promise<Array<"webhook" | "email">> => {
+  const alert: SavedSearchAlert = {
+    event: "saved_search.changed",
+    deliveryId: crypto.randomUUID(),
+    savedSearchId: saved.id,
+    imageUrl: saved.imageUrl,
+    summary: describeNewPlaces(change.addedCount),
+    change,
+    sentAt: new Date().toISOString(),
+  };
+
+  const notified: Array<"webhook" | "email"> = [];
+  if (
+    saved.callbackUrl &&
+    (await sendAlertWebhook(env, saved.callbackUrl, alert))
+  ) {
+    notified.push("webhook");
+  }
+  if (saved.email && saved.emailConfirmedAt) {
+    await queueAlertEmail(kv, saved.email, alert);
+    notified.push("email");
+  }
+  return notified;
+};
+
+/**
+ * Advances one saved search: submits a task when none is running, or
+ * fetches the running task and records the change once it is ready. A
+ * running task is checked again TASK_POLL_DELAY_MS later.
+ *
+ * The image is moderated before each task is submitted; a search whose
+ * image is now blocklisted is deleted. Client errors (e.g. an unknown
+ * task or an image that can no longer be read) end the run and
+ * reschedule it; transient provider errors leave it due for the next tick.
+ *
+ * @param kv - The Cloudflare KV namespace
+ * @param env - Application environment
+ * @param saved - The saved search (updated in place and persisted)
+ * @param now - Current time in milliseconds (for tests)
+ */
+export const runSavedSearch = async (
+  kv: KVNamespace,
+  env: AppEnv,
+  saved: SavedSearch,
+  now = Date.now(),
+): Promise<RunOutcome> => {
+  const runAt = new Date(now).toISOString();
+  const reschedule = () => {
+    saved.taskId = undefined;
+    saved.taskCreatedAt = undefined;
+    saved.nextRunAt = addHours(
+      now,
+      SAVED_SEARCH_INTERVAL_HOURS[saved.frequency],
+    );
+  };
+
+  try {
+    if (!saved.taskId) {
+      await moderateSearchedImage(env, saved.imageUrl, {
+        source: "saved_search",
+        requestId: createRequestId(),
+      });
+      const provider = getRequestedSearchProvider(env, {
+        provider: saved.provider,
+        providers: saved.providers,
+      });
+      const task = await provider.createTask(env, saved.imageUrl);
+      saved.taskId = task.taskId;
+      saved.taskCreatedAt = runAt;
+      saved.nextRunAt = new Date(now + TASK_POLL_DELAY_MS).toISOString();
+      await saveSavedSearch(kv, saved);
+      return "started";
+    }
+
+    const provider = getSearchProviderForTask(
+      env,
+      saved.taskId,
+      saved.provider,
+    );
+    const resolution = await provider.fetchTask(env, saved.taskId);
+
+    if (resolution.status !== "ready") {
+      const age = now - new Date(saved.taskCreatedAt ?? runAt).getTime();
+      if (age <= MAX_TASK_AGE_MS) {
+        saved.nextRunAt = new Date(now + TASK_POLL_DELAY_MS).toISOString();
+        await saveSavedSearch(kv, saved);
+        return "waiting";
+      }
+
+      saved.lastError = "The search did not finish in time.";
+      reschedule();
+      await saveSavedSearch(kv, saved);
+      return "failed";
+    }
+
+    // An empty answer after earlier results is more likely an engine
+    // hiccup than every copy vanishing; keep the snapshot for next time
+    if (resolution.results.length === 0 && saved.snapshot?.length) {
+      saved.lastError = "The search returned no results.";
+      reschedule();
+      await saveSavedSearch(kv, saved);
+      return "failed";
+    }
+
+    const baseline = !saved.snapshot;
+    const { added, removed } = diffSnapshot(
+      saved.snapshot ?? [],
+      resolution.results,
+    );
+    const change: SavedSearchChange = {
+      runAt,
+      addedCount: added.length,
+      removedCount: removed.length,
+      added: added.slice(0, MAX_CHANGE_ITEMS),
+      removed: removed.slice(0, MAX_CHANGE_ITEMS),
+      ...(baseline && { baseline: true }),
+    };
+    if (!baseline && added.length > 0) {
+      change.notified = await notifyChange(kv, env, saved, change);
+    }
+
+    // Diffing against nothing dedupes the results by page URL
+    const { added: current } = diffSnapshot([], resolution.results);
+    saved.snapshot = current.map((result) => result.pageUrl);
+    saved.changes = [change, ...saved.changes].slice(0, MAX_CHANGE_HISTORY);
+    saved.lastRunAt = runAt;
+    saved.lastError = undefined;
+    reschedule();
+    await saveSavedSearch(kv, saved);
+
+    logger.info("Saved search run completed", {
+      savedSearchId: saved.id,
+      added: change.addedCount,
+      removed: change.removedCount,
+      baseline,
+    });
+    return "completed";
+  } catch (error) {
+    if (error instanceof ContentBlockedError) {
+      await removeSavedSearch(kv, env, saved);
+      logger.warn("Saved search deleted: its image is blocklisted", {
+        savedSearchId: saved.id,
+      });
+      return "blocked";
+    }
+
+    if (
+      error instanceof ValidationError ||
+      DataForSEOError.isClientError(error)
+    ) {
+      saved.lastError = errorMessage(error);
+      reschedule();
+      await saveSavedSearch(kv, saved);
+      return "failed";
+    }
+
+    logger.warn("Saved search run failed", {
+      savedSearchId: saved.id,
+      taskId: saved.taskId,
+      error: errorMessage(error),
+    });
+    return "failed";
+  }
+};
+
+/**
+ * Lists saved searches due at `now`, most overdue first, and those that
+ * have expired.
+ */
+const listDueSavedSearches = async (
+  kv: KVNamespace,
+  now: number,
+): Promise<{ scanned: number; due: string[]; expired: string[] }> => {
+  const due: Array<{ id: string; nextRunAt: string }> = [];
+  const expired: string[] = [];
+  let scanned = 0;
+  let cursor: string | undefined;
+
+  do {
+    const page = await kv.list<SavedSearchMetadata>({
+      prefix: `${SAVED_SEARCH_PREFIX}:`,
+      cursor,
+      limit: KV_LIST_PAGE_SIZE,
+    });
+    scanned += page.keys.length;
+
+    for (const key of page.keys) {
+      const id = key.name.slice(SAVED_SEARCH_PREFIX.length + 1);
+      const { nextRunAt, expiresAt } = key.metadata ?? {};
+      if (expiresAt && new Date(expiresAt).getTime() <= now) {
+        expired.push(id);
+      } else if (nextRunAt && new Date(nextRunAt).getTime() <= now) {
+        due.push({ id, nextRunAt });
+      }
+    }
+
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  due.sort((a, b) => a.nextRunAt.localeCompare(b.nextRunAt));
+  return { scanned, due: due.map((entry) => entry.id), expired };
+};
+
+/**
+ * Runs the saved searches that are due, at most MAX_RUNS_PER_TICK, and
+ * deletes up to as many expired ones with their kept images.
+ *
+ * @param env - Application environment
+ * @param options - The current time (for tests)
+ * @returns Counts for the tick, or null when no KV namespace is bound
+ *
+ * @example
+ * ```ts
+ * const result = await runDueSavedSearches(env);
+ * // => { scanned: 40, due: 3, started: 2, completed: 1, failed: 0, expired: 0, blocked: 0 }
+ * ```
+ */
+export const runDueSavedSearches = async (
+  env: AppEnv,
+  options: { now?: number } = {},
+): Promise<SavedSearchRunResult | null> => {
+  const kv = env.KV_RATE_LIMIT;
+  if (!kv) {
+    logger.warn("Saved search runs skipped: KV_RATE_LIMIT is not bound");
+    return null;
+  }
+
+  const now = options.now ?? Date.now();
+  const { scanned, due, expired } = await listDueSavedSearches(kv, now);
+  const result: SavedSearchRunResult = {
+    scanned,
+    due: due.length,
+    started: 0,
+    completed: 0,
+    failed: 0,
+    expired: 0,
+    blocked: 0,
+  };
+
+  for (const id of expired.slice(0, MAX_RUNS_PER_TICK)) {
+    const saved = await getSavedSearch(kv, id);
+    if (!saved) continue;
+    await removeSavedSearch(kv, env, saved);
+    result.expired += 1;
+  }
+
+  const ids = due.slice(0, MAX_RUNS_PER_TICK);
+  for (let start = 0; start < ids.length; start += RUN_CONCURRENCY) {
+    const outcomes = await Promise.all(
+      ids.slice(start, start + RUN_CONCURRENCY).map(async (id) => {
+        const saved = await getSavedSearch(kv, id);
+        return saved ? runSavedSearch(kv, env, saved, now) : "failed";
+      }),
+    );
+    for (const outcome of outcomes) {
+      if (outcome !== "waiting") result[outcome] += 1;
+    }
+  }
+
+  logger.info("Saved search tick finished", result);
+  return result;
+};
+
+/**
+ * Worker entry point for a Cron Trigger firing every 15 minutes or so.
+ *
+ * @example
+ * ```ts
+ * // saved-search-worker.ts
+ * import { savedSearchWorker } from "./src/lib/saved-searches";
+ * export default savedSearchWorker;
+ * ```
+ */
+export const savedSearchWorker = {
+  async scheduled(
+    _controller: ScheduledController,
+    env: AppEnv,
+    ctx: ExecutionContext,
+  ): Promise<void> {
+    ctx.waitUntil(runDueSavedSearches(env));
+  },
+};
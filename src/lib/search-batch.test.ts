@@ -0,0 +1,274 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  buildBatchView,
+  countBatchSearches,
+  getSearchBatch,
+  MAX_BATCH_ITEMS,
+  parseBatchSearchInput,
+  prepareSearchBatch,
+  refreshSearchBatch,
+  submitSearchBatch,
+  type BatchInputItem,
+} from "@/lib/search-batch";
+import {
+  buildCacheKey,
+  getCacheKeyForTask,
+  storeCachedResult,
+} from "@/lib/search-cache";
+import { hashSearchedImage } from "@/lib/match-classification";
+import { BLOCKLIST_KEY } from "@/lib/moderation";
+import { DataForSEOError, ValidationError } from "@/lib/errors";
+import type { SearchProvider } from "@/lib/search-provider";
+import { createMockEnv } from "@/test/setup";
+import type { AppEnv } from "@/lib/cf-env";
+
+const { mockProvider } = vi.hoisted(() => ({
+  mockProvider: {
+    id: "dataforseo",
+    createTask: vi.fn(),
+    createTasks: vi.fn(),
+    fetchTask: vi.fn(),
+    resolve: vi.fn(),
+  },
+}));
+
+vi.mock("@/lib/search-fanout", () => ({
+  getSearchProviderForTask: vi.fn(() => mockProvider),
+}));
+
+// Batch images are read over the network before they are submitted
+vi.mock("@/lib/match-classification", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/match-classification")>()),
+  hashSearchedImage: vi.fn(async () => ({
+    sha256: "0".repeat(64),
+    perceptualHash: null,
+    bytes: new Uint8Array([1]),
+    type: "image/jpeg",
+  })),
+}));
+
+const jsonRequest = (body: unknown) =>
+  new Request("https://example.com/api/search/batch", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+
+const match = { title: "Match", pageUrl: "https://example.com/page" };
+
+describe("parseBatchSearchInput", () => {
+  it("accepts URL strings and objects, ignoring client hashes", async () => {
+    const input = await parseBatchSearchInput(
+      jsonRequest({
+        items: [
+          "https://example.com/a.jpg",
+          { imageUrl: "https://example.com/b.jpg", imageHash: "A".repeat(64) },
+        ],
+      }),
+    );
+
+    expect(input.items).toEqual([
+      { imageUrl: "https://example.com/a.jpg" },
+      { imageUrl: "https://example.com/b.jpg" },
+    ]);
+  });
+
+  it("flags unsafe URLs per item instead of rejecting the batch", async () => {
+    const input = await parseBatchSearchInput(
+      jsonRequest({
+        items: ["https://example.com/a.jpg", "https://127.0.0.1/b.jpg"],
+      }),
+    );
+
+    expect(input.items[0].error).toBeUndefined();
+    expect(input.items[1].error).toBe("Image URL must be publicly reachable.");
+  });
+
+  it("rejects empty and oversized batches", async () => {
+    await expect(
+      parseBatchSearchInput(jsonRequest({ items: [] })),
+    ).rejects.toThrow(ValidationError);
+
+    const items = Array.from(
+      { length: MAX_BATCH_ITEMS + 1 },
+      (_, i) => `https://example.com/${i}.jpg`,
+    );
+    await expect(parseBatchSearchInput(jsonRequest({ items }))).rejects.toThrow(
+      ValidationError,
+    );
+  });
+});
+
+describe("search batches", () => {
+  let env: AppEnv;
+  let kv: KVNamespace;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    env = createMockEnv();
+    kv = env.KV_RATE_LIMIT!;
+  });
+
+  const createBatch = async (
+    provider: SearchProvider,
+    inputs: BatchInputItem[],
+  ) =>
+    submitSearchBatch(
+      kv,
+      env,
+      provider,
+      await prepareSearchBatch(kv, provider, inputs),
+      { requestId: "test-request" },
+    );
+
+  it("answers cached images and submits the rest in bulk", async () => {
+    const cachedKey = await buildCacheKey("https://example.com/cached.jpg");
+    await storeCachedResult(
+      kv,
+      cachedKey,
+      { taskId: "old", results: [match], cachedAt: new Date().toISOString() },
+      60,
+    );
+    mockProvider.createTasks.mockResolvedValue([
+      { status: "fulfilled", value: { taskId: "task-new" } },
+    ]);
+
+    const prepared = await prepareSearchBatch(kv, mockProvider, [
+      { imageUrl: "https://example.com/cached.jpg" },
+      { imageUrl: "https://example.com/new.jpg" },
+      { imageUrl: "https://example.com/new.jpg" },
+      { imageUrl: "https://127.0.0.1/x.jpg", error: "blocked" },
+    ]);
+    // Only the one distinct uncached image is charged
+    expect(countBatchSearches(prepared)).toBe(1);
+    const batch = await submitSearchBatch(kv, env, mockProvider, prepared, {
+      requestId: "test-request",
+    });
+
+    expect(mockProvider.createTasks).toHaveBeenCalledWith(env, [
+      "https://example.com/new.jpg",
+    ]);
+    expect(batch.items.map((item) => item.status)).toEqual([
+      "ready",
+      "pending",
+      "pending",
+      "failed",
+    ]);
+    expect(batch.items[1].taskId).toBe("task-new");
+    expect(batch.items[2].taskId).toBe("task-new");
+    expect(await getCacheKeyForTask(kv, "task-new")).toBe(
+      batch.items[1].cacheKey,
+    );
+    expect(await getSearchBatch(kv, batch.id)).toEqual(batch);
+
+    const view = await buildBatchView(kv, batch);
+    expect(view.status).toBe("pending");
+    expect(view.counts).toEqual({ total: 4, ready: 1, pending: 2, failed: 1 });
+    expect(view.items[0]).toMatchObject({ cached: true, results: [match] });
+    expect(view.items[0]).not.toHaveProperty("cacheKey");
+  });
+
+  it("falls back to one task per image without bulk support", async () => {
+    const provider: SearchProvider = {
+      ...mockProvider,
+      createTasks: undefined,
+    };
+    mockProvider.createTask
+      .mockResolvedValueOnce({ taskId: "t1" })
+      .mockRejectedValueOnce(new Error("quota exceeded"));
+
+    const batch = await createBatch(provider, [
+      { imageUrl: "https://example.com/1.jpg" },
+      { imageUrl: "https://example.com/2.jpg" },
+    ]);
+
+    expect(batch.items[0]).toMatchObject({ status: "pending", taskId: "t1" });
+    expect(batch.items[1]).toMatchObject({
+      status: "failed",
+      error: "quota exceeded",
+    });
+  });
+
+  it("fails blocked and unreadable images without submitting them", async () => {
+    await kv.put(BLOCKLIST_KEY, JSON.stringify({ sha256: ["b".repeat(64)] }));
+    vi.mocked(hashSearchedImage).mockImplementation(async (_env, imageUrl) =>
+      imageUrl.endsWith("unreadable.jpg")
+        ? null
+        : {
+            sha256: (imageUrl.endsWith("blocked.jpg") ? "b" : "c").repeat(64),
+            perceptualHash: null,
+            bytes: new Uint8Array([1]),
+            type: "image/jpeg",
+          },
+    );
+    mockProvider.createTasks.mockResolvedValue([
+      { status: "fulfilled", value: { taskId: "t1" } },
+    ]);
+
+    const batch = await createBatch(mockProvider, [
+      { imageUrl: "https://example.com/blocked.jpg" },
+      { imageUrl: "https://example.com/unreadable.jpg" },
+      { imageUrl: "https://example.com/clean.jpg" },
+    ]);
+
+    expect(mockProvider.createTasks).toHaveBeenCalledWith(env, [
+      "https://example.com/clean.jpg",
+    ]);
+    expect(batch.items.map((item) => item.status)).toEqual([
+      "failed",
+      "failed",
+      "pending",
+    ]);
+    expect(batch.items[0].error).toBe("This image can't be processed.");
+    expect(batch.items[1].error).toMatch(/could not be read/);
+    expect(batch.items[2].taskId).toBe("t1");
+  });
+
+  it("refreshes pending items and caches ready results", async () => {
+    mockProvider.createTasks.mockResolvedValue([
+      { status: "fulfilled", value: { taskId: "t1" } },
+      { status: "fulfilled", value: { taskId: "t2" } },
+      { status: "fulfilled", value: { taskId: "t3" } },
+    ]);
+    const batch = await createBatch(mockProvider, [
+      { imageUrl: "https://example.com/1.jpg" },
+      { imageUrl: "https://example.com/2.jpg" },
+      { imageUrl: "https://example.com/3.jpg" },
+    ]);
+
+    mockProvider.fetchTask.mockImplementation(async (_env, taskId: string) => {
+      if (taskId === "t1") {
+        return { taskId, status: "ready", results: [match] };
+      }
+      if (taskId === "t2") {
+        return { taskId, status: "pending", results: [] };
+      }
+      throw new DataForSEOError("Task not found", "http_error", 404);
+    });
+
+    await refreshSearchBatch(kv, env, batch);
+    const view = await buildBatchView(kv, batch);
+
+    expect(view.items.map((item) => item.status)).toEqual([
+      "ready",
+      "pending",
+      "failed",
+    ]);
+    expect(view.items[0].results).toEqual([match]);
+    expect((await getSearchBatch(kv, batch.id))?.items[0].status).toBe("ready");
+  });
+
+  it("keeps items pending on transient provider errors", async () => {
+    mockProvider.createTasks.mockResolvedValue([
+      { status: "fulfilled", value: { taskId: "t1" } },
+    ]);
+    const batch = await createBatch(mockProvider, [
+      { imageUrl: "https://example.com/1.jpg" },
+    ]);
+    mockProvider.fetchTask.mockRejectedValue(new Error("socket hang up"));
+
+    await refreshSearchBatch(kv, env, batch);
+
+    expect(batch.items[0].status).toBe("pending");
+    expect(batch.items[0].checkedAt).toBeDefined();
+  });
+});
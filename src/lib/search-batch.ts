@@ -0,0 +1,515 @@
+/**
+ * Batch reverse image search
+ *
+ * Submits many images in one request and tracks them as a single batch.
+ * Images already in the search cache are answered immediately; the rest
+ * are moderated and posted to the provider in bulk where supported. Batch state lives in
+ * KV and is refreshed incrementally each time the batch is polled.
+ */
+
+import { z } from "zod";
+import type { AppEnv } from "@/lib/cf-env";
+import { MAX_FANOUT_PROVIDERS, ProviderIdSchema } from "@/lib/dataforseo";
+import { DataForSEOError, ValidationError } from "@/lib/errors";
+import { createLogger } from "@/lib/logger";
+import type { ModerationContext } from "@/lib/moderation";
+import {
+  buildCacheKey,
+  getCachedResult,
+  getSearchCacheTtl,
+  storeCachedResult,
+  storeTaskMapping,
+  TASK_MAPPING_TTL_SECONDS,
+} from "@/lib/search-cache";
+import { getSearchProviderForTask } from "@/lib/search-fanout";
+import { moderateSearchedImage } from "@/lib/search-moderation";
+import type {
+  SearchProvider,
+  SearchResult,
+  SearchTask,
+} from "@/lib/search-provider";
+import { validatePublicImageUrl } from "@/lib/url-validation";
+
+const logger = createLogger("search:batch");
+
+/** Prefix for batch records */
+const BATCH_PREFIX = "batch:img" as const;
+
+/** Maximum images accepted in one batch */
+export const MAX_BATCH_ITEMS = 200;
+
+/** How long a batch can be polled after creation (24 hours) */
+export const BATCH_TTL_SECONDS = 60 * 60 * 24;
+
+/**
+ * Maximum provider lookups per poll. Keeps each poll well under the edge
+ * runtime's subrequest limit; remaining items are checked on later polls.
+ */
+const MAX_REFRESH_PER_POLL = 25;
+
+const BatchItemSchema = z.union([
+  z.string().url().max(2048),
+  z.object({
+    imageUrl: z.string().url().max(2048),
+  }),
+]);
+
+const BatchSearchSchema = z.object({
+  items: z.array(BatchItemSchema).min(1).max(MAX_BATCH_ITEMS),
+  turnstileToken: z.string().min(1).optional(),
+  provider: ProviderIdSchema.optional(),
+  providers: z
+    .array(ProviderIdSchema)
+    .min(1)
+    .max(MAX_FANOUT_PROVIDERS)
+    .optional(),
+});
+
+/**
+ * One image requested in a batch. Items whose URL fails validation carry
+ * an error instead of failing the whole batch.
+ */
+export type BatchInputItem = {
+  imageUrl: string;
+  error?: string;
+};
+
+export type BatchSearchInput = {
+  items: BatchInputItem[];
+  turnstileToken?: string;
+  provider?: string;
+  providers?: string[];
+};
+
+/** Lifecycle status of one batch item */
+export type BatchItemStatus = "ready" | "pending" | "failed";
+
+/**
+ * Stored state of one batch item
+ */
+export type BatchItem = {
+  index: number;
+  imageUrl: string;
+  status: BatchItemStatus;
+  cacheKey?: string;
+  taskId?: string;
+  /** Whether the result came from the search cache */
+  cached?: boolean;
+  error?: string;
+  /** ISO timestamp of the last provider lookup */
+  checkedAt?: string;
+};
+
+/**
+ * Stored batch record
+ */
+export type SearchBatch = {
+  id: string;
+  /** Provider selected when the batch was created */
+  provider: string;
+  createdAt: string;
+  items: BatchItem[];
+};
+
+/**
+ * Batch item as returned to clients
+ */
+export type BatchItemView = Omit<BatchItem, "cacheKey" | "checkedAt"> & {
+  results?: SearchResult[];
+  checkUrl?: string;
+};
+
+/**
+ * Batch status as returned to clients
+ */
+export type BatchView = {
+  batchId: string;
+  provider: string;
+  createdAt: string;
+  /** "ready" once no item is pending */
+  status: "ready" | "pending";
+  counts: Record<BatchItemStatus, number> & { total: number };
+  items: BatchItemView[];
+};
+
+const batchKey = (id: string) => `${BATCH_PREFIX}:${id}`;
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Parses and validates a batch search request body.
+ *
+ * Accepts items as plain URL strings or `{ imageUrl }` objects. Hashes
+ * sent with items are ignored: batch results are cached by URL, so a client
+ * cannot file results under another image's hash.
+ *
+ * @throws ValidationError if the body is malformed
+ */
+export const parseBatchSearchInput = async (
+  request: Request,
+): Promise<BatchSearchInput> => {
+  let parsed: z.infer<typeof BatchSearchSchema>;
+  try {
+    parsed = BatchSearchSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new ValidationError(
+        `Invalid input: ${error.errors[0]?.message ?? "validation failed"}`,
+        error.errors[0]?.path.join("."),
+        undefined,
+        { zodErrors: error.errors },
+      );
+    }
+    throw new ValidationError(
+      "Failed to parse batch input",
+      undefined,
+      undefined,
+      { originalError: errorMessage(error) },
+    );
+  }
+
+  const items = parsed.items.map((item): BatchInputItem => {
+    const imageUrl = typeof item === "string" ? item : item.imageUrl;
+    try {
+      return { imageUrl: validatePublicImageUrl(imageUrl) };
+    } catch (error) {
+      return { imageUrl, error: errorMessage(error) };
+    }
+  });
+
+  return {
+    items,
+    turnstileToken: parsed.turnstileToken,
+    provider: parsed.provider?.toLowerCase(),
+    providers: parsed.providers
+      ? Array.from(new Set(parsed.providers.map((id) => id.toLowerCase())))
+      : undefined,
+  };
+};
+
+/**
+ * Submits tasks, in bulk when the provider supports it.
+ */
+const createTasks = async (
+  env: AppEnv,
+  provider: SearchProvider,
+  imageUrls: string[],
+): Promise<PromiseSettledResult<SearchTask>[]> => {
+  if (imageUrls.length === 0) return [];
+  if (provider.createTasks) {
+    return provider.createTasks(env, imageUrls);
+  }
+  return Promise.allSettled(
+    imageUrls.map((imageUrl) => provider.createTask(env, imageUrl)),
+  );
+};
+
+/**
+ * Loads a batch record.
+ *
+ * @returns The batch, or null if unknown or expired
+ */
+export const getSearchBatch = async (
+  kv: KVNamespace,
+  id: string,
+): Promise<SearchBatch | null> => {
+  try {
+    const data = await kv.get(batchKey(id), { type: "json" });
+    if (!data || typeof data !== "object") return null;
+    const batch = data as SearchBatch;
+    return Array.isArray(batch.items) ? batch : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveSearchBatch = async (kv: KVNamespace, batch: SearchBatch) => {
+  const elapsed = Math.floor(
+    (Date.now() - new Date(batch.createdAt).getTime()) / 1000,
+  );
+  await kv.put(batchKey(batch.id), JSON.stringify(batch), {
+    // KV requires at least 60 seconds
+    expirationTtl: Math.max(60, BATCH_TTL_SECONDS - elapsed),
+  });
+};
+
+/**
+ * Builds the client view of a batch, reading results from the cache.
+ */
+export const buildBatchView = async (
+  kv: KVNamespace,
+  batch: SearchBatch,
+): Promise<BatchView> => {
+  const items = await Promise.all(
+    batch.items.map(async (stored): Promise<BatchItemView> => {
+      const { cacheKey } = stored;
+      const item: BatchItemView = {
+        index: stored.index,
+        imageUrl: stored.imageUrl,
+        status: stored.status,
+        taskId: stored.taskId,
+        cached: stored.cached,
+        error: stored.error,
+      };
+      if (item.status !== "ready" || !cacheKey) return item;
+      const cached = await getCachedResult(kv, cacheKey);
+      return {
+        ...item,
+        results: cached?.results ?? [],
+        checkUrl: cached?.checkUrl,
+      };
+    }),
+  );
+
+  const counts = { total: items.length, ready: 0, pending: 0, failed: 0 };
+  for (const item of items) counts[item.status] += 1;
+
+  return {
+    batchId: batch.id,
+    provider: batch.provider,
+    createdAt: batch.createdAt,
+    status: counts.pending > 0 ? "pending" : "ready",
+    counts,
+    items,
+  };
+};
+
+/**
+ * Starts a batch: answers cached images and leaves the rest pending. The
+ * batch is not stored until it is submitted, so a caller can charge for
+ * the searches it needs first (see `countBatchSearches`).
+ *
+ * @param kv - The Cloudflare KV namespace
+ * @param provider - Provider to search with
+ * @param inputs - Parsed batch items
+ */
+export const prepareSearchBatch = async (
+  kv: KVNamespace,
+  provider: SearchProvider,
+  inputs: BatchInputItem[],
+): Promise<SearchBatch> => {
+  const items = await Promise.all(
+    inputs.map(async (input, index): Promise<BatchItem> => {
+      const item: BatchItem = {
+        index,
+        imageUrl: input.imageUrl,
+        status: "pending",
+      };
+      if (input.error) {
+        return { ...item, status: "failed", error: input.error };
+      }
+
+      item.cacheKey = await buildCacheKey(
+        input.imageUrl,
+        undefined,
+        provider.cacheNamespace,
+      );
+      const cached = await getCachedResult(kv, item.cacheKey);
+      return cached
+        ? { ...item, status: "ready", cached: true, taskId: cached.taskId }
+        : item;
+    }),
+  );
+
+  return {
+    id: crypto.randomUUID(),
+    provider: provider.id,
+    createdAt: new Date().toISOString(),
+    items,
+  };
+};
+
+/**
+ * Groups pending items by cache key; duplicate images share one task.
+ */
+const groupPendingItems = (batch: SearchBatch): [string, BatchItem[]][] => {
+  const pendingByKey = new Map<string, BatchItem[]>();
+  for (const item of batch.items) {
+    if (item.status !== "pending" || !item.cacheKey) continue;
+    pendingByKey.set(item.cacheKey, [
+      ...(pendingByKey.get(item.cacheKey) ?? []),
+      item,
+    ]);
+  }
+  return Array.from(pendingByKey.entries());
+};
+
+/**
+ * Number of searches submitting a prepared batch sends to the provider:
+ * one per distinct image that was not cached.
+ */
+export const countBatchSearches = (batch: SearchBatch): number =>
+  groupPendingItems(batch).length;
+
+/**
+ * Submits the pending images of a prepared batch and stores the batch.
+ *
+ * Each image is moderated before its task is created; blocked or
+ * unreadable images fail individually.
+ *
+ * @param kv - The Cloudflare KV namespace
+ * @param env - Application environment
+ * @param provider - Provider to search with
+ * @param batch - Batch from `prepareSearchBatch`
+ * @param context - Request details for the moderation audit log
+ */
+export const submitSearchBatch = async (
+  kv: KVNamespace,
+  env: AppEnv,
+  provider: SearchProvider,
+  batch: SearchBatch,
+  context: Pick<ModerationContext, "requestId" | "ip">,
+): Promise<SearchBatch> => {
+  const moderated = await Promise.all(
+    groupPendingItems(batch).map(async ([cacheKey, items]) => {
+      try {
+        await moderateSearchedImage(env, items[0].imageUrl, {
+          ...context,
+          source: "search",
+        });
+        return [cacheKey, items] as const;
+      } catch (error) {
+        // Blocked images, and images that could not be checked, fail alone
+        for (const item of items) {
+          item.status = "failed";
+          item.error = errorMessage(error);
+        }
+        return null;
+      }
+    }),
+  );
+  const groups = moderated.filter(
+    (group): group is NonNullable<typeof group> => group !== null,
+  );
+
+  const outcomes = await createTasks(
+    env,
+    provider,
+    groups.map(([, items]) => items[0].imageUrl),
+  );
+
+  await Promise.all(
+    groups.map(async ([cacheKey, items], index) => {
+      const outcome = outcomes[index];
+      if (outcome?.status !== "fulfilled") {
+        const error = outcome
+          ? errorMessage(outcome.reason)
+          : "Task was not created";
+        for (const item of items) {
+          item.status = "failed";
+          item.error = error;
+        }
+        return;
+      }
+
+      for (const item of items) item.taskId = outcome.value.taskId;
+      await storeTaskMapping(
+        kv,
+        outcome.value.taskId,
+        cacheKey,
+        TASK_MAPPING_TTL_SECONDS,
+      );
+    }),
+  );
+
+  await saveSearchBatch(kv, batch);
+
+  logger.info("Batch created", {
+    batchId: batch.id,
+    provider: provider.id,
+    items: batch.items.length,
+    tasks: groups.length,
+  });
+
+  return batch;
+};
+
+/**
+ * Checks pending items for results and stores any that are ready.
+ *
+ * Items whose results were cached by another request are resolved from
+ * the cache first. At most MAX_REFRESH_PER_POLL tasks are fetched per
+ * call, least recently checked first. Transient provider errors leave an
+ * item pending; client errors (e.g. an unknown task) fail it.
+ *
+ * @returns The updated batch (also persisted when anything changed)
+ */
+export const refreshSearchBatch = async (
+  kv: KVNamespace,
+  env: AppEnv,
+  batch: SearchBatch,
+): Promise<SearchBatch> => {
+  const pending = batch.items.filter(
+    (item) => item.status === "pending" && item.taskId && item.cacheKey,
+  );
+  if (pending.length === 0) return batch;
+
+  const byTask = new Map<string, BatchItem[]>();
+  for (const item of pending) {
+    byTask.set(item.taskId!, [...(byTask.get(item.taskId!) ?? []), item]);
+  }
+
+  const due = Array.from(byTask.values())
+    .sort((a, b) =>
+      (a[0].checkedAt ?? "").localeCompare(b[0].checkedAt ?? ""),
+    )
+    .slice(0, MAX_REFRESH_PER_POLL);
+
+  const checkedAt = new Date().toISOString();
+
+  await Promise.all(
+    due.map(async (items) => {
+      const [{ taskId, cacheKey }] = items;
+      const update = (patch: Partial<BatchItem>) => {
+        for (const item of items) Object.assign(item, patch, { checkedAt });
+      };
+
+      if (await getCachedResult(kv, cacheKey!)) {
+        update({ status: "ready" });
+        return;
+      }
+
+      try {
+        const provider = getSearchProviderForTask(env, taskId!, batch.provider);
+        const resolution = await provider.fetchTask(env, taskId!);
+
+        if (resolution.status === "ready" && resolution.results.length > 0) {
+          const cacheTtl = await getSearchCacheTtl(kv, cacheKey!);
+          await storeCachedResult(
+            kv,
+            cacheKey!,
+            {
+              taskId,
+              provider: provider.id,
+              results: resolution.results,
+              checkUrl: resolution.checkUrl,
+              cachedAt: checkedAt,
+            },
+            cacheTtl,
+          );
+          update({ status: "ready" });
+        } else {
+          update({});
+        }
+      } catch (error) {
+        if (
+          error instanceof ValidationError ||
+          DataForSEOError.isClientError(error)
+        ) {
+          update({ status: "failed", error: errorMessage(error) });
+        } else {
+          update({});
+          logger.warn("Batch item refresh failed", {
+            batchId: batch.id,
+            taskId,
+            error: errorMessage(error),
+          });
+        }
+      }
+    }),
+  );
+
+  await saveSearchBatch(kv, batch);
+  return batch;
+};
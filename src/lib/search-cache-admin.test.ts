@@ -0,0 +1,261 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  describeCacheEntry,
+  getCacheStats,
+  parseCacheEntryQuery,
+  purgeCacheByPrefix,
+  purgeCacheEntry,
+  refreshCacheEntry,
+  resolveCacheEntryKey,
+} from "@/lib/search-cache-admin";
+import {
+  buildCacheKey,
+  getCachedResult,
+  storeCachedResult,
+  type CachedSearchResult,
+} from "@/lib/search-cache";
+import { ValidationError } from "@/lib/errors";
+import { createMockEnv } from "@/test/setup";
+import type { AppEnv } from "@/lib/cf-env";
+
+const HASH = "ab".repeat(32);
+
+const entry = (
+  cachedAt: string,
+  extra: Partial<CachedSearchResult> = {},
+): CachedSearchResult => ({
+  results: [
+    {
+      title: "Match",
+      pageUrl: "https://example.com/page",
+      imageUrl: "https://example.com/image.jpg",
+      domain: "example.com",
+    },
+  ],
+  cachedAt,
+  ...extra,
+});
+
+describe("search-cache-admin", () => {
+  let env: AppEnv;
+  let kv: KVNamespace;
+
+  beforeEach(() => {
+    env = createMockEnv();
+    kv = env.KV_RATE_LIMIT!;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("parseCacheEntryQuery", () => {
+    it("requires a key, image URL or hash", () => {
+      expect(() => parseCacheEntryQuery(new URLSearchParams())).toThrow(
+        ValidationError,
+      );
+    });
+
+    it("normalizes hashes and provider lists", () => {
+      const query = parseCacheEntryQuery(
+        new URLSearchParams({
+          imageHash: HASH.toUpperCase(),
+          providers: "Google,bing,google",
+        }),
+      );
+
+      expect(query).toMatchObject({
+        imageHash: HASH,
+        providers: ["google", "bing"],
+      });
+    });
+
+    it("rejects private image URLs", () => {
+      expect(() =>
+        parseCacheEntryQuery(
+          new URLSearchParams({ imageUrl: "https://127.0.0.1/a.jpg" }),
+        ),
+      ).toThrow(ValidationError);
+    });
+  });
+
+  describe("resolveCacheEntryKey", () => {
+    it("builds the key a search would use", async () => {
+      expect(
+        await resolveCacheEntryKey(env, { imageHash: HASH, provider: "stub" }),
+      ).toBe(`cache:img:stub:hash:${HASH}`);
+      expect(
+        await resolveCacheEntryKey(env, {
+          imageUrl: "https://example.com/a.jpg",
+        }),
+      ).toBe(await buildCacheKey("https://example.com/a.jpg"));
+    });
+
+    it("accepts only search cache keys", async () => {
+      await expect(
+        resolveCacheEntryKey(env, { key: `cache:img:hash:${HASH}` }),
+      ).resolves.toBe(`cache:img:hash:${HASH}`);
+      await expect(
+        resolveCacheEntryKey(env, { key: "apikey:record:abc" }),
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe("describeCacheEntry", () => {
+    it("reports age and expiry", async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2024-06-01T12:00:00.000Z"));
+      const key = `cache:img:hash:${HASH}`;
+      await storeCachedResult(kv, key, entry("2024-06-01T10:00:00.000Z"), 3600);
+
+      expect(await describeCacheEntry(kv, key)).toMatchObject({
+        key,
+        source: "hash",
+        hash: HASH,
+        ageSeconds: 7200,
+        expiresAt: "2024-06-01T13:00:00.000Z",
+      });
+    });
+
+    it("returns null for missing entries", async () => {
+      expect(await describeCacheEntry(kv, `cache:img:hash:${HASH}`)).toBeNull();
+    });
+  });
+
+  describe("purging", () => {
+    it("purges a single entry", async () => {
+      const key = `cache:img:hash:${HASH}`;
+      await storeCachedResult(kv, key, entry(new Date().toISOString()), 3600);
+
+      expect(await purgeCacheEntry(kv, key)).toBe(true);
+      expect(await getCachedResult(kv, key)).toBeNull();
+      expect(await purgeCacheEntry(kv, key)).toBe(false);
+    });
+
+    it("purges by prefix in batches", async () => {
+      for (let i = 0; i < 5; i++) {
+        await storeCachedResult(
+          kv,
+          `cache:img:stub:url:${i}`,
+          entry(new Date().toISOString()),
+          3600,
+        );
+      }
+      await storeCachedResult(
+        kv,
+        `cache:img:url:${HASH}`,
+        entry(new Date().toISOString()),
+        3600,
+      );
+
+      expect(await purgeCacheByPrefix(kv, "cache:img:stub:", 3)).toEqual({
+        deleted: 3,
+        complete: false,
+      });
+      expect(await purgeCacheByPrefix(kv, "cache:img:stub:", 3)).toEqual({
+        deleted: 2,
+        complete: true,
+      });
+      expect(await getCachedResult(kv, `cache:img:url:${HASH}`)).not.toBeNull();
+    });
+  });
+
+  describe("refreshCacheEntry", () => {
+    it("re-runs the search and replaces the entry", async () => {
+      const key = `cache:img:stub:hash:${HASH}`;
+      await storeCachedResult(
+        kv,
+        key,
+        entry("2024-01-01T00:00:00.000Z", {
+          provider: "stub",
+          imageUrl: "https://example.com/a.jpg",
+          perceptualHash: "f0e1d2c3b4a59687",
+        }),
+        3600,
+      );
+
+      const result = await refreshCacheEntry(env, kv, { key });
+
+      expect(result).toMatchObject({
+        key,
+        provider: "stub",
+        status: "ready",
+        results: 1,
+      });
+      const refreshed = await getCachedResult(kv, key);
+      expect(refreshed?.results[0].title).toBe("Stub match");
+      expect(refreshed?.perceptualHash).toBe("f0e1d2c3b4a59687");
+      expect(refreshed?.cachedAt).not.toBe("2024-01-01T00:00:00.000Z");
+    });
+
+    it("needs an image URL for unknown entries", async () => {
+      await expect(
+        refreshCacheEntry(env, kv, { imageHash: HASH, provider: "stub" }),
+      ).rejects.toThrow("No image URL is known");
+    });
+
+    it("rejects a provider that does not own the key", async () => {
+      await expect(
+        refreshCacheEntry(env, kv, {
+          key: `cache:img:hash:${HASH}`,
+          imageUrl: "https://example.com/a.jpg",
+          provider: "stub",
+        }),
+      ).rejects.toThrow("Provider does not match");
+    });
+  });
+
+  describe("getCacheStats", () => {
+    it("summarizes entries by source, namespace and age", async () => {
+      const now = Date.parse("2024-06-02T00:00:00.000Z");
+      await storeCachedResult(
+        kv,
+        `cache:img:hash:${HASH}`,
+        entry("2024-06-01T23:30:00.000Z"),
+        3600,
+      );
+      await storeCachedResult(
+        kv,
+        `cache:img:stub:url:${HASH}`,
+        entry("2024-05-31T00:00:00.000Z"),
+        3600,
+      );
+      // Written before metadata was recorded
+      await kv.put(`cache:img:url:${HASH}`, JSON.stringify(entry("x")));
+      await kv.put("task:img:abc", "cache:img:hash:abc");
+
+      const stats = await getCacheStats(kv, now);
+
+      expect(stats).toMatchObject({
+        entries: 3,
+        results: 2,
+        bySource: { hash: 1, url: 2 },
+        byNamespace: { default: 2, stub: 1 },
+        age: {
+          oldest: "2024-05-31T00:00:00.000Z",
+          newest: "2024-06-01T23:30:00.000Z",
+          averageSeconds: (30 * 60 + 48 * 60 * 60) / 2,
+          buckets: { under1h: 1, under6h: 0, under24h: 0, older: 1 },
+        },
+        untracked: 1,
+        truncated: false,
+      });
+      expect(stats.bytes).toBeGreaterThan(0);
+    });
+
+    it("stops at the scan limit", async () => {
+      for (let i = 0; i < 3; i++) {
+        await storeCachedResult(
+          kv,
+          `cache:img:url:${i}`,
+          entry(new Date().toISOString()),
+          3600,
+        );
+      }
+
+      const stats = await getCacheStats(kv, Date.now(), 2);
+      expect(stats.entries).toBe(2);
+      expect(stats.truncated).toBe(true);
+    });
+  });
+});
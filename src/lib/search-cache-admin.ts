@@ -0,0 +1,518 @@
+/**
+ * Search cache administration
+ *
+ * Looks up, purges, refreshes and summarizes search cache entries for the
+ * `/api/admin/cache` routes. Entries are addressed either by their raw
+ * cache key or by the image URL/hash and provider a search would use.
+ */
+
+import { z } from "zod";
+import type { AppEnv } from "@/lib/cf-env";
+import { MAX_FANOUT_PROVIDERS, ProviderIdSchema } from "@/lib/dataforseo";
+import { ValidationError } from "@/lib/errors";
+import {
+  buildCacheKey,
+  CACHE_PREFIX,
+  CacheTtlConfigSchema,
+  getCachedResult,
+  getSearchCacheTtl,
+  parseCacheKey,
+  storeCachedResult,
+  storeTaskMapping,
+  TASK_MAPPING_TTL_SECONDS,
+  type CachedResultMetadata,
+  type CachedSearchResult,
+  type CacheSource,
+  type CacheTtlConfig,
+  type ParsedCacheKey,
+} from "@/lib/search-cache";
+import { getRequestedSearchProvider } from "@/lib/search-fanout";
+import type { SearchTaskStatus } from "@/lib/search-provider";
+import { validatePublicImageUrl } from "@/lib/url-validation";
+
+/** Most entries deleted by one purge request */
+export const PURGE_BATCH_LIMIT = 500;
+
+/** Most entries scanned when computing statistics */
+export const STATS_SCAN_LIMIT = 10_000;
+
+/** KV returns at most this many keys per list page */
+const KV_LIST_PAGE_SIZE = 1000;
+
+/** Upper bounds (in seconds) of the age histogram buckets */
+const AGE_BUCKETS = [
+  ["under1h", 60 * 60],
+  ["under6h", 6 * 60 * 60],
+  ["under24h", 24 * 60 * 60],
+  ["older", Infinity],
+] as const;
+
+type AgeBucket = (typeof AGE_BUCKETS)[number][0];
+
+const CacheEntryQuerySchema = z
+  .object({
+    key: z.string().max(512).optional(),
+    imageUrl: z.string().url().max(2048).optional(),
+    imageHash: z
+      .string()
+      .regex(/^[a-f0-9]{64}$/i)
+      .optional(),
+    provider: ProviderIdSchema.optional(),
+    providers: z
+      .array(ProviderIdSchema)
+      .min(1)
+      .max(MAX_FANOUT_PROVIDERS)
+      .optional(),
+  })
+  .refine((query) => query.key || query.imageUrl || query.imageHash, {
+    message: "Provide a key, imageUrl or imageHash",
+  });
+
+const CachePurgeSchema = z.object({
+  prefix: z
+    .string()
+    .max(512)
+    .refine((prefix) => prefix.startsWith(CACHE_PREFIX), {
+      message: `Prefix must start with "${CACHE_PREFIX}"`,
+    }),
+});
+
+/**
+ * Identifies one cache entry
+ */
+export type CacheEntryQuery = z.infer<typeof CacheEntryQuerySchema>;
+
+/**
+ * A cache entry with its key parts and age
+ */
+export type CacheEntryDetails = ParsedCacheKey &
+  CachedSearchResult & {
+    key: string;
+    ageSeconds: number;
+    expiresAt?: string;
+  };
+
+/**
+ * Outcome of a purge by prefix
+ */
+export type CachePurgeResult = {
+  deleted: number;
+  /** False when more matching entries remain; purge again to continue */
+  complete: boolean;
+};
+
+/**
+ * Outcome of a forced refresh
+ */
+export type CacheRefreshResult = {
+  key: string;
+  provider: string;
+  status: SearchTaskStatus;
+  taskId?: string;
+  results: number;
+  ttlSeconds: number;
+};
+
+/**
+ * Size and age statistics for the search cache
+ */
+export type CacheStats = {
+  entries: number;
+  /** Total size of entries that record it */
+  bytes: number;
+  /** Total results across entries that record it */
+  results: number;
+  bySource: Record<CacheSource, number>;
+  /** Entry counts by provider namespace; `default` for DataForSEO Google */
+  byNamespace: Record<string, number>;
+  age: {
+    oldest?: string;
+    newest?: string;
+    averageSeconds?: number;
+    buckets: Record<AgeBucket, number>;
+  };
+  /** Entries written before metadata was recorded (no size or age) */
+  untracked: number;
+  /** True when the scan stopped at STATS_SCAN_LIMIT */
+  truncated: boolean;
+};
+
+const toValidationError = (error: z.ZodError): ValidationError => {
+  const [issue] = error.errors;
+  return new ValidationError(
+    `Invalid input: ${issue?.message ?? "validation failed"}`,
+    issue?.path[0] as string | undefined,
+    undefined,
+    { zodErrors: error.errors },
+  );
+};
+
+const parseWith = <T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  payload: unknown,
+): T => {
+  const parsed = schema.safeParse(payload);
+  if (!parsed.success) {
+    throw toValidationError(parsed.error);
+  }
+  return parsed.data;
+};
+
+const normalizeQuery = (query: CacheEntryQuery): CacheEntryQuery => {
+  let imageUrl = query.imageUrl;
+  if (imageUrl) {
+    try {
+      // Searches key URL entries by the normalized URL
+      imageUrl = validatePublicImageUrl(imageUrl);
+    } catch (error) {
+      throw new ValidationError(
+        error instanceof Error ? error.message : "Invalid image URL.",
+        "imageUrl",
+      );
+    }
+  }
+
+  return {
+    ...query,
+    imageUrl,
+    imageHash: query.imageHash?.toLowerCase(),
+    provider: query.provider?.toLowerCase(),
+    providers: query.providers
+      ? Array.from(new Set(query.providers.map((id) => id.toLowerCase())))
+      : undefined,
+  };
+};
+
+/**
+ * Parses an entry query from URL search parameters
+ * (`?key=` or `?imageUrl=&imageHash=&provider=&providers=a,b`).
+ *
+ * @throws {ValidationError} When no identifier is given or one is invalid
+ */
+export const parseCacheEntryQuery = (
+  params: URLSearchParams,
+): CacheEntryQuery => {
+  const providers = params.get("providers");
+  return normalizeQuery(
+    parseWith(CacheEntryQuerySchema, {
+      key: params.get("key") ?? undefined,
+      imageUrl: params.get("imageUrl") ?? undefined,
+      imageHash: params.get("imageHash") ?? undefined,
+      provider: params.get("provider") ?? undefined,
+      providers: providers ? providers.split(",") : undefined,
+    }),
+  );
+};
+
+/**
+ * Parses an entry query from a JSON request body.
+ *
+ * @throws {ValidationError} When no identifier is given or one is invalid
+ */
+export const parseCacheEntryBody = async (
+  request: Request,
+): Promise<CacheEntryQuery> =>
+  normalizeQuery(
+    parseWith(CacheEntryQuerySchema, await request.json().catch(() => null)),
+  );
+
+/**
+ * Parses a purge request body (`{ prefix }`).
+ *
+ * @throws {ValidationError} When the prefix is outside the search cache
+ */
+export const parseCachePurgeInput = async (
+  request: Request,
+): Promise<z.infer<typeof CachePurgeSchema>> =>
+  parseWith(CachePurgeSchema, await request.json().catch(() => null));
+
+/**
+ * Parses a TTL config request body (`{ hash?, url? }` in seconds).
+ *
+ * @throws {ValidationError} When a TTL is out of range or a source is unknown
+ */
+export const parseCacheTtlConfigInput = async (
+  request: Request,
+): Promise<CacheTtlConfig> =>
+  parseWith(CacheTtlConfigSchema, await request.json().catch(() => null));
+
+/**
+ * Resolves the cache key an entry query refers to, building it the same way
+ * a search for that image and provider would.
+ *
+ * @throws {ValidationError} When the key or provider is invalid
+ */
+export const resolveCacheEntryKey = async (
+  env: AppEnv,
+  query: CacheEntryQuery,
+): Promise<string> => {
+  if (query.key) {
+    if (!parseCacheKey(query.key)) {
+      throw new ValidationError("Invalid cache key", "key");
+    }
+    return query.key;
+  }
+
+  const provider = getRequestedSearchProvider(env, query);
+  return buildCacheKey(
+    query.imageUrl ?? "",
+    query.imageHash,
+    provider.cacheNamespace,
+  );
+};
+
+/**
+ * Reads a cache entry with its key parts, age and expiry.
+ *
+ * @returns The entry, or null when it is not cached
+ */
+export const describeCacheEntry = async (
+  kv: KVNamespace,
+  cacheKey: string,
+  now: number = Date.now(),
+): Promise<CacheEntryDetails | null> => {
+  const parsedKey = parseCacheKey(cacheKey);
+  const entry = await getCachedResult(kv, cacheKey);
+  if (!parsedKey || !entry) return null;
+
+  // KV only reports expiry through list()
+  const listed = await kv.list({ prefix: cacheKey, limit: 1 });
+  const expiration = listed.keys.find((key) => key.name === cacheKey)
+    ?.expiration;
+
+  return {
+    key: cacheKey,
+    ...parsedKey,
+    ...entry,
+    ageSeconds: Math.max(
+      0,
+      Math.round((now - Date.parse(entry.cachedAt)) / 1000),
+    ),
+    ...(expiration && {
+      expiresAt: new Date(expiration * 1000).toISOString(),
+    }),
+  };
+};
+
+/**
+ * Deletes one cache entry. Perceptual hash index entries pointing at it
+ * are skipped at lookup time and expire on their own.
+ *
+ * @returns Whether the entry existed
+ */
+export const purgeCacheEntry = async (
+  kv: KVNamespace,
+  cacheKey: string,
+): Promise<boolean> => {
+  const existed = (await getCachedResult(kv, cacheKey)) !== null;
+  await kv.delete(cacheKey);
+  return existed;
+};
+
+/**
+ * Deletes up to `limit` entries whose key starts with `prefix`.
+ *
+ * @example
+ * ```ts
+ * // Drop every cached URL search from the stub provider
+ * await purgeCacheByPrefix(env.KV_RATE_LIMIT, "cache:img:stub:url:");
+ * ```
+ */
+export const purgeCacheByPrefix = async (
+  kv: KVNamespace,
+  prefix: string,
+  limit: number = PURGE_BATCH_LIMIT,
+): Promise<CachePurgeResult> => {
+  let deleted = 0;
+  let cursor: string | undefined;
+
+  while (deleted < limit) {
+    const page = await kv.list({
+      prefix,
+      cursor,
+      limit: Math.min(KV_LIST_PAGE_SIZE, limit - deleted),
+    });
+    const names = page.keys
+      .map((key) => key.name)
+      .filter((name) => parseCacheKey(name) !== null);
+    await Promise.all(names.map((name) => kv.delete(name)));
+    deleted += names.length;
+
+    if (page.list_complete) {
+      return { deleted, complete: true };
+    }
+    cursor = page.cursor;
+  }
+
+  return { deleted, complete: false };
+};
+
+/**
+ * Re-runs the search for a cache entry against its provider and replaces
+ * the entry. Pending searches leave a task mapping so polling fills in the
+ * entry; a finished search with no results removes it.
+ *
+ * @throws {ValidationError} When the entry has no known image URL or the
+ *   provider does not own the key
+ */
+export const refreshCacheEntry = async (
+  env: AppEnv,
+  kv: KVNamespace,
+  query: CacheEntryQuery,
+): Promise<CacheRefreshResult> => {
+  const cacheKey = await resolveCacheEntryKey(env, query);
+  const existing = await getCachedResult(kv, cacheKey);
+
+  const imageUrl = query.imageUrl ?? existing?.imageUrl;
+  if (!imageUrl) {
+    throw new ValidationError(
+      "No image URL is known for this entry. Pass imageUrl to refresh it.",
+      "imageUrl",
+    );
+  }
+
+  const provider = getRequestedSearchProvider(env, {
+    provider:
+      query.provider ?? (query.providers ? undefined : existing?.provider),
+    providers: query.providers,
+  });
+  if (provider.cacheNamespace !== parseCacheKey(cacheKey)?.namespace) {
+    throw new ValidationError(
+      "Provider does not match the cache entry",
+      "provider",
+    );
+  }
+
+  const result = await provider.resolve(env, imageUrl);
+  const ttlSeconds = await getSearchCacheTtl(kv, cacheKey);
+
+  if (result.taskId) {
+    await storeTaskMapping(
+      kv,
+      result.taskId,
+      cacheKey,
+      TASK_MAPPING_TTL_SECONDS,
+    );
+  }
+
+  if (result.status === "ready" && result.results.length > 0) {
+    await storeCachedResult(
+      kv,
+      cacheKey,
+      {
+        taskId: result.taskId,
+        provider: provider.id,
+        results: result.results,
+        checkUrl: result.checkUrl,
+        cachedAt: new Date().toISOString(),
+        imageUrl,
+        perceptualHash: existing?.perceptualHash,
+      },
+      ttlSeconds,
+    );
+  } else if (result.status === "ready") {
+    await kv.delete(cacheKey);
+  }
+
+  return {
+    key: cacheKey,
+    provider: provider.id,
+    status: result.status,
+    taskId: result.taskId,
+    results: result.results.length,
+    ttlSeconds,
+  };
+};
+
+const isCachedResultMetadata = (
+  value: unknown,
+): value is CachedResultMetadata =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as CachedResultMetadata).cachedAt === "string" &&
+  typeof (value as CachedResultMetadata).size === "number";
+
+/**
+ * Counts cache entries and summarizes their size and age from list
+ * metadata, without reading the entries themselves.
+ *
+ * @param kv - The Cloudflare KV namespace
+ * @param now - Reference time for ages
+ * @param scanLimit - Most entries to scan
+ */
+export const getCacheStats = async (
+  kv: KVNamespace,
+  now: number = Date.now(),
+  scanLimit: number = STATS_SCAN_LIMIT,
+): Promise<CacheStats> => {
+  const stats: CacheStats = {
+    entries: 0,
+    bytes: 0,
+    results: 0,
+    bySource: { hash: 0, url: 0 },
+    byNamespace: {},
+    age: {
+      buckets: { under1h: 0, under6h: 0, under24h: 0, older: 0 },
+    },
+    untracked: 0,
+    truncated: false,
+  };
+
+  let oldest = Infinity;
+  let newest = -Infinity;
+  let totalAgeSeconds = 0;
+  let aged = 0;
+  let cursor: string | undefined;
+
+  while (true) {
+    const page = await kv.list({
+      prefix: `${CACHE_PREFIX}:`,
+      cursor,
+      limit: Math.min(KV_LIST_PAGE_SIZE, scanLimit - stats.entries),
+    });
+
+    for (const key of page.keys) {
+      const parsedKey = parseCacheKey(key.name);
+      if (!parsedKey) continue;
+
+      stats.entries += 1;
+      stats.bySource[parsedKey.source] += 1;
+      const namespace = parsedKey.namespace ?? "default";
+      stats.byNamespace[namespace] = (stats.byNamespace[namespace] ?? 0) + 1;
+
+      const cachedAt = isCachedResultMetadata(key.metadata)
+        ? Date.parse(key.metadata.cachedAt)
+        : NaN;
+      if (!isCachedResultMetadata(key.metadata) || Number.isNaN(cachedAt)) {
+        stats.untracked += 1;
+        continue;
+      }
+
+      stats.bytes += key.metadata.size;
+      stats.results += key.metadata.results;
+      oldest = Math.min(oldest, cachedAt);
+      newest = Math.max(newest, cachedAt);
+
+      const ageSeconds = Math.max(0, (now - cachedAt) / 1000);
+      totalAgeSeconds += ageSeconds;
+      aged += 1;
+      const [bucket] = AGE_BUCKETS.find(([, max]) => ageSeconds < max)!;
+      stats.age.buckets[bucket] += 1;
+    }
+
+    if (page.list_complete) break;
+    if (stats.entries >= scanLimit) {
+      stats.truncated = true;
+      break;
+    }
+    cursor = page.cursor;
+  }
+
+  if (aged > 0) {
+    stats.age.oldest = new Date(oldest).toISOString();
+    stats.age.newest = new Date(newest).toISOString();
+    stats.age.averageSeconds = Math.round(totalAgeSeconds / aged);
+  }
+
+  return stats;
+};
@@ -1,10 +1,17 @@
 import { describe, expect, it, beforeEach } from "vitest";
 import {
   buildCacheKey,
+  findNearDuplicate,
   getCachedResult,
+  storePerceptualHash,
   storeCachedResult,
   storeTaskMapping,
   getCacheKeyForTask,
+  getTaskMapping,
+  getSearchCacheTtl,
+  parseCacheKey,
+  SEARCH_CACHE_TTL_SECONDS,
+  storeCacheTtlConfig,
   type CachedSearchResult,
 } from "@/lib/search-cache";
 import { MockKVNamespace } from "@/test/setup";
@@ -50,6 +57,15 @@ describe("search-cache", () => {
       expect(key1).not.toBe(key2);
     });
 
+    it("scopes keys by provider namespace", async () => {
+      const key = await buildCacheKey(
+        "https://example.com/image.jpg",
+        "abc123def456",
+        "stub",
+      );
+      expect(key).toBe("cache:img:stub:hash:abc123def456");
+    });
+
     it("distinguishes between URL and hash-based keys", async () => {
       const hash = "a".repeat(64);
       const urlKey = await buildCacheKey("https://example.com/image.jpg");
@@ -61,6 +77,56 @@ describe("search-cache", () => {
     });
   });
 
+  describe("parseCacheKey", () => {
+    it("splits keys built by buildCacheKey", async () => {
+      expect(parseCacheKey(await buildCacheKey("", "ABC123", "stub"))).toEqual({
+        namespace: "stub",
+        source: "hash",
+        hash: "abc123",
+      });
+      expect(
+        parseCacheKey(await buildCacheKey("https://example.com/a.jpg")),
+      ).toEqual({
+        source: "url",
+        hash: expect.stringMatching(/^[a-f0-9]{64}$/),
+      });
+    });
+
+    it("rejects keys outside the search cache", () => {
+      expect(parseCacheKey("task:img:abc")).toBeNull();
+      expect(parseCacheKey("cache:img:file:abc")).toBeNull();
+      expect(parseCacheKey("cache:img::hash:abc")).toBeNull();
+      expect(parseCacheKey("cache:img:hash:")).toBeNull();
+    });
+  });
+
+  describe("getSearchCacheTtl", () => {
+    it("uses the default without overrides", async () => {
+      expect(await getSearchCacheTtl(mockKv, "cache:img:hash:abc")).toBe(
+        SEARCH_CACHE_TTL_SECONDS,
+      );
+    });
+
+    it("uses the override for the key's source", async () => {
+      await storeCacheTtlConfig(mockKv, { url: 3600 });
+
+      expect(await getSearchCacheTtl(mockKv, "cache:img:stub:url:abc")).toBe(
+        3600,
+      );
+      expect(await getSearchCacheTtl(mockKv, "cache:img:hash:abc")).toBe(
+        SEARCH_CACHE_TTL_SECONDS,
+      );
+    });
+
+    it("ignores an invalid stored config", async () => {
+      await mockKv.put("config:search-cache-ttl", JSON.stringify({ url: 1 }));
+
+      expect(await getSearchCacheTtl(mockKv, "cache:img:url:abc")).toBe(
+        SEARCH_CACHE_TTL_SECONDS,
+      );
+    });
+  });
+
   describe("getCachedResult", () => {
     it("returns null for non-existent key", async () => {
       const result = await getCachedResult(mockKv, "nonexistent");
@@ -175,6 +241,28 @@ describe("search-cache", () => {
       const retrieved = await getCachedResult(mockKv, "serialize-test");
       expect(retrieved).toEqual(data);
     });
+
+    it("records listable metadata", async () => {
+      const data: CachedSearchResult = {
+        results: [
+          {
+            title: "Test",
+            pageUrl: "https://example.com",
+            imageUrl: "https://example.com/image.jpg",
+            domain: "example.com",
+          },
+        ],
+        cachedAt: "2024-01-01T00:00:00.000Z",
+      };
+      await storeCachedResult(mockKv, "metadata-test", data, 3600);
+
+      const { keys } = await mockKv.list({ prefix: "metadata-test" });
+      expect(keys[0].metadata).toEqual({
+        cachedAt: data.cachedAt,
+        results: 1,
+        size: JSON.stringify(data).length,
+      });
+    });
   });
 
   describe("storeTaskMapping", () => {
@@ -191,6 +279,28 @@ describe("search-cache", () => {
     });
   });
 
+  describe("getTaskMapping", () => {
+    it("returns the searched image hash kept with the mapping", async () => {
+      await storeTaskMapping(
+        mockKv,
+        "task1",
+        "cache:img:hash:abc",
+        3600,
+        "3c3e0e1a3a1c1e3c",
+      );
+      await storeTaskMapping(mockKv, "task2", "cache:img:hash:def", 3600);
+
+      expect(await getTaskMapping(mockKv, "task1")).toEqual({
+        cacheKey: "cache:img:hash:abc",
+        perceptualHash: "3c3e0e1a3a1c1e3c",
+      });
+      expect(await getTaskMapping(mockKv, "task2")).toEqual({
+        cacheKey: "cache:img:hash:def",
+      });
+      expect(await getTaskMapping(mockKv, "missing")).toBeNull();
+    });
+  });
+
   describe("getCacheKeyForTask", () => {
     it("returns null for non-existent task", async () => {
       const result = await getCacheKeyForTask(mockKv, "nonexistent");
@@ -211,6 +321,85 @@ describe("search-cache", () => {
     });
   });
 
+  describe("perceptual hash index", () => {
+    const cachedResult = (title: string): CachedSearchResult => ({
+      results: [{ title, pageUrl: `https://example.com/${title}` }],
+      cachedAt: new Date().toISOString(),
+    });
+
+    it("finds a cached result within the distance threshold", async () => {
+      await storeCachedResult(mockKv, "cache:a", cachedResult("a"), 3600);
+      await storePerceptualHash(mockKv, "3c3e0e1a3a1c1e3c", "cache:a", 3600);
+
+      // Three bits differ in the last byte
+      const match = await findNearDuplicate(mockKv, "3c3e0e1a3a1c1e3b");
+
+      expect(match).toMatchObject({ cacheKey: "cache:a", distance: 3 });
+      expect(match?.result.results[0].title).toBe("a");
+    });
+
+    it("finds matches that differ in every band", async () => {
+      await storeCachedResult(mockKv, "cache:a", cachedResult("a"), 3600);
+      await storePerceptualHash(mockKv, "0000000000000000", "cache:a", 3600);
+
+      // One bit in each of six bands
+      const match = await findNearDuplicate(mockKv, "0101010101010000");
+
+      expect(match?.distance).toBe(6);
+    });
+
+    it("ignores hashes beyond the threshold", async () => {
+      await storeCachedResult(mockKv, "cache:a", cachedResult("a"), 3600);
+      await storePerceptualHash(mockKv, "0000000000000000", "cache:a", 3600);
+
+      expect(await findNearDuplicate(mockKv, "00000000000000ff")).toBeNull();
+      expect(
+        await findNearDuplicate(mockKv, "00000000000000ff", undefined, 8),
+      ).not.toBeNull();
+    });
+
+    it("prefers the closest match", async () => {
+      await storeCachedResult(mockKv, "cache:far", cachedResult("far"), 3600);
+      await storeCachedResult(mockKv, "cache:near", cachedResult("near"), 3600);
+      await storePerceptualHash(mockKv, "000000000000000f", "cache:far", 3600);
+      await storePerceptualHash(mockKv, "0000000000000001", "cache:near", 3600);
+
+      const match = await findNearDuplicate(mockKv, "0000000000000000");
+
+      expect(match).toMatchObject({ cacheKey: "cache:near", distance: 1 });
+    });
+
+    it("skips entries whose cached result has expired", async () => {
+      await storePerceptualHash(mockKv, "0000000000000000", "cache:gone", 3600);
+
+      expect(await findNearDuplicate(mockKv, "0000000000000000")).toBeNull();
+    });
+
+    it("keeps provider namespaces apart", async () => {
+      await storeCachedResult(mockKv, "cache:a", cachedResult("a"), 3600);
+      await storePerceptualHash(
+        mockKv,
+        "0000000000000000",
+        "cache:a",
+        3600,
+        "stub",
+      );
+
+      expect(await findNearDuplicate(mockKv, "0000000000000000")).toBeNull();
+      expect(
+        await findNearDuplicate(mockKv, "0000000000000000", "stub"),
+      ).not.toBeNull();
+    });
+
+    it("does not duplicate entries when a key is re-indexed", async () => {
+      await storePerceptualHash(mockKv, "0000000000000000", "cache:a", 3600);
+      await storePerceptualHash(mockKv, "0000000000000000", "cache:a", 3600);
+
+      const bucket = await mockKv.get("phash:img:0:00", { type: "json" });
+      expect(bucket).toEqual([{ hash: "0000000000000000", cacheKey: "cache:a" }]);
+    });
+  });
+
   describe("integration scenarios", () => {
     it("round-trips cache data correctly", async () => {
       const original: CachedSearchResult = {
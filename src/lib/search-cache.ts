@@ -5,39 +5,152 @@
  * and improve response times for repeated searches of the same image.
  */
 
+import { z } from "zod";
 import { sha256Hex } from "@/lib/crypto";
-import type { SearchResult } from "@/lib/dataforseo";
+import { hammingDistance } from "@/lib/perceptual-hash";
+import type { SearchResult } from "@/lib/search-provider";
 
 /** Prefix for image search cache entries */
-const CACHE_PREFIX = "cache:img" as const;
+export const CACHE_PREFIX = "cache:img" as const;
 
 /** Prefix for task ID to cache key mappings */
 const TASK_PREFIX = "task:img" as const;
 
+/** Prefix for perceptual hash index buckets */
+const PHASH_PREFIX = "phash:img" as const;
+
+/**
+ * Number of bands a perceptual hash is split into for indexing.
+ * Two 64-bit hashes within distance 7 must agree exactly on at least one
+ * of 8 bands, so looking up each band finds every candidate in range.
+ */
+const PHASH_BANDS = 8;
+
+/** Most recent entries kept per index bucket */
+const PHASH_BUCKET_LIMIT = 50;
+
+/**
+ * Default Hamming distance under which two images count as near-duplicates.
+ * Must stay below PHASH_BANDS for lookups to be exhaustive.
+ */
+export const NEAR_DUPLICATE_MAX_DISTANCE = 6;
+
+/** Default lifetime of cached search results (48 hours) */
+export const SEARCH_CACHE_TTL_SECONDS = 60 * 60 * 48;
+
+/** Default lifetime of task ID to cache key mappings (1 hour) */
+export const TASK_MAPPING_TTL_SECONDS = 60 * 60;
+
+/** KV key holding per-source cache TTL overrides */
+export const CACHE_TTL_CONFIG_KEY = "config:search-cache-ttl";
+
+/** Edge cache lifetime of the TTL config read */
+const CACHE_TTL_CONFIG_CACHE_SECONDS = 60;
+
+/** Shortest TTL KV accepts, and the longest we allow (30 days) */
+const MIN_CACHE_TTL_SECONDS = 60;
+const MAX_CACHE_TTL_SECONDS = 60 * 60 * 24 * 30;
+
+/**
+ * How a cache key identifies its image: by content hash or by URL
+ */
+export type CacheSource = "hash" | "url";
+
+/**
+ * Parts of a cache key built by buildCacheKey
+ */
+export type ParsedCacheKey = {
+  namespace?: string;
+  source: CacheSource;
+  hash: string;
+};
+
+const TtlSecondsSchema = z
+  .number()
+  .int()
+  .min(MIN_CACHE_TTL_SECONDS)
+  .max(MAX_CACHE_TTL_SECONDS);
+
+/**
+ * TTL overrides per cache source; unset sources use SEARCH_CACHE_TTL_SECONDS.
+ * URLs can change content while hashes cannot, so URL entries often get a
+ * shorter TTL.
+ */
+export const CacheTtlConfigSchema = z
+  .object({
+    hash: TtlSecondsSchema.optional(),
+    url: TtlSecondsSchema.optional(),
+  })
+  .strict();
+
+export type CacheTtlConfig = z.infer<typeof CacheTtlConfigSchema>;
+
+/**
+ * Metadata stored alongside each cache entry, readable from `kv.list()`
+ * without fetching the entry
+ */
+export type CachedResultMetadata = {
+  cachedAt: string;
+  results: number;
+  size: number;
+};
+
 /**
  * Cached search result structure
  */
 export type CachedSearchResult = {
-  /** The DataForSEO task ID (if available) */
+  /** The provider task ID (if available) */
   taskId?: string;
+  /** ID of the search provider that produced the results */
+  provider?: string;
   /** Array of search results */
   results: SearchResult[];
   /** URL to check task status (for pending results) */
   checkUrl?: string;
   /** ISO timestamp when the result was cached */
   cachedAt: string;
+  /** URL of the searched image, so hash lookups can link to it */
+  imageUrl?: string;
+  /** Perceptual hash of the searched image, computed by the server */
+  perceptualHash?: string;
 };
 
+/**
+ * What a task ID maps to while its search is pending
+ */
+export type TaskMapping = {
+  /** Cache key the finished results are stored under */
+  cacheKey: string;
+  /** Server-computed perceptual hash of the searched image */
+  perceptualHash?: string;
+};
+
+/**
+ * A cached result found by perceptual hash rather than exact key
+ */
+export type NearDuplicateMatch = {
+  /** Cache key of the matching entry */
+  cacheKey: string;
+  /** Hamming distance between the two perceptual hashes */
+  distance: number;
+  /** The cached result */
+  result: CachedSearchResult;
+};
+
+type PerceptualHashEntry = { hash: string; cacheKey: string };
+
 /**
  * Builds a cache key for an image search.
  *
  * Uses either the provided image hash or computes a SHA-256 hash of the URL.
  * The key format includes the source type to differentiate between hash-based
- * and URL-based cache entries.
+ * and URL-based cache entries. Providers with a cache namespace get their own
+ * key space so results from different backends never collide.
  *
  * @param imageUrl - The URL of the image being searched
  * @param imageHash - Optional pre-computed hash of the image content
- * @returns A unique cache key in format `cache:img:{source}:{hash}`
+ * @param namespace - Optional provider cache namespace
+ * @returns A unique cache key in format `cache:img:[{namespace}:]{source}:{hash}`
  *
  * @example
  * ```ts
@@ -48,13 +161,101 @@ export type CachedSearchResult = {
  * // Hash-based key (more reliable for duplicate detection)
  * const key = await buildCacheKey(url, "abc123def456...");
  * // => "cache:img:hash:abc123def456..."
+ *
+ * // Provider-scoped key
+ * const key = await buildCacheKey(url, undefined, "stub");
+ * // => "cache:img:stub:url:a1b2c3..."
  * ```
  */
-export const buildCacheKey = async (imageUrl: string, imageHash?: string): Promise<string> => {
+export const buildCacheKey = async (
+  imageUrl: string,
+  imageHash?: string,
+  namespace?: string,
+): Promise<string> => {
   const normalizedHash = imageHash?.toLowerCase();
   const keyHash = normalizedHash ?? (await sha256Hex(imageUrl));
   const source = normalizedHash ? "hash" : "url";
-  return `${CACHE_PREFIX}:${source}:${keyHash}`;
+  const prefix = namespace ? `${CACHE_PREFIX}:${namespace}` : CACHE_PREFIX;
+  return `${prefix}:${source}:${keyHash}`;
+};
+
+/**
+ * Splits a cache key into its namespace, source and hash.
+ *
+ * @returns The parts, or null when the key is not a search cache key
+ *
+ * @example
+ * ```ts
+ * parseCacheKey("cache:img:stub:hash:abc123");
+ * // => { namespace: "stub", source: "hash", hash: "abc123" }
+ * ```
+ */
+export const parseCacheKey = (cacheKey: string): ParsedCacheKey | null => {
+  const parts = cacheKey.split(":");
+  if (parts.length < 4 || parts.length > 5) return null;
+  if (`${parts[0]}:${parts[1]}` !== CACHE_PREFIX) return null;
+
+  const [source, hash] = parts.slice(-2);
+  if ((source !== "hash" && source !== "url") || !hash) return null;
+
+  const namespace = parts.length === 5 ? parts[2] : undefined;
+  if (namespace === "") return null;
+  return { ...(namespace && { namespace }), source, hash };
+};
+
+/**
+ * Reads the per-source TTL overrides.
+ *
+ * @returns The overrides; empty when none are configured or the stored
+ *   document is invalid
+ */
+export const loadCacheTtlConfig = async (
+  kv: KVNamespace,
+): Promise<CacheTtlConfig> => {
+  try {
+    const raw = await kv.get(CACHE_TTL_CONFIG_KEY, {
+      type: "json",
+      cacheTtl: CACHE_TTL_CONFIG_CACHE_SECONDS,
+    });
+    const parsed = CacheTtlConfigSchema.safeParse(raw);
+    return parsed.success ? parsed.data : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Replaces the per-source TTL overrides. Existing entries keep the TTL they
+ * were written with.
+ */
+export const storeCacheTtlConfig = async (
+  kv: KVNamespace,
+  config: CacheTtlConfig,
+): Promise<void> => {
+  await kv.put(CACHE_TTL_CONFIG_KEY, JSON.stringify(config));
+};
+
+/**
+ * Returns the TTL to write a cache entry with.
+ *
+ * @param kv - The Cloudflare KV namespace
+ * @param cacheKey - The cache key (from buildCacheKey)
+ * @returns The override for the key's source, or SEARCH_CACHE_TTL_SECONDS
+ *
+ * @example
+ * ```ts
+ * const ttl = await getSearchCacheTtl(env.KV_RATE_LIMIT, cacheKey);
+ * await storeCachedResult(env.KV_RATE_LIMIT, cacheKey, payload, ttl);
+ * ```
+ */
+export const getSearchCacheTtl = async (
+  kv: KVNamespace,
+  cacheKey: string,
+): Promise<number> => {
+  const source = parseCacheKey(cacheKey)?.source;
+  if (!source) return SEARCH_CACHE_TTL_SECONDS;
+  const config = await loadCacheTtlConfig(kv);
+  return config[source] ?? SEARCH_CACHE_TTL_SECONDS;
 };
 
 /**
@@ -111,9 +312,13 @@ export const storeCachedResult = async (
   payload: CachedSearchResult,
   ttlSeconds: number,
 ): Promise<void> => {
-  await kv.put(cacheKey, JSON.stringify(payload), {
-    expirationTtl: ttlSeconds,
-  });
+  const value = JSON.stringify(payload);
+  const metadata: CachedResultMetadata = {
+    cachedAt: payload.cachedAt,
+    results: payload.results.length,
+    size: value.length,
+  };
+  await kv.put(cacheKey, value, { expirationTtl: ttlSeconds, metadata });
 };
 
 /**
@@ -125,18 +330,41 @@ export const storeCachedResult = async (
  * @param taskId - The DataForSEO task ID
  * @param cacheKey - The cache key to associate with the task
  * @param ttlSeconds - Time-to-live in seconds
+ * @param perceptualHash - Server-computed hash of the searched image, kept
+ *   in the key's metadata so polling can refine match types
  */
 export const storeTaskMapping = async (
   kv: KVNamespace,
   taskId: string,
   cacheKey: string,
   ttlSeconds: number,
+  perceptualHash?: string,
 ): Promise<void> => {
   await kv.put(`${TASK_PREFIX}:${taskId}`, cacheKey, {
     expirationTtl: ttlSeconds,
+    ...(perceptualHash && { metadata: { perceptualHash } }),
   });
 };
 
+/**
+ * Retrieves the cache key and searched image hash for a task ID.
+ *
+ * @param kv - The Cloudflare KV namespace
+ * @param taskId - The DataForSEO task ID
+ * @returns The mapping, or null if not found
+ */
+export const getTaskMapping = async (
+  kv: KVNamespace,
+  taskId: string,
+): Promise<TaskMapping | null> => {
+  const { value, metadata } = await kv.getWithMetadata<
+    Pick<TaskMapping, "perceptualHash">
+  >(`${TASK_PREFIX}:${taskId}`, { type: "text" });
+  if (!value) return null;
+  const perceptualHash = metadata?.perceptualHash;
+  return { cacheKey: value, ...(perceptualHash && { perceptualHash }) };
+};
+
 /**
  * Retrieves the cache key associated with a task ID.
  *
@@ -150,3 +378,119 @@ export const getCacheKeyForTask = async (
 ): Promise<string | null> => {
   return kv.get(`${TASK_PREFIX}:${taskId}`, { type: "text" });
 };
+
+const perceptualHashBucketKeys = (
+  perceptualHash: string,
+  namespace?: string,
+): string[] => {
+  const normalized = perceptualHash.toLowerCase();
+  const bandLength = normalized.length / PHASH_BANDS;
+  const prefix = namespace ? `${PHASH_PREFIX}:${namespace}` : PHASH_PREFIX;
+
+  return Array.from({ length: PHASH_BANDS }, (_, band) => {
+    const value = normalized.slice(band * bandLength, (band + 1) * bandLength);
+    return `${prefix}:${band}:${value}`;
+  });
+};
+
+const readPerceptualHashBucket = async (
+  kv: KVNamespace,
+  key: string,
+): Promise<PerceptualHashEntry[]> => {
+  try {
+    const entries = await kv.get<PerceptualHashEntry[]>(key, { type: "json" });
+    return Array.isArray(entries) ? entries : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Indexes a cache entry by the perceptual hash of its image.
+ *
+ * The entry is added to one bucket per hash band. Buckets keep only their
+ * most recent entries, and entries whose cached result has expired are
+ * skipped at lookup time.
+ *
+ * @param kv - The Cloudflare KV namespace
+ * @param perceptualHash - 64-bit dHash of the image (16 hex characters)
+ * @param cacheKey - The cache key the hash points to
+ * @param ttlSeconds - Time-to-live in seconds (usually the cache TTL)
+ * @param namespace - Optional provider cache namespace
+ */
+export const storePerceptualHash = async (
+  kv: KVNamespace,
+  perceptualHash: string,
+  cacheKey: string,
+  ttlSeconds: number,
+  namespace?: string,
+): Promise<void> => {
+  const hash = perceptualHash.toLowerCase();
+
+  await Promise.all(
+    perceptualHashBucketKeys(hash, namespace).map(async (key) => {
+      const entries = await readPerceptualHashBucket(kv, key);
+      const updated = [
+        ...entries.filter((entry) => entry.cacheKey !== cacheKey),
+        { hash, cacheKey },
+      ].slice(-PHASH_BUCKET_LIMIT);
+      await kv.put(key, JSON.stringify(updated), {
+        expirationTtl: ttlSeconds,
+      });
+    }),
+  );
+};
+
+/**
+ * Finds the closest cached result for a visually similar image.
+ *
+ * @param kv - The Cloudflare KV namespace
+ * @param perceptualHash - 64-bit dHash of the image being searched
+ * @param namespace - Optional provider cache namespace
+ * @param maxDistance - Largest Hamming distance accepted as a match
+ * @returns The closest cached match within range, or null
+ *
+ * @example
+ * ```ts
+ * const match = await findNearDuplicate(env.KV_RATE_LIMIT, "3c3e0e1a3a1c1e3c");
+ * if (match) {
+ *   return { ...match.result, cached: "near-duplicate", distance: match.distance };
+ * }
+ * ```
+ */
+export const findNearDuplicate = async (
+  kv: KVNamespace,
+  perceptualHash: string,
+  namespace?: string,
+  maxDistance: number = NEAR_DUPLICATE_MAX_DISTANCE,
+): Promise<NearDuplicateMatch | null> => {
+  const hash = perceptualHash.toLowerCase();
+  const buckets = await Promise.all(
+    perceptualHashBucketKeys(hash, namespace).map((key) =>
+      readPerceptualHashBucket(kv, key),
+    ),
+  );
+
+  const distances = new Map<string, number>();
+  for (const entry of buckets.flat()) {
+    if (distances.has(entry.cacheKey)) continue;
+    try {
+      const distance = hammingDistance(hash, entry.hash);
+      if (distance <= maxDistance) {
+        distances.set(entry.cacheKey, distance);
+      }
+    } catch {
+      // Ignore malformed index entries
+    }
+  }
+
+  const candidates = [...distances.entries()].sort((a, b) => a[1] - b[1]);
+  for (const [cacheKey, distance] of candidates) {
+    const result = await getCachedResult(kv, cacheKey);
+    if (result) {
+      return { cacheKey, distance, result };
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,365 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createFanOutProvider,
+  encodeFanOutTaskId,
+  getRequestedSearchProvider,
+  getSearchProviderForTask,
+  mergeSearchResults,
+  normalizeResultUrl,
+  parseFanOutTaskId,
+} from "@/lib/search-fanout";
+import type { SearchProvider } from "@/lib/search-provider";
+import { ValidationError } from "@/lib/errors";
+import { createMockEnv } from "@/test/setup";
+
+const makeProvider = (
+  id: string,
+  overrides: Partial<SearchProvider> = {},
+): SearchProvider => ({
+  id,
+  createTask: vi.fn(async () => ({ taskId: `${id}-task` })),
+  fetchTask: vi.fn(async (_env, taskId: string) => ({
+    taskId,
+    status: "pending" as const,
+    results: [],
+  })),
+  resolve: vi.fn(async () => ({
+    taskId: `${id}-task`,
+    status: "pending" as const,
+    results: [],
+  })),
+  ...overrides,
+});
+
+describe("search-fanout", () => {
+  describe("normalizeResultUrl", () => {
+    it("ignores scheme, www, fragments and trailing slashes", () => {
+      expect(normalizeResultUrl("https://www.Example.com/page/#top")).toBe(
+        "example.com/page",
+      );
+      expect(normalizeResultUrl("http://example.com/page")).toBe(
+        "example.com/page",
+      );
+    });
+
+    it("drops tracking parameters and sorts the rest", () => {
+      expect(
+        normalizeResultUrl("https://example.com/p?b=2&utm_source=x&a=1&fbclid=y"),
+      ).toBe("example.com/p?a=1&b=2");
+    });
+
+    it("falls back to the trimmed input for invalid URLs", () => {
+      expect(normalizeResultUrl("  Not A URL ")).toBe("not a url");
+    });
+  });
+
+  describe("mergeSearchResults", () => {
+    it("dedupes across providers by normalized page URL", () => {
+      const merged = mergeSearchResults([
+        {
+          provider: "dataforseo",
+          results: [{ title: "A", pageUrl: "https://example.com/a" }],
+        },
+        {
+          provider: "dataforseo-bing",
+          results: [{ title: "A (bing)", pageUrl: "http://www.example.com/a/" }],
+        },
+      ]);
+
+      expect(merged).toHaveLength(1);
+      expect(merged[0].title).toBe("A");
+      expect(merged[0].providers).toEqual(["dataforseo", "dataforseo-bing"]);
+    });
+
+    it("fills in details and keeps the earliest timestamp", () => {
+      const merged = mergeSearchResults([
+        {
+          provider: "dataforseo",
+          results: [
+            {
+              title: "A",
+              pageUrl: "https://example.com/a",
+              timestamp: "2021-01-01T00:00:00.000Z",
+            },
+          ],
+        },
+        {
+          provider: "dataforseo-bing",
+          results: [
+            {
+              title: "A",
+              pageUrl: "https://example.com/a",
+              snippet: "From Bing",
+              timestamp: "2018-06-01T00:00:00.000Z",
+            },
+          ],
+        },
+      ]);
+
+      expect(merged[0]).toMatchObject({
+        snippet: "From Bing",
+        timestamp: "2018-06-01T00:00:00.000Z",
+      });
+    });
+
+    it("dedupes by domain and image URL", () => {
+      const merged = mergeSearchResults([
+        {
+          provider: "dataforseo",
+          results: [
+            {
+              title: "Post",
+              pageUrl: "https://example.com/post?id=1",
+              imageUrl: "https://cdn.example.com/img.jpg",
+            },
+          ],
+        },
+        {
+          provider: "dataforseo-yandex",
+          results: [
+            {
+              title: "Post (amp)",
+              pageUrl: "https://example.com/amp/post",
+              imageUrl: "https://cdn.example.com/img.jpg?utm_medium=feed",
+            },
+          ],
+        },
+      ]);
+
+      expect(merged).toHaveLength(1);
+      expect(merged[0].providers).toEqual(["dataforseo", "dataforseo-yandex"]);
+    });
+
+    it("keeps same image on different domains separate", () => {
+      const merged = mergeSearchResults([
+        {
+          provider: "dataforseo",
+          results: [
+            {
+              title: "One",
+              pageUrl: "https://one.com/a",
+              imageUrl: "https://cdn.com/img.jpg",
+            },
+            {
+              title: "Two",
+              pageUrl: "https://two.com/a",
+              imageUrl: "https://cdn.com/img.jpg",
+            },
+          ],
+        },
+      ]);
+
+      expect(merged).toHaveLength(2);
+    });
+
+    it("ranks results found by several providers first", () => {
+      const merged = mergeSearchResults([
+        {
+          provider: "dataforseo",
+          results: [
+            { title: "Only Google", pageUrl: "https://a.com" },
+            { title: "Shared", pageUrl: "https://b.com" },
+          ],
+        },
+        {
+          provider: "dataforseo-bing",
+          results: [{ title: "Shared", pageUrl: "https://b.com" }],
+        },
+      ]);
+
+      expect(merged.map((result) => result.title)).toEqual([
+        "Shared",
+        "Only Google",
+      ]);
+      expect(merged[0].score).toBeGreaterThan(merged[1].score ?? 0);
+    });
+
+    it("counts each provider once per result", () => {
+      const merged = mergeSearchResults([
+        {
+          provider: "dataforseo",
+          results: [
+            { title: "A", pageUrl: "https://a.com/x" },
+            { title: "A again", pageUrl: "https://www.a.com/x/" },
+          ],
+        },
+      ]);
+
+      expect(merged).toHaveLength(1);
+      expect(merged[0].providers).toEqual(["dataforseo"]);
+      expect(merged[0].score).toBeCloseTo(1 / 61, 6);
+    });
+  });
+
+  describe("fan-out task IDs", () => {
+    it("round-trips composite task IDs", () => {
+      const entries = [
+        { provider: "dataforseo", taskId: "01-abc" },
+        { provider: "dataforseo-bing", taskId: "02-def" },
+      ];
+      const encoded = encodeFanOutTaskId(entries);
+
+      expect(encoded).toBe("fanout:dataforseo:01-abc,dataforseo-bing:02-def");
+      expect(parseFanOutTaskId(encoded)).toEqual(entries);
+    });
+
+    it("returns null for plain or malformed task IDs", () => {
+      expect(parseFanOutTaskId("01-abc")).toBeNull();
+      expect(parseFanOutTaskId("fanout:")).toBeNull();
+      expect(parseFanOutTaskId("fanout:dataforseo")).toBeNull();
+    });
+  });
+
+  describe("createFanOutProvider", () => {
+    it("merges results from all providers", async () => {
+      const google = makeProvider("dataforseo", {
+        resolve: vi.fn(async () => ({
+          taskId: "g1",
+          status: "ready" as const,
+          checkUrl: "https://google.com/search",
+          results: [{ title: "A", pageUrl: "https://a.com" }],
+        })),
+      });
+      const bing = makeProvider("dataforseo-bing", {
+        resolve: vi.fn(async () => ({
+          taskId: "b1",
+          status: "ready" as const,
+          results: [{ title: "B", pageUrl: "https://b.com" }],
+        })),
+      });
+
+      const resolution = await createFanOutProvider([google, bing]).resolve(
+        createMockEnv(),
+        "https://example.com/image.jpg",
+      );
+
+      expect(resolution.status).toBe("ready");
+      expect(resolution.taskId).toBe("fanout:dataforseo:g1,dataforseo-bing:b1");
+      expect(resolution.checkUrl).toBe("https://google.com/search");
+      expect(resolution.results).toHaveLength(2);
+    });
+
+    it("tolerates individual provider failures", async () => {
+      const google = makeProvider("dataforseo", {
+        resolve: vi.fn(async () => ({
+          taskId: "g1",
+          status: "ready" as const,
+          results: [{ title: "A", pageUrl: "https://a.com" }],
+        })),
+      });
+      const bing = makeProvider("dataforseo-bing", {
+        resolve: vi.fn(async () => {
+          throw new Error("Missing DFS_ENDPOINT_BING_POST");
+        }),
+      });
+
+      const resolution = await createFanOutProvider([google, bing]).resolve(
+        createMockEnv(),
+        "https://example.com/image.jpg",
+      );
+
+      expect(resolution.taskId).toBe("fanout:dataforseo:g1");
+      expect(resolution.results).toHaveLength(1);
+    });
+
+    it("throws when every provider fails", async () => {
+      const failing = (id: string) =>
+        makeProvider(id, {
+          resolve: vi.fn(async () => {
+            throw new Error(`${id} down`);
+          }),
+        });
+
+      await expect(
+        createFanOutProvider([failing("a"), failing("b")]).resolve(
+          createMockEnv(),
+          "https://example.com/image.jpg",
+        ),
+      ).rejects.toThrow("a down");
+    });
+
+    it("fetches each child task from a composite task ID", async () => {
+      const google = makeProvider("dataforseo");
+      const bing = makeProvider("dataforseo-bing");
+      const env = createMockEnv();
+
+      const resolution = await createFanOutProvider([google, bing]).fetchTask(
+        env,
+        "fanout:dataforseo:g1,dataforseo-bing:b1",
+      );
+
+      expect(google.fetchTask).toHaveBeenCalledWith(env, "g1");
+      expect(bing.fetchTask).toHaveBeenCalledWith(env, "b1");
+      expect(resolution.status).toBe("pending");
+    });
+
+    it("stays pending while any provider is still pending", async () => {
+      const google = makeProvider("dataforseo", {
+        fetchTask: vi.fn(async () => ({
+          taskId: "g1",
+          status: "ready" as const,
+          results: [{ title: "A", pageUrl: "https://a.com" }],
+        })),
+      });
+      const bing = makeProvider("dataforseo-bing");
+
+      const resolution = await createFanOutProvider([google, bing]).fetchTask(
+        createMockEnv(),
+        "fanout:dataforseo:g1,dataforseo-bing:b1",
+      );
+
+      expect(resolution.status).toBe("pending");
+      expect(resolution.results).toHaveLength(1);
+    });
+
+    it("uses an order-independent cache namespace", () => {
+      const a = makeProvider("dataforseo");
+      const b = makeProvider("dataforseo-bing");
+
+      expect(createFanOutProvider([a, b]).cacheNamespace).toBe(
+        createFanOutProvider([b, a]).cacheNamespace,
+      );
+    });
+  });
+
+  describe("provider selection", () => {
+    it("returns a single provider when one is requested", () => {
+      const provider = getRequestedSearchProvider(createMockEnv(), {
+        providers: ["dataforseo-bing"],
+      });
+      expect(provider.id).toBe("dataforseo-bing");
+    });
+
+    it("returns a fan-out provider for several providers", () => {
+      const provider = getRequestedSearchProvider(createMockEnv(), {
+        providers: ["dataforseo", "dataforseo-yandex"],
+      });
+      expect(provider.id).toBe("fanout");
+    });
+
+    it("rejects unknown providers in a fan-out request", () => {
+      expect(() =>
+        getRequestedSearchProvider(createMockEnv(), {
+          providers: ["dataforseo", "nope"],
+        }),
+      ).toThrow(ValidationError);
+    });
+
+    it("rebuilds fan-out providers from composite task IDs", () => {
+      const provider = getSearchProviderForTask(
+        createMockEnv(),
+        "fanout:dataforseo:g1,dataforseo-bing:b1",
+      );
+      expect(provider.id).toBe("fanout");
+    });
+
+    it("uses the requested provider for plain task IDs", () => {
+      const provider = getSearchProviderForTask(
+        createMockEnv(),
+        "01-abc",
+        "dataforseo-yandex",
+      );
+      expect(provider.id).toBe("dataforseo-yandex");
+    });
+  });
+});
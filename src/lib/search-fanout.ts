@@ -0,0 +1,374 @@
+/**
+ * Multi-provider fan-out search
+ *
+ * Queries several search providers in parallel and merges their results
+ * into one ranked list. Results are deduplicated across providers by
+ * normalized page URL and by (domain, image URL), and ranked with
+ * reciprocal rank fusion so items found by several engines rise to the top.
+ */
+
+import type { AppEnv } from "@/lib/cf-env";
+import { createLogger } from "@/lib/logger";
+import {
+  getSearchProvider,
+  type MatchType,
+  type SearchProvider,
+  type SearchResolution,
+  type SearchResult,
+} from "@/lib/search-provider";
+
+const logger = createLogger("search:fanout");
+
+/** Provider ID reported for fan-out searches */
+export const FANOUT_PROVIDER_ID = "fanout";
+
+/** Prefix identifying composite fan-out task IDs */
+const FANOUT_TASK_PREFIX = "fanout:";
+
+/**
+ * Reciprocal rank fusion constant. Larger values flatten the difference
+ * between top-ranked and lower-ranked items.
+ */
+const RRF_K = 60;
+
+/** Match type precedence when engines disagree about a result */
+const MATCH_TYPE_STRENGTH: Record<MatchType, number> = {
+  similar: 0,
+  page: 1,
+  exact: 2,
+};
+
+/** Query parameters that never change page identity */
+const TRACKING_PARAM_PATTERN = /^(utm_[a-z]+|fbclid|gclid|msclkid|mc_cid|mc_eid)$/i;
+
+/**
+ * Results returned by one provider, in that provider's rank order
+ */
+export type ProviderResultSet = {
+  provider: string;
+  results: SearchResult[];
+};
+
+/**
+ * One child task within a composite fan-out task
+ */
+export type FanOutTaskEntry = {
+  provider: string;
+  taskId: string;
+};
+
+/**
+ * Normalizes a URL for cross-provider comparison.
+ *
+ * Ignores scheme, a leading "www.", default ports, fragments, trailing
+ * slashes, tracking parameters and query parameter order.
+ *
+ * @param value - The URL to normalize
+ * @returns A comparison key such as `example.com/page?a=1`
+ *
+ * @example
+ * ```ts
+ * normalizeResultUrl("https://www.Example.com/page/?utm_source=x#top");
+ * // => "example.com/page"
+ * ```
+ */
+export const normalizeResultUrl = (value: string): string => {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return value.trim().toLowerCase();
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^www\./, "");
+  const path =
+    url.pathname.length > 1 ? url.pathname.replace(/\/+$/, "") : "";
+
+  const params = Array.from(url.searchParams.entries())
+    .filter(([key]) => !TRACKING_PARAM_PATTERN.test(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length
+    ? `?${new URLSearchParams(params).toString()}`
+    : "";
+
+  return `${host}${path}${query}`;
+};
+
+const hostKey = (url: string): string =>
+  normalizeResultUrl(url).split(/[/?]/)[0];
+
+/**
+ * Merges result sets from several providers into one ranked list.
+ *
+ * Two results are considered the same when their normalized page URLs
+ * match, or when they share a domain and a normalized image URL. Each
+ * provider contributes `1 / (RRF_K + rank)` to a result's score.
+ *
+ * @param sets - Result sets in provider order
+ * @returns Deduplicated results sorted by descending score, each tagged
+ *   with the providers that found it
+ */
+export const mergeSearchResults = (
+  sets: ProviderResultSet[],
+): SearchResult[] => {
+  const merged: Array<SearchResult & { providers: string[]; score: number }> =
+    [];
+  const byKey = new Map<string, (typeof merged)[number]>();
+
+  for (const { provider, results } of sets) {
+    results.forEach((result, index) => {
+      const pageKey = `page:${normalizeResultUrl(result.pageUrl)}`;
+      const imageKey = result.imageUrl
+        ? `image:${hostKey(result.pageUrl)}|${normalizeResultUrl(result.imageUrl)}`
+        : undefined;
+
+      let entry = byKey.get(pageKey) ?? (imageKey && byKey.get(imageKey));
+      if (!entry) {
+        entry = { ...result, providers: [], score: 0 };
+        merged.push(entry);
+      } else {
+        entry.imageUrl ??= result.imageUrl;
+        entry.domain ??= result.domain;
+        entry.snippet ??= result.snippet;
+        entry.imageWidth ??= result.imageWidth;
+        entry.imageHeight ??= result.imageHeight;
+        // Keep the earliest date any engine reported
+        if (
+          result.timestamp &&
+          (!entry.timestamp || result.timestamp < entry.timestamp)
+        ) {
+          entry.timestamp = result.timestamp;
+        }
+        // The strongest claim any engine made wins
+        if (
+          result.matchType &&
+          (!entry.matchType ||
+            MATCH_TYPE_STRENGTH[result.matchType] >
+              MATCH_TYPE_STRENGTH[entry.matchType])
+        ) {
+          entry.matchType = result.matchType;
+        }
+      }
+
+      byKey.set(pageKey, entry);
+      if (imageKey) byKey.set(imageKey, entry);
+
+      // A provider only counts once per result, at its best rank
+      if (entry.providers.includes(provider)) return;
+      entry.providers.push(provider);
+      entry.score += 1 / (RRF_K + index + 1);
+    });
+  }
+
+  return merged
+    .map((entry, order) => ({ entry, order }))
+    .sort((a, b) => b.entry.score - a.entry.score || a.order - b.order)
+    .map(({ entry }) => ({
+      ...entry,
+      score: Math.round(entry.score * 1e6) / 1e6,
+    }));
+};
+
+/**
+ * Encodes child tasks into a single composite task ID.
+ *
+ * @example
+ * ```ts
+ * encodeFanOutTaskId([{ provider: "dataforseo", taskId: "abc" }]);
+ * // => "fanout:dataforseo:abc"
+ * ```
+ */
+export const encodeFanOutTaskId = (entries: FanOutTaskEntry[]): string =>
+  `${FANOUT_TASK_PREFIX}${entries
+    .map(({ provider, taskId }) => `${provider}:${taskId}`)
+    .join(",")}`;
+
+/**
+ * Decodes a composite task ID created by encodeFanOutTaskId.
+ *
+ * @returns The child task entries, or null if this is not a fan-out task ID
+ */
+export const parseFanOutTaskId = (
+  taskId: string,
+): FanOutTaskEntry[] | null => {
+  if (!taskId.startsWith(FANOUT_TASK_PREFIX)) return null;
+
+  const entries = taskId
+    .slice(FANOUT_TASK_PREFIX.length)
+    .split(",")
+    .map((part) => {
+      const separator = part.indexOf(":");
+      return separator > 0
+        ? { provider: part.slice(0, separator), taskId: part.slice(separator + 1) }
+        : null;
+    });
+
+  if (entries.length === 0 || entries.some((entry) => !entry?.taskId)) {
+    return null;
+  }
+
+  return entries as FanOutTaskEntry[];
+};
+
+/**
+ * Settles child operations, merging successes and logging failures.
+ * Throws the first failure only when every provider failed. The merged
+ * resolution stays "pending" while any surviving child is still pending,
+ * so partial results are reported but never treated as final.
+ */
+const combineSettled = (
+  providers: SearchProvider[],
+  settled: PromiseSettledResult<SearchResolution>[],
+): SearchResolution => {
+  const fulfilled: Array<{ provider: string; resolution: SearchResolution }> =
+    [];
+  let firstError: unknown;
+
+  settled.forEach((outcome, index) => {
+    const provider = providers[index].id;
+    if (outcome.status === "fulfilled") {
+      fulfilled.push({ provider, resolution: outcome.value });
+      return;
+    }
+    firstError ??= outcome.reason;
+    logger.warn("Fan-out provider failed", {
+      provider,
+      error:
+        outcome.reason instanceof Error
+          ? outcome.reason.message
+          : String(outcome.reason),
+    });
+  });
+
+  if (fulfilled.length === 0) {
+    throw firstError;
+  }
+
+  const results = mergeSearchResults(
+    fulfilled.map(({ provider, resolution }) => ({
+      provider,
+      results: resolution.results,
+    })),
+  );
+
+  return {
+    taskId: encodeFanOutTaskId(
+      fulfilled.map(({ provider, resolution }) => ({
+        provider,
+        taskId: resolution.taskId,
+      })),
+    ),
+    results,
+    checkUrl: fulfilled.find(({ resolution }) => resolution.checkUrl)
+      ?.resolution.checkUrl,
+    status:
+      results.length > 0 &&
+      fulfilled.every(({ resolution }) => resolution.status === "ready")
+        ? "ready"
+        : "pending",
+  };
+};
+
+/**
+ * Builds a provider that fans out to several child providers.
+ *
+ * A fan-out search is "ready" only once every child is ready, so partial
+ * results from the fastest provider are never cached as the final answer;
+ * children that fail are dropped from the composite task instead of failing
+ * the whole search.
+ *
+ * @param providers - Child providers (at least two)
+ */
+export const createFanOutProvider = (
+  providers: SearchProvider[],
+): SearchProvider => {
+  const ids = providers.map((provider) => provider.id);
+
+  return {
+    id: FANOUT_PROVIDER_ID,
+    cacheNamespace: `${FANOUT_PROVIDER_ID}-${[...ids].sort().join("+")}`,
+
+    async createTask(env, imageUrl) {
+      const resolution = combineSettled(
+        providers,
+        await Promise.allSettled(
+          providers.map(async (provider) => {
+            const task = await provider.createTask(env, imageUrl);
+            return { ...task, results: [], status: "pending" as const };
+          }),
+        ),
+      );
+      return { taskId: resolution.taskId, checkUrl: resolution.checkUrl };
+    },
+
+    async fetchTask(env, taskId) {
+      const entries = (parseFanOutTaskId(taskId) ?? []).filter((entry) =>
+        ids.includes(entry.provider),
+      );
+      const children = entries.map(
+        (entry) => providers[ids.indexOf(entry.provider)],
+      );
+
+      return combineSettled(
+        children,
+        await Promise.allSettled(
+          entries.map((entry, index) =>
+            children[index].fetchTask(env, entry.taskId),
+          ),
+        ),
+      );
+    },
+
+    async resolve(env, imageUrl) {
+      return combineSettled(
+        providers,
+        await Promise.allSettled(
+          providers.map((provider) => provider.resolve(env, imageUrl)),
+        ),
+      );
+    },
+  };
+};
+
+/**
+ * Resolves the provider for a search request.
+ *
+ * Several requested providers produce a fan-out provider; a single one
+ * (or none) falls back to getSearchProvider.
+ *
+ * @param env - Application environment
+ * @param requested - Provider selection from the request input
+ * @throws ValidationError if any requested provider is unknown
+ */
+export const getRequestedSearchProvider = (
+  env: AppEnv,
+  requested: { provider?: string; providers?: string[] },
+): SearchProvider => {
+  const ids = Array.from(new Set(requested.providers ?? []));
+
+  if (ids.length > 1) {
+    return createFanOutProvider(ids.map((id) => getSearchProvider(env, id)));
+  }
+
+  return getSearchProvider(env, ids[0] ?? requested.provider);
+};
+
+/**
+ * Resolves the provider that owns an existing task.
+ *
+ * Composite fan-out task IDs carry their child providers; other task IDs
+ * use the explicitly requested provider or the configured default.
+ */
+export const getSearchProviderForTask = (
+  env: AppEnv,
+  taskId: string,
+  requested?: string | null,
+): SearchProvider => {
+  const entries = parseFanOutTaskId(taskId);
+  if (entries) {
+    return createFanOutProvider(
+      entries.map((entry) => getSearchProvider(env, entry.provider)),
+    );
+  }
+  return getSearchProvider(env, requested);
+};
@@ -0,0 +1,87 @@
+/**
+ * Moderation of searched images
+ *
+ * Single, batch and saved searches all read the image they are about to
+ * submit and check the hashes the server computed against the moderation
+ * blocklist, so no search path depends on hashes a client sent.
+ */
+
+import type { AppEnv } from "@/lib/cf-env";
+import { ValidationError } from "@/lib/errors";
+import {
+  hashSearchedImage,
+  UNREADABLE_IMAGE_MESSAGE,
+  type SearchedImage,
+} from "@/lib/match-classification";
+import { enforceModeration, type ModerationContext } from "@/lib/moderation";
+import { uploadKeyFromUrl } from "@/lib/upload-storage";
+
+/**
+ * A searched image that passed moderation
+ */
+export type ModeratedImage = {
+  searched: SearchedImage;
+  /** The stored object, when the image is one of our uploads */
+  stored: R2Object | null;
+};
+
+/**
+ * Reads and hashes the image a search submits, then rejects it when it
+ * matches the blocklist. Our uploads are also checked by the hashes
+ * recorded when they were stored and are moved to quarantine on a match;
+ * other images are copied there.
+ *
+ * @param env - The application environment
+ * @param imageUrl - The searched image URL
+ * @param context - Where the search came from, for the audit log
+ * @returns The image and, for our uploads, the stored object
+ * @throws {ValidationError} When the image cannot be read
+ * @throws {ContentBlockedError} When the image matches the blocklist
+ *
+ * @example
+ * ```ts
+ * const { searched } = await moderateSearchedImage(env, imageUrl, {
+ *   source: "search",
+ *   requestId,
+ *   ip,
+ * });
+ * ```
+ */
+export const moderateSearchedImage = async (
+  env: AppEnv,
+  imageUrl: string,
+  context: Pick<ModerationContext, "source" | "requestId" | "ip">,
+): Promise<ModeratedImage> => {
+  const searched = await hashSearchedImage(env, imageUrl);
+  if (!searched) {
+    throw new ValidationError(UNREADABLE_IMAGE_MESSAGE, "imageUrl");
+  }
+
+  const uploadKey = uploadKeyFromUrl(env, imageUrl);
+  const stored = uploadKey
+    ? ((await env.R2_BUCKET?.head(uploadKey)) ?? null)
+    : null;
+  await enforceModeration(
+    env,
+    {
+      sha256: searched.sha256,
+      // Hashes recorded when our own uploads were stored, including the
+      // original of a normalized image
+      alternateSha256: [
+        uploadKey?.split("/").pop()?.split(".")[0],
+        stored?.customMetadata?.originalSha256,
+        stored?.customMetadata?.normalizedSha256,
+      ].filter((hash): hash is string => Boolean(hash)),
+      perceptualHash: searched.perceptualHash ?? undefined,
+    },
+    {
+      ...context,
+      imageUrl,
+      quarantine: uploadKey
+        ? { key: uploadKey }
+        : { bytes: searched.bytes, type: searched.type },
+    },
+  );
+
+  return { searched, stored };
+};
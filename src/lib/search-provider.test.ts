@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_SEARCH_PROVIDER,
+  getSearchProvider,
+  listSearchProviders,
+  stubSearchProvider,
+} from "@/lib/search-provider";
+import { dataForSEOProvider } from "@/lib/dataforseo";
+import { ValidationError } from "@/lib/errors";
+import { createMockEnv } from "@/test/setup";
+
+describe("search-provider", () => {
+  describe("getSearchProvider", () => {
+    it("defaults to DataForSEO", () => {
+      const provider = getSearchProvider(createMockEnv());
+      expect(provider.id).toBe(DEFAULT_SEARCH_PROVIDER);
+      expect(provider).toBe(dataForSEOProvider);
+    });
+
+    it("uses SEARCH_PROVIDER from env", () => {
+      const env = { ...createMockEnv(), SEARCH_PROVIDER: "stub" };
+      expect(getSearchProvider(env).id).toBe("stub");
+    });
+
+    it("prefers the requested provider over env", () => {
+      const env = { ...createMockEnv(), SEARCH_PROVIDER: "dataforseo" };
+      expect(getSearchProvider(env, "STUB").id).toBe("stub");
+    });
+
+    it("throws ValidationError for unknown providers", () => {
+      expect(() => getSearchProvider(createMockEnv(), "tineye")).toThrow(
+        ValidationError,
+      );
+    });
+
+    it("rejects dev-only providers in production", () => {
+      const env = { ...createMockEnv(), NODE_ENV: "production" };
+      expect(() => getSearchProvider(env, "stub")).toThrow(ValidationError);
+    });
+  });
+
+  describe("listSearchProviders", () => {
+    it("lists registered provider IDs", () => {
+      expect(listSearchProviders()).toEqual([
+        "dataforseo",
+        "dataforseo-bing",
+        "dataforseo-yandex",
+        "stub",
+      ]);
+    });
+  });
+
+  describe("stubSearchProvider", () => {
+    it("creates deterministic task IDs", async () => {
+      const env = createMockEnv();
+      const first = await stubSearchProvider.createTask(
+        env,
+        "https://example.com/a.jpg",
+      );
+      const second = await stubSearchProvider.createTask(
+        env,
+        "https://example.com/a.jpg",
+      );
+      expect(first.taskId).toMatch(/^stub-[a-f0-9]{16}$/);
+      expect(first.taskId).toBe(second.taskId);
+    });
+
+    it("resolves immediately with normalized results", async () => {
+      const resolution = await stubSearchProvider.resolve(
+        createMockEnv(),
+        "https://example.com/a.jpg",
+      );
+      expect(resolution.status).toBe("ready");
+      expect(resolution.results[0]).toMatchObject({
+        title: "Stub match",
+        domain: "example.com",
+      });
+    });
+  });
+});
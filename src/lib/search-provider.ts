@@ -0,0 +1,205 @@
+/**
+ * Reverse image search provider abstraction
+ *
+ * Decouples the search API routes from any single backend. Each provider
+ * knows how to create a search task, fetch its current state, and resolve
+ * a search end-to-end, always returning normalized SearchResult objects.
+ */
+
+import type { AppEnv } from "@/lib/cf-env";
+import { sha256Hex } from "@/lib/crypto";
+import {
+  dataForSEOBingProvider,
+  dataForSEOProvider,
+  dataForSEOYandexProvider,
+} from "@/lib/dataforseo";
+import { ValidationError } from "@/lib/errors";
+
+/**
+ * How a result relates to the searched image:
+ * - `exact`: the same image, possibly resized or re-encoded
+ * - `similar`: an image that looks alike
+ * - `page`: a page that contains the image
+ */
+export type MatchType = "exact" | "similar" | "page";
+
+/**
+ * Normalized search result shared by every provider
+ */
+export type SearchResult = {
+  title: string;
+  pageUrl: string;
+  imageUrl?: string;
+  domain?: string;
+  /** IDs of the providers that returned this result (fan-out searches) */
+  providers?: string[];
+  /** Combined cross-provider ranking score, higher is better */
+  score?: number;
+  /** 1-based rank reported by the provider */
+  position?: number;
+  /** Text the engine showed with the result */
+  snippet?: string;
+  /** Pixel size of the matched image, when reported */
+  imageWidth?: number;
+  imageHeight?: number;
+  /** ISO time the engine reports for the page (crawl or publish date) */
+  timestamp?: string;
+  /** ISO publish time read from the page itself (see result-enrichment) */
+  publishedAt?: string;
+  /** Site name read from the page's `og:site_name` */
+  siteName?: string;
+  /** Engine section the result came from, refined by perceptual hash */
+  matchType?: MatchType;
+  /** dHash Hamming distance between the thumbnail and searched image */
+  matchDistance?: number;
+  /** Signed `/api/thumb` path, added to responses (see thumbnail-proxy) */
+  thumbnailUrl?: string;
+};
+
+/** Lifecycle status of a search task */
+export type SearchTaskStatus = "ready" | "pending";
+
+/**
+ * Snapshot of a search task as reported by a provider
+ */
+export type SearchResolution = {
+  /** Provider-specific task identifier */
+  taskId: string;
+  /** Normalized results (empty while pending) */
+  results: SearchResult[];
+  /** URL to view the search on the upstream engine */
+  checkUrl?: string;
+  /** Whether results are available yet */
+  status: SearchTaskStatus;
+};
+
+/**
+ * Result of submitting a new search task
+ */
+export type SearchTask = {
+  taskId: string;
+  checkUrl?: string;
+};
+
+/**
+ * Contract implemented by every reverse image search backend
+ */
+export interface SearchProvider {
+  /** Stable identifier used in requests, env config and responses */
+  readonly id: string;
+  /**
+   * Optional cache namespace. Providers without one share the legacy
+   * `cache:img:{source}:{hash}` key space.
+   */
+  readonly cacheNamespace?: string;
+  /** Only selectable outside production (local stubs, fixtures) */
+  readonly devOnly?: boolean;
+  /** Submits a search task without waiting for results */
+  createTask(env: AppEnv, imageUrl: string): Promise<SearchTask>;
+  /**
+   * Optional bulk submission, one outcome per image in input order.
+   * Callers fall back to createTask per image when absent.
+   */
+  createTasks?(
+    env: AppEnv,
+    imageUrls: string[],
+  ): Promise<PromiseSettledResult<SearchTask>[]>;
+  /** Fetches the current state of a previously created task */
+  fetchTask(env: AppEnv, taskId: string): Promise<SearchResolution>;
+  /** Creates a task and waits (bounded) for its results */
+  resolve(env: AppEnv, imageUrl: string): Promise<SearchResolution>;
+}
+
+/** Provider used when neither the request nor env selects one */
+export const DEFAULT_SEARCH_PROVIDER = "dataforseo";
+
+/** Prefix for task IDs issued by the stub provider */
+const STUB_TASK_PREFIX = "stub-";
+
+/**
+ * Deterministic in-process provider for local development and demos.
+ * Never calls the network and resolves instantly.
+ */
+export const stubSearchProvider: SearchProvider = {
+  id: "stub",
+  cacheNamespace: "stub",
+  devOnly: true,
+
+  async createTask(_env, imageUrl) {
+    const digest = await sha256Hex(imageUrl);
+    return { taskId: `${STUB_TASK_PREFIX}${digest.slice(0, 16)}` };
+  },
+
+  async fetchTask(_env, taskId) {
+    return {
+      taskId,
+      status: "ready",
+      results: [
+        {
+          title: "Stub match",
+          pageUrl: `https://example.com/stub/${encodeURIComponent(taskId)}`,
+          imageUrl: "https://example.com/stub/image.jpg",
+          domain: "example.com",
+        },
+      ],
+    };
+  },
+
+  async resolve(env, imageUrl) {
+    const { taskId } = await this.createTask(env, imageUrl);
+    return this.fetchTask(env, taskId);
+  },
+};
+
+/**
+ * Registry of available providers keyed by ID
+ */
+const SEARCH_PROVIDERS: ReadonlyMap<string, SearchProvider> = new Map(
+  [
+    dataForSEOProvider,
+    dataForSEOBingProvider,
+    dataForSEOYandexProvider,
+    stubSearchProvider,
+  ].map((provider) => [provider.id, provider]),
+);
+
+/**
+ * Lists the IDs of all registered providers.
+ */
+export const listSearchProviders = (): string[] =>
+  Array.from(SEARCH_PROVIDERS.keys());
+
+/**
+ * Resolves the provider to use for a request.
+ *
+ * Priority order:
+ * 1. Provider explicitly requested by the client
+ * 2. `SEARCH_PROVIDER` environment variable
+ * 3. DataForSEO (default)
+ *
+ * @param env - Application environment
+ * @param requested - Optional provider ID from the request
+ * @returns The selected provider
+ * @throws ValidationError if the provider is unknown or not allowed here
+ *
+ * @example
+ * ```ts
+ * const provider = getSearchProvider(env, input.provider);
+ * const resolution = await provider.resolve(env, imageUrl);
+ * ```
+ */
+export const getSearchProvider = (
+  env: AppEnv,
+  requested?: string | null,
+): SearchProvider => {
+  const id = (requested || env.SEARCH_PROVIDER || DEFAULT_SEARCH_PROVIDER)
+    .trim()
+    .toLowerCase();
+  const provider = SEARCH_PROVIDERS.get(id);
+
+  if (!provider || (provider.devOnly && env.NODE_ENV === "production")) {
+    throw new ValidationError(`Unknown search provider: ${id}`, "provider");
+  }
+
+  return provider;
+};
@@ -0,0 +1,184 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  formatServerSentEvent,
+  runSearchStream,
+  SEARCH_TIMEOUT_CODE,
+  type SearchStreamEvent,
+} from "@/lib/search-stream";
+import type { SearchProvider, SearchResolution } from "@/lib/search-provider";
+import { CircuitBreakerOpenError } from "@/lib/circuit-breaker";
+import { createMockEnv } from "@/test/setup";
+
+const fastPolling = { initialDelayMs: 0, maxDelayMs: 0 };
+
+const match = (n: number) => ({
+  title: `Match ${n}`,
+  pageUrl: `https://example.com/${n}`,
+});
+
+const createProvider = (
+  ...resolutions: Array<SearchResolution | Error>
+): SearchProvider & { fetchTask: ReturnType<typeof vi.fn> } => {
+  const fetchTask = vi.fn();
+  for (const resolution of resolutions) {
+    if (resolution instanceof Error) {
+      fetchTask.mockRejectedValueOnce(resolution);
+    } else {
+      fetchTask.mockResolvedValueOnce(resolution);
+    }
+  }
+  return {
+    id: "test",
+    createTask: vi.fn(),
+    fetchTask,
+    resolve: vi.fn(),
+  };
+};
+
+const collect = () => {
+  const events: SearchStreamEvent[] = [];
+  return { events, emit: (event: SearchStreamEvent) => events.push(event) };
+};
+
+describe("formatServerSentEvent", () => {
+  it("writes the event name and JSON data", () => {
+    expect(
+      formatServerSentEvent({ type: "queued", taskId: "abc", provider: "stub" }),
+    ).toBe(
+      'event: queued\ndata: {"type":"queued","taskId":"abc","provider":"stub"}\n\n',
+    );
+  });
+});
+
+describe("runSearchStream", () => {
+  it("emits queued, polling and ready in order", async () => {
+    const provider = createProvider(
+      { taskId: "t1", status: "pending", results: [] },
+      { taskId: "t1", status: "ready", results: [match(1)], checkUrl: "https://check" },
+    );
+    const { events, emit } = collect();
+
+    const resolution = await runSearchStream(
+      createMockEnv(),
+      provider,
+      "t1",
+      emit,
+      fastPolling,
+    );
+
+    expect(events.map((event) => event.type)).toEqual([
+      "queued",
+      "polling",
+      "polling",
+      "ready",
+    ]);
+    expect(events[2]).toMatchObject({ attempt: 2 });
+    expect(events[3]).toMatchObject({
+      results: [match(1)],
+      checkUrl: "https://check",
+    });
+    expect(resolution?.results).toEqual([match(1)]);
+  });
+
+  it("emits partial results while the task is still pending", async () => {
+    const provider = createProvider(
+      { taskId: "t1", status: "pending", results: [match(1)] },
+      { taskId: "t1", status: "pending", results: [match(1)] },
+      { taskId: "t1", status: "ready", results: [match(1), match(2)] },
+    );
+    const { events, emit } = collect();
+
+    await runSearchStream(createMockEnv(), provider, "t1", emit, fastPolling);
+
+    expect(events.filter((event) => event.type === "partial")).toHaveLength(1);
+    expect(events.at(-1)?.type).toBe("ready");
+  });
+
+  it("presents emitted results without changing the resolution", async () => {
+    const provider = createProvider({
+      taskId: "t1",
+      status: "ready",
+      results: [match(1)],
+    });
+    const { events, emit } = collect();
+
+    const resolution = await runSearchStream(
+      createMockEnv(),
+      provider,
+      "t1",
+      emit,
+      {
+        ...fastPolling,
+        presentResults: async (results) =>
+          results.map((result) => ({ ...result, thumbnailUrl: "/thumb" })),
+      },
+    );
+
+    expect(events.at(-1)).toMatchObject({
+      type: "ready",
+      results: [{ ...match(1), thumbnailUrl: "/thumb" }],
+    });
+    expect(resolution?.results).toEqual([match(1)]);
+  });
+
+  it("emits failed with the public error when the provider throws", async () => {
+    const provider = createProvider(
+      new CircuitBreakerOpenError("Circuit breaker is open", 10),
+    );
+    const { events, emit } = collect();
+
+    const resolution = await runSearchStream(
+      createMockEnv(),
+      provider,
+      "t1",
+      emit,
+      fastPolling,
+    );
+
+    expect(resolution).toBeNull();
+    expect(events.at(-1)).toMatchObject({
+      type: "failed",
+      code: "SERVICE_UNAVAILABLE",
+      context: { retryAfter: 10 },
+    });
+  });
+
+  it("emits failed with a timeout code when attempts run out", async () => {
+    const pending = { taskId: "t1", status: "pending" as const, results: [] };
+    const provider = createProvider(pending, pending);
+    const { events, emit } = collect();
+
+    await runSearchStream(createMockEnv(), provider, "t1", emit, {
+      ...fastPolling,
+      maxAttempts: 2,
+    });
+
+    expect(provider.fetchTask).toHaveBeenCalledTimes(2);
+    expect(events.at(-1)).toMatchObject({
+      type: "failed",
+      code: SEARCH_TIMEOUT_CODE,
+    });
+  });
+
+  it("stops polling once aborted", async () => {
+    const controller = new AbortController();
+    const provider = createProvider();
+    provider.fetchTask.mockImplementation(async () => {
+      controller.abort();
+      return { taskId: "t1", status: "pending", results: [] };
+    });
+    const { events, emit } = collect();
+
+    const resolution = await runSearchStream(
+      createMockEnv(),
+      provider,
+      "t1",
+      emit,
+      { ...fastPolling, signal: controller.signal },
+    );
+
+    expect(resolution).toBeNull();
+    expect(provider.fetchTask).toHaveBeenCalledTimes(1);
+    expect(events.map((event) => event.type)).toEqual(["queued", "polling"]);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Search progress streaming
+ *
+ * Drives an existing search task to completion on the server and reports
+ * each status transition as a Server-Sent Event, so clients can subscribe
+ * to one stream instead of polling GET /api/search themselves.
+ */
+
+import type { AppEnv } from "@/lib/cf-env";
+import { POLLING_CONFIG } from "@/lib/dataforseo";
+import { errorToResponse } from "@/lib/errors";
+import type {
+  SearchProvider,
+  SearchResolution,
+  SearchResult,
+} from "@/lib/search-provider";
+
+/**
+ * Events pushed to subscribers, in the order they can occur:
+ * queued → polling (repeated) → partial (optional) → ready | failed
+ */
+export type SearchStreamEvent =
+  | { type: "queued"; taskId: string; provider: string }
+  | { type: "polling"; taskId: string; attempt: number; maxAttempts: number }
+  | {
+      type: "partial";
+      taskId: string;
+      results: SearchResult[];
+      checkUrl?: string;
+    }
+  | {
+      type: "ready";
+      taskId: string;
+      results: SearchResult[];
+      checkUrl?: string;
+      cached?: boolean;
+    }
+  | {
+      type: "failed";
+      taskId: string;
+      error: string;
+      code?: string;
+      context?: Record<string, unknown>;
+    };
+
+export type SearchStreamOptions = {
+  maxAttempts?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  maxTotalTimeMs?: number;
+  /** Stops polling when aborted (e.g. the client disconnected) */
+  signal?: AbortSignal;
+  /**
+   * Applied to the results of each emitted event only, for response-only
+   * fields; the returned resolution keeps the plain results
+   */
+  presentResults?: (results: SearchResult[]) => Promise<SearchResult[]>;
+};
+
+/** Error code sent when a task does not finish within the polling budget */
+export const SEARCH_TIMEOUT_CODE = "SEARCH_TIMEOUT";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Serializes an event in the text/event-stream wire format.
+ *
+ * @example
+ * ```ts
+ * formatServerSentEvent({ type: "queued", taskId: "abc", provider: "stub" });
+ * // => 'event: queued\ndata: {"type":"queued",...}\n\n'
+ * ```
+ */
+export const formatServerSentEvent = (event: SearchStreamEvent): string =>
+  `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+
+/**
+ * Polls a provider task until it is ready, emitting progress events.
+ *
+ * Uses the same adaptive backoff as pollSearchResults. Results that arrive
+ * while the provider still reports the task as pending are emitted as
+ * "partial" events. Errors and timeouts are reported as a "failed" event
+ * rather than thrown, since the stream has already started.
+ *
+ * @param env - Application environment
+ * @param provider - Provider that owns the task
+ * @param taskId - Task to follow
+ * @param emit - Receives each event as it happens
+ * @param options - Polling overrides and an abort signal
+ * @returns The final resolution once ready, or null on failure or abort
+ */
+export const runSearchStream = async (
+  env: AppEnv,
+  provider: SearchProvider,
+  taskId: string,
+  emit: (event: SearchStreamEvent) => void,
+  options: SearchStreamOptions = {},
+): Promise<SearchResolution | null> => {
+  const {
+    maxAttempts = POLLING_CONFIG.maxAttempts,
+    initialDelayMs = POLLING_CONFIG.initialDelayMs,
+    maxDelayMs = POLLING_CONFIG.maxDelayMs,
+    maxTotalTimeMs = POLLING_CONFIG.maxTotalTimeMs,
+    signal,
+    presentResults = async (results) => results,
+  } = options;
+
+  emit({ type: "queued", taskId, provider: provider.id });
+
+  const startTime = Date.now();
+  let currentDelay = initialDelayMs;
+  let partialCount = 0;
+
+  try {
+    for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
+      if (signal?.aborted) return null;
+      if (Date.now() - startTime >= maxTotalTimeMs) break;
+
+      emit({ type: "polling", taskId, attempt, maxAttempts });
+      const resolution = await provider.fetchTask(env, taskId);
+      if (signal?.aborted) return null;
+
+      if (resolution.status === "ready" && resolution.results.length > 0) {
+        const presented = await presentResults(resolution.results);
+        if (signal?.aborted) return null;
+        emit({
+          type: "ready",
+          taskId,
+          results: presented,
+          checkUrl: resolution.checkUrl,
+        });
+        return resolution;
+      }
+
+      if (resolution.results.length > partialCount) {
+        partialCount = resolution.results.length;
+        const presented = await presentResults(resolution.results);
+        if (signal?.aborted) return null;
+        emit({
+          type: "partial",
+          taskId,
+          results: presented,
+          checkUrl: resolution.checkUrl,
+        });
+      }
+
+      if (attempt < maxAttempts) {
+        await delay(currentDelay);
+        currentDelay = Math.min(
+          currentDelay * POLLING_CONFIG.backoffMultiplier,
+          maxDelayMs,
+        );
+      }
+    }
+  } catch (error) {
+    emit({ type: "failed", taskId, ...errorToResponse(error) });
+    return null;
+  }
+
+  emit({
+    type: "failed",
+    taskId,
+    error: "Search is taking longer than expected. Please try again shortly.",
+    code: SEARCH_TIMEOUT_CODE,
+  });
+  return null;
+};
@@ -0,0 +1,261 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// cf-env imports @cloudflare/next-on-pages, which only loads in the edge runtime
+vi.mock("@cloudflare/next-on-pages", () => ({
+  getRequestContext: vi.fn(() => {
+    throw new Error("No request context");
+  }),
+}));
+
+import {
+  assertSearchCallbacksEnabled,
+  completeSearchCallbacks,
+  getDeliveryLogs,
+  getSearchCallbacks,
+  outcomeFromStreamEvent,
+  registerSearchCallback,
+  sendSearchCallback,
+  signWebhookPayload,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  type SearchCallbackRegistration,
+} from "@/lib/search-webhooks";
+import { hmacSha256Hex } from "@/lib/crypto";
+import { SEARCH_TIMEOUT_CODE } from "@/lib/search-stream";
+import { ValidationError } from "@/lib/errors";
+import { createMockEnv, restoreFetch } from "@/test/setup";
+import type { AppEnv } from "@/lib/cf-env";
+
+const registration: SearchCallbackRegistration = {
+  callbackUrl: "https://hooks.example.com/search",
+  provider: "dataforseo",
+  createdAt: "2026-01-01T00:00:00.000Z",
+};
+
+const ready = {
+  status: "ready" as const,
+  results: [{ title: "Match", pageUrl: "https://example.com/page" }],
+};
+
+describe("search webhooks", () => {
+  let env: AppEnv;
+
+  beforeEach(() => {
+    env = { ...createMockEnv(), WEBHOOK_SECRET: "test-secret" };
+    // Skip retry backoff
+    vi.stubGlobal("setTimeout", (fn: () => void) => {
+      fn();
+      return 0 as unknown as NodeJS.Timeout;
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    restoreFetch();
+  });
+
+  describe("assertSearchCallbacksEnabled", () => {
+    it("throws when no signing secret is configured", () => {
+      expect(() =>
+        assertSearchCallbacksEnabled({ ...env, WEBHOOK_SECRET: undefined }),
+      ).toThrow(ValidationError);
+    });
+
+    it("passes when secret and KV are configured", () => {
+      expect(() => assertSearchCallbacksEnabled(env)).not.toThrow();
+    });
+  });
+
+  describe("signWebhookPayload", () => {
+    it("signs the timestamp and body together", async () => {
+      const signature = await signWebhookPayload("secret", '{"a":1}', 1700000000);
+      const expected = await hmacSha256Hex("secret", '1700000000.{"a":1}');
+      expect(signature).toBe(`t=1700000000,v1=${expected}`);
+    });
+  });
+
+  describe("registerSearchCallback", () => {
+    it("keeps one entry per callback URL", async () => {
+      const kv = env.KV_RATE_LIMIT!;
+      await registerSearchCallback(kv, "task-1", registration, 60);
+      await registerSearchCallback(kv, "task-1", registration, 60);
+      await registerSearchCallback(
+        kv,
+        "task-1",
+        { ...registration, callbackUrl: "https://other.example.com/hook" },
+        60,
+      );
+
+      const callbacks = await getSearchCallbacks(kv, "task-1");
+      expect(callbacks.map((entry) => entry.callbackUrl)).toEqual([
+        "https://hooks.example.com/search",
+        "https://other.example.com/hook",
+      ]);
+    });
+  });
+
+  describe("sendSearchCallback", () => {
+    it("POSTs a signed payload with the results", async () => {
+      const fetchSpy = vi.fn().mockResolvedValue(new Response("ok"));
+      global.fetch = fetchSpy;
+
+      const delivered = await sendSearchCallback(
+        env,
+        "task-1",
+        registration,
+        ready,
+      );
+
+      expect(delivered).toBe(true);
+      const [url, init] = fetchSpy.mock.calls[0] as [string, RequestInit];
+      expect(url).toBe("https://hooks.example.com/search");
+      expect(init.redirect).toBe("manual");
+
+      const headers = init.headers as Record<string, string>;
+      const body = init.body as string;
+      const [timestamp] = headers[WEBHOOK_SIGNATURE_HEADER]
+        .slice(2)
+        .split(",");
+      expect(headers[WEBHOOK_SIGNATURE_HEADER]).toBe(
+        await signWebhookPayload("test-secret", body, Number(timestamp)),
+      );
+      expect(JSON.parse(body)).toMatchObject({
+        event: "search.completed",
+        taskId: "task-1",
+        provider: "dataforseo",
+        status: "ready",
+        results: ready.results,
+        deliveryId: headers[WEBHOOK_DELIVERY_HEADER],
+      });
+    });
+
+    it("retries server errors and logs every attempt", async () => {
+      const fetchSpy = vi
+        .fn()
+        .mockResolvedValueOnce(new Response("down", { status: 503 }))
+        .mockResolvedValueOnce(new Response("ok", { status: 200 }));
+      global.fetch = fetchSpy;
+
+      const delivered = await sendSearchCallback(
+        env,
+        "task-1",
+        registration,
+        ready,
+      );
+
+      expect(delivered).toBe(true);
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+
+      const [log] = await getDeliveryLogs(env.KV_RATE_LIMIT!, "task-1");
+      expect(log).toMatchObject({
+        delivered: true,
+        callbackHost: "hooks.example.com",
+      });
+      expect(log.attempts.map((attempt) => attempt.status)).toEqual([503, 200]);
+    });
+
+    it("does not retry client errors", async () => {
+      const fetchSpy = vi
+        .fn()
+        .mockResolvedValue(new Response("gone", { status: 410 }));
+      global.fetch = fetchSpy;
+
+      const delivered = await sendSearchCallback(
+        env,
+        "task-1",
+        registration,
+        ready,
+      );
+
+      expect(delivered).toBe(false);
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it("gives up after repeated network errors", async () => {
+      const fetchSpy = vi.fn().mockRejectedValue(new Error("ECONNRESET"));
+      global.fetch = fetchSpy;
+
+      const delivered = await sendSearchCallback(
+        env,
+        "task-1",
+        registration,
+        ready,
+      );
+
+      expect(delivered).toBe(false);
+      expect(fetchSpy).toHaveBeenCalledTimes(3);
+      const [log] = await getDeliveryLogs(env.KV_RATE_LIMIT!, "task-1");
+      expect(log.attempts.every((attempt) => attempt.error === "ECONNRESET")).toBe(
+        true,
+      );
+    });
+
+    it("refuses callback URLs that are no longer public", async () => {
+      const fetchSpy = vi.fn();
+      global.fetch = fetchSpy;
+
+      const delivered = await sendSearchCallback(
+        env,
+        "task-1",
+        { ...registration, callbackUrl: "https://127.0.0.1/hook" },
+        ready,
+      );
+
+      expect(delivered).toBe(false);
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("completeSearchCallbacks", () => {
+    it("delivers once and clears the registration", async () => {
+      const fetchSpy = vi.fn().mockResolvedValue(new Response("ok"));
+      global.fetch = fetchSpy;
+      await registerSearchCallback(env.KV_RATE_LIMIT!, "task-1", registration, 60);
+
+      expect(await completeSearchCallbacks(env, "task-1", ready)).toBe(1);
+      expect(await completeSearchCallbacks(env, "task-1", ready)).toBe(0);
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it("sends a failure event", async () => {
+      const fetchSpy = vi.fn().mockResolvedValue(new Response("ok"));
+      global.fetch = fetchSpy;
+      await registerSearchCallback(env.KV_RATE_LIMIT!, "task-1", registration, 60);
+
+      await completeSearchCallbacks(env, "task-1", {
+        status: "failed",
+        error: "Task failed",
+        code: "DATAFORSEO_ERROR",
+      });
+
+      const body = JSON.parse(
+        (fetchSpy.mock.calls[0] as [string, RequestInit])[1].body as string,
+      );
+      expect(body).toMatchObject({
+        event: "search.failed",
+        status: "failed",
+        results: [],
+        error: "Task failed",
+      });
+    });
+  });
+
+  describe("outcomeFromStreamEvent", () => {
+    it("treats timeouts as non-terminal", () => {
+      expect(
+        outcomeFromStreamEvent({
+          type: "failed",
+          taskId: "task-1",
+          error: "slow",
+          code: SEARCH_TIMEOUT_CODE,
+        }),
+      ).toBeNull();
+    });
+
+    it("maps ready events to ready outcomes", () => {
+      expect(
+        outcomeFromStreamEvent({ type: "ready", taskId: "task-1", ...ready }),
+      ).toEqual({ ...ready, checkUrl: undefined });
+    });
+  });
+});
@@ -0,0 +1,447 @@
+/**
+ * Search completion webhooks
+ *
+ * Lets integrations register a callback URL with a search and be notified
+ * once its task is ready or has failed. Payloads are HMAC-signed with
+ * WEBHOOK_SECRET, delivered with retries, and every attempt is recorded in
+ * a KV delivery log.
+ *
+ * Delivery is at-least-once: KV is not transactional, so receivers should
+ * dedupe on the `X-Webhook-Delivery` header.
+ */
+
+import { runInBackground, type AppEnv } from "@/lib/cf-env";
+import { hmacSha256Hex } from "@/lib/crypto";
+import { ValidationError } from "@/lib/errors";
+import { createLogger } from "@/lib/logger";
+import type { SearchProvider, SearchResult } from "@/lib/search-provider";
+import {
+  runSearchStream,
+  SEARCH_TIMEOUT_CODE,
+  type SearchStreamEvent,
+} from "@/lib/search-stream";
+import { validatePublicCallbackUrl } from "@/lib/url-validation";
+
+const logger = createLogger("search:webhooks");
+
+/** Prefix for task ID to callback registration mappings */
+const CALLBACK_PREFIX = "callback:task" as const;
+
+/** Prefix for delivery logs */
+const DELIVERY_LOG_PREFIX = "callback:log" as const;
+
+/** Header carrying `t={unix seconds},v1={hex HMAC of "t.body"}` */
+export const WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature";
+
+/** Header carrying the event name */
+export const WEBHOOK_EVENT_HEADER = "X-Webhook-Event";
+
+/** Header carrying a unique ID per delivery (stable across retries) */
+export const WEBHOOK_DELIVERY_HEADER = "X-Webhook-Delivery";
+
+const MAX_DELIVERY_ATTEMPTS = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+const DELIVERY_TIMEOUT_MS = 10000;
+const DELIVERY_LOG_TTL_SECONDS = 60 * 60 * 24 * 7;
+
+/**
+ * Time budget for following a pending task in the background. Kept under
+ * the edge runtime's post-response `waitUntil` allowance; tasks that take
+ * longer are delivered when they are next polled or streamed.
+ */
+const FOLLOW_UP_MAX_TIME_MS = 25000;
+
+/**
+ * A callback URL registered for a task
+ */
+export type SearchCallbackRegistration = {
+  callbackUrl: string;
+  provider: string;
+  createdAt: string;
+};
+
+/**
+ * Terminal state of a task, as reported to callbacks
+ */
+export type SearchCallbackOutcome =
+  | { status: "ready"; results: SearchResult[]; checkUrl?: string }
+  | { status: "failed"; error: string; code?: string };
+
+/**
+ * JSON body POSTed to callback URLs
+ */
+export type SearchCallbackPayload = {
+  event: "search.completed" | "search.failed";
+  deliveryId: string;
+  taskId: string;
+  provider: string;
+  status: "ready" | "failed";
+  results: SearchResult[];
+  checkUrl?: string;
+  error?: string;
+  code?: string;
+  sentAt: string;
+};
+
+/**
+ * One HTTP attempt in a delivery log
+ */
+export type DeliveryAttempt = {
+  attempt: number;
+  at: string;
+  /** HTTP status returned by the receiver, if any */
+  status?: number;
+  error?: string;
+  durationMs: number;
+};
+
+/**
+ * Delivery log stored per task and callback
+ */
+export type DeliveryLog = {
+  deliveryId: string;
+  taskId: string;
+  event: SearchCallbackPayload["event"];
+  /** Receiver hostname only, to keep callback paths and tokens out of logs */
+  callbackHost: string;
+  attempts: DeliveryAttempt[];
+  delivered: boolean;
+  completedAt?: string;
+};
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const callbackKey = (taskId: string) => `${CALLBACK_PREFIX}:${taskId}`;
+
+const deliveryLogKey = (taskId: string) => `${DELIVERY_LOG_PREFIX}:${taskId}`;
+
+/**
+ * Ensures this deployment can sign and track callbacks.
+ *
+ * @throws ValidationError if WEBHOOK_SECRET or the KV binding is missing
+ */
+export const assertSearchCallbacksEnabled = (env: AppEnv): void => {
+  if (!env.WEBHOOK_SECRET || !env.KV_RATE_LIMIT) {
+    throw new ValidationError(
+      "Search callbacks are not enabled on this server.",
+      "callbackUrl",
+    );
+  }
+};
+
+/**
+ * Signs a webhook body.
+ *
+ * The signed message is `{timestamp}.{body}`, so receivers can reject
+ * replays by checking the timestamp.
+ *
+ * @example
+ * ```ts
+ * await signWebhookPayload("secret", body, 1700000000);
+ * // => "t=1700000000,v1=5f2b..."
+ * ```
+ */
+export const signWebhookPayload = async (
+  secret: string,
+  body: string,
+  timestamp: number,
+): Promise<string> =>
+  `t=${timestamp},v1=${await hmacSha256Hex(secret, `${timestamp}.${body}`)}`;
+
+/**
+ * Registers a callback URL to be notified when a task finishes.
+ *
+ * Several requests can share one task (deduplicated searches), so each
+ * task keeps a list of distinct callback URLs.
+ *
+ * @param kv - The Cloudflare KV namespace
+ * @param taskId - The provider task ID
+ * @param registration - Callback details
+ * @param ttlSeconds - How long to wait for the task before forgetting it
+ */
+export const registerSearchCallback = async (
+  kv: KVNamespace,
+  taskId: string,
+  registration: SearchCallbackRegistration,
+  ttlSeconds: number,
+): Promise<void> => {
+  const existing = await getSearchCallbacks(kv, taskId);
+  const registrations = [
+    ...existing.filter(
+      (entry) => entry.callbackUrl !== registration.callbackUrl,
+    ),
+    registration,
+  ];
+  await kv.put(callbackKey(taskId), JSON.stringify(registrations), {
+    expirationTtl: ttlSeconds,
+  });
+};
+
+/**
+ * Lists callbacks registered for a task.
+ */
+export const getSearchCallbacks = async (
+  kv: KVNamespace,
+  taskId: string,
+): Promise<SearchCallbackRegistration[]> => {
+  try {
+    const data = await kv.get(callbackKey(taskId), { type: "json" });
+    return Array.isArray(data) ? (data as SearchCallbackRegistration[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Retrieves delivery logs for a task, one per callback.
+ */
+export const getDeliveryLogs = async (
+  kv: KVNamespace,
+  taskId: string,
+): Promise<DeliveryLog[]> => {
+  try {
+    const data = await kv.get(deliveryLogKey(taskId), { type: "json" });
+    return Array.isArray(data) ? (data as DeliveryLog[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveDeliveryLog = async (kv: KVNamespace, log: DeliveryLog) => {
+  try {
+    const logs = await getDeliveryLogs(kv, log.taskId);
+    const others = logs.filter((entry) => entry.deliveryId !== log.deliveryId);
+    await kv.put(deliveryLogKey(log.taskId), JSON.stringify([...others, log]), {
+      expirationTtl: DELIVERY_LOG_TTL_SECONDS,
+    });
+  } catch (error) {
+    logger.warn("Failed to write webhook delivery log", {
+      taskId: log.taskId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+/**
+ * POSTs a signed payload to one callback, retrying transient failures
+ * with exponential backoff. Redirects are not followed, so a receiver
+ * cannot bounce the request to an internal address.
+ *
+ * @returns Whether the receiver acknowledged with a 2xx status
+ */
+export const sendSearchCallback = async (
+  env: AppEnv,
+  taskId: string,
+  registration: SearchCallbackRegistration,
+  outcome: SearchCallbackOutcome,
+): Promise<boolean> => {
+  const kv = env.KV_RATE_LIMIT;
+  const secret = env.WEBHOOK_SECRET;
+  if (!kv || !secret) return false;
+
+  const payload: SearchCallbackPayload = {
+    event: outcome.status === "ready" ? "search.completed" : "search.failed",
+    deliveryId: crypto.randomUUID(),
+    taskId,
+    provider: registration.provider,
+    status: outcome.status,
+    results: outcome.status === "ready" ? outcome.results : [],
+    checkUrl: outcome.status === "ready" ? outcome.checkUrl : undefined,
+    error: outcome.status === "failed" ? outcome.error : undefined,
+    code: outcome.status === "failed" ? outcome.code : undefined,
+    sentAt: new Date().toISOString(),
+  };
+  const body = JSON.stringify(payload);
+
+  const log: DeliveryLog = {
+    deliveryId: payload.deliveryId,
+    taskId,
+    event: payload.event,
+    callbackHost: "",
+    attempts: [],
+    delivered: false,
+  };
+
+  let url: string;
+  try {
+    url = validatePublicCallbackUrl(registration.callbackUrl);
+    log.callbackHost = new URL(url).hostname;
+  } catch (error) {
+    log.attempts.push({
+      attempt: 0,
+      at: new Date().toISOString(),
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: 0,
+    });
+    log.completedAt = new Date().toISOString();
+    await saveDeliveryLog(kv, log);
+    return false;
+  }
+
+  for (let attempt = 1; attempt <= MAX_DELIVERY_ATTEMPTS; attempt += 1) {
+    const start = Date.now();
+    const record: DeliveryAttempt = {
+      attempt,
+      at: new Date(start).toISOString(),
+      durationMs: 0,
+    };
+    let retryable = true;
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+
+    try {
+      const timestamp = Math.floor(start / 1000);
+      const response = await fetch(url, {
+        method: "POST",
+        redirect: "manual",
+        signal: controller.signal,
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "ImageSearchReverse-Webhook/1.0",
+          [WEBHOOK_EVENT_HEADER]: payload.event,
+          [WEBHOOK_DELIVERY_HEADER]: payload.deliveryId,
+          [WEBHOOK_SIGNATURE_HEADER]: await signWebhookPayload(
+            secret,
+            body,
+            timestamp,
+          ),
+        },
+        body,
+      });
+      record.status = response.status;
+      log.delivered = response.ok;
+      retryable = isRetryableStatus(response.status);
+    } catch (error) {
+      record.error =
+        error instanceof Error && error.name === "AbortError"
+          ? `Timed out after ${DELIVERY_TIMEOUT_MS}ms`
+          : error instanceof Error
+            ? error.message
+            : String(error);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    record.durationMs = Date.now() - start;
+    log.attempts.push(record);
+    await saveDeliveryLog(kv, log);
+
+    if (log.delivered || !retryable) break;
+    if (attempt < MAX_DELIVERY_ATTEMPTS) {
+      await delay(BASE_RETRY_DELAY_MS * Math.pow(2, attempt - 1));
+    }
+  }
+
+  log.completedAt = new Date().toISOString();
+  await saveDeliveryLog(kv, log);
+
+  if (!log.delivered) {
+    logger.warn("Webhook delivery failed", {
+      taskId,
+      callbackHost: log.callbackHost,
+      attempts: log.attempts.length,
+    });
+  }
+
+  return log.delivered;
+};
+
+/**
+ * Delivers a task's outcome to every callback registered for it.
+ *
+ * Registrations are removed before sending so concurrent pollers of the
+ * same task do not deliver twice.
+ *
+ * @returns Number of callbacks that acknowledged the delivery
+ */
+export const completeSearchCallbacks = async (
+  env: AppEnv,
+  taskId: string,
+  outcome: SearchCallbackOutcome,
+): Promise<number> => {
+  const kv = env.KV_RATE_LIMIT;
+  if (!kv || !env.WEBHOOK_SECRET) return 0;
+
+  const registrations = await getSearchCallbacks(kv, taskId);
+  if (registrations.length === 0) return 0;
+  await kv.delete(callbackKey(taskId));
+
+  const delivered = await Promise.all(
+    registrations.map((registration) =>
+      sendSearchCallback(env, taskId, registration, outcome),
+    ),
+  );
+  return delivered.filter(Boolean).length;
+};
+
+/**
+ * Runs completeSearchCallbacks after the response is sent.
+ */
+export const notifySearchCallbacks = (
+  env: AppEnv,
+  taskId: string,
+  outcome: SearchCallbackOutcome,
+): void => {
+  if (!env.KV_RATE_LIMIT || !env.WEBHOOK_SECRET) return;
+  runInBackground(
+    completeSearchCallbacks(env, taskId, outcome).catch((error) => {
+      logger.error("Webhook notification failed", error, { taskId });
+    }),
+  );
+};
+
+/**
+ * Maps a terminal stream event to a callback outcome.
+ *
+ * Timeouts are not terminal for the task itself, so they map to null and
+ * leave registrations in place for the next poll.
+ */
+export const outcomeFromStreamEvent = (
+  event: SearchStreamEvent | undefined,
+): SearchCallbackOutcome | null => {
+  if (event?.type === "ready") {
+    return { status: "ready", results: event.results, checkUrl: event.checkUrl };
+  }
+  if (event?.type === "failed" && event.code !== SEARCH_TIMEOUT_CODE) {
+    return { status: "failed", error: event.error, code: event.code };
+  }
+  return null;
+};
+
+/**
+ * Follows a pending task in the background and notifies its callbacks
+ * once it settles.
+ *
+ * Callers need no client connection: this is how integrations using
+ * `async: true` with a callbackUrl get notified.
+ */
+export const followSearchCallbacks = (
+  env: AppEnv,
+  provider: SearchProvider,
+  taskId: string,
+): void => {
+  runInBackground(
+    (async () => {
+      let terminal: SearchStreamEvent | undefined;
+      await runSearchStream(
+        env,
+        provider,
+        taskId,
+        (event) => {
+          terminal = event;
+        },
+        { maxTotalTimeMs: FOLLOW_UP_MAX_TIME_MS },
+      );
+
+      const outcome = outcomeFromStreamEvent(terminal);
+      if (outcome) {
+        await completeSearchCallbacks(env, taskId, outcome);
+      }
+    })().catch((error) => {
+      logger.error("Webhook follow-up failed", error, { taskId });
+    }),
+  );
+};
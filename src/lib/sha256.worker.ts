@@ -0,0 +1,34 @@
+/**
+ * Web Worker that computes SHA-256 hashes off the main thread, so hashing
+ * large images does not stall the page. Used through `hashFile`.
+ */
+
+import { sha256Hex } from "@/lib/crypto";
+
+/** Message sent to the worker */
+export type Sha256WorkerRequest = {
+  id: number;
+  buffer: ArrayBuffer;
+};
+
+/** Reply from the worker */
+export type Sha256WorkerResponse =
+  | { id: number; hash: string }
+  | { id: number; error: string };
+
+self.addEventListener(
+  "message",
+  async (event: MessageEvent<Sha256WorkerRequest>) => {
+    const { id, buffer } = event.data;
+    let response: Sha256WorkerResponse;
+    try {
+      response = { id, hash: await sha256Hex(buffer) };
+    } catch (error) {
+      response = {
+        id,
+        error: error instanceof Error ? error.message : "Hashing failed",
+      };
+    }
+    self.postMessage(response);
+  },
+);
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import {
+  firstSeen,
+  rankByOriginality,
+  scoreOriginality,
+} from "@/lib/source-attribution";
+
+describe("source-attribution", () => {
+  describe("firstSeen", () => {
+    it("uses the earlier of the publish date and engine timestamp", () => {
+      expect(
+        firstSeen({
+          pageUrl: "https://example.com/a",
+          publishedAt: "2019-05-04T00:00:00.000Z",
+          timestamp: "2021-01-01T00:00:00.000Z",
+        }),
+      ).toBe(Date.parse("2019-05-04T00:00:00.000Z"));
+      expect(firstSeen({ pageUrl: "https://example.com/b" })).toBe(Infinity);
+    });
+  });
+
+  describe("scoreOriginality", () => {
+    it("rewards the earliest date and the largest copy", () => {
+      const [early, late] = scoreOriginality([
+        {
+          pageUrl: "https://blog.example.com/post",
+          publishedAt: "2018-03-01T00:00:00.000Z",
+          imageWidth: 4000,
+          imageHeight: 3000,
+        },
+        {
+          pageUrl: "https://news.example.org/story",
+          timestamp: "2022-06-01T00:00:00.000Z",
+          imageWidth: 1000,
+          imageHeight: 750,
+        },
+      ]);
+
+      expect(early).toEqual({
+        score: 65,
+        signals: [
+          { label: "Earliest dated appearance (2018-03-01)", points: 40 },
+          { label: "Largest copy found (4000×3000)", points: 25 },
+        ],
+      });
+      expect(late.score).toBe(22);
+      expect(late.signals.map((signal) => signal.label)).toEqual([
+        "Dated 2022-06-01, #2 of 2 by date",
+        "1000×750, 6% of the largest copy",
+      ]);
+    });
+
+    it("scores stock, aggregator and self-hosted pages", () => {
+      const [stock, repost, selfHosted, undated] = scoreOriginality([
+        { pageUrl: "https://www.shutterstock.com/image-photo/123" },
+        {
+          pageUrl: "https://www.pinterest.co.uk/pin/1",
+          domain: "www.pinterest.co.uk",
+        },
+        {
+          pageUrl: "https://photographer.example/gallery",
+          imageUrl: "https://cdn.photographer.example/full.jpg",
+        },
+        { pageUrl: "not a url" },
+      ]);
+
+      expect(stock.score).toBe(20);
+      expect(repost.score).toBe(0);
+      expect(repost.signals).toContainEqual({
+        label: "Aggregator or social site, usually a repost",
+        points: -25,
+      });
+      expect(selfHosted.score).toBe(10);
+      expect(undated).toEqual({
+        score: 0,
+        signals: [{ label: "No date found", points: 0 }],
+      });
+    });
+  });
+
+  describe("rankByOriginality", () => {
+    it("sorts by score and keeps relevance order for ties", () => {
+      const ranked = rankByOriginality([
+        { pageUrl: "https://a.example/1", title: "first" },
+        { pageUrl: "https://b.example/2", title: "second" },
+        {
+          pageUrl: "https://c.example/3",
+          title: "dated",
+          timestamp: "2020-01-01T00:00:00.000Z",
+        },
+      ]);
+
+      expect(ranked.map((result) => result.title)).toEqual([
+        "dated",
+        "first",
+        "second",
+      ]);
+      expect(ranked[0].originality.score).toBe(40);
+    });
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * "Find the original" source attribution
+ *
+ * Scores search results by how likely each one is the original publisher
+ * of the image. Each score is built from a few signals, and every
+ * signal that applies is kept as a human-readable explanation:
+ *
+ * - Earliest known date (page publish date or engine timestamp)
+ * - Highest resolution copy of the image
+ * - Stock agencies and photographer portfolios
+ * - Aggregators and social sites, which mostly repost
+ * - Pages that serve the image from their own site
+ *
+ * Pure and dependency-free, so it runs in the browser as well.
+ */
+
+import type { SearchResult } from "@/lib/search-provider";
+
+/** Fields the scoring reads from a result */
+export type AttributableResult = Pick<
+  SearchResult,
+  | "pageUrl"
+  | "imageUrl"
+  | "domain"
+  | "imageWidth"
+  | "imageHeight"
+  | "timestamp"
+  | "publishedAt"
+>;
+
+/**
+ * One reason a result scored higher or lower
+ */
+export type OriginalitySignal = {
+  label: string;
+  /** Contribution to the score; negative for penalties */
+  points: number;
+};
+
+/**
+ * Originality score of one result, from 0 to 100
+ */
+export type OriginalityScore = {
+  score: number;
+  signals: OriginalitySignal[];
+};
+
+/** Lowest score shown under "Likely original" */
+export const LIKELY_ORIGINAL_MIN_SCORE = 35;
+
+/** Points for the earliest dated result; later dates get less */
+const DATE_POINTS = 40;
+
+/** Points for the largest copy; smaller copies get a share */
+const RESOLUTION_POINTS = 25;
+
+const STOCK_POINTS = 20;
+const AGGREGATOR_POINTS = -25;
+const SELF_HOSTED_POINTS = 10;
+
+/**
+ * Stock agencies and photographer portfolio sites. Entries ending in "."
+ * match any top-level domain (gettyimages.co.uk, pinterest.de, ...).
+ */
+const STOCK_DOMAINS = [
+  "shutterstock.com",
+  "gettyimages.",
+  "istockphoto.com",
+  "stock.adobe.com",
+  "alamy.com",
+  "dreamstime.com",
+  "depositphotos.com",
+  "123rf.com",
+  "unsplash.com",
+  "pexels.com",
+  "pixabay.com",
+  "flickr.com",
+  "500px.com",
+  "smugmug.com",
+  "behance.net",
+  "artstation.com",
+  "deviantart.com",
+];
+
+/** Sites that mostly repost images published elsewhere */
+const AGGREGATOR_DOMAINS = [
+  "pinterest.",
+  "pinimg.com",
+  "tumblr.com",
+  "reddit.com",
+  "imgur.com",
+  "facebook.com",
+  "instagram.com",
+  "twitter.com",
+  "x.com",
+  "weheartit.com",
+  "9gag.com",
+  "google.",
+  "bing.com",
+  "yandex.",
+];
+
+const hostnameOf = (value: string | undefined): string | undefined => {
+  if (!value) return undefined;
+  try {
+    return new URL(value).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+};
+
+const matchesDomain = (host: string, domains: string[]): boolean =>
+  domains.some((domain) => {
+    if (domain.endsWith(".")) {
+      const label = domain.slice(0, -1);
+      return new RegExp(`(^|\\.)${label.replace(/\./g, "\\.")}\\.`).test(host);
+    }
+    return host === domain || host.endsWith(`.${domain}`);
+  });
+
+/** Last two labels of a hostname ("cdn.example.com" → "example.com") */
+const siteOf = (host: string) => host.split(".").slice(-2).join(".");
+
+const formatDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * Earliest time a result is known to have existed: the page's own publish
+ * date or the engine's timestamp, whichever is earlier.
+ *
+ * @returns Epoch milliseconds, or Infinity when the result is undated
+ */
+export const firstSeen = (result: AttributableResult): number => {
+  const times = [result.publishedAt, result.timestamp]
+    .map((value) => (value ? Date.parse(value) : NaN))
+    .filter((time) => !Number.isNaN(time));
+  return times.length > 0 ? Math.min(...times) : Infinity;
+};
+
+/**
+ * Scores every result for originality relative to the others in the set.
+ * Dates and resolution are compared across results, so the same result
+ * can score differently in another result set.
+ *
+ * @returns Scores in the same order as `results`
+ *
+ * @example
+ * ```ts
+ * const [first] = scoreOriginality(results);
+ * first.score; // => 65
+ * first.signals[0].label; // => "Earliest dated appearance (2019-05-04)"
+ * ```
+ */
+export const scoreOriginality = (
+  results: AttributableResult[],
+): OriginalityScore[] => {
+  const dates = results.map(firstSeen);
+  const datedOrder = dates
+    .filter((time) => Number.isFinite(time))
+    .sort((a, b) => a - b);
+
+  const areas = results.map((result) =>
+    result.imageWidth && result.imageHeight
+      ? result.imageWidth * result.imageHeight
+      : 0,
+  );
+  const largestArea = Math.max(0, ...areas);
+
+  return results.map((result, index) => {
+    const signals: OriginalitySignal[] = [];
+
+    const time = dates[index];
+    if (Number.isFinite(time)) {
+      // Ties share the better rank
+      const rank = datedOrder.indexOf(time);
+      const points = Math.round(
+        (DATE_POINTS * (datedOrder.length - rank)) / datedOrder.length,
+      );
+      signals.push({
+        label:
+          rank === 0
+            ? `Earliest dated appearance (${formatDate(time)})`
+            : `Dated ${formatDate(time)}, #${rank + 1} of ${datedOrder.length} by date`,
+        points,
+      });
+    } else {
+      signals.push({ label: "No date found", points: 0 });
+    }
+
+    const area = areas[index];
+    if (area > 0) {
+      const size = `${result.imageWidth}×${result.imageHeight}`;
+      signals.push(
+        area === largestArea
+          ? { label: `Largest copy found (${size})`, points: RESOLUTION_POINTS }
+          : {
+              label: `${size}, ${Math.round((area / largestArea) * 100)}% of the largest copy`,
+              points: Math.round((RESOLUTION_POINTS * area) / largestArea),
+            },
+      );
+    }
+
+    const host = result.domain?.toLowerCase() || hostnameOf(result.pageUrl);
+    if (host) {
+      if (matchesDomain(host, STOCK_DOMAINS)) {
+        signals.push({
+          label: "Stock agency or photographer site",
+          points: STOCK_POINTS,
+        });
+      } else if (matchesDomain(host, AGGREGATOR_DOMAINS)) {
+        signals.push({
+          label: "Aggregator or social site, usually a repost",
+          points: AGGREGATOR_POINTS,
+        });
+      }
+
+      const imageHost = hostnameOf(result.imageUrl);
+      if (imageHost && siteOf(imageHost) === siteOf(host)) {
+        signals.push({
+          label: "Image served from the page's own site",
+          points: SELF_HOSTED_POINTS,
+        });
+      }
+    }
+
+    const total = signals.reduce((sum, signal) => sum + signal.points, 0);
+    return { score: Math.max(0, Math.min(100, total)), signals };
+  });
+};
+
+/**
+ * Attaches originality scores and sorts results from most to least likely
+ * original. Equal scores keep their relevance order.
+ */
+export const rankByOriginality = <T extends AttributableResult>(
+  results: T[],
+): Array<T & { originality: OriginalityScore }> => {
+  const scores = scoreOriginality(results);
+  return results
+    .map((result, index) => ({ ...result, originality: scores[index] }))
+    .sort((a, b) => b.originality.score - a.originality.score);
+};
@@ -0,0 +1,219 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  fetchThumbnail,
+  getCachedThumbnail,
+  MAX_THUMBNAIL_BYTES,
+  parseThumbnailRequest,
+  signThumbnailPath,
+  storeThumbnail,
+  THUMBNAIL_CACHE_TTL_SECONDS,
+  thumbnailHeaders,
+  thumbnailKey,
+  withThumbnailUrls,
+} from "@/lib/thumbnail-proxy";
+import {
+  AuthenticationError,
+  ServiceUnavailableError,
+  ValidationError,
+} from "@/lib/errors";
+import type { AppEnv } from "@/lib/cf-env";
+import { createMockEnv, MockR2Bucket, restoreFetch } from "@/test/setup";
+
+const PNG_BYTES = new Uint8Array([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0,
+]);
+
+/**
+ * Routes fetches by URL. HEAD requests come from the validateResolvedIP
+ * check and always succeed.
+ */
+const stubHosts = (routes: Record<string, () => Response>) => {
+  const fetchMock = vi.fn(
+    async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (init?.method === "HEAD") return new Response(null, { status: 200 });
+      const route = routes[String(input)];
+      return route ? route() : new Response("Not found", { status: 404 });
+    },
+  );
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+};
+
+describe("thumbnail-proxy", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  describe("signed thumbnail URLs", () => {
+    const env: AppEnv = {
+      ...createMockEnv(),
+      THUMBNAIL_SIGNING_SECRET: "secret",
+    };
+
+    const paramsOf = (path: string) =>
+      new URL(path, "https://example.com").searchParams;
+
+    it("signs public HTTPS URLs and verifies them", async () => {
+      const path = await signThumbnailPath(env, "https://cdn.example.com/a.png");
+      expect(path).toMatch(/^\/api\/thumb\?url=.+&sig=[a-f0-9]{64}$/);
+
+      await expect(parseThumbnailRequest(env, paramsOf(path!))).resolves.toBe(
+        "https://cdn.example.com/a.png",
+      );
+    });
+
+    it("rejects missing or forged signatures", async () => {
+      const params = paramsOf(
+        (await signThumbnailPath(env, "https://cdn.example.com/a.png"))!,
+      );
+      params.set("url", "https://cdn.example.com/b.png");
+      await expect(parseThumbnailRequest(env, params)).rejects.toThrow(
+        AuthenticationError,
+      );
+
+      params.delete("sig");
+      await expect(parseThumbnailRequest(env, params)).rejects.toThrow(
+        AuthenticationError,
+      );
+    });
+
+    it("rejects missing, insecure and private URLs", async () => {
+      for (const url of [
+        undefined,
+        "http://cdn.example.com/a.png",
+        "https://localhost/a.png",
+        "https://192.168.1.10/a.png",
+      ]) {
+        const params = new URLSearchParams(url ? { url } : {});
+        await expect(parseThumbnailRequest(env, params)).rejects.toThrow(
+          ValidationError,
+        );
+      }
+    });
+
+    it("is off without a signing secret", async () => {
+      const unsigned = createMockEnv();
+      const params = new URLSearchParams({
+        url: "https://cdn.example.com/a.png",
+        sig: "0".repeat(64),
+      });
+
+      expect(
+        await signThumbnailPath(unsigned, "https://cdn.example.com/a.png"),
+      ).toBeUndefined();
+      await expect(parseThumbnailRequest(unsigned, params)).rejects.toThrow(
+        ServiceUnavailableError,
+      );
+    });
+
+    it("adds thumbnail URLs to proxiable results only", async () => {
+      const [withImage, inline, withoutImage] = await withThumbnailUrls(env, [
+        { title: "a", imageUrl: "https://cdn.example.com/a.png" },
+        { title: "b", imageUrl: "data:image/png;base64,AAAA" },
+        { title: "c" },
+      ]);
+
+      expect(withImage.thumbnailUrl).toBe(
+        await signThumbnailPath(env, "https://cdn.example.com/a.png"),
+      );
+      expect(inline).not.toHaveProperty("thumbnailUrl");
+      expect(withoutImage).not.toHaveProperty("thumbnailUrl");
+    });
+  });
+
+  describe("fetchThumbnail", () => {
+    it("returns images by their detected type", async () => {
+      stubHosts({
+        "https://cdn.example.com/a": () =>
+          new Response(PNG_BYTES, { headers: { "Content-Type": "text/html" } }),
+      });
+
+      const thumbnail = await fetchThumbnail("https://cdn.example.com/a");
+
+      expect(thumbnail).toEqual({
+        ok: true,
+        bytes: PNG_BYTES,
+        type: "image/png",
+      });
+    });
+
+    it("refuses redirects to private hosts", async () => {
+      const fetchMock = stubHosts({
+        "https://cdn.example.com/hop": () =>
+          new Response(null, {
+            status: 302,
+            headers: { Location: "https://10.0.0.1/secret.png" },
+          }),
+      });
+
+      const thumbnail = await fetchThumbnail("https://cdn.example.com/hop");
+
+      expect(thumbnail).toMatchObject({ ok: false, status: 502 });
+      expect(
+        fetchMock.mock.calls.map(([input]) => String(input)),
+      ).not.toContain("https://10.0.0.1/secret.png");
+    });
+
+    it("refuses oversized bodies and non-raster types", async () => {
+      stubHosts({
+        "https://cdn.example.com/big": () =>
+          new Response(new Uint8Array(MAX_THUMBNAIL_BYTES + 1)),
+        "https://cdn.example.com/svg": () =>
+          new Response('<svg xmlns="http://www.w3.org/2000/svg"></svg>'),
+        "https://cdn.example.com/text": () => new Response("hello"),
+      });
+
+      expect(
+        await fetchThumbnail("https://cdn.example.com/big"),
+      ).toMatchObject({ ok: false, status: 413, reason: "too_large" });
+      expect(
+        await fetchThumbnail("https://cdn.example.com/svg"),
+      ).toMatchObject({ ok: false, status: 415 });
+      expect(
+        await fetchThumbnail("https://cdn.example.com/text"),
+      ).toMatchObject({ ok: false, status: 415 });
+      expect(
+        await fetchThumbnail("https://cdn.example.com/missing"),
+      ).toMatchObject({ ok: false, status: 502, reason: "upstream_error" });
+    });
+  });
+
+  describe("thumbnail cache", () => {
+    it("serves fresh entries and skips stale ones", async () => {
+      const bucket = new MockR2Bucket() as unknown as R2Bucket;
+      const url = "https://cdn.example.com/a.png";
+      const key = await thumbnailKey(url);
+      expect(key).toMatch(/^thumbs\/[a-f0-9]{64}$/);
+
+      await storeThumbnail(bucket, key, url, {
+        bytes: PNG_BYTES,
+        type: "image/png",
+        sha256: "a".repeat(64),
+      });
+
+      const cached = await getCachedThumbnail(bucket, key);
+      expect(cached?.httpMetadata?.contentType).toBe("image/png");
+      expect(cached?.customMetadata).toEqual({
+        sourceUrl: url,
+        sha256: "a".repeat(64),
+      });
+
+      const later = Date.now() + (THUMBNAIL_CACHE_TTL_SECONDS + 1) * 1000;
+      expect(await getCachedThumbnail(bucket, key, later)).toBeNull();
+    });
+  });
+
+  describe("thumbnailHeaders", () => {
+    it("locks the response down to an inert image", () => {
+      const headers = thumbnailHeaders("image/png", 12);
+
+      expect(Object.fromEntries(headers)).toMatchObject({
+        "content-type": "image/png",
+        "content-length": "12",
+        "content-security-policy": "default-src 'none'; sandbox",
+        "cross-origin-resource-policy": "same-origin",
+        "x-content-type-options": "nosniff",
+      });
+    });
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Result thumbnail proxy
+ *
+ * Result thumbnails live on third-party hosts. Loading them directly from
+ * the browser leaks users' IP addresses to those sites, trips hotlink
+ * protection and needs a permissive CSP, so `/api/thumb` fetches them on
+ * the server instead.
+ *
+ * The proxy only serves URLs the server handed out: search responses carry
+ * a `thumbnailUrl` whose `sig` is an HMAC of the image URL, so the route
+ * cannot be used to fetch arbitrary images.
+ *
+ * Thumbnails are fetched with fetchPublicUrl, capped at MAX_THUMBNAIL_BYTES
+ * and must be a raster image by their magic bytes. Fetched thumbnails are
+ * cached in R2 under `thumbs/{sha256(url)}`.
+ */
+
+import type { AppEnv } from "@/lib/cf-env";
+import { hmacSha256Hex, sha256Hex, timingSafeEqual } from "@/lib/crypto";
+import {
+  AuthenticationError,
+  ServiceUnavailableError,
+  ValidationError,
+} from "@/lib/errors";
+import { detectImageType, type ImageMimeType } from "@/lib/image";
+import { createLogger } from "@/lib/logger";
+import {
+  fetchPublicUrl,
+  readBodyPrefix,
+  validatePublicImageUrl,
+} from "@/lib/url-validation";
+
+const logger = createLogger("thumbnail-proxy");
+
+/** R2 prefix for cached thumbnails */
+export const THUMBNAIL_PREFIX = "thumbs/";
+
+/** Cached thumbnails older than this are fetched again (7 days) */
+export const THUMBNAIL_CACHE_TTL_SECONDS = 60 * 60 * 24 * 7;
+
+/** Largest thumbnail fetched */
+export const MAX_THUMBNAIL_BYTES = 2 * 1024 * 1024;
+
+/** Redirects followed per thumbnail */
+const MAX_REDIRECTS = 2;
+
+/** Per-hop fetch timeout */
+const FETCH_TIMEOUT_MS = 4000;
+
+/** Browser cache lifetime of proxied thumbnails (1 day) */
+const BROWSER_CACHE_SECONDS = 60 * 60 * 24;
+
+/**
+ * Types served by the proxy. SVG can carry scripts and the rest are not
+ * rendered by every browser, so only common raster formats pass.
+ */
+export const THUMBNAIL_TYPES: ReadonlySet<ImageMimeType> = new Set([
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "image/avif",
+]);
+
+const USER_AGENT =
+  "ImageSearchReverse/1.0 (+https://imagesearchreverse.com; thumbnail proxy)";
+
+/**
+ * Outcome of fetching a thumbnail
+ */
+export type FetchThumbnailResult =
+  | { ok: true; bytes: Uint8Array; type: ImageMimeType }
+  | {
+      ok: false;
+      status: 413 | 415 | 502;
+      error: string;
+      /** Log reason, e.g. "too_large" */
+      reason: string;
+    };
+
+const failure = (
+  status: 413 | 415 | 502,
+  error: string,
+  reason: string,
+): FetchThumbnailResult => ({ ok: false, status, error, reason });
+
+/**
+ * Signs a normalized thumbnail URL.
+ */
+const signThumbnailUrl = (secret: string, imageUrl: string) =>
+  hmacSha256Hex(secret, imageUrl);
+
+/**
+ * Builds the signed `/api/thumb` path for a thumbnail.
+ *
+ * @returns The path, or undefined when signing is not configured or the
+ *   URL could never be proxied (not public HTTPS)
+ *
+ * @example
+ * ```ts
+ * await signThumbnailPath(env, "https://cdn.example.com/a.png");
+ * // => "/api/thumb?url=https%3A%2F%2Fcdn.example.com%2Fa.png&sig=3f9c..."
+ * ```
+ */
+export const signThumbnailPath = async (
+  env: AppEnv,
+  imageUrl: string,
+): Promise<string | undefined> => {
+  if (!env.THUMBNAIL_SIGNING_SECRET) return undefined;
+
+  let url: string;
+  try {
+    url = validatePublicImageUrl(imageUrl);
+  } catch {
+    return undefined;
+  }
+  const params = new URLSearchParams({
+    url,
+    sig: await signThumbnailUrl(env.THUMBNAIL_SIGNING_SECRET, url),
+  });
+  return `/api/thumb?${params}`;
+};
+
+/**
+ * Adds a signed `thumbnailUrl` to each result that has a proxiable image.
+ * Applied to responses only, so cached results never carry signatures.
+ */
+export const withThumbnailUrls = <T extends { imageUrl?: string }>(
+  env: AppEnv,
+  results: T[],
+): Promise<Array<T & { thumbnailUrl?: string }>> =>
+  Promise.all(
+    results.map(async (result) => {
+      const thumbnailUrl = result.imageUrl
+        ? await signThumbnailPath(env, result.imageUrl)
+        : undefined;
+      return thumbnailUrl ? { ...result, thumbnailUrl } : result;
+    }),
+  );
+
+/**
+ * Parses the `url` and `sig` query parameters of a thumbnail request.
+ *
+ * @returns The normalized URL
+ * @throws {ValidationError} When the URL is missing, not HTTPS or points at
+ *   a private host
+ * @throws {AuthenticationError} When the signature does not match
+ * @throws {ServiceUnavailableError} When signing is not configured
+ */
+export const parseThumbnailRequest = async (
+  env: AppEnv,
+  params: URLSearchParams,
+): Promise<string> => {
+  const value = params.get("url");
+  if (!value) {
+    throw new ValidationError("Missing thumbnail URL.", "url");
+  }
+
+  let url: string;
+  try {
+    url = validatePublicImageUrl(value);
+  } catch (error) {
+    throw new ValidationError(
+      error instanceof Error ? error.message : "Invalid image URL.",
+      "url",
+    );
+  }
+
+  if (!env.THUMBNAIL_SIGNING_SECRET) {
+    throw new ServiceUnavailableError("Thumbnail proxy is not configured.");
+  }
+  const expected = await signThumbnailUrl(env.THUMBNAIL_SIGNING_SECRET, url);
+  if (!timingSafeEqual(params.get("sig") ?? "", expected)) {
+    throw new AuthenticationError("Invalid thumbnail signature.");
+  }
+  return url;
+};
+
+/**
+ * Fetches a thumbnail from a public HTTPS host.
+ *
+ * @param imageUrl - Thumbnail URL (validated again on every hop)
+ * @param maxBytes - Largest body accepted (default: MAX_THUMBNAIL_BYTES)
+ * @returns The bytes and detected type, or why the thumbnail was refused
+ *
+ * @example
+ * ```ts
+ * const thumbnail = await fetchThumbnail("https://example.com/thumb.jpg");
+ * if (thumbnail.ok) console.log(thumbnail.type); // "image/jpeg"
+ * ```
+ */
+export const fetchThumbnail = async (
+  imageUrl: string,
+  maxBytes = MAX_THUMBNAIL_BYTES,
+): Promise<FetchThumbnailResult> => {
+  try {
+    const fetched = await fetchPublicUrl(imageUrl, {
+      validate: validatePublicImageUrl,
+      maxRedirects: MAX_REDIRECTS,
+      timeoutMs: FETCH_TIMEOUT_MS,
+      headers: { Accept: "image/*", "User-Agent": USER_AGENT },
+    });
+    if (!fetched) {
+      return failure(502, "Thumbnail unavailable.", "too_many_redirects");
+    }
+
+    const { response } = fetched;
+    if (!response.ok) {
+      await response.body?.cancel();
+      return failure(502, "Thumbnail unavailable.", "upstream_error");
+    }
+    if (Number(response.headers.get("content-length")) > maxBytes) {
+      await response.body?.cancel();
+      return failure(413, "Thumbnail too large.", "too_large");
+    }
+
+    const { bytes, truncated } = await readBodyPrefix(response, maxBytes);
+    if (truncated) {
+      return failure(413, "Thumbnail too large.", "too_large");
+    }
+
+    // Never trust the upstream Content-Type
+    const type = detectImageType(bytes);
+    if (!type || !THUMBNAIL_TYPES.has(type)) {
+      return failure(415, "Unsupported thumbnail type.", "unsupported_type");
+    }
+    return { ok: true, bytes, type };
+  } catch (error) {
+    logger.debug("Thumbnail fetch failed", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return failure(502, "Thumbnail unavailable.", "fetch_failed");
+  }
+};
+
+/** R2 key of a cached thumbnail */
+export const thumbnailKey = async (imageUrl: string) =>
+  `${THUMBNAIL_PREFIX}${await sha256Hex(imageUrl)}`;
+
+/**
+ * Reads a cached thumbnail.
+ *
+ * @returns The object, or null when missing, stale or not a served type
+ */
+export const getCachedThumbnail = async (
+  bucket: R2Bucket,
+  key: string,
+  now = Date.now(),
+): Promise<R2ObjectBody | null> => {
+  const object = await bucket.get(key);
+  if (!object) return null;
+
+  const type = object.httpMetadata?.contentType as ImageMimeType | undefined;
+  const stale =
+    now - object.uploaded.getTime() > THUMBNAIL_CACHE_TTL_SECONDS * 1000;
+  if (stale || !type || !THUMBNAIL_TYPES.has(type)) {
+    await object.body.cancel();
+    return null;
+  }
+  return object;
+};
+
+/**
+ * Caches a fetched thumbnail with its SHA-256, so later hits can be checked
+ * against the moderation blocklist. Failures are logged, not thrown.
+ */
+export const storeThumbnail = async (
+  bucket: R2Bucket,
+  key: string,
+  imageUrl: string,
+  thumbnail: { bytes: Uint8Array; type: ImageMimeType; sha256: string },
+): Promise<void> => {
+  try {
+    await bucket.put(key, thumbnail.bytes, {
+      httpMetadata: { contentType: thumbnail.type },
+      customMetadata: {
+        sourceUrl: imageUrl.slice(0, 1024),
+        sha256: thumbnail.sha256,
+      },
+    });
+  } catch (error) {
+    logger.warn("Caching thumbnail failed", {
+      key,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+/**
+ * Response headers for a proxied thumbnail. The body is always an image
+ * of `type`, never rendered as a document, and never shared cross-origin.
+ */
+export const thumbnailHeaders = (type: string, size: number): Headers =>
+  new Headers({
+    "Content-Type": type,
+    "Content-Length": String(size),
+    "Cache-Control": `public, max-age=${BROWSER_CACHE_SECONDS}`,
+    "Content-Security-Policy": "default-src 'none'; sandbox",
+    "Content-Disposition": "inline",
+    "Cross-Origin-Resource-Policy": "same-origin",
+    "Referrer-Policy": "no-referrer",
+    "X-Content-Type-Options": "nosniff",
+  });
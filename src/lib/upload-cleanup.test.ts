@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@cloudflare/next-on-pages", () => ({
+  getRequestContext: vi.fn(() => ({ env: {} })),
+}));
+
+import { cleanupExpiredUploads, runUploadCleanup } from "./upload-cleanup";
+import { MockR2Bucket } from "@/test/setup";
+import type { AppEnv } from "./cf-env";
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date("2024-06-02T12:00:00Z");
+
+const putAt = async (bucket: MockR2Bucket, key: string, time: number) => {
+  vi.setSystemTime(time);
+  await bucket.put(key, new Uint8Array([1]));
+};
+
+describe("cleanupExpiredUploads", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("deletes uploads older than the retention period", async () => {
+    vi.useFakeTimers();
+    const bucket = new MockR2Bucket();
+    await putAt(bucket, "uploads/2024-06-01/old.jpg", NOW.getTime() - 25 * HOUR);
+    await putAt(bucket, "uploads/2024-06-02/new.jpg", NOW.getTime() - 2 * HOUR);
+    await putAt(bucket, "other/kept.jpg", NOW.getTime() - 100 * HOUR);
+
+    const result = await cleanupExpiredUploads(
+      bucket as unknown as R2Bucket,
+      { retentionHours: 24, now: NOW },
+    );
+
+    expect(result).toEqual({
+      scanned: 2,
+      deleted: 1,
+      cutoff: "2024-06-01T12:00:00.000Z",
+    });
+    expect(Array.from(bucket.store.keys()).sort()).toEqual([
+      "other/kept.jpg",
+      "uploads/2024-06-02/new.jpg",
+    ]);
+  });
+
+  it("deletes staged direct uploads that were never finalized", async () => {
+    vi.useFakeTimers();
+    const bucket = new MockR2Bucket();
+    await putAt(bucket, "incoming/abandoned.jpg", NOW.getTime() - 2 * HOUR);
+    await putAt(bucket, "incoming/pending.jpg", NOW.getTime() - 60 * 1000);
+
+    const result = await cleanupExpiredUploads(
+      bucket as unknown as R2Bucket,
+      { retentionHours: 24, now: NOW },
+    );
+
+    expect(result.deleted).toBe(1);
+    expect(Array.from(bucket.store.keys())).toEqual(["incoming/pending.jpg"]);
+  });
+
+  it("deletes cached thumbnails past their lifetime", async () => {
+    vi.useFakeTimers();
+    const bucket = new MockR2Bucket();
+    await putAt(bucket, "thumbs/stale", NOW.getTime() - 8 * 24 * HOUR);
+    await putAt(bucket, "thumbs/fresh", NOW.getTime() - 25 * HOUR);
+
+    const result = await cleanupExpiredUploads(
+      bucket as unknown as R2Bucket,
+      { retentionHours: 24, now: NOW },
+    );
+
+    expect(result.deleted).toBe(1);
+    expect(Array.from(bucket.store.keys())).toEqual(["thumbs/fresh"]);
+  });
+});
+
+describe("runUploadCleanup", () => {
+  it("uses UPLOAD_RETENTION_HOURS", async () => {
+    const bucket = new MockR2Bucket();
+    await bucket.put("uploads/2024-06-02/new.jpg", new Uint8Array([1]));
+
+    const result = await runUploadCleanup({
+      R2_BUCKET: bucket as unknown as R2Bucket,
+      UPLOAD_RETENTION_HOURS: "48",
+    } as AppEnv);
+
+    expect(result?.deleted).toBe(0);
+    expect(Date.now() - Date.parse(result!.cutoff)).toBeGreaterThanOrEqual(
+      48 * HOUR,
+    );
+  });
+
+  it("returns null without a bucket", async () => {
+    await expect(runUploadCleanup({} as AppEnv)).resolves.toBeNull();
+  });
+});
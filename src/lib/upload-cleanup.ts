@@ -0,0 +1,147 @@
+/**
+ * Scheduled cleanup of uploaded images
+ *
+ * Uploads are only needed while their search runs, so anything under
+ * `uploads/` older than `UPLOAD_RETENTION_HOURS` is deleted, along with
+ * direct uploads that were staged but never finalized and result
+ * thumbnails past their cache lifetime.
+ *
+ * Pages projects cannot run Cron Triggers, so deploy
+ * `uploadCleanupWorker` from a companion Worker bound to the same bucket,
+ * or call `POST /api/admin/uploads/cleanup` from any scheduler.
+ */
+
+import type { AppEnv } from "@/lib/cf-env";
+import { DIRECT_UPLOAD_TTL_SECONDS, STAGING_PREFIX } from "@/lib/direct-upload";
+import { createLogger } from "@/lib/logger";
+import {
+  THUMBNAIL_CACHE_TTL_SECONDS,
+  THUMBNAIL_PREFIX,
+} from "@/lib/thumbnail-proxy";
+import { getUploadRetentionHours, UPLOAD_PREFIX } from "@/lib/upload-storage";
+
+const logger = createLogger("upload-cleanup");
+
+/** Staged uploads are kept this long past their URL expiry for finalize */
+const STAGING_GRACE_MS = 60 * 60 * 1000;
+
+/** Keys per R2 list page (the API maximum) */
+const LIST_PAGE_SIZE = 1000;
+
+/**
+ * Counts from one cleanup run
+ */
+export type UploadCleanupResult = {
+  scanned: number;
+  deleted: number;
+  /** Uploads older than this were deleted */
+  cutoff: string;
+};
+
+const deleteOlderThan = async (
+  bucket: R2Bucket,
+  prefix: string,
+  cutoff: Date,
+): Promise<{ scanned: number; deleted: number }> => {
+  let scanned = 0;
+  let deleted = 0;
+  let cursor: string | undefined;
+
+  do {
+    const page = await bucket.list({ prefix, cursor, limit: LIST_PAGE_SIZE });
+    scanned += page.objects.length;
+
+    const expired = page.objects
+      .filter((object) => object.uploaded < cutoff)
+      .map((object) => object.key);
+    if (expired.length > 0) {
+      await bucket.delete(expired);
+      deleted += expired.length;
+    }
+
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+
+  return { scanned, deleted };
+};
+
+/**
+ * Deletes uploads older than the retention period, abandoned staged
+ * direct uploads and stale cached thumbnails.
+ *
+ * @param bucket - The upload bucket
+ * @param options - Retention in hours, and the current time (for tests)
+ * @returns How many objects were scanned and deleted
+ *
+ * @example
+ * ```ts
+ * const result = await cleanupExpiredUploads(env.R2_BUCKET, {
+ *   retentionHours: getUploadRetentionHours(env),
+ * });
+ * ```
+ */
+export const cleanupExpiredUploads = async (
+  bucket: R2Bucket,
+  options: { retentionHours: number; now?: Date },
+): Promise<UploadCleanupResult> => {
+  const now = options.now?.getTime() ?? Date.now();
+  const cutoff = new Date(now - options.retentionHours * 60 * 60 * 1000);
+  const stagingCutoff = new Date(
+    now - DIRECT_UPLOAD_TTL_SECONDS * 1000 - STAGING_GRACE_MS,
+  );
+  const thumbnailCutoff = new Date(now - THUMBNAIL_CACHE_TTL_SECONDS * 1000);
+
+  const uploads = await deleteOlderThan(bucket, UPLOAD_PREFIX, cutoff);
+  const staged = await deleteOlderThan(bucket, STAGING_PREFIX, stagingCutoff);
+  const thumbnails = await deleteOlderThan(
+    bucket,
+    THUMBNAIL_PREFIX,
+    thumbnailCutoff,
+  );
+
+  return {
+    scanned: uploads.scanned + staged.scanned + thumbnails.scanned,
+    deleted: uploads.deleted + staged.deleted + thumbnails.deleted,
+    cutoff: cutoff.toISOString(),
+  };
+};
+
+/**
+ * Runs cleanup with the environment's retention setting.
+ *
+ * @returns The result, or null when no bucket is bound
+ */
+export const runUploadCleanup = async (
+  env: AppEnv,
+): Promise<UploadCleanupResult | null> => {
+  if (!env.R2_BUCKET) {
+    logger.warn("Upload cleanup skipped: R2_BUCKET is not bound");
+    return null;
+  }
+
+  const result = await cleanupExpiredUploads(env.R2_BUCKET, {
+    retentionHours: getUploadRetentionHours(env),
+  });
+  logger.info("Upload cleanup finished", result);
+  return result;
+};
+
+/**
+ * Worker entry point for a Cron Trigger, e.g. `crons = ["0 * * * *"]`.
+ *
+ * @example
+ * ```ts
+ * // cleanup-worker.ts
+ * import { uploadCleanupWorker } from "./src/lib/upload-cleanup";
+ * export default uploadCleanupWorker;
+ * ```
+ */
+export const uploadCleanupWorker = {
+  async scheduled(
+    _controller: ScheduledController,
+    env: AppEnv,
+    ctx: ExecutionContext,
+  ): Promise<void> {
+    ctx.waitUntil(runUploadCleanup(env));
+  },
+};
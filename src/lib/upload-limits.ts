@@ -0,0 +1,123 @@
+/**
+ * Upload quotas shared by the upload routes
+ *
+ * API key requests are metered against the key's own quotas. Anonymous
+ * requests are checked against the per-IP `upload_quota` bucket and then
+ * the general `upload` bucket. Both `/api/upload` and direct-upload
+ * sessions (`/api/upload/presign`) count as one upload.
+ */
+
+import type { AppEnv } from "@/lib/cf-env";
+import {
+  apiKeyUsageHeaders,
+  checkApiKeyQuota,
+  type ApiKeyRecord,
+} from "@/lib/api-keys";
+import { enforceRateLimit, hasRateLimitStore } from "@/lib/durable-rate-limit";
+import { describeRateLimitReset, getRateLimitConfig } from "@/lib/rate-limit";
+
+/**
+ * Outcome of an upload quota check
+ */
+export type UploadLimitResult =
+  | {
+      allowed: true;
+      /** Quota headers to add to the response */
+      headers: Record<string, string>;
+    }
+  | {
+      allowed: false;
+      /** Message for the 429 response */
+      error: string;
+      resetAt: string;
+      headers: Record<string, string>;
+      /** Log reason, e.g. "upload_quota_exceeded" */
+      reason: string;
+    };
+
+const rateLimitHeaders = (rate: {
+  limit: number;
+  remaining: number;
+  resetAt: string;
+}): Record<string, string> => ({
+  "X-RateLimit-Limit": String(rate.limit),
+  "X-RateLimit-Remaining": String(rate.remaining),
+  "X-RateLimit-Reset": rate.resetAt,
+});
+
+/**
+ * Counts an upload against the caller's quotas.
+ *
+ * @param env - The application environment
+ * @param ip - Client IP, for anonymous requests
+ * @param apiKey - The authenticated API key, if any
+ * @returns Whether the upload may proceed, with headers for the response
+ *
+ * @example
+ * ```ts
+ * const limit = await checkUploadLimits(env, ip, apiKey);
+ * if (!limit.allowed) {
+ *   return NextResponse.json(
+ *     { error: limit.error, resetAt: limit.resetAt },
+ *     { status: 429, headers: limit.headers },
+ *   );
+ * }
+ * ```
+ */
+export const checkUploadLimits = async (
+  env: AppEnv,
+  ip: string,
+  apiKey: ApiKeyRecord | null,
+): Promise<UploadLimitResult> => {
+  if (apiKey && env.KV_RATE_LIMIT) {
+    const usage = await checkApiKeyQuota(env.KV_RATE_LIMIT, apiKey);
+    const headers = apiKeyUsageHeaders(usage);
+    if (!usage.allowed) {
+      return {
+        allowed: false,
+        error: "API key quota exceeded.",
+        resetAt: headers["X-RateLimit-Reset"],
+        headers,
+        reason: "api_key_quota_exceeded",
+      };
+    }
+    return { allowed: true, headers };
+  }
+
+  if (!hasRateLimitStore(env)) {
+    return { allowed: true, headers: {} };
+  }
+
+  // Check per-IP upload quota (separate from general rate limit)
+  const quotaConfig = getRateLimitConfig(env, "upload_quota");
+  const uploadQuota = await enforceRateLimit(
+    env,
+    ip,
+    "upload_quota",
+    quotaConfig,
+  );
+  if (!uploadQuota.allowed) {
+    return {
+      allowed: false,
+      error: `Upload quota reached. ${describeRateLimitReset(quotaConfig)}`,
+      resetAt: uploadQuota.resetAt,
+      headers: rateLimitHeaders(uploadQuota),
+      reason: "upload_quota_exceeded",
+    };
+  }
+
+  // Check general rate limit
+  const rateConfig = getRateLimitConfig(env, "upload");
+  const rate = await enforceRateLimit(env, ip, "upload", rateConfig);
+  if (!rate.allowed) {
+    return {
+      allowed: false,
+      error: `Upload limit reached. ${describeRateLimitReset(rateConfig)}`,
+      resetAt: rate.resetAt,
+      headers: rateLimitHeaders(rate),
+      reason: "rate_limited",
+    };
+  }
+
+  return { allowed: true, headers: rateLimitHeaders(rate) };
+};
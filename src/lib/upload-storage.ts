@@ -0,0 +1,390 @@
+/**
+ * Stores validated uploads in R2
+ *
+ * Shared by `/api/upload` and the direct-upload finalize step: converts
+ * formats search providers reject, optionally normalizes the image, and
+ * writes it under a content-addressed key so identical uploads dedupe.
+ *
+ * Uploads are temporary: each is returned with a deletion token for
+ * `DELETE /api/upload/{key}`, and `upload-cleanup` removes them once they
+ * are older than `UPLOAD_RETENTION_HOURS`.
+ */
+
+import type { AppEnv } from "@/lib/cf-env";
+import { sha256Hex, timingSafeEqual } from "@/lib/crypto";
+import {
+  extensionForType,
+  isSearchableImageType,
+  type ImageMimeType,
+} from "@/lib/image";
+import {
+  DEFAULT_NORMALIZE_MAX_DIMENSION,
+  getNormalizationConfig,
+  normalizeImage,
+  type NormalizedImage,
+} from "@/lib/image-normalization";
+import { createLogger, type TimingScope } from "@/lib/logger";
+import { enforceModeration } from "@/lib/moderation";
+import { hashImageBytes } from "@/lib/perceptual-hash";
+
+const logger = createLogger("upload-storage");
+
+/** R2 prefix for stored uploads */
+export const UPLOAD_PREFIX = "uploads/";
+
+/** Default hours an upload is kept before cleanup deletes it */
+export const DEFAULT_UPLOAD_RETENTION_HOURS = 24;
+
+/** Longest configurable retention (30 days) */
+const MAX_UPLOAD_RETENTION_HOURS = 720;
+
+const DELETION_TOKEN_BYTES = 24;
+
+const UPLOAD_KEY_PATTERN =
+  /^uploads\/\d{4}-\d{2}-\d{2}\/[a-f0-9]{64}\.[a-z]{3,4}$/;
+
+/**
+ * Image types accepted for upload (detected from magic bytes)
+ */
+export const UPLOAD_IMAGE_TYPES: ReadonlySet<string> = new Set([
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+  "image/avif",
+  "image/heic",
+  "image/bmp",
+  "image/tiff",
+  "image/svg+xml",
+]);
+
+/**
+ * Reads how long uploads are kept.
+ *
+ * @returns Hours from UPLOAD_RETENTION_HOURS, or the 24 hour default when
+ *   unset or invalid
+ */
+export const getUploadRetentionHours = (env: AppEnv): number => {
+  const raw = env.UPLOAD_RETENTION_HOURS;
+  if (!raw) {
+    return DEFAULT_UPLOAD_RETENTION_HOURS;
+  }
+
+  const hours = Number(raw);
+  if (
+    !Number.isInteger(hours) ||
+    hours < 1 ||
+    hours > MAX_UPLOAD_RETENTION_HOURS
+  ) {
+    logger.warn("Invalid UPLOAD_RETENTION_HOURS, using default", {
+      value: raw,
+      default: DEFAULT_UPLOAD_RETENTION_HOURS,
+    });
+    return DEFAULT_UPLOAD_RETENTION_HOURS;
+  }
+
+  return hours;
+};
+
+/**
+ * Whether a key names a stored upload (`uploads/{date}/{sha256}.{ext}`).
+ */
+export const isUploadKey = (key: string): boolean =>
+  UPLOAD_KEY_PATTERN.test(key);
+
+const createDeletionToken = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(DELETION_TOKEN_BYTES)))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+/**
+ * Checks a deletion token against the hash stored with an upload.
+ *
+ * @param object - The stored upload
+ * @param token - The token returned when it was uploaded
+ * @returns False when the token does not match or the upload has none
+ */
+export const verifyDeletionToken = async (
+  object: R2Object,
+  token: string,
+): Promise<boolean> => {
+  const expected = object.customMetadata?.deleteTokenHash;
+  if (!expected || !token) {
+    return false;
+  }
+  return timingSafeEqual(await sha256Hex(token), expected);
+};
+
+/**
+ * A validated image ready to store
+ */
+export type UploadInput = {
+  bytes: Uint8Array;
+  /** Type detected from the file's magic bytes */
+  detectedType: ImageMimeType;
+  /** Client-supplied file name, sanitized before storage */
+  originalName: string;
+};
+
+/**
+ * Outcome of storing an upload
+ */
+export type StoreUploadResult =
+  | {
+      ok: true;
+      key: string;
+      url: string;
+      /** SHA-256 of the stored bytes */
+      hash: string;
+      /** SHA-256 of the uploaded bytes, when normalization changed them */
+      originalHash?: string;
+      /** Uploaded type, when the image was converted */
+      originalType?: string;
+      /** True when an identical upload was already stored */
+      cached: boolean;
+      /**
+       * Token for `DELETE /api/upload/{key}`. Only issued to the first
+       * uploader; identical re-uploads share the stored object.
+       */
+      deleteToken?: string;
+      normalized: boolean;
+      storedSize: number;
+    }
+  | {
+      ok: false;
+      status: 415;
+      error: string;
+      /** Log reason, e.g. "normalization_failed" */
+      reason: string;
+    };
+
+/**
+ * Sanitize filename to prevent path traversal and injection attacks
+ */
+export const sanitizeFilename = (filename: string): string => {
+  if (!filename) return "unnamed";
+
+  // Remove any directory separators
+  let sanitized = filename.replace(/[\/\\]/g, "");
+
+  // Remove any null bytes
+  sanitized = sanitized.replace(/\0/g, "");
+
+  // Limit length to prevent DOS
+  if (sanitized.length > 255) {
+    sanitized = sanitized.substring(0, 255);
+  }
+
+  // Remove potentially dangerous characters
+  sanitized = sanitized.replace(/[<>:"|?*\x00-\x1f]/g, "");
+
+  return sanitized || "unnamed";
+};
+
+/**
+ * Builds the public URL of an R2 object.
+ *
+ * @param domain - The bucket's public domain, or empty to return the key
+ * @param key - The object key
+ */
+export const buildPublicUrl = (domain: string, key: string) => {
+  if (!domain) return key;
+  return domain.endsWith("/") ? `${domain}${key}` : `${domain}/${key}`;
+};
+
+/**
+ * Finds the upload a public URL points at.
+ *
+ * @param env - The application environment
+ * @param url - An image URL
+ * @returns The upload key, or null when the URL is not one of our uploads
+ */
+export const uploadKeyFromUrl = (env: AppEnv, url: string): string | null => {
+  const domain = env.NEXT_PUBLIC_R2_DOMAIN;
+  if (!domain) return null;
+
+  const prefix = buildPublicUrl(domain, "");
+  if (!url.startsWith(prefix)) return null;
+
+  const key = url.slice(prefix.length);
+  return isUploadKey(key) ? key : null;
+};
+
+/**
+ * Converts, normalizes and stores an upload at `uploads/{date}/{hash}.{ext}`.
+ *
+ * @param env - The application environment
+ * @param bucket - The R2 bucket to store in
+ * @param upload - The validated image
+ * @param context - Request ID and client IP for logs, and the route's
+ *   timing scope
+ * @returns The stored object, or a 415 failure when the image can't be
+ * converted or normalized
+ * @throws {ContentBlockedError} When the image matches the moderation
+ *   blocklist (it is quarantined instead of stored)
+ *
+ * @example
+ * ```ts
+ * const stored = await storeUpload(env, env.R2_BUCKET, {
+ *   bytes,
+ *   detectedType,
+ *   originalName: file.name,
+ * }, { requestId, timing });
+ * ```
+ */
+export const storeUpload = async (
+  env: AppEnv,
+  bucket: R2Bucket,
+  upload: UploadInput,
+  context: { requestId: string; ip?: string; timing: TimingScope },
+): Promise<StoreUploadResult> => {
+  const { bytes, detectedType } = upload;
+  const { requestId, timing } = context;
+
+  const hashStart = Date.now();
+  const originalHash = await sha256Hex(bytes);
+  timing.addMetric("hash", hashStart);
+
+  // Both hashes are computed here, so a blocked upload is safe to quarantine
+  let perceptualHash: string | null = null;
+  if (env.IMAGES) {
+    const perceptualHashStart = Date.now();
+    perceptualHash = await hashImageBytes(env.IMAGES, bytes).catch(() => null);
+    timing.addMetric("perceptualHash", perceptualHashStart);
+  }
+
+  const moderationStart = Date.now();
+  await enforceModeration(
+    env,
+    { sha256: originalHash, perceptualHash: perceptualHash ?? undefined },
+    {
+      source: "upload",
+      requestId,
+      ip: context.ip,
+      quarantine: { bytes, type: detectedType },
+    },
+  );
+  timing.addMetric("moderation", moderationStart);
+
+  // Formats search providers reject are converted before storage
+  const needsConversion = !isSearchableImageType(detectedType);
+  if (needsConversion && !env.IMAGES) {
+    return {
+      ok: false,
+      status: 415,
+      error:
+        "This image format can't be converted right now. Please upload a JPEG, PNG, WebP, or GIF image.",
+      reason: "conversion_unavailable",
+    };
+  }
+
+  // Optionally store an upright, downsized copy without EXIF/GPS metadata
+  let stored: NormalizedImage = { bytes, type: detectedType };
+  const normalization = getNormalizationConfig(env);
+  if ((normalization || needsConversion) && env.IMAGES) {
+    const normalizeStart = Date.now();
+    try {
+      stored = await normalizeImage(
+        env.IMAGES,
+        bytes,
+        detectedType,
+        normalization ?? { maxDimension: DEFAULT_NORMALIZE_MAX_DIMENSION },
+      );
+    } catch (error) {
+      logger.warn("Image normalization failed", {
+        requestId,
+        detectedType,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        ok: false,
+        status: 415,
+        error: "We couldn't process this image. Please try a different file.",
+        reason: "normalization_failed",
+      };
+    }
+    timing.addMetric("normalize", normalizeStart);
+  }
+
+  const normalized = stored.bytes !== bytes;
+  const hash = normalized ? await sha256Hex(stored.bytes) : originalHash;
+  const conversion: { originalType?: string } =
+    stored.type !== detectedType ? { originalType: detectedType } : {};
+
+  const extension = extensionForType(stored.type);
+  const datePrefix = new Date().toISOString().split("T")[0];
+  const key = `${UPLOAD_PREFIX}${datePrefix}/${hash}.${extension}`;
+  const url = buildPublicUrl(env.NEXT_PUBLIC_R2_DOMAIN ?? "", key);
+  const result = {
+    ok: true as const,
+    key,
+    url,
+    hash,
+    ...(normalized && { originalHash }),
+    ...conversion,
+    normalized,
+    storedSize: stored.bytes.length,
+  };
+
+  logger.debug("Uploading to R2", {
+    requestId,
+    key,
+    detectedType,
+  });
+
+  const uploadStart = Date.now();
+
+  // Check for hash collision (same hash already exists)
+  const existing = await bucket.head(key);
+  if (existing) {
+    logger.debug("File already exists (deduplication)", {
+      requestId,
+      key,
+      existingSize: existing.size,
+    });
+    return { ...result, cached: true };
+  }
+
+  // Content-addressed, but only cached for as long as it is kept
+  const retentionSeconds = getUploadRetentionHours(env) * 3600;
+  const deleteToken = createDeletionToken();
+
+  await bucket.put(key, stored.bytes, {
+    httpMetadata: {
+      contentType: stored.type,
+      cacheControl: `public, max-age=${retentionSeconds}, immutable`,
+    },
+    customMetadata: {
+      sha256: hash,
+      ...(normalized && {
+        originalSha256: originalHash,
+        normalizedSha256: hash,
+      }),
+      ...conversion,
+      // Sanitize metadata before storage
+      originalName: sanitizeFilename(upload.originalName),
+      uploadedAt: new Date().toISOString(),
+      deleteTokenHash: await sha256Hex(deleteToken),
+    },
+  });
+  timing.addMetric("r2Upload", uploadStart);
+
+  return { ...result, cached: false, deleteToken };
+};
+
+/**
+ * JSON body returned to the client for a stored upload
+ *
+ * @param stored - A successful {@link storeUpload} result
+ */
+export const uploadResponseBody = (
+  stored: Extract<StoreUploadResult, { ok: true }>,
+) => ({
+  key: stored.key,
+  url: stored.url,
+  hash: stored.hash,
+  ...(stored.originalHash && { originalHash: stored.originalHash }),
+  ...(stored.originalType && { originalType: stored.originalType }),
+  ...(stored.cached && { cached: true }),
+  ...(stored.deleteToken && { deleteToken: stored.deleteToken }),
+});
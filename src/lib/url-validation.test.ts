@@ -1,5 +1,11 @@
-import { describe, expect, it } from "vitest";
-import { validatePublicImageUrl } from "@/lib/url-validation";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  fetchPublicUrl,
+  readBodyPrefix,
+  validatePublicCallbackUrl,
+  validatePublicImageUrl,
+} from "@/lib/url-validation";
+import { restoreFetch } from "@/test/setup";
 
 describe("validatePublicImageUrl", () => {
   it("accepts public https URLs", () => {
@@ -83,3 +89,92 @@ describe("validatePublicImageUrl", () => {
     expect(url1).toBe(url2);
   });
 });
+
+describe("validatePublicCallbackUrl", () => {
+  it("accepts public https URLs", () => {
+    expect(validatePublicCallbackUrl("https://hooks.example.com/search")).toBe(
+      "https://hooks.example.com/search",
+    );
+  });
+
+  it("rejects private and metadata destinations", () => {
+    expect(() =>
+      validatePublicCallbackUrl("https://10.0.0.5/hook"),
+    ).toThrow("Callback URL must be publicly reachable.");
+    expect(() =>
+      validatePublicCallbackUrl("https://169.254.169.254/latest"),
+    ).toThrow("Callback URL must be publicly reachable.");
+  });
+
+  it("rejects non-https URLs", () => {
+    expect(() =>
+      validatePublicCallbackUrl("http://hooks.example.com/search"),
+    ).toThrow("Only HTTPS callback URLs are allowed.");
+  });
+});
+
+describe("fetchPublicUrl", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  const redirectTo = (location: string) =>
+    new Response(null, { status: 302, headers: { Location: location } });
+
+  it("follows redirects up to the limit", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+        if (init?.method === "HEAD") return new Response(null);
+        const url = String(input);
+        if (url.endsWith("/a")) return redirectTo("/b");
+        if (url.endsWith("/b")) return redirectTo("/c");
+        return new Response("done");
+      }),
+    );
+    const options = {
+      validate: validatePublicImageUrl,
+      maxRedirects: 2,
+      timeoutMs: 1000,
+    };
+
+    const fetched = await fetchPublicUrl("https://example.com/a", options);
+    expect(fetched?.url).toBe("https://example.com/c");
+    expect(
+      await fetchPublicUrl("https://example.com/a", {
+        ...options,
+        maxRedirects: 1,
+      }),
+    ).toBeNull();
+  });
+
+  it("validates every hop", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => redirectTo("https://169.254.169.254/latest")),
+    );
+
+    await expect(
+      fetchPublicUrl("https://example.com/a", {
+        validate: validatePublicImageUrl,
+        maxRedirects: 2,
+        timeoutMs: 1000,
+      }),
+    ).rejects.toThrow("Image URL must be publicly reachable.");
+  });
+});
+
+describe("readBodyPrefix", () => {
+  it("stops reading past the cap", async () => {
+    const body = new Response(new Uint8Array(10));
+
+    expect(await readBodyPrefix(body, 4)).toEqual({
+      bytes: new Uint8Array(4),
+      truncated: true,
+    });
+    expect(await readBodyPrefix(new Response("abc"), 4)).toEqual({
+      bytes: new TextEncoder().encode("abc"),
+      truncated: false,
+    });
+  });
+});
@@ -142,7 +142,11 @@ const isBlockedHostname = (hostname: string) => {
   return false;
 };
 
-export const validatePublicImageUrl = (value: string) => {
+/**
+ * Shared SSRF checks for user-supplied URLs
+ * `label` prefixes error messages (e.g. "Image", "Callback")
+ */
+const validatePublicUrl = (value: string, label: string) => {
   // Normalize URL encoding to prevent bypass attempts
   const normalized = normalizeUrlEncoding(value);
 
@@ -150,15 +154,15 @@ export const validatePublicImageUrl = (value: string) => {
   try {
     url = new URL(normalized);
   } catch {
-    throw new Error("Invalid image URL.");
+    throw new Error(`Invalid ${label.toLowerCase()} URL.`);
   }
 
   if (url.protocol !== "https:") {
-    throw new Error("Only HTTPS image URLs are allowed.");
+    throw new Error(`Only HTTPS ${label.toLowerCase()} URLs are allowed.`);
   }
 
   if (url.username || url.password) {
-    throw new Error("Image URLs cannot include credentials.");
+    throw new Error(`${label} URLs cannot include credentials.`);
   }
 
   // Additional DNS rebinding protection: check for dots in hostname
@@ -168,13 +172,30 @@ export const validatePublicImageUrl = (value: string) => {
   }
 
   if (isBlockedHostname(url.hostname)) {
-    throw new Error("Image URL must be publicly reachable.");
+    throw new Error(`${label} URL must be publicly reachable.`);
   }
 
   // Return normalized URL to prevent encoding variations
   return url.toString();
 };
 
+export const validatePublicImageUrl = (value: string) =>
+  validatePublicUrl(value, "Image");
+
+/**
+ * Validates a webhook callback URL with the same SSRF rules as image URLs.
+ * Callbacks are server-initiated POSTs, so they must never reach internal hosts.
+ */
+export const validatePublicCallbackUrl = (value: string) =>
+  validatePublicUrl(value, "Callback");
+
+/**
+ * Validates a search result page URL before the server fetches it for
+ * enrichment, with the same SSRF rules as image URLs.
+ */
+export const validatePublicPageUrl = (value: string) =>
+  validatePublicUrl(value, "Page");
+
 /**
  * DNS Rebinding Protection
  *
@@ -263,3 +284,102 @@ export async function validateResolvedIP(url: string): Promise<void> {
     // For other errors, let the main request handle them
   }
 }
+
+/**
+ * Options for fetchPublicUrl
+ */
+export type PublicFetchOptions = {
+  /** Validates and normalizes each URL, throwing to refuse it */
+  validate: (url: string) => string;
+  /** Redirects followed before giving up */
+  maxRedirects: number;
+  /** Per-hop fetch timeout */
+  timeoutMs: number;
+  headers?: HeadersInit;
+};
+
+/**
+ * Fetches a user-supplied URL from the server.
+ *
+ * Every hop is SSRF-checked (`validate` plus validateResolvedIP) and
+ * redirects are followed manually, so a public URL cannot bounce the
+ * request to an internal host.
+ *
+ * @param url - The URL to fetch
+ * @param options - How to validate hops and how long to wait
+ * @returns The first non-redirect response and the URL it came from, or
+ *   null when redirects ran out
+ * @throws When a hop fails validation or the fetch itself fails
+ *
+ * @example
+ * ```ts
+ * const fetched = await fetchPublicUrl(pageUrl, {
+ *   validate: validatePublicPageUrl,
+ *   maxRedirects: 3,
+ *   timeoutMs: 5000,
+ * });
+ * if (fetched?.response.ok) console.log(fetched.url);
+ * ```
+ */
+export const fetchPublicUrl = async (
+  url: string,
+  { validate, maxRedirects, timeoutMs, headers }: PublicFetchOptions,
+): Promise<{ response: Response; url: string } | null> => {
+  let current = validate(url);
+
+  for (let hop = 0; hop <= maxRedirects; hop++) {
+    await validateResolvedIP(current);
+    const response = await fetch(current, {
+      redirect: "manual",
+      signal: AbortSignal.timeout(timeoutMs),
+      headers,
+    });
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      current = validate(new URL(location, current).toString());
+      continue;
+    }
+    return { response, url: current };
+  }
+
+  return null;
+};
+
+/**
+ * Reads at most `maxBytes` of a response body and cancels the rest.
+ *
+ * @returns The bytes read, and whether the body went on past the cap
+ */
+export const readBodyPrefix = async (
+  response: Response,
+  maxBytes: number,
+): Promise<{ bytes: Uint8Array; truncated: boolean }> => {
+  if (!response.body) return { bytes: new Uint8Array(0), truncated: false };
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  let truncated = false;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    total += value.length;
+    if (total > maxBytes) {
+      truncated = true;
+      await reader.cancel().catch(() => undefined);
+      break;
+    }
+  }
+
+  const bytes = new Uint8Array(Math.min(total, maxBytes));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, bytes.length - offset);
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return { bytes, truncated };
+};
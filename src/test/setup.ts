@@ -1,4 +1,5 @@
 import { vi } from "vitest";
+import type { NextRequest } from "next/server";
 import type { AppEnv } from "@/lib/cf-env";
 
 /**
@@ -124,20 +125,45 @@ export class MockKVNamespace {
     this.store.delete(key);
   }
 
-  async list(): Promise<{
-    keys: Array<{ name: string }>;
+  async list(options?: KVNamespaceListOptions): Promise<{
+    keys: Array<{ name: string; expiration?: number; metadata?: unknown }>;
     list_complete: boolean;
     cursor: string;
   }> {
+    const prefix = options?.prefix ?? "";
+    const matching = Array.from(this.store.entries())
+      .filter(
+        ([name, entry]) =>
+          name.startsWith(prefix) &&
+          !(entry.expiration && entry.expiration < Date.now()),
+      )
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    // Cursors are the last key returned, so deletes between pages are safe
+    const cursor = options?.cursor;
+    const remaining = cursor
+      ? matching.filter(([name]) => name > cursor)
+      : matching;
+    const page = remaining.slice(0, options?.limit ?? 1000);
+    const complete = page.length === remaining.length;
     return {
-      keys: Array.from(this.store.keys()).map((name) => ({ name })),
-      list_complete: true,
-      cursor: "",
+      keys: page.map(([name, entry]) => ({
+        name,
+        ...(entry.expiration && {
+          expiration: Math.floor(entry.expiration / 1000),
+        }),
+        ...(entry.metadata !== undefined && { metadata: entry.metadata }),
+      })),
+      list_complete: complete,
+      cursor: complete ? "" : page[page.length - 1][0],
     };
   }
 
-  getWithMetadata(): never {
-    throw new Error("Method not implemented.");
+  async getWithMetadata<Metadata = unknown>(
+    key: string,
+  ): Promise<{ value: string | null; metadata: Metadata | null }> {
+    const value = (await this.get(key)) as string | null;
+    const metadata = value === null ? undefined : this.store.get(key)?.metadata;
+    return { value, metadata: (metadata as Metadata | undefined) ?? null };
   }
 }
 
@@ -149,17 +175,19 @@ export class MockR2Bucket {
   public store = new Map<string, Uint8Array>();
   private metadataStore = new Map<
     string,
-    { httpMetadata?: unknown; customMetadata?: unknown }
+    { httpMetadata?: unknown; customMetadata?: unknown; uploaded: Date }
   >();
 
   async put(
     key: string,
-    value: R2Object | ReadableStream | ArrayBuffer | string,
+    value: R2Object | ReadableStream | ArrayBuffer | ArrayBufferView | string,
     options?: R2PutOptions,
   ): Promise<R2Object> {
     let data: Uint8Array;
     if (value instanceof ArrayBuffer) {
       data = new Uint8Array(value);
+    } else if (ArrayBuffer.isView(value)) {
+      data = new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
     } else if (typeof value === "string") {
       data = new TextEncoder().encode(value);
     } else if (value instanceof ReadableStream) {
@@ -183,12 +211,11 @@ export class MockR2Bucket {
     }
 
     this.store.set(key, data);
-    if (options) {
-      this.metadataStore.set(key, {
-        httpMetadata: options.httpMetadata,
-        customMetadata: options.customMetadata,
-      });
-    }
+    this.metadataStore.set(key, {
+      httpMetadata: options?.httpMetadata,
+      customMetadata: options?.customMetadata,
+      uploaded: new Date(),
+    });
 
     return {
       key,
@@ -210,7 +237,7 @@ export class MockR2Bucket {
     return {
       key,
       size: data.length,
-      uploaded: new Date(),
+      uploaded: metadata?.uploaded ?? new Date(),
       version: "test-version",
       httpEtag: "test-etag",
       etag: "test-etag",
@@ -222,7 +249,7 @@ export class MockR2Bucket {
     } as unknown as R2Object;
   }
 
-  async get(key: string): Promise<R2Object | null> {
+  async get(key: string): Promise<R2ObjectBody | null> {
     const data = this.store.get(key);
     if (!data) return null;
     const metadata = this.metadataStore.get(key);
@@ -230,7 +257,7 @@ export class MockR2Bucket {
     return {
       key,
       size: data.length,
-      uploaded: new Date(),
+      uploaded: metadata?.uploaded ?? new Date(),
       version: "test-version",
       httpEtag: "test-etag",
       etag: "test-etag",
@@ -239,7 +266,9 @@ export class MockR2Bucket {
       httpMetadata: metadata?.httpMetadata as R2HTTPMetadata,
       customMetadata: metadata?.customMetadata as Record<string, string>,
       writeHttpMetadata: () => {},
-    } as unknown as R2Object;
+      body: new Response(data.slice()).body,
+      arrayBuffer: async () => data.slice().buffer,
+    } as unknown as R2ObjectBody;
   }
 
   async delete(keys: string[] | string[]): Promise<void> {
@@ -250,15 +279,19 @@ export class MockR2Bucket {
     }
   }
 
-  async list(): Promise<{
-    objects: Array<{ key: string; size: number }>;
+  async list(options?: R2ListOptions): Promise<{
+    objects: Array<{ key: string; size: number; uploaded: Date }>;
     truncated: boolean;
   }> {
+    const prefix = options?.prefix ?? "";
     return {
-      objects: Array.from(this.store.entries()).map(([key, data]) => ({
-        key,
-        size: data.length,
-      })),
+      objects: Array.from(this.store.entries())
+        .filter(([key]) => key.startsWith(prefix))
+        .map(([key, data]) => ({
+          key,
+          size: data.length,
+          uploaded: this.metadataStore.get(key)?.uploaded ?? new Date(),
+        })),
       truncated: false,
     };
   }
@@ -272,6 +305,83 @@ export class MockR2Bucket {
   }
 }
 
+/**
+ * In-memory stand-in for Durable Object storage
+ */
+export class MockDurableObjectStorage {
+  // Public store for test assertions
+  public store = new Map<string, unknown>();
+  public alarm: number | null = null;
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    return this.store.get(key) as T | undefined;
+  }
+
+  async put(key: string, value: unknown): Promise<void> {
+    this.store.set(key, value);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.store.delete(key);
+  }
+
+  async deleteAll(): Promise<void> {
+    this.store.clear();
+  }
+
+  async setAlarm(scheduledTime: number | Date): Promise<void> {
+    this.alarm =
+      typeof scheduledTime === "number" ? scheduledTime : scheduledTime.getTime();
+  }
+
+  async getAlarm(): Promise<number | null> {
+    return this.alarm;
+  }
+}
+
+/**
+ * In-memory stand-in for a Durable Object namespace.
+ * Creates one object per name and, like the runtime, delivers requests to
+ * each object one at a time.
+ */
+export class MockDurableObjectNamespace<
+  T extends { fetch(request: Request): Promise<Response> },
+> {
+  // Public instances for test assertions
+  public instances = new Map<
+    string,
+    { object: T; storage: MockDurableObjectStorage; queue: Promise<unknown> }
+  >();
+
+  constructor(private readonly create: (state: DurableObjectState) => T) {}
+
+  idFromName(name: string): DurableObjectId {
+    return { name, toString: () => name } as unknown as DurableObjectId;
+  }
+
+  get(id: DurableObjectId): DurableObjectStub {
+    const name = id.toString();
+    let instance = this.instances.get(name);
+    if (!instance) {
+      const storage = new MockDurableObjectStorage();
+      const object = this.create({ storage } as unknown as DurableObjectState);
+      instance = { object, storage, queue: Promise.resolve() };
+      this.instances.set(name, instance);
+    }
+
+    const entry = instance;
+    return {
+      fetch: (input: RequestInfo | URL, init?: RequestInit) => {
+        const run = entry.queue.then(() =>
+          entry.object.fetch(new Request(input, init)),
+        );
+        entry.queue = run.catch(() => undefined);
+        return run;
+      },
+    } as unknown as DurableObjectStub;
+  }
+}
+
 /**
  * Create mock environment variables
  */
@@ -308,7 +418,7 @@ export const createMockRequest = (
     cfConnectingIp?: string;
     xForwardedFor?: string;
   } = {},
-): Request & { nextUrl: URL } => {
+): NextRequest => {
   const {
     url = "https://example.com",
     method = "GET",
@@ -342,7 +452,7 @@ export const createMockRequest = (
     writable: false,
   });
 
-  return request as Request & { nextUrl: URL };
+  return request as NextRequest;
 };
 
 /**